@@ -1,11 +1,30 @@
+const { execSync } = require('child_process');
+
+// Identifies the deploy in field Web Vitals (src/utils/webVitals.ts):
+// BUILD_ID when the pipeline sets one, otherwise the current commit
+const getBuildId = () => {
+  if (process.env.BUILD_ID) return process.env.BUILD_ID;
+  try {
+    return execSync('git rev-parse --short HEAD', { stdio: ['ignore', 'pipe', 'ignore'] }).toString().trim();
+  } catch {
+    return 'dev';
+  }
+};
+
 /** @type {import('next').NextConfig} */
 const nextConfig = {
   // App Router artık varsayılan olarak aktif
+
+  env: {
+    NEXT_PUBLIC_BUILD_ID: getBuildId(),
+  },
   
   // Performance optimizations
   experimental: {
     optimizeCss: true,
     gzipSize: true,
+    // jsPDF's Node build is used by /api/catalog.pdf
+    serverComponentsExternalPackages: ['jspdf'],
   },
   
   // Compression
@@ -68,6 +87,13 @@ const nextConfig = {
 
   // Bundle optimization
   webpack: (config, { buildId, dev, isServer, defaultLoaders, webpack }) => {
+    // Source maps for symbolicating client error reports (src/lib/sourceMaps.ts).
+    // "hidden" leaves out the sourceMappingURL comment; postbuild moves the
+    // maps out of .next/static so they are never served.
+    if (!dev && !isServer) {
+      config.devtool = 'hidden-source-map';
+    }
+
     // Optimize chunks
     if (!dev && !isServer) {
       config.optimization = {
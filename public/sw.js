@@ -273,46 +273,37 @@ async function getOfflineFallback(request) {
   return new Response('Offline', { status: 503 });
 }
 
-// Background sync for analytics
+// Background sync for buffered error reports and analytics events.
+// The outbox lives in the page's localStorage, which workers cannot read,
+// so an open tab is asked to flush it (telemetryQueue.ts). Failing the sync
+// makes the browser retry it later, with its own backoff.
+const TELEMETRY_SYNC_TAG = 'telemetry-sync';
+
 self.addEventListener('sync', (event) => {
-  if (event.tag === 'analytics-sync') {
-    event.waitUntil(syncAnalytics());
+  if (event.tag === TELEMETRY_SYNC_TAG) {
+    event.waitUntil(syncTelemetry());
   }
 });
 
-async function syncAnalytics() {
-  try {
-    // Get pending analytics data from IndexedDB or localStorage
-    const pendingData = await getPendingAnalytics();
-    
-    for (const data of pendingData) {
-      try {
-        await fetch('/api/analytics', {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify(data)
-        });
-        
-        // Remove from pending queue
-        await removePendingAnalytics(data.id);
-      } catch (error) {
-        console.error('[SW] Failed to sync analytics:', error);
-      }
-    }
-  } catch (error) {
-    console.error('[SW] Background sync failed:', error);
+async function syncTelemetry() {
+  const windows = await self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+  if (windows.length === 0) {
+    throw new Error('No open page to flush telemetry');
   }
-}
 
-async function getPendingAnalytics() {
-  // This would typically read from IndexedDB
-  // For now, return empty array
-  return [];
-}
+  const remaining = await new Promise((resolve) => {
+    const channel = new MessageChannel();
+    const timeout = setTimeout(() => resolve(-1), 20000);
+    channel.port1.onmessage = (event) => {
+      clearTimeout(timeout);
+      resolve(event.data.remaining);
+    };
+    windows[0].postMessage({ type: 'FLUSH_TELEMETRY' }, [channel.port2]);
+  });
 
-async function removePendingAnalytics(id) {
-  // This would typically remove from IndexedDB
-  console.log('[SW] Removing pending analytics:', id);
+  if (remaining !== 0) {
+    throw new Error('Telemetry not fully flushed');
+  }
 }
 
 // Push notifications (for future use)
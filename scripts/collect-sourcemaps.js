@@ -0,0 +1,42 @@
+#!/usr/bin/env node
+// Moves the source maps of a production build out of .next/static,
+// which is served publicly, into SOURCEMAP_DIR (default .sourcemaps), where
+// only the error logging API reads them (src/lib/sourceMaps.ts).
+//
+//   npm run build    runs this as postbuild
+//
+// Chunk names carry content hashes, so maps of earlier builds are kept:
+// visitors with an old tab open still report errors against old chunks.
+
+const fs = require('fs');
+const path = require('path');
+
+const ROOT = path.join(__dirname, '..');
+const STATIC_DIR = path.join(ROOT, '.next', 'static');
+const SOURCEMAP_DIR = process.env.SOURCEMAP_DIR || path.join(ROOT, '.sourcemaps');
+
+function collect(dir) {
+  let moved = 0;
+  for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+    const file = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      moved += collect(file);
+    } else if (entry.name.endsWith('.map')) {
+      // Same path as the chunk URL: /_next/static/chunks/... -> SOURCEMAP_DIR/_next/static/chunks/...
+      const target = path.join(SOURCEMAP_DIR, '_next', 'static', path.relative(STATIC_DIR, file));
+      fs.mkdirSync(path.dirname(target), { recursive: true });
+      fs.copyFileSync(file, target);
+      fs.unlinkSync(file);
+      moved += 1;
+    }
+  }
+  return moved;
+}
+
+if (!fs.existsSync(STATIC_DIR)) {
+  console.error('No .next/static found - run next build first');
+  process.exit(1);
+}
+
+const moved = collect(STATIC_DIR);
+console.log(`Moved ${moved} source map(s) to ${path.relative(ROOT, SOURCEMAP_DIR) || SOURCEMAP_DIR}`);
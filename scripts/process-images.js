@@ -0,0 +1,171 @@
+#!/usr/bin/env node
+// Image ingestion: turns original photos into responsive AVIF/WebP
+// renditions plus a manifest the image components read.
+//
+//   npm run images                      process everything in SOURCE_DIR
+//   npm run images -- ~/Foto/Yeni.JPG   add new originals, then process
+//
+// New originals are copied into SOURCE_DIR under a normalized name
+// ("Leon Köz 2.JPG" -> "leon-koz-2.jpg"). Existing originals keep their
+// name, because products and projects reference them by path; only their
+// renditions get normalized names. Unchanged originals are skipped, so
+// running it again (it also runs before every build and dev server, since
+// neither the renditions nor the manifest are committed) is cheap.
+
+const { createHash } = require('crypto');
+const fs = require('fs');
+const path = require('path');
+const sharp = require('sharp');
+const nextConfig = require('../next.config.js');
+
+const ROOT = path.join(__dirname, '..');
+const PUBLIC_DIR = path.join(ROOT, 'public');
+const SOURCE_DIR = path.join(PUBLIC_DIR, 'images', 'webp-optimized');
+const OUTPUT_DIR = path.join(PUBLIC_DIR, 'images', 'optimized');
+const MANIFEST_FILE = path.join(ROOT, 'src', 'data', 'image-manifest.json');
+
+// Rendition widths ResponsiveImage lists in its srcset: the deviceSizes
+// breakpoints from next.config.js. Originals are never upscaled.
+const WIDTHS = nextConfig.images.deviceSizes;
+
+const FORMATS = {
+  avif: (image) => image.avif({ quality: 50, effort: 4 }),
+  webp: (image) => image.webp({ quality: 75 }),
+};
+
+// Width of the blurred placeholder ResponsiveImage shows as its background
+// while the rendition loads
+const PLACEHOLDER_WIDTH = 16;
+
+const ORIGINAL_EXTENSIONS = ['.jpg', '.jpeg', '.png', '.webp', '.tif', '.tiff'];
+
+const TURKISH = { ç: 'c', ğ: 'g', ı: 'i', İ: 'i', ö: 'o', ş: 's', ü: 'u', Ç: 'c', Ğ: 'g', Ö: 'o', Ş: 's', Ü: 'u' };
+
+// "leon-çöl 1.jpg" -> "leon-col-1"
+function normalizeName(file) {
+  return path
+    .basename(file, path.extname(file))
+    .replace(/[çğıİöşüÇĞÖŞÜ]/g, (ch) => TURKISH[ch])
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
+
+const isOriginal = (file) => ORIGINAL_EXTENSIONS.indexOf(path.extname(file).toLowerCase()) >= 0;
+
+const publicPath = (file) => '/' + path.relative(PUBLIC_DIR, file).split(path.sep).join('/');
+
+const toHex = ({ r, g, b }) => '#' + [r, g, b].map((v) => v.toString(16).padStart(2, '0')).join('');
+
+function readManifest() {
+  try {
+    return JSON.parse(fs.readFileSync(MANIFEST_FILE, 'utf8'));
+  } catch (error) {
+    if (error.code === 'ENOENT') return {};
+    throw error;
+  }
+}
+
+// Copies new originals into SOURCE_DIR; refuses to overwrite a different file
+function importOriginals(files) {
+  return files.map((file) => {
+    if (!isOriginal(file)) {
+      throw new Error(`${file}: unsupported file type (${ORIGINAL_EXTENSIONS.join(', ')})`);
+    }
+    const target = path.join(SOURCE_DIR, normalizeName(file) + path.extname(file).toLowerCase().replace('.jpeg', '.jpg'));
+    if (fs.existsSync(target) && !fs.readFileSync(target).equals(fs.readFileSync(file))) {
+      throw new Error(`${file}: ${publicPath(target)} already exists with different content`);
+    }
+    fs.copyFileSync(file, target);
+    console.log(`+ ${publicPath(target)}`);
+    return target;
+  });
+}
+
+const renditionsExist = (entry) =>
+  Object.keys(FORMATS).every((format) =>
+    entry[format].every((rendition) => fs.existsSync(path.join(PUBLIC_DIR, rendition.src)))
+  );
+
+async function processImage(file, name, hash) {
+  const input = fs.readFileSync(file);
+  // Renditions are rotated by their EXIF orientation, so swap the sides
+  // for portrait shots stored sideways
+  const meta = await sharp(input).metadata();
+  const sideways = (meta.orientation || 1) >= 5;
+  const width = sideways ? meta.height : meta.width;
+  const height = sideways ? meta.width : meta.height;
+  const image = () => sharp(input).rotate();
+
+  const placeholder = await image().resize(PLACEHOLDER_WIDTH).webp({ quality: 40 }).toBuffer();
+  const entry = {
+    name,
+    width,
+    height,
+    hash,
+    color: toHex((await sharp(input).stats()).dominant),
+    placeholder: `data:image/webp;base64,${placeholder.toString('base64')}`,
+  };
+
+  const widths = WIDTHS.filter((w) => w < width).concat(width);
+  for (const format of Object.keys(FORMATS)) {
+    entry[format] = [];
+    for (const w of widths) {
+      const target = path.join(OUTPUT_DIR, `${name}.${hash}-${w}.${format}`);
+      await FORMATS[format](image().resize(w)).toFile(target);
+      entry[format].push({ width: w, src: publicPath(target) });
+    }
+  }
+  return entry;
+}
+
+async function main() {
+  fs.mkdirSync(OUTPUT_DIR, { recursive: true });
+  importOriginals(process.argv.slice(2));
+
+  const previous = readManifest();
+  const manifest = {};
+  const names = new Map();
+  let processed = 0;
+
+  const files = fs.readdirSync(SOURCE_DIR).filter(isOriginal).sort();
+  for (const file of files) {
+    const fullPath = path.join(SOURCE_DIR, file);
+    const src = publicPath(fullPath);
+    const name = normalizeName(file);
+
+    if (names.has(name)) {
+      throw new Error(`${src} and ${names.get(name)} both normalize to "${name}"`);
+    }
+    names.set(name, src);
+
+    const hash = createHash('sha1').update(fs.readFileSync(fullPath)).digest('hex').slice(0, 8);
+    const known = previous[src];
+    if (known && known.hash === hash && known.name === name && renditionsExist(known)) {
+      manifest[src] = known;
+      continue;
+    }
+
+    manifest[src] = await processImage(fullPath, name, hash);
+    processed += 1;
+    console.log(`✓ ${src} -> ${name} (${manifest[src].avif.length} widths)`);
+  }
+
+  // Renditions of replaced or deleted originals
+  const current = new Set();
+  Object.keys(manifest).forEach((src) => {
+    Object.keys(FORMATS).forEach((format) => manifest[src][format].forEach((r) => current.add(path.basename(r.src))));
+  });
+  const stale = fs.readdirSync(OUTPUT_DIR).filter((file) => !current.has(file));
+  stale.forEach((file) => fs.unlinkSync(path.join(OUTPUT_DIR, file)));
+
+  fs.writeFileSync(MANIFEST_FILE, JSON.stringify(manifest, null, 2) + '\n');
+  console.log(`Images: ${files.length} originals, ${processed} processed, ${stale.length} stale renditions removed`);
+}
+
+main().catch((error) => {
+  console.error(`[Images] ${error.message}`);
+  process.exit(1);
+});
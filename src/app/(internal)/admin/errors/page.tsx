@@ -0,0 +1,24 @@
+import type { Metadata } from 'next'
+import { redirect } from 'next/navigation'
+import AdminErrors from '@/components/AdminErrors'
+import { getAdminUser } from '@/lib/auth'
+
+export const dynamic = 'force-dynamic'
+
+export const metadata: Metadata = {
+  title: 'Hata Kayıtları | Monopol Stone',
+  robots: { index: false, follow: false },
+}
+
+export default function AdminErrorsPage() {
+  const user = getAdminUser()
+  if (!user) redirect('/admin/login')
+
+  return (
+    <main style={{ padding: '20px 0 40px 0', background: '#f8f9fa' }}>
+      <div className="container">
+        <AdminErrors user={user} />
+      </div>
+    </main>
+  )
+}
@@ -0,0 +1,23 @@
+import type { Metadata } from 'next'
+import { redirect } from 'next/navigation'
+import AdminLogin from '@/components/AdminLogin'
+import { getAdminUser } from '@/lib/auth'
+
+export const dynamic = 'force-dynamic'
+
+export const metadata: Metadata = {
+  title: 'Giriş | Satış Paneli',
+  robots: { index: false, follow: false },
+}
+
+export default function AdminLoginPage() {
+  if (getAdminUser()) redirect('/admin')
+
+  return (
+    <main style={{ padding: '60px 0', background: '#f8f9fa' }}>
+      <div className="container">
+        <AdminLogin />
+      </div>
+    </main>
+  )
+}
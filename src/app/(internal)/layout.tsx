@@ -0,0 +1,14 @@
+import type { Metadata } from 'next'
+import SiteDocument, { SITE_VIEWPORT, getSiteMetadata } from '@/components/SiteDocument'
+import { DEFAULT_LOCALE } from '@/i18n/config'
+
+// Root layout of the internal tools (/admin, /deployment). They are
+// Turkish only and live outside the localized [locale] tree.
+
+export const metadata: Metadata = getSiteMetadata(DEFAULT_LOCALE)
+
+export const viewport = SITE_VIEWPORT
+
+export default function InternalLayout({ children }: { children: React.ReactNode }) {
+  return <SiteDocument locale={DEFAULT_LOCALE}>{children}</SiteDocument>
+}
@@ -0,0 +1,7 @@
+import { notFound } from 'next/navigation'
+
+// Paths the middleware could not resolve end up here (/<locale>/missing),
+// so the 404 page is rendered inside the localized layout
+export default function MissingPage() {
+  notFound()
+}
@@ -3,8 +3,16 @@
 import { useState, useEffect } from 'react'
 import FloatingButtons from '@/components/FloatingButtons'
 import Breadcrumb from '@/components/Breadcrumb'
+import { CONTACT_LINKS } from '@/i18n/config'
+import { useLocale, useTranslations } from '@/i18n/I18nProvider'
+import { ContactSubmitError, submitContact } from '@/utils/contactApi'
 
-export default function IletisimPage() {
+// Option values are stored with the lead, so they are the same in every language
+const SUBJECTS = ['kultur-tasi', 'kultur-tugla', 'fiyat-teklifi', 'teknik-bilgi', 'diger'] as const
+
+export default function ContactPage() {
+  const locale = useLocale()
+  const t = useTranslations()
   const [formData, setFormData] = useState({
     name: '',
     email: '',
@@ -15,6 +23,7 @@ export default function IletisimPage() {
 
   const [isSubmitting, setIsSubmitting] = useState(false)
   const [submitStatus, setSubmitStatus] = useState<'idle' | 'success' | 'error'>('idle')
+  const [errorMessage, setErrorMessage] = useState<string | null>(null)
   const [mapLoaded, setMapLoaded] = useState(false)
 
   useEffect(() => {
@@ -39,9 +48,8 @@ export default function IletisimPage() {
     setIsSubmitting(true)
     setSubmitStatus('idle')
 
-    // Simüle edilmiş form gönderimi
-    setTimeout(() => {
-      setIsSubmitting(false)
+    try {
+      await submitContact({ ...formData, locale, source: 'contact-page' })
       setSubmitStatus('success')
       setFormData({
         name: '',
@@ -55,7 +63,13 @@ export default function IletisimPage() {
       setTimeout(() => {
         setSubmitStatus('idle')
       }, 3000)
-    }, 1500)
+    } catch (error) {
+      const fieldErrors = error instanceof ContactSubmitError ? Object.values(error.fieldErrors) : []
+      setErrorMessage(fieldErrors[0] || null)
+      setSubmitStatus('error')
+    } finally {
+      setIsSubmitting(false)
+    }
   }
 
   return (
@@ -77,7 +91,7 @@ export default function IletisimPage() {
             marginBottom: '15px',
             color: 'white'
           }}>
-            İletişim
+            {t('contact.title')}
           </h1>
           <p style={{
             fontSize: '1.1rem',
@@ -85,7 +99,7 @@ export default function IletisimPage() {
             margin: '0 auto',
             opacity: '0.9'
           }}>
-            Projeleriniz için bizimle iletişime geçin. Size en uygun çözümleri sunmaktan mutluluk duyarız.
+            {t('contact.intro')}
           </p>
         </div>
       </section>
@@ -113,7 +127,7 @@ export default function IletisimPage() {
                 marginBottom: '25px',
                 color: '#2c3e50'
               }}>
-                Bize Ulaşın
+                {t('contact.formTitle')}
               </h2>
 
               {submitStatus === 'success' && (
@@ -125,7 +139,7 @@ export default function IletisimPage() {
                   marginBottom: '20px',
                   border: '1px solid #c3e6cb'
                 }}>
-                  Mesajınız başarıyla gönderildi! En kısa sürede size dönüş yapacağız.
+                  {t('contact.success')}
                 </div>
               )}
 
@@ -138,7 +152,7 @@ export default function IletisimPage() {
                   marginBottom: '20px',
                   border: '1px solid #f5c6cb'
                 }}>
-                  Bir hata oluştu. Lütfen tekrar deneyin.
+                  {errorMessage || t('contact.error')}
                 </div>
               )}
 
@@ -150,7 +164,7 @@ export default function IletisimPage() {
                     fontWeight: '500',
                     color: '#2c3e50'
                   }}>
-                    Ad Soyad *
+                    {t('contact.name')}
                   </label>
                   <input
                     type="text"
@@ -178,7 +192,7 @@ export default function IletisimPage() {
                     fontWeight: '500',
                     color: '#2c3e50'
                   }}>
-                    E-posta *
+                    {t('contact.email')}
                   </label>
                   <input
                     type="email"
@@ -206,7 +220,7 @@ export default function IletisimPage() {
                     fontWeight: '500',
                     color: '#2c3e50'
                   }}>
-                    Telefon
+                    {t('contact.phone')}
                   </label>
                   <input
                     type="tel"
@@ -233,7 +247,7 @@ export default function IletisimPage() {
                     fontWeight: '500',
                     color: '#2c3e50'
                   }}>
-                    Konu *
+                    {t('contact.subject')}
                   </label>
                   <select
                     name="subject"
@@ -252,12 +266,10 @@ export default function IletisimPage() {
                     onFocus={(e) => e.target.style.borderColor = '#FD7E14'}
                     onBlur={(e) => e.target.style.borderColor = '#e9ecef'}
                   >
-                    <option value="">Konu seçiniz</option>
-                    <option value="kultur-tasi">Kültür Taşı</option>
-                    <option value="kultur-tugla">Kültür Tuğla</option>
-                    <option value="fiyat-teklifi">Fiyat Teklifi</option>
-                    <option value="teknik-bilgi">Teknik Bilgi</option>
-                    <option value="diger">Diğer</option>
+                    <option value="">{t('contact.selectSubject')}</option>
+                    {SUBJECTS.map((subject) => (
+                      <option key={subject} value={subject}>{t(`contact.subjects.${subject}`)}</option>
+                    ))}
                   </select>
                 </div>
 
@@ -268,7 +280,7 @@ export default function IletisimPage() {
                     fontWeight: '500',
                     color: '#2c3e50'
                   }}>
-                    Mesajınız *
+                    {t('contact.message')}
                   </label>
                   <textarea
                     name="message"
@@ -288,7 +300,7 @@ export default function IletisimPage() {
                     }}
                     onFocus={(e) => e.target.style.borderColor = '#FD7E14'}
                     onBlur={(e) => e.target.style.borderColor = '#e9ecef'}
-                    placeholder="Projeniz hakkında detayları buraya yazabilirsiniz..."
+                    placeholder={t('contact.messagePlaceholder')}
                   />
                 </div>
 
@@ -314,7 +326,7 @@ export default function IletisimPage() {
                     if (!isSubmitting) (e.target as HTMLButtonElement).style.background = '#FD7E14'
                   }}
                 >
-                  {isSubmitting ? 'Gönderiliyor...' : 'Mesaj Gönder'}
+                  {isSubmitting ? t('contact.sending') : t('contact.send')}
                 </button>
               </form>
             </div>
@@ -327,7 +339,7 @@ export default function IletisimPage() {
                 marginBottom: '25px',
                 color: '#2c3e50'
               }}>
-                İletişim Bilgileri
+                {t('contact.infoTitle')}
               </h2>
 
               <div style={{ marginBottom: '30px' }}>
@@ -360,15 +372,15 @@ export default function IletisimPage() {
                       marginBottom: '5px',
                       color: '#2c3e50'
                     }}>
-                      Adres
+                      {t('contact.address')}
                     </h3>
                     <p style={{
                       color: '#6c757d',
                       lineHeight: '1.6',
                       margin: 0
                     }}>
-                      Çatalca / İstanbul<br />
-                      Türkiye
+                      {t('contact.city')}<br />
+                      {t('contact.country')}
                     </p>
                   </div>
                 </div>
@@ -402,19 +414,19 @@ export default function IletisimPage() {
                       marginBottom: '5px',
                       color: '#2c3e50'
                     }}>
-                      Telefon
+                      {t('contact.phoneLabel')}
                     </h3>
                     <p style={{
                       color: '#6c757d',
                       lineHeight: '1.6',
                       margin: 0
                     }}>
-                      <a href="tel:+905323820197" style={{
+                      <a href={CONTACT_LINKS.phone} style={{
                         color: '#FD7E14',
                         textDecoration: 'none',
                         fontWeight: '500'
                       }}>
-                        0 (532) 382 01 97
+                        {t('contact.phoneDisplay')}
                       </a>
                     </p>
                   </div>
@@ -449,14 +461,14 @@ export default function IletisimPage() {
                       marginBottom: '5px',
                       color: '#2c3e50'
                     }}>
-                      E-posta
+                      {t('contact.emailLabel')}
                     </h3>
                     <p style={{
                       color: '#6c757d',
                       lineHeight: '1.6',
                       margin: 0
                     }}>
-                      <a href="mailto:info@monopolstone.com" style={{
+                      <a href={CONTACT_LINKS.email} style={{
                         color: '#FD7E14',
                         textDecoration: 'none',
                         fontWeight: '500'
@@ -483,17 +495,17 @@ export default function IletisimPage() {
                   borderBottom: '1px solid #e9ecef',
                   color: '#2c3e50'
                 }}>
-                  Konum
+                  {t('contact.location')}
                 </h3>
                 <div className="map-container" style={{ position: 'relative', width: '100%', paddingBottom: '56.25%', height: 0 }}>
                   {mapLoaded ? (
                     <iframe
-                      src="https://www.google.com/maps?q=41.1435,28.4614&hl=tr&z=12&output=embed"
+                      src={`https://www.google.com/maps?q=41.1435,28.4614&hl=${locale}&z=12&output=embed`}
                       style={{ position: 'absolute', top: 0, left: 0, width: '100%', height: '100%', border: 0, borderRadius: '0 0 10px 10px' }}
                       allowFullScreen
                       loading="lazy"
                       referrerPolicy="no-referrer-when-downgrade"
-                      title="Monopol Stone Çatalca Konumu"
+                      title={t('contact.mapTitle')}
                     />
                   ) : (
                     <div style={{
@@ -513,10 +525,10 @@ export default function IletisimPage() {
                           📍
                         </div>
                         <p style={{ margin: 0, fontSize: '1.1rem' }}>
-                          Çatalca / İstanbul
+                          {t('contact.city')}
                         </p>
                         <p style={{ margin: '5px 0 0 0', opacity: '0.7' }}>
-                          Harita yükleniyor...
+                          {t('contact.mapLoading')}
                         </p>
                       </div>
                     </div>
@@ -0,0 +1,16 @@
+import Breadcrumb from '@/components/Breadcrumb'
+import type { Locale } from '@/i18n/config'
+import { createTranslator } from '@/i18n/translate'
+
+export default function DifferencesPage({ params }: { params: { locale: Locale } }) {
+  const t = createTranslator(params.locale)
+
+  return (
+    <main>
+      <Breadcrumb />
+      <div style={{ minHeight: '60vh', display: 'flex', alignItems: 'center', justifyContent: 'center', color: '#fff' }}>
+        <h1>{t('differences.title')}</h1>
+      </div>
+    </main>
+  );
+} 
\ No newline at end of file
@@ -0,0 +1,117 @@
+import type { Metadata } from 'next'
+import Link from 'next/link'
+import { notFound } from 'next/navigation'
+import Breadcrumb from '@/components/Breadcrumb'
+import FloatingButtons from '@/components/FloatingButtons'
+import Lightbox from '@/components/Lightbox'
+import ResponsiveImage from '@/components/ResponsiveImage'
+import { getColor, getProductById, getProductPath } from '@/data/catalog'
+import { PROJECT_CATEGORIES, getProjectBySlug, getProjectSlug, getProjects } from '@/data/gallery'
+import type { Locale } from '@/i18n/config'
+import { getLocalizedPath } from '@/i18n/routes'
+import { createTranslator } from '@/i18n/translate'
+import { getProjectMetadata } from '@/lib/seo'
+
+interface ProjectPageProps {
+  params: { locale: Locale; slug: string }
+}
+
+// One page per project and language, so every project can be shared and
+// indexed on its own
+export function generateStaticParams({ params }: { params: { locale: Locale } }) {
+  return getProjects().map((project) => ({ slug: getProjectSlug(project, params.locale) }))
+}
+
+export function generateMetadata({ params }: ProjectPageProps): Metadata {
+  const project = getProjectBySlug(params.slug, params.locale)
+  return project ? getProjectMetadata(project, params.locale) : {}
+}
+
+export default function ProjectPage({ params }: ProjectPageProps) {
+  const { locale } = params
+  const t = createTranslator(locale)
+  const project = getProjectBySlug(params.slug, locale)
+  if (!project) notFound()
+
+  const title = project.title[locale]
+  const photos = project.photos.map((src, index) => ({
+    src,
+    alt: `${title} (${index + 1}/${project.photos.length})`,
+  }))
+
+  return (
+    <main>
+      <Breadcrumb />
+      <FloatingButtons />
+
+      <section className="container" style={{ padding: '30px 20px 20px' }}>
+        <span style={{ color: '#FD7E14', fontSize: '0.9rem', fontWeight: 600, textTransform: 'uppercase' }}>
+          {PROJECT_CATEGORIES[project.category][locale]}
+        </span>
+        <h1 style={{ fontSize: '2.2rem', fontWeight: 700, margin: '8px 0 10px', color: '#333' }}>
+          {title}
+        </h1>
+        <p style={{ color: '#666', fontSize: '1rem', margin: '0 0 20px' }}>
+          {project.location[locale]} · {project.year}
+        </p>
+        <p style={{ fontSize: '1.1rem', lineHeight: 1.7, color: '#444', maxWidth: '820px', margin: 0 }}>
+          {project.summary[locale]}
+        </p>
+      </section>
+
+      {/* Photos */}
+      <section className="container" style={{ padding: '20px' }}>
+        <Lightbox photos={photos} />
+      </section>
+
+      {/* Products used */}
+      <section className="container" style={{ padding: '30px 20px' }}>
+        <h2 style={{ fontSize: '1.5rem', marginBottom: '20px', color: '#333' }}>
+          {t('gallery.materials')}
+        </h2>
+        <ul style={{ listStyle: 'none', padding: 0, margin: 0, display: 'flex', flexWrap: 'wrap', gap: '16px' }}>
+          {project.materials.map(({ productId, colorKey }) => {
+            // validateProjects() guarantees the product exists. The link
+            // opens the product page with this color selected.
+            const product = getProductById(productId)!
+            const color = getColor(product, colorKey)
+            return (
+              <li key={`${productId}-${colorKey}`}>
+                <Link
+                  href={`${getProductPath(product, locale)}?color=${encodeURIComponent(color.key)}`}
+                  style={{
+                    display: 'flex',
+                    alignItems: 'center',
+                    gap: '12px',
+                    padding: '10px 16px',
+                    border: '1px solid #e0e0e0',
+                    borderRadius: '10px',
+                    textDecoration: 'none',
+                    color: '#333',
+                  }}
+                >
+                  <ResponsiveImage
+                    src={color.image}
+                    alt=""
+                    sizes="56px"
+                    style={{ width: '56px', height: '56px', borderRadius: '6px' }}
+                  />
+                  <span>
+                    <strong style={{ display: 'block' }}>{product.title}</strong>
+                    <span style={{ color: '#666', fontSize: '0.9rem' }}>{color.name[locale]}</span>
+                  </span>
+                </Link>
+              </li>
+            )
+          })}
+        </ul>
+      </section>
+
+      <section className="container" style={{ padding: '10px 20px 60px' }}>
+        <Link href={getLocalizedPath(locale, 'gallery')} style={{ color: '#FD7E14', fontWeight: 600, textDecoration: 'none' }}>
+          {t('gallery.backToGallery')}
+        </Link>
+      </section>
+    </main>
+  )
+}
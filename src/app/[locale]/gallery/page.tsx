@@ -0,0 +1,155 @@
+import Link from 'next/link'
+import FloatingButtons from '@/components/FloatingButtons'
+import Breadcrumb from '@/components/Breadcrumb'
+import ResponsiveImage from '@/components/ResponsiveImage'
+import { ResponsiveAutoGrid } from '@/components/ResponsiveGrid'
+import {
+  PROJECT_CATEGORIES,
+  PROJECT_CATEGORY_KEYS,
+  getProjectPath,
+  getProjects,
+  isProjectCategory,
+  type ProjectCategory,
+} from '@/data/gallery'
+import { CONTACT_LINKS, type Locale } from '@/i18n/config'
+import { getLocalizedPath } from '@/i18n/routes'
+import { createTranslator } from '@/i18n/translate'
+
+interface GalleryPageProps {
+  params: { locale: Locale }
+  searchParams: Record<string, string | string[] | undefined>
+}
+
+const chipStyle = (active: boolean): React.CSSProperties => ({
+  padding: '8px 18px',
+  borderRadius: '20px',
+  border: active ? '2px solid #FD7E14' : '2px solid #e0e0e0',
+  background: active ? '#FD7E14' : '#fff',
+  color: active ? '#fff' : '#333',
+  textDecoration: 'none',
+  fontWeight: 600,
+  fontSize: '0.95rem',
+})
+
+// The category filter is a URL parameter (?category=villa), so filtered
+// views can be linked and work without JavaScript
+export default function GalleryPage({ params, searchParams }: GalleryPageProps) {
+  const { locale } = params
+  const t = createTranslator(locale)
+  const category = isProjectCategory(searchParams.category) ? searchParams.category : undefined
+  const projects = getProjects(category)
+  const galleryPath = getLocalizedPath(locale, 'gallery')
+  const filters: Array<ProjectCategory | undefined> = [undefined, ...PROJECT_CATEGORY_KEYS]
+
+  return (
+    <main>
+      <Breadcrumb />
+      <FloatingButtons />
+
+      {/* Hero Section */}
+      <section style={{
+        background: 'linear-gradient(135deg, #2c3e50 0%, #34495e 100%)',
+        padding: '20px 0 30px 0',
+        color: 'white',
+        textAlign: 'center'
+      }}>
+        <div className="container">
+          <h1 style={{ fontSize: '2.5rem', fontWeight: '700', marginBottom: '15px', color: 'white' }}>
+            {t('gallery.title')}
+          </h1>
+          <p style={{ fontSize: '1.1rem', maxWidth: '640px', margin: '0 auto', opacity: '0.9' }}>
+            {t('gallery.intro')}
+          </p>
+        </div>
+      </section>
+
+      <section style={{ padding: '30px 0 40px 0', background: '#f8f9fa' }}>
+        <div className="container">
+          {/* Category Filter */}
+          <nav aria-label={t('gallery.filterLabel')} style={{ display: 'flex', flexWrap: 'wrap', gap: '10px', justifyContent: 'center', marginBottom: '30px' }}>
+            {filters.map((key) => (
+              <Link
+                key={key || 'all'}
+                href={key ? `${galleryPath}?category=${key}` : galleryPath}
+                aria-current={key === category ? 'page' : undefined}
+                style={chipStyle(key === category)}
+              >
+                {key ? PROJECT_CATEGORIES[key][locale] : t('gallery.all')}
+              </Link>
+            ))}
+          </nav>
+
+          {projects.length === 0 ? (
+            <p style={{ textAlign: 'center', color: '#666', padding: '40px 0' }}>{t('gallery.empty')}</p>
+          ) : (
+            <ResponsiveAutoGrid className="supports-grid" minItemWidth="300px" gap="lg">
+              {projects.map((project) => (
+                <Link
+                  key={project.id}
+                  href={getProjectPath(project, locale)}
+                  className="project-card"
+                  style={{
+                    display: 'block',
+                    background: '#fff',
+                    borderRadius: '12px',
+                    overflow: 'hidden',
+                    textDecoration: 'none',
+                    color: 'inherit',
+                  }}
+                >
+                  <ResponsiveImage
+                    src={project.photos[0]}
+                    alt={project.title[locale]}
+                    sizes="(max-width: 768px) 100vw, 400px"
+                    style={{ width: '100%', aspectRatio: '4 / 3' }}
+                  />
+                  <div style={{ padding: '20px' }}>
+                    <span style={{ color: '#FD7E14', fontSize: '0.85rem', fontWeight: 600, textTransform: 'uppercase' }}>
+                      {PROJECT_CATEGORIES[project.category][locale]}
+                    </span>
+                    <h2 style={{ fontSize: '1.3rem', margin: '6px 0 8px', color: '#333', fontWeight: 600 }}>
+                      {project.title[locale]}
+                    </h2>
+                    <p style={{ color: '#666', fontSize: '0.95rem', margin: 0 }}>
+                      {project.location[locale]} · {project.year} · {t('gallery.photos', { count: project.photos.length })}
+                    </p>
+                  </div>
+                </Link>
+              ))}
+            </ResponsiveAutoGrid>
+          )}
+        </div>
+      </section>
+
+      {/* Contact Section */}
+      <section className="container" style={{ textAlign: 'center', padding: '40px 20px 60px' }}>
+        <h2 style={{ fontSize: '2rem', marginBottom: '20px', color: '#333' }}>
+          {t('gallery.moreTitle')}
+        </h2>
+        <p style={{ fontSize: '1.1rem', color: '#666', marginBottom: '30px' }}>
+          {t('gallery.moreText')}
+        </p>
+        <div style={{ display: 'flex', gap: '20px', justifyContent: 'center', flexWrap: 'wrap' }}>
+          <a href={CONTACT_LINKS.phone} className="gallery-call-btn" style={{
+            color: '#fff',
+            textDecoration: 'none',
+            padding: '15px 30px',
+            borderRadius: '8px',
+            fontSize: '1.1rem',
+          }}>
+            📞 {t('gallery.call')}
+          </a>
+          <a href={CONTACT_LINKS.whatsapp} target="_blank" rel="noopener noreferrer" className="gallery-whatsapp-btn" style={{
+            color: '#fff',
+            textDecoration: 'none',
+            padding: '15px 30px',
+            borderRadius: '8px',
+            fontSize: '1.1rem',
+          }}>
+            💬 {t('gallery.whatsapp')}
+          </a>
+        </div>
+      </section>
+    </main>
+  )
+}
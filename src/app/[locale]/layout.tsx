@@ -0,0 +1,29 @@
+import type { Metadata } from 'next'
+import { notFound } from 'next/navigation'
+import SiteDocument, { SITE_VIEWPORT, getSiteMetadata } from '@/components/SiteDocument'
+import { DEFAULT_LOCALE, LOCALES, isLocale } from '@/i18n/config'
+
+// Root layout of the public site. The middleware rewrites every localized
+// URL to /<locale>/..., so `params.locale` is always one of LOCALES.
+
+export function generateStaticParams() {
+  return LOCALES.map((locale) => ({ locale }))
+}
+
+export function generateMetadata({ params }: { params: { locale: string } }): Metadata {
+  return getSiteMetadata(isLocale(params.locale) ? params.locale : DEFAULT_LOCALE)
+}
+
+export const viewport = SITE_VIEWPORT
+
+export default function LocaleLayout({
+  children,
+  params,
+}: {
+  children: React.ReactNode
+  params: { locale: string }
+}) {
+  if (!isLocale(params.locale)) notFound()
+
+  return <SiteDocument locale={params.locale}>{children}</SiteDocument>
+}
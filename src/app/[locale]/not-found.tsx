@@ -0,0 +1,38 @@
+'use client'
+
+import Link from 'next/link'
+import { useLocale, useTranslations } from '@/i18n/I18nProvider'
+import { getLocalizedPath } from '@/i18n/routes'
+
+export default function NotFound() {
+  const locale = useLocale()
+  const t = useTranslations()
+
+  return (
+    <main>
+      <section style={{
+        minHeight: '60vh',
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        textAlign: 'center',
+        padding: '40px 20px',
+        color: '#fff'
+      }}>
+        <div>
+          <div style={{ fontSize: '4rem', fontWeight: 700, color: '#FD7E14', marginBottom: '10px' }}>404</div>
+          <h1 style={{ fontSize: '2rem', marginBottom: '15px', color: '#fff' }}>{t('notFound.title')}</h1>
+          <p style={{ fontSize: '1.1rem', color: '#ccc', marginBottom: '30px' }}>{t('notFound.text')}</p>
+          <div style={{ display: 'flex', gap: '15px', justifyContent: 'center', flexWrap: 'wrap' }}>
+            <Link href={getLocalizedPath(locale, 'home')} className="btn-primary" style={{ textDecoration: 'none' }}>
+              {t('notFound.home')}
+            </Link>
+            <Link href={getLocalizedPath(locale, 'products')} style={{ color: '#FD7E14', padding: '12px 24px', textDecoration: 'none', fontWeight: 600 }}>
+              {t('notFound.products')}
+            </Link>
+          </div>
+        </div>
+      </section>
+    </main>
+  )
+}
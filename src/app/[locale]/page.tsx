@@ -0,0 +1,86 @@
+import AnimatedProductCard from '@/components/AnimatedProductCard'
+import FloatingButtons from '@/components/FloatingButtons'
+import HeroSlider from '@/components/HeroSlider'
+import { getProductImages, getProductPath, getProducts, series } from '@/data/catalog'
+import { LOCALE_SETTINGS, type Locale } from '@/i18n/config'
+import { createTranslator } from '@/i18n/translate'
+
+const FEATURES = [
+  { key: 'heat', icon: '🔥' },
+  { key: 'cold', icon: '❄️' },
+  { key: 'pattern', icon: '🌿' },
+  { key: 'eco', icon: '🌱' },
+  { key: 'healthy', icon: '✅' },
+  { key: 'delivery', icon: '⏰' },
+  { key: 'installation', icon: '🔧' },
+] as const
+
+export default function Home({ params }: { params: { locale: Locale } }) {
+  const { locale } = params
+  const t = createTranslator(locale)
+
+  return (
+    <main>
+      <FloatingButtons />
+
+      <HeroSlider />
+
+      {/* Products Section */}
+      <section className="products" id="products">
+        <div className="container">
+          <h2 className="section-title">{t('home.productsTitle')}</h2>
+
+          {series.map((item, index) => (
+            <div key={item.id}>
+              <h3 className="section-title" style={{ fontSize: '2rem', margin: index === 0 ? '0 0 32px 0' : '48px 0 32px 0' }}>
+                {item.plural[locale].toLocaleUpperCase(LOCALE_SETTINGS[locale].intl)}
+              </h3>
+              <div className="product-grid-premium">
+                {getProducts(item.id).map((product) => (
+                  <AnimatedProductCard
+                    key={product.id}
+                    id={product.position}
+                    title={product.title}
+                    description={product.summary[locale]}
+                    images={getProductImages(product)}
+                    link={getProductPath(product, locale)}
+                  />
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+      </section>
+
+      {/* Features Section */}
+      <section className="features" id="differences">
+        <div className="container">
+          <h2 className="section-title">{t('home.differencesTitle')}</h2>
+          <div className="feature-grid">
+            {FEATURES.map((feature) => (
+              <div key={feature.key} className="feature-item">
+                <div className="feature-icon">{feature.icon}</div>
+                <h3 className="feature-title">{t(`home.features.${feature.key}.title`)}</h3>
+                <p className="feature-description">{t(`home.features.${feature.key}.description`)}</p>
+              </div>
+            ))}
+          </div>
+        </div>
+      </section>
+
+      {/* About Section */}
+      <section style={{ padding: '80px 0', background: '#f8f9fa' }}>
+        <div className="container">
+          <div style={{ textAlign: 'center', maxWidth: '800px', margin: '0 auto' }}>
+            <h2 style={{ fontSize: '2.5rem', marginBottom: '30px', color: '#fff' }}>
+              {t('home.aboutTitle')}
+            </h2>
+            <p style={{ fontSize: '1.1rem', lineHeight: '1.8', color: '#666' }}>
+              {t('home.aboutText')}
+            </p>
+          </div>
+        </div>
+      </section>
+    </main>
+  )
+}
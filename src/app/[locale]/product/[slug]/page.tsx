@@ -0,0 +1,144 @@
+import type { Metadata } from 'next'
+import { notFound } from 'next/navigation'
+import Breadcrumb from '@/components/Breadcrumb'
+import JsonLd from '@/components/JsonLd'
+import AddToQuote from '@/components/AddToQuote'
+import MaterialCalculator from '@/components/MaterialCalculator'
+import ProductColorSelector from '@/components/ProductColorSelector'
+import ProductVisualizerLink from '@/components/ProductVisualizerLink'
+import ProjectReferences from '@/components/ProjectReferences'
+import SelectedColorProvider from '@/components/SelectedColorProvider'
+import SpecSheetDownload from '@/components/SpecSheetDownload'
+import { getProductBySlug, getProductSlug, getProductSummary, getProducts, getSeries } from '@/data/catalog'
+import { getSpecRows } from '@/data/specs'
+import { CONTACT_LINKS, LOCALE_SETTINGS, type Locale } from '@/i18n/config'
+import { createTranslator } from '@/i18n/translate'
+import { getProductJsonLd, getProductMetadata } from '@/lib/seo'
+
+interface ProductPageProps {
+  params: { locale: Locale; slug: string }
+}
+
+// One page per product and language, built at build time. Old and
+// other-language slugs never reach this route: the middleware redirects them.
+export function generateStaticParams({ params }: { params: { locale: Locale } }) {
+  return getProducts().map((product) => ({ slug: getProductSlug(product, params.locale) }))
+}
+
+export function generateMetadata({ params }: ProductPageProps): Metadata {
+  const product = getProductBySlug(params.slug, params.locale)
+  return product ? getProductMetadata(product, params.locale) : {}
+}
+
+export default function ProductDetail({ params }: ProductPageProps) {
+  const { locale } = params
+  const t = createTranslator(locale)
+  const product = getProductBySlug(params.slug, locale)
+  if (!product) notFound()
+
+  const productSeries = getSeries(product.series)
+  const summary = getProductSummary(product, locale)
+
+  return (
+    <div className="product-detail-exact">
+      <JsonLd data={getProductJsonLd(product, locale)} />
+      <Breadcrumb />
+      <div className="container">
+
+        {/* Product Title */}
+        <div className="product-title-exact">
+          <h1>{product.title.toUpperCase()} {productSeries.title[locale].toLocaleUpperCase(LOCALE_SETTINGS[locale].intl)}</h1>
+        </div>
+
+        {/* The color selection runs on the client; the sections below follow it */}
+        <SelectedColorProvider colorKeys={product.colors.map((color) => color.key)}>
+          <ProductColorSelector
+            product={summary}
+            details={
+              <div className="product-details-exact">
+                <div className="product-category-exact">
+                  <span>{productSeries.title[locale]}</span>
+                  <span>{product.title}</span>
+                </div>
+
+                {/* Specifications Table */}
+                <div className="specs-table-exact">
+                  {getSpecRows(product, locale).map((row) => (
+                    <div key={row.key} className="spec-row-exact">
+                      <span className="spec-label-exact">{row.label}</span>
+                      <span className="spec-value-exact">{row.value}</span>
+                    </div>
+                  ))}
+                </div>
+                <div className="disclaimer">
+                  <p>{t('product.disclaimer')}</p>
+                </div>
+
+                {product.features.length > 0 && (
+                  <div className="features-section">
+                    <h3 className="section-title">{t('product.features')}</h3>
+                    <div className="features-grid">
+                      {product.features.map((feature, index) => (
+                        <div key={index} className="feature-item">
+                          <span className="feature-icon">✓</span>
+                          <span className="feature-text">{feature[locale]}</span>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
+                {product.applications.length > 0 && (
+                  <div className="applications-section">
+                    <h3 className="section-title">{t('product.applications')}</h3>
+                    <div className="applications-grid">
+                      {product.applications.map((application, index) => (
+                        <div key={index} className="application-item">
+                          <span className="application-icon">🏠</span>
+                          <span className="application-text">{application[locale]}</span>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
+              </div>
+            }
+            description={
+              <div className="product-description-exact">
+                <p>{product.description[locale]}</p>
+              </div>
+            }
+          />
+
+          {/* Quote Basket */}
+          <AddToQuote product={summary} locale={locale} />
+          <SpecSheetDownload product={summary} locale={locale} />
+          <ProductVisualizerLink productId={product.id} locale={locale} />
+
+          {/* Material Calculator */}
+          <MaterialCalculator product={summary} specs={product.specs} locale={locale} />
+
+          <ProjectReferences product={product} locale={locale} />
+        </SelectedColorProvider>
+
+        {/* Contact Section */}
+        <div className="contact-exact">
+          <h3>{t('product.contactTitle')}</h3>
+          <p>{t('product.contactText')}</p>
+          <a href={CONTACT_LINKS.phone} className="contact-btn-exact">
+            {t('product.contactButton')}
+          </a>
+          <a
+            href={CONTACT_LINKS.whatsapp}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="contact-btn secondary"
+          >
+            <span className="btn-icon">💬</span>
+            {t('product.whatsappButton')}
+          </a>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,41 @@
+import { notFound } from 'next/navigation'
+import AnimatedProductCard from '@/components/AnimatedProductCard'
+import Breadcrumb from '@/components/Breadcrumb'
+import { getProductImages, getProductPath, getProducts, series, type SeriesId } from '@/data/catalog'
+import type { Locale } from '@/i18n/config'
+
+// `params.series` is the series id; the middleware maps the localized
+// slugs (kultur-taslari, culture-stones) onto it
+export function generateStaticParams() {
+  return series.map((item) => ({ series: item.id }))
+}
+
+export default function SeriesPage({ params }: { params: { locale: Locale; series: SeriesId } }) {
+  const { locale } = params
+  const current = series.find((item) => item.id === params.series)
+  if (!current) notFound()
+
+  return (
+    <main>
+      <Breadcrumb />
+      {/* Products Section */}
+      <section className="products" id="products">
+        <div className="container">
+          <h2 className="section-title">{current.plural[locale]}</h2>
+          <div className="product-grid-premium">
+            {getProducts(current.id).map((product) => (
+              <AnimatedProductCard
+                key={product.id}
+                id={product.position}
+                title={product.title}
+                description={product.summary[locale]}
+                images={getProductImages(product)}
+                link={getProductPath(product, locale)}
+              />
+            ))}
+          </div>
+        </div>
+      </section>
+    </main>
+  )
+}
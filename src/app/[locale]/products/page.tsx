@@ -0,0 +1,53 @@
+import AnimatedProductCard from '@/components/AnimatedProductCard'
+import FloatingButtons from '@/components/FloatingButtons'
+import Breadcrumb from '@/components/Breadcrumb'
+import PDFCatalog from '@/components/PDFCatalog'
+import { getProductImages, getProductPath, getProducts, series } from '@/data/catalog'
+import { LOCALE_SETTINGS, type Locale } from '@/i18n/config'
+import { createTranslator } from '@/i18n/translate'
+
+export default function ProductsPage({ params }: { params: { locale: Locale } }) {
+  const { locale } = params
+  const t = createTranslator(locale)
+
+  return (
+    <main>
+      <Breadcrumb />
+      <FloatingButtons />
+
+      {/* PDF Catalog Section */}
+      <section className="pdf-catalog" id="catalog" style={{ padding: '40px 0 0 0', background: '#111' }}>
+        <div className="container">
+          <PDFCatalog locale={locale} />
+        </div>
+      </section>
+
+      {/* Products Section */}
+      <section className="products" id="products">
+        <div className="container">
+          <h2 className="section-title">{t('products.title')}</h2>
+
+          {series.map((item, index) => (
+            <div key={item.id} id={item.id}>
+              <h3 className="section-title" style={{ fontSize: '2rem', margin: index === 0 ? '0 0 32px 0' : '48px 0 32px 0' }}>
+                {item.plural[locale].toLocaleUpperCase(LOCALE_SETTINGS[locale].intl)}
+              </h3>
+              <div className="product-grid-premium">
+                {getProducts(item.id).map((product) => (
+                  <AnimatedProductCard
+                    key={product.id}
+                    id={product.position}
+                    title={product.title}
+                    description={product.summary[locale]}
+                    images={getProductImages(product)}
+                    link={getProductPath(product, locale)}
+                  />
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+      </section>
+    </main>
+  )
+}
@@ -0,0 +1,74 @@
+import type { Metadata } from 'next'
+import FloatingButtons from '@/components/FloatingButtons'
+import Breadcrumb from '@/components/Breadcrumb'
+import SearchResults from '@/components/SearchResults'
+import type { Locale } from '@/i18n/config'
+import { createTranslator } from '@/i18n/translate'
+import { parseFacetSelection, searchWithFacets } from '@/lib/search'
+
+type SearchParams = Record<string, string | string[] | undefined>
+
+interface SearchPageProps {
+  params: { locale: Locale }
+  searchParams: SearchParams
+}
+
+const readQuery = (searchParams: SearchParams) =>
+  typeof searchParams.q === 'string' ? searchParams.q : ''
+
+// Result pages are for visitors only; the product pages are what gets indexed
+export function generateMetadata({ params, searchParams }: SearchPageProps): Metadata {
+  const t = createTranslator(params.locale)
+  const query = readQuery(searchParams).trim()
+  return {
+    title: query ? t('search.metaTitleQuery', { query }) : t('search.metaTitle'),
+    robots: { index: false, follow: true },
+  }
+}
+
+export default function SearchPage({ params, searchParams }: SearchPageProps) {
+  const { locale } = params
+  const t = createTranslator(locale)
+  const response = searchWithFacets(readQuery(searchParams), locale, parseFacetSelection(searchParams))
+
+  return (
+    <main>
+      <FloatingButtons />
+      <Breadcrumb />
+
+      {/* Hero Section */}
+      <section style={{
+        background: 'linear-gradient(135deg, #2c3e50 0%, #34495e 100%)',
+        padding: '20px 0 30px 0',
+        color: 'white',
+        textAlign: 'center'
+      }}>
+        <div className="container">
+          <h1 style={{
+            fontSize: '2.5rem',
+            fontWeight: '700',
+            marginBottom: '15px',
+            color: 'white'
+          }}>
+            {t('search.title')}
+          </h1>
+          <p style={{
+            fontSize: '1.1rem',
+            maxWidth: '600px',
+            margin: '0 auto',
+            opacity: '0.9'
+          }}>
+            {t('search.intro')}
+          </p>
+        </div>
+      </section>
+
+      {/* Results Section */}
+      <section style={{ padding: '20px 0 40px 0', background: '#f8f9fa' }}>
+        <div className="container">
+          <SearchResults locale={locale} response={response} />
+        </div>
+      </section>
+    </main>
+  )
+}
@@ -0,0 +1,51 @@
+import FloatingButtons from '@/components/FloatingButtons'
+import Breadcrumb from '@/components/Breadcrumb'
+import WallVisualizer from '@/components/WallVisualizer'
+import type { Locale } from '@/i18n/config'
+import { createTranslator } from '@/i18n/translate'
+
+export default function VisualizerPage({ params }: { params: { locale: Locale } }) {
+  const { locale } = params
+  const t = createTranslator(locale)
+
+  return (
+    <main>
+      <FloatingButtons />
+      <Breadcrumb />
+
+      {/* Hero Section */}
+      <section style={{
+        background: 'linear-gradient(135deg, #2c3e50 0%, #34495e 100%)',
+        padding: '20px 0 30px 0',
+        color: 'white',
+        textAlign: 'center'
+      }}>
+        <div className="container">
+          <h1 style={{
+            fontSize: '2.5rem',
+            fontWeight: '700',
+            marginBottom: '15px',
+            color: 'white'
+          }}>
+            {t('visualizer.title')}
+          </h1>
+          <p style={{
+            fontSize: '1.1rem',
+            maxWidth: '600px',
+            margin: '0 auto',
+            opacity: '0.9'
+          }}>
+            {t('visualizer.intro')}
+          </p>
+        </div>
+      </section>
+
+      {/* Visualizer Section */}
+      <section style={{ padding: '30px 0 40px 0', background: '#f8f9fa' }}>
+        <div className="container">
+          <WallVisualizer locale={locale} />
+        </div>
+      </section>
+    </main>
+  )
+}
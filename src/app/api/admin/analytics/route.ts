@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequestAdmin } from '@/lib/auth';
+import { parseAnalyticsQuery, queryAnalytics } from '@/lib/analytics';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// GET /api/admin/analytics?from&to&metric&page&device&build&groupBy&interval=hour|day
+// Count, mean and percentiles per metric (and page, route, device or build),
+// optionally as a time series
+export async function GET(request: NextRequest) {
+  if (!getRequestAdmin(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const query = parseAnalyticsQuery(request.nextUrl.searchParams);
+    const items = await queryAnalytics(query);
+
+    return NextResponse.json({
+      from: new Date(query.from).toISOString(),
+      to: new Date(query.to).toISOString(),
+      groupBy: query.groupBy.length > 0 ? query.groupBy : ['metric'],
+      interval: query.interval || null,
+      items,
+    }, {
+      headers: { 'Cache-Control': 'no-store' },
+    });
+  } catch (error) {
+    console.error('Admin analytics API error:', error);
+    return NextResponse.json({ error: 'Failed to load analytics' }, { status: 500 });
+  }
+}
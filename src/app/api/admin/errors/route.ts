@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequestAdmin } from '@/lib/auth';
+import { errorGroups, summarizeErrorGroups } from '@/lib/errorLog';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// GET /api/admin/errors - client error groups, most recently seen first
+export async function GET(request: NextRequest) {
+  if (!getRequestAdmin(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const items = summarizeErrorGroups(await errorGroups.all());
+    return NextResponse.json(
+      {
+        items,
+        total: items.length,
+        occurrences: items.reduce((sum, group) => sum + group.count, 0),
+      },
+      { headers: { 'Cache-Control': 'no-store' } }
+    );
+  } catch (error) {
+    console.error('Admin errors API error:', error);
+    return NextResponse.json({ error: 'Failed to load errors' }, { status: 500 });
+  }
+}
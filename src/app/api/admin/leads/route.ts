@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAdminUsers, getRequestAdmin } from '@/lib/auth';
+import { LEAD_STATUSES, filterLeads, leads, leadsToCsv } from '@/lib/leads';
+import { countByStatus, parseSalesFilters } from '@/lib/sales';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// GET /api/admin/leads?from&to&subject&product&locale&status&assignedTo&q[&format=csv]
+export async function GET(request: NextRequest) {
+  if (!getRequestAdmin(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const all = await leads.all();
+    const filters = parseSalesFilters(request.nextUrl.searchParams);
+    const list = filterLeads(all, filters);
+
+    if (request.nextUrl.searchParams.get('format') === 'csv') {
+      return new NextResponse(leadsToCsv(list), {
+        headers: {
+          'Content-Type': 'text/csv; charset=utf-8',
+          'Content-Disposition': `attachment; filename="leads-${new Date().toISOString().slice(0, 10)}.csv"`,
+          'Cache-Control': 'no-store',
+        },
+      });
+    }
+
+    const subjects = all
+      .map((lead) => lead.subject)
+      .filter((subject, index, arr) => subject && arr.indexOf(subject) === index)
+      .sort();
+
+    return NextResponse.json({
+      items: list,
+      total: list.length,
+      statuses: LEAD_STATUSES,
+      counts: countByStatus(filterLeads(all, { ...filters, status: undefined }), LEAD_STATUSES),
+      assignees: getAdminUsers(),
+      subjects,
+    });
+  } catch (error) {
+    console.error('Admin leads API error:', error);
+    return NextResponse.json({ error: 'Failed to load leads' }, { status: 500 });
+  }
+}
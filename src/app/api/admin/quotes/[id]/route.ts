@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAdminUsers, getRequestAdmin } from '@/lib/auth';
+import { QUOTE_STATUSES, quotes } from '@/lib/quotes';
+import { applySalesUpdate, type SalesUpdate } from '@/lib/sales';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// PATCH { status?, assignedTo?, note? }
+export async function PATCH(request: NextRequest, { params }: { params: { id: string } }) {
+  const user = getRequestAdmin(request);
+  if (!user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  let body: SalesUpdate;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+  if (!body || typeof body !== 'object') {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  try {
+    const result = await applySalesUpdate(quotes, params.id, body, {
+      author: user,
+      statuses: QUOTE_STATUSES,
+      assignees: getAdminUsers(),
+    });
+
+    if (result.error) return NextResponse.json({ error: result.error }, { status: 400 });
+    if (result.notFound) return NextResponse.json({ error: 'Quote not found' }, { status: 404 });
+    return NextResponse.json({ success: true, item: result.record });
+  } catch (error) {
+    console.error('Admin quotes API error:', error);
+    return NextResponse.json({ error: 'Failed to update quote' }, { status: 500 });
+  }
+}
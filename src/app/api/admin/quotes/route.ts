@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAdminUsers, getRequestAdmin } from '@/lib/auth';
+import { QUOTE_STATUSES, filterQuotes, quotes, quotesToCsv } from '@/lib/quotes';
+import { countByStatus, parseSalesFilters } from '@/lib/sales';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// GET /api/admin/quotes?from&to&product&locale&status&assignedTo&q[&format=csv]
+export async function GET(request: NextRequest) {
+  if (!getRequestAdmin(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const all = await quotes.all();
+    const filters = parseSalesFilters(request.nextUrl.searchParams);
+    const list = filterQuotes(all, filters);
+
+    if (request.nextUrl.searchParams.get('format') === 'csv') {
+      return new NextResponse(quotesToCsv(list), {
+        headers: {
+          'Content-Type': 'text/csv; charset=utf-8',
+          'Content-Disposition': `attachment; filename="quotes-${new Date().toISOString().slice(0, 10)}.csv"`,
+          'Cache-Control': 'no-store',
+        },
+      });
+    }
+
+    return NextResponse.json({
+      items: list,
+      total: list.length,
+      statuses: QUOTE_STATUSES,
+      counts: countByStatus(filterQuotes(all, { ...filters, status: undefined }), QUOTE_STATUSES),
+      assignees: getAdminUsers(),
+    });
+  } catch (error) {
+    console.error('Admin quotes API error:', error);
+    return NextResponse.json({ error: 'Failed to load quotes' }, { status: 500 });
+  }
+}
@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  ADMIN_SESSION_COOKIE,
+  SESSION_MAX_AGE,
+  createSessionToken,
+  getRequestAdmin,
+  verifyCredentials,
+} from '@/lib/auth';
+import { RateLimiter, getClientIp } from '@/lib/rateLimit';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const cookieOptions = {
+  httpOnly: true,
+  sameSite: 'lax' as const,
+  secure: process.env.NODE_ENV === 'production',
+  path: '/',
+};
+
+// Failed logins per IP and per username. Once either runs out, logins are
+// refused until its window ends, even with the right password.
+const LOGIN_WINDOW_MS = 15 * 60 * 1000;
+const ipFailures = new RateLimiter(10, LOGIN_WINDOW_MS);
+const userFailures = new RateLimiter(5, LOGIN_WINDOW_MS);
+
+export async function GET(request: NextRequest) {
+  const user = getRequestAdmin(request);
+  if (!user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+  return NextResponse.json({ user });
+}
+
+// Login
+export async function POST(request: NextRequest) {
+  let body: Record<string, unknown>;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+  if (!body || typeof body !== 'object') {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  const username = typeof body.username === 'string' ? body.username.trim() : '';
+  const password = typeof body.password === 'string' ? body.password : '';
+
+  // A zero-cost hit only reads the window
+  const ipKey = `ip:${getClientIp(request)}`;
+  const userKey = `user:${username.toLowerCase()}`;
+  const locked = [ipFailures.hit(ipKey, 0), userFailures.hit(userKey, 0)].filter((limit) => limit.remaining === 0);
+  if (locked.length > 0) {
+    const retryAfter = Math.max(...locked.map((limit) => limit.retryAfter));
+    return NextResponse.json(
+      { error: 'Too many failed attempts' },
+      { status: 429, headers: { 'Retry-After': String(retryAfter) } }
+    );
+  }
+
+  if (!username || !password || !verifyCredentials(username, password)) {
+    ipFailures.hit(ipKey);
+    if (username) userFailures.hit(userKey);
+    return NextResponse.json({ error: 'Invalid username or password' }, { status: 401 });
+  }
+
+  const response = NextResponse.json({ success: true, user: username });
+  response.cookies.set(ADMIN_SESSION_COOKIE, createSessionToken(username), {
+    ...cookieOptions,
+    maxAge: SESSION_MAX_AGE,
+  });
+  return response;
+}
+
+// Logout
+export async function DELETE() {
+  const response = NextResponse.json({ success: true });
+  response.cookies.set(ADMIN_SESSION_COOKIE, '', { ...cookieOptions, maxAge: 0 });
+  return response;
+}
@@ -1,32 +1,59 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { MAX_BODY_BYTES, parseAnalyticsEvents, recordAnalyticsEvents } from '@/lib/analytics';
+import { RateLimiter, getClientIp } from '@/lib/rateLimit';
 
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// Events per IP: a page load sends a few dozen, a replayed outbox a few
+// hundred. Anything beyond is not stored, so one client cannot use the
+// public endpoint to fill the disk (see getClientIp for how it is keyed).
+const limiter = new RateLimiter(600, 60 * 1000);
+
+// POST /api/analytics - one performance event, an array or { events: [...] }.
+// Reading the aggregates is an admin endpoint: /api/admin/analytics.
 export async function POST(request: NextRequest) {
+  if (Number(request.headers.get('content-length') || 0) > MAX_BODY_BYTES) {
+    return NextResponse.json({ error: 'Payload too large' }, { status: 413 });
+  }
+
+  // Content-Length is missing on chunked requests, so the body is measured too
+  let raw: string;
+  try {
+    raw = await request.text();
+  } catch {
+    return NextResponse.json({ error: 'Invalid request body' }, { status: 400 });
+  }
+  if (Buffer.byteLength(raw, 'utf8') > MAX_BODY_BYTES) {
+    return NextResponse.json({ error: 'Payload too large' }, { status: 413 });
+  }
+
+  let body: unknown;
+  try {
+    body = JSON.parse(raw);
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  const { events, errors } = parseAnalyticsEvents(body);
+  if (events.length === 0) {
+    return NextResponse.json({ error: 'Validation failed', errors }, { status: 400 });
+  }
+
+  const limit = limiter.hit(`ip:${getClientIp(request)}`, events.length);
+  if (!limit.allowed) {
+    return NextResponse.json(
+      { error: 'Rate limited' },
+      { status: 429, headers: { 'Retry-After': String(limit.retryAfter) } }
+    );
+  }
+
   try {
-    const data = await request.json();
-    
-    // Log the analytics data
-    console.log('[Analytics]', {
-      timestamp: new Date().toISOString(),
-      ...data,
-    });
-
-    // Here you would typically send data to your analytics service
-    // Examples:
-    // - Google Analytics 4
-    // - Mixpanel
-    // - Amplitude
-    // - Custom analytics database
-    
-    // For now, we'll just log and store basic metrics
-    if (data.type === 'performance') {
-      // Store performance metrics
-      console.log(`[Performance] ${data.metric}: ${data.value}${data.unit || ''}`);
-    } else if (data.type === 'error') {
-      // Store error data
-      console.error(`[Error] ${data.data.message}`, data.data);
-    }
-
-    return NextResponse.json({ success: true });
+    recordAnalyticsEvents(events);
+    return NextResponse.json(
+      { success: true, accepted: events.length, rejected: errors.length, errors },
+      { status: 202 }
+    );
   } catch (error) {
     console.error('Analytics API error:', error);
     return NextResponse.json(
@@ -41,4 +68,4 @@ export async function GET() {
     message: 'Analytics endpoint is running',
     timestamp: new Date().toISOString(),
   });
-}
\ No newline at end of file
+}
@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { LOCALES, type Locale } from '@/data/catalog';
+import { getCatalogFileName, getCatalogPdf } from '@/lib/catalogPdf';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// GET /api/catalog.pdf?locale=<locale>[&download=1]
+export async function GET(request: NextRequest) {
+  const params = request.nextUrl.searchParams;
+  const locale: Locale = LOCALES.indexOf(params.get('locale') as Locale) >= 0 ? (params.get('locale') as Locale) : 'tr';
+  const disposition = params.get('download') === '1' ? 'attachment' : 'inline';
+
+  try {
+    const pdf = await getCatalogPdf(locale);
+    return new NextResponse(pdf, {
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Length': String(pdf.length),
+        'Content-Disposition': `${disposition}; filename="${getCatalogFileName(locale)}"`,
+        // Generated from the catalog data, which only changes on deploy
+        'Cache-Control': 'public, max-age=3600, s-maxage=86400, stale-while-revalidate=604800',
+      },
+    });
+  } catch (error) {
+    console.error('Catalog PDF error:', error);
+    return NextResponse.json({ error: 'Catalog could not be generated' }, { status: 500 });
+  }
+}
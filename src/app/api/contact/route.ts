@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { LOCALES, type Locale } from '@/data/catalog';
+import { createLead, type LeadSource } from '@/lib/leads';
+import { validateContact, type ContactFields } from '@/utils/validators';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const SOURCES: LeadSource[] = ['contact-page', 'contact-form'];
+
+const asString = (value: unknown) => (typeof value === 'string' ? value.trim() : '');
+
+export async function POST(request: NextRequest) {
+  let body: Record<string, unknown>;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+  if (!body || typeof body !== 'object') {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  // Honeypot field - real visitors never fill it in
+  if (asString(body.website)) {
+    return NextResponse.json({ success: true }, { status: 201 });
+  }
+
+  const locale: Locale = LOCALES.indexOf(body.locale as Locale) >= 0 ? (body.locale as Locale) : 'tr';
+  const fields: ContactFields = {
+    name: asString(body.name),
+    email: asString(body.email),
+    phone: asString(body.phone),
+    subject: asString(body.subject),
+    message: asString(body.message),
+  };
+
+  const fieldErrors = validateContact(fields, locale);
+  if (Object.keys(fieldErrors).length > 0) {
+    return NextResponse.json(
+      { error: 'Validation failed', fieldErrors },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const lead = await createLead({
+      ...fields,
+      locale,
+      source: SOURCES.indexOf(body.source as LeadSource) >= 0 ? (body.source as LeadSource) : 'contact-page',
+      page: asString(body.page) || undefined,
+      userAgent: request.headers.get('user-agent') || undefined,
+    });
+
+    return NextResponse.json({ success: true, id: lead.id }, { status: 201 });
+  } catch (error) {
+    console.error('Contact API error:', error);
+    return NextResponse.json(
+      { error: 'Failed to save message' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,39 +1,60 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { MAX_REPORT_BYTES, parseErrorReport, recordError } from '@/lib/errorLog';
+import { RateLimiter, getClientIp } from '@/lib/rateLimit';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// A render loop must not flood the log. Session ids come from the client,
+// so the IP has a limit of its own; it is higher since visitors behind one
+// NAT share it.
+const sessionLimiter = new RateLimiter(20, 60 * 1000);
+const ipLimiter = new RateLimiter(60, 60 * 1000);
 
 export async function POST(request: NextRequest) {
+  if (Number(request.headers.get('content-length') || 0) > MAX_REPORT_BYTES) {
+    return NextResponse.json({ error: 'Payload too large' }, { status: 413 });
+  }
+
+  // Content-Length is missing on chunked requests, so the body is measured too
+  let raw: string;
   try {
-    const errorData = await request.json();
-    
-    // Log the error data with structured formatting
-    console.error('[Error Log]', {
-      timestamp: new Date().toISOString(),
-      type: 'client_error',
-      ...errorData,
-    });
+    raw = await request.text();
+  } catch {
+    return NextResponse.json({ error: 'Invalid request body' }, { status: 400 });
+  }
+  if (Buffer.byteLength(raw, 'utf8') > MAX_REPORT_BYTES) {
+    return NextResponse.json({ error: 'Payload too large' }, { status: 413 });
+  }
+
+  let body: unknown;
+  try {
+    body = JSON.parse(raw);
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  const report = parseErrorReport(body);
+  if (typeof report === 'string') {
+    return NextResponse.json({ error: report }, { status: 400 });
+  }
 
-    // Here you would typically:
-    // 1. Send to error monitoring service (Sentry, Bugsnag, etc.)
-    // 2. Store in database for analysis
-    // 3. Send alerts for critical errors
-    // 4. Generate error reports
-
-    // Example: Store critical errors in database
-    if (errorData.data?.retryCount > 2) {
-      console.error('[Critical Error] Multiple retry failures:', errorData);
-      // sendSlackAlert(errorData);
-      // saveToCriticalErrorsDB(errorData);
-    }
-
-    // Example: Rate limiting for error spam
-    const clientId = errorData.data?.sessionId || 'unknown';
-    // if (await isErrorRateLimited(clientId)) {
-    //   return NextResponse.json({ error: 'Rate limited' }, { status: 429 });
-    // }
-
-    return NextResponse.json({ 
+  const ipLimit = ipLimiter.hit(`ip:${getClientIp(request)}`);
+  const limit = ipLimit.allowed && report.sessionId ? sessionLimiter.hit(`session:${report.sessionId}`) : ipLimit;
+  if (!limit.allowed) {
+    return NextResponse.json(
+      { error: 'Rate limited' },
+      { status: 429, headers: { 'Retry-After': String(limit.retryAfter) } }
+    );
+  }
+
+  try {
+    const group = await recordError(report);
+    return NextResponse.json({
       success: true,
       received: true,
-      message: 'Error logged successfully'
+      message: 'Error logged successfully',
+      group: group.id,
     });
   } catch (error) {
     console.error('Error logging API failed:', error);
@@ -51,4 +72,4 @@ export async function GET() {
     status: 'operational',
     timestamp: new Date().toISOString(),
   });
-}
\ No newline at end of file
+}
@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { LOCALES, type Locale } from '@/data/catalog';
+import { createQuote, resolveQuoteItems, type QuoteContact } from '@/lib/quotes';
+import { FIELD_LIMITS, getContactValidators } from '@/utils/validators';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const OPTIONAL_LIMIT = 100;
+
+const asString = (value: unknown) => (typeof value === 'string' ? value.trim() : '');
+
+export async function POST(request: NextRequest) {
+  let body: Record<string, unknown>;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+  if (!body || typeof body !== 'object') {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  // Honeypot field - real visitors never fill it in
+  if (asString(body.website)) {
+    return NextResponse.json({ success: true }, { status: 201 });
+  }
+
+  const locale: Locale = LOCALES.indexOf(body.locale as Locale) >= 0 ? (body.locale as Locale) : 'tr';
+  const raw = (body.contact && typeof body.contact === 'object' ? body.contact : {}) as Record<string, unknown>;
+  const contact: QuoteContact = {
+    name: asString(raw.name),
+    email: asString(raw.email),
+    phone: asString(raw.phone),
+    company: asString(raw.company).slice(0, OPTIONAL_LIMIT) || undefined,
+    city: asString(raw.city).slice(0, OPTIONAL_LIMIT) || undefined,
+    message: asString(raw.message).slice(0, FIELD_LIMITS.message) || undefined,
+  };
+
+  // Same contact rules as /api/contact; a phone number is required for quotes
+  const validators = getContactValidators(locale, { phoneRequired: true });
+  const fieldErrors: Record<string, string> = {};
+  (['name', 'email', 'phone'] as const).forEach((field) => {
+    const error = validators[field](contact[field]);
+    if (error) fieldErrors[field] = error;
+  });
+
+  const { items, errors: itemErrors } = resolveQuoteItems(body.items, locale);
+
+  if (Object.keys(fieldErrors).length > 0 || itemErrors.length > 0) {
+    return NextResponse.json(
+      { error: 'Validation failed', fieldErrors, itemErrors },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const quote = await createQuote({ locale, contact, items });
+    return NextResponse.json(
+      { success: true, id: quote.id, reference: quote.reference },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('Quotes API error:', error);
+    return NextResponse.json(
+      { error: 'Failed to save quote request' },
+      { status: 500 }
+    );
+  }
+}
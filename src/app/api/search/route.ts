@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { LOCALES, type Locale } from '@/data/catalog';
+import { DEFAULT_LIMIT, MAX_QUERY_LENGTH, search } from '@/lib/search';
+
+const MAX_LIMIT = 50;
+
+// GET /api/search?q=<query>&locale=<locale>&limit=8
+export async function GET(request: NextRequest) {
+  const params = request.nextUrl.searchParams;
+  const query = params.get('q') || '';
+  const locale: Locale = LOCALES.indexOf(params.get('locale') as Locale) >= 0 ? (params.get('locale') as Locale) : 'tr';
+  const limit = Math.min(MAX_LIMIT, Math.max(1, parseInt(params.get('limit') || '', 10) || DEFAULT_LIMIT));
+
+  if (query.length > MAX_QUERY_LENGTH) {
+    return NextResponse.json(
+      { error: `Query must be at most ${MAX_QUERY_LENGTH} characters` },
+      { status: 400 }
+    );
+  }
+
+  try {
+    return NextResponse.json(search(query, locale, limit), {
+      headers: {
+        // The index only changes on deploy
+        'Cache-Control': 'public, max-age=60, s-maxage=3600, stale-while-revalidate=86400',
+      },
+    });
+  } catch (error) {
+    console.error('Search API error:', error);
+    return NextResponse.json({ error: 'Search failed' }, { status: 500 });
+  }
+}
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { LOCALES, getProductById, type Locale } from '@/data/catalog';
+import { getSpecSheetFileName, getSpecSheetPdf } from '@/lib/specSheetPdf';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// GET /api/spec-sheet/<productId>?locale=<locale>&color=<colorKey>
+export async function GET(request: NextRequest, { params }: { params: { id: string } }) {
+  const product = getProductById(params.id);
+  if (!product) {
+    return NextResponse.json({ error: 'Product not found' }, { status: 404 });
+  }
+
+  const search = request.nextUrl.searchParams;
+  const locale: Locale = LOCALES.indexOf(search.get('locale') as Locale) >= 0 ? (search.get('locale') as Locale) : 'tr';
+  // Unknown colors fall back to the product's first color, like on the product page
+  const colorKey = search.get('color') || undefined;
+
+  try {
+    const pdf = await getSpecSheetPdf(product, colorKey, locale);
+    return new NextResponse(pdf, {
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Length': String(pdf.length),
+        'Content-Disposition': `attachment; filename="${getSpecSheetFileName(product, colorKey, locale)}"`,
+        'Cache-Control': 'public, max-age=3600, s-maxage=86400, stale-while-revalidate=604800',
+      },
+    });
+  } catch (error) {
+    console.error('Spec sheet PDF error:', error);
+    return NextResponse.json({ error: 'Spec sheet could not be generated' }, { status: 500 });
+  }
+}
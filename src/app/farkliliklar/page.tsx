@@ -1,12 +0,0 @@
-import Breadcrumb from '@/components/Breadcrumb'
-
-export default function FarkliliklarPage() {
-  return (
-    <main>
-      <Breadcrumb />
-      <div style={{ minHeight: '60vh', display: 'flex', alignItems: 'center', justifyContent: 'center', color: '#fff' }}>
-        <h1>Farklılıklarımız</h1>
-      </div>
-    </main>
-  );
-} 
\ No newline at end of file
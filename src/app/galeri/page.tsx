@@ -1,12 +0,0 @@
-import Breadcrumb from '@/components/Breadcrumb'
-
-export default function GaleriPage() {
-  return (
-    <main>
-      <Breadcrumb />
-      <div style={{ minHeight: '60vh', display: 'flex', alignItems: 'center', justifyContent: 'center', color: '#fff' }}>
-        <h1>Görsel Galeri</h1>
-      </div>
-    </main>
-  );
-} 
\ No newline at end of file
@@ -0,0 +1,14 @@
+import type { MetadataRoute } from 'next'
+import { SITE_URL } from '@/i18n/config'
+
+export default function robots(): MetadataRoute.Robots {
+  return {
+    rules: {
+      userAgent: '*',
+      // The catalog PDF is the only public document under /api
+      allow: ['/', '/api/catalog.pdf'],
+      disallow: ['/api/', '/admin', '/deployment'],
+    },
+    sitemap: `${SITE_URL}/sitemap.xml`,
+  }
+}
@@ -0,0 +1,30 @@
+import type { MetadataRoute } from 'next'
+import { getProductPath, getProducts, getSeriesPath, series } from '@/data/catalog'
+import { getProjectPath, getProjects } from '@/data/gallery'
+import { DEFAULT_LOCALE } from '@/i18n/config'
+import { getAlternateLinks } from '@/i18n/navigation'
+import { getLocalizedPath, type RouteId } from '@/i18n/routes'
+import { getAlternateLanguages } from '@/lib/seo'
+
+// Search results and the quote basket are left out: they depend on the
+// visitor, not on the catalog
+const PAGES: RouteId[] = ['home', 'products', 'gallery', 'visualizer', 'differences', 'professionals', 'contact']
+
+// Every indexable page in every language; each entry lists all language
+// versions of the page as hreflang alternates
+export default function sitemap(): MetadataRoute.Sitemap {
+  const paths = [
+    ...PAGES.map((route) => getLocalizedPath(DEFAULT_LOCALE, route)),
+    ...series.map((item) => getSeriesPath(item.id, DEFAULT_LOCALE)),
+    ...getProducts().map((product) => getProductPath(product, DEFAULT_LOCALE)),
+    ...getProjects().map((project) => getProjectPath(project, DEFAULT_LOCALE)),
+  ]
+
+  return paths.reduce((entries, path) => {
+    const languages = getAlternateLanguages(path)
+    getAlternateLinks(path)
+      .filter((link) => link.hrefLang !== 'x-default')
+      .forEach((link) => entries.push({ url: link.href, alternates: { languages } }))
+    return entries
+  }, [] as MetadataRoute.Sitemap)
+}
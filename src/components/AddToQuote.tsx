@@ -0,0 +1,103 @@
+"use client";
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { useSelectedColor } from '@/components/SelectedColorProvider';
+import { getColor, type Locale, type ProductSummary } from '@/data/catalog';
+import { useQuoteBasket } from '@/hooks/useQuoteBasket';
+import { useTranslations } from '@/i18n/I18nProvider';
+import { QUOTE_PAGE_PATHS } from '@/utils/quoteApi';
+
+interface AddToQuoteProps {
+  product: ProductSummary;
+  locale: Locale;
+  className?: string;
+}
+
+export default function AddToQuote({ product, locale, className = "" }: AddToQuoteProps) {
+  const t = useTranslations();
+  const [colorKey] = useSelectedColor();
+  const color = getColor(product, colorKey);
+  const { count, addItem } = useQuoteBasket();
+  const [quantity, setQuantity] = useState('');
+  const [status, setStatus] = useState<'idle' | 'added' | 'full'>('idle');
+
+  const parsed = parseFloat(quantity.replace(',', '.'));
+  const isValid = Number.isFinite(parsed) && parsed > 0;
+
+  const handleAdd = () => {
+    if (!isValid) return;
+    const added = addItem({ productId: product.id, colorKey: color.key, quantity: parsed });
+    setStatus(added ? 'added' : 'full');
+    if (added) setQuantity('');
+  };
+
+  return (
+    <div className={`add-to-quote ${className}`} style={{
+      background: '#f8f9fa',
+      borderRadius: '12px',
+      padding: '20px',
+      margin: '24px 0',
+      borderLeft: '4px solid #FD7E14',
+      fontFamily: 'Poppins, sans-serif',
+    }}>
+      <h3 style={{ fontSize: '1.1rem', fontWeight: 600, marginBottom: '12px', color: '#2c3e50' }}>
+        {t('addToQuote.title')}: {product.title} · {color.name}
+      </h3>
+      <div style={{ display: 'flex', gap: '12px', flexWrap: 'wrap', alignItems: 'flex-end' }}>
+        <label style={{ fontSize: '0.85rem', fontWeight: 500, color: '#2c3e50', flex: '1 1 140px' }}>
+          {t('addToQuote.quantity')}
+          <input
+            type="number"
+            inputMode="decimal"
+            min="0"
+            step="0.01"
+            value={quantity}
+            onChange={(e) => {
+              setQuantity(e.target.value);
+              setStatus('idle');
+            }}
+            style={{
+              display: 'block',
+              width: '100%',
+              marginTop: '6px',
+              padding: '10px 12px',
+              border: '2px solid #e9ecef',
+              borderRadius: '8px',
+              fontSize: '16px',
+            }}
+          />
+        </label>
+        <button
+          type="button"
+          onClick={handleAdd}
+          disabled={!isValid}
+          style={{
+            background: isValid ? '#FD7E14' : '#ccc',
+            color: '#fff',
+            border: 'none',
+            padding: '12px 24px',
+            borderRadius: '8px',
+            fontSize: '1rem',
+            fontWeight: 600,
+            cursor: isValid ? 'pointer' : 'not-allowed',
+          }}
+        >
+          {t('addToQuote.add')}
+        </button>
+      </div>
+
+      <div aria-live="polite" style={{ marginTop: '12px', fontSize: '0.9rem' }}>
+        {status === 'added' && (
+          <span style={{ color: '#155724' }}>{product.title} ({color.name}) {t('addToQuote.added')} </span>
+        )}
+        {status === 'full' && <span style={{ color: '#721c24' }}>{t('addToQuote.full')} </span>}
+        {count > 0 && (
+          <Link href={QUOTE_PAGE_PATHS[locale]} style={{ color: '#FD7E14', fontWeight: 600 }}>
+            {t('addToQuote.goToBasket')} ({count})
+          </Link>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,417 @@
+"use client";
+
+// Admin Dashboard Component
+// Sales panel for contact leads and quote requests, backed by /api/admin
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { getProducts } from '@/data/catalog';
+import type { Lead } from '@/lib/leads';
+import type { QuoteRequest } from '@/lib/quotes';
+import type { SalesFilters } from '@/lib/sales';
+
+interface AdminDashboardProps {
+  user: string;
+  className?: string;
+}
+
+type RecordKind = 'leads' | 'quotes';
+
+interface ListResponse<T> {
+  items: T[];
+  total: number;
+  statuses: string[];
+  counts: Record<string, number>;
+  assignees: string[];
+  subjects?: string[];
+}
+
+const STATUS_LABELS: Record<string, string> = {
+  new: 'Yeni',
+  contacted: 'İletişime Geçildi',
+  qualified: 'Nitelikli',
+  closed: 'Kapandı',
+  priced: 'Fiyatlandı',
+  sent: 'Gönderildi',
+  won: 'Kazanıldı',
+  lost: 'Kaybedildi',
+};
+
+const STATUS_ICONS: Record<string, string> = {
+  new: '🆕',
+  contacted: '📞',
+  qualified: '⭐',
+  closed: '✔️',
+  priced: '💰',
+  sent: '📤',
+  won: '🏆',
+  lost: '❌',
+};
+
+const EMPTY_FILTERS: SalesFilters = {};
+
+const toQuery = (filters: SalesFilters, extra: Record<string, string> = {}) => {
+  const params = new URLSearchParams();
+  Object.entries({ ...filters, ...extra }).forEach(([key, value]) => {
+    if (value) params.set(key, String(value));
+  });
+  return params.toString();
+};
+
+const formatDate = (iso: string) =>
+  new Date(iso).toLocaleString('tr-TR', { dateStyle: 'short', timeStyle: 'short' });
+
+const AdminDashboard: React.FC<AdminDashboardProps> = ({ user, className = '' }) => {
+  const [activeTab, setActiveTab] = useState<RecordKind>('leads');
+  const [filters, setFilters] = useState<SalesFilters>(EMPTY_FILTERS);
+  const [data, setData] = useState<ListResponse<Lead | QuoteRequest> | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [noteDraft, setNoteDraft] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/admin/${activeTab}?${toQuery(filters)}`, { cache: 'no-store' });
+      if (response.status === 401) {
+        window.location.href = '/admin/login';
+        return;
+      }
+      if (!response.ok) throw new Error(`HTTP ${response.status}`);
+      setData(await response.json());
+    } catch (err) {
+      console.error('[Admin] Failed to load records:', err);
+      setError('Kayıtlar yüklenemedi.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [activeTab, filters]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const switchTab = (tab: RecordKind) => {
+    setActiveTab(tab);
+    setFilters(EMPTY_FILTERS);
+    setSelectedId(null);
+    setData(null);
+  };
+
+  const setFilter = (key: keyof SalesFilters, value: string) => {
+    setFilters(prev => ({ ...prev, [key]: value || undefined }));
+  };
+
+  const update = async (id: string, changes: { status?: string; assignedTo?: string | null; note?: string }) => {
+    setError(null);
+    try {
+      const response = await fetch(`/api/admin/${activeTab}/${id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(changes),
+      });
+      const result = await response.json().catch(() => ({}));
+      if (!response.ok) throw new Error(result.error || `HTTP ${response.status}`);
+
+      setData(prev => prev && {
+        ...prev,
+        items: prev.items.map(item => (item.id === id ? result.item : item)),
+      });
+      return true;
+    } catch (err) {
+      console.error('[Admin] Failed to update record:', err);
+      setError('Değişiklik kaydedilemedi.');
+      return false;
+    }
+  };
+
+  const handleAddNote = async (id: string) => {
+    if (!noteDraft.trim()) return;
+    if (await update(id, { note: noteDraft })) setNoteDraft('');
+  };
+
+  const handleLogout = async () => {
+    await fetch('/api/admin/session', { method: 'DELETE' });
+    window.location.href = '/admin/login';
+  };
+
+  const items = data?.items || [];
+  const selected = items.find(item => item.id === selectedId) || null;
+  const statuses = data?.statuses || [];
+  const assignees = data?.assignees || [];
+
+  const getTitle = (item: Lead | QuoteRequest) =>
+    'reference' in item ? `${item.reference} · ${item.contact.name}` : `${item.name} · ${item.subject}`;
+
+  const getSummary = (item: Lead | QuoteRequest) => {
+    if ('reference' in item) {
+      const area = item.items.reduce((sum, line) => sum + line.quantity, 0);
+      return `${item.items.length} ürün · ${Math.round(area * 100) / 100} m²${item.contact.company ? ` · ${item.contact.company}` : ''}`;
+    }
+    return item.email;
+  };
+
+  return (
+    <div className={`metrics-dashboard admin-dashboard ${className}`}>
+      {/* Dashboard Header */}
+      <div className="metrics-header">
+        <div className="metrics-title">
+          <span>🗂️ Satış Paneli</span>
+          <span className="overall-score">👤 {user}</span>
+        </div>
+
+        <div className="metrics-controls">
+          <button onClick={load} className="metrics-button collect" disabled={isLoading}>
+            {isLoading ? 'Yükleniyor...' : 'Yenile'}
+          </button>
+          <a
+            href={`/api/admin/${activeTab}?${toQuery(filters, { format: 'csv' })}`}
+            className="metrics-button report"
+            download
+          >
+            CSV İndir
+          </a>
+          <a href="/admin/errors" className="metrics-button">
+            Hata Kayıtları
+          </a>
+          <a href="/admin/performance" className="metrics-button">
+            Performans
+          </a>
+          <button onClick={handleLogout} className="metrics-button">
+            Çıkış
+          </button>
+        </div>
+      </div>
+
+      {/* Status Overview */}
+      <div className="score-overview">
+        <div className="category-scores">
+          {statuses.map(status => (
+            <button
+              key={status}
+              type="button"
+              className={`category-score-card admin-status-card ${filters.status === status ? 'active' : ''}`}
+              onClick={() => setFilter('status', filters.status === status ? '' : status)}
+            >
+              <div className="category-name">{STATUS_ICONS[status]} {STATUS_LABELS[status] || status}</div>
+              <div className="category-score">{data?.counts[status] || 0}</div>
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {/* Tab Navigation */}
+      <div className="metrics-tabs">
+        <button
+          className={`tab ${activeTab === 'leads' ? 'active' : ''}`}
+          onClick={() => switchTab('leads')}
+        >
+          İletişim Talepleri {activeTab === 'leads' && data ? `(${data.total})` : ''}
+        </button>
+        <button
+          className={`tab ${activeTab === 'quotes' ? 'active' : ''}`}
+          onClick={() => switchTab('quotes')}
+        >
+          Teklif Talepleri {activeTab === 'quotes' && data ? `(${data.total})` : ''}
+        </button>
+      </div>
+
+      {/* Filters */}
+      <div className="admin-filters">
+        <label>
+          Başlangıç
+          <input type="date" value={filters.from || ''} onChange={(e) => setFilter('from', e.target.value)} />
+        </label>
+        <label>
+          Bitiş
+          <input type="date" value={filters.to || ''} onChange={(e) => setFilter('to', e.target.value)} />
+        </label>
+        {activeTab === 'leads' && (
+          <label>
+            Konu
+            <select value={filters.subject || ''} onChange={(e) => setFilter('subject', e.target.value)}>
+              <option value="">Tümü</option>
+              {(data?.subjects || []).map(subject => (
+                <option key={subject} value={subject}>{subject}</option>
+              ))}
+            </select>
+          </label>
+        )}
+        <label>
+          Ürün
+          <select value={filters.product || ''} onChange={(e) => setFilter('product', e.target.value)}>
+            <option value="">Tümü</option>
+            {getProducts().map(product => (
+              <option key={product.id} value={product.id}>{product.title}</option>
+            ))}
+          </select>
+        </label>
+        <label>
+          Dil
+          <select value={filters.locale || ''} onChange={(e) => setFilter('locale', e.target.value)}>
+            <option value="">Tümü</option>
+            <option value="tr">Türkçe</option>
+            <option value="en">English</option>
+          </select>
+        </label>
+        <label>
+          Durum
+          <select value={filters.status || ''} onChange={(e) => setFilter('status', e.target.value)}>
+            <option value="">Tümü</option>
+            {statuses.map(status => (
+              <option key={status} value={status}>{STATUS_LABELS[status] || status}</option>
+            ))}
+          </select>
+        </label>
+        <label>
+          Sorumlu
+          <select value={filters.assignedTo || ''} onChange={(e) => setFilter('assignedTo', e.target.value)}>
+            <option value="">Tümü</option>
+            <option value="none">Atanmamış</option>
+            {assignees.map(name => (
+              <option key={name} value={name}>{name}</option>
+            ))}
+          </select>
+        </label>
+        <label className="admin-filter-search">
+          Ara
+          <input
+            type="search"
+            value={filters.q || ''}
+            placeholder="İsim, e-posta, referans..."
+            onChange={(e) => setFilter('q', e.target.value)}
+          />
+        </label>
+        <button type="button" className="admin-filter-reset" onClick={() => setFilters(EMPTY_FILTERS)}>
+          Temizle
+        </button>
+      </div>
+
+      {error && (
+        <div className="notification error admin-error">
+          <span className="notification-message">{error}</span>
+        </div>
+      )}
+
+      {/* Tab Content */}
+      <div className="metrics-content admin-content">
+        <div className="admin-list">
+          {items.length === 0 && !isLoading && (
+            <div className="admin-empty">Filtrelere uyan kayıt bulunamadı.</div>
+          )}
+          {items.map(item => (
+            <button
+              key={item.id}
+              type="button"
+              className={`admin-row status-${item.status} ${item.id === selectedId ? 'selected' : ''}`}
+              onClick={() => setSelectedId(item.id)}
+            >
+              <span className="admin-row-title">{getTitle(item)}</span>
+              <span className="admin-row-meta">
+                {formatDate(item.createdAt)} · {item.locale.toUpperCase()} · {getSummary(item)}
+              </span>
+              <span className="admin-row-status">
+                {STATUS_ICONS[item.status]} {STATUS_LABELS[item.status] || item.status}
+                {item.assignedTo ? ` · ${item.assignedTo}` : ''}
+              </span>
+            </button>
+          ))}
+        </div>
+
+        {selected && (
+          <div className="admin-detail">
+            <h3>{getTitle(selected)}</h3>
+
+            <div className="admin-detail-controls">
+              <label>
+                Durum
+                <select value={selected.status} onChange={(e) => update(selected.id, { status: e.target.value })}>
+                  {statuses.map(status => (
+                    <option key={status} value={status}>{STATUS_LABELS[status] || status}</option>
+                  ))}
+                </select>
+              </label>
+              <label>
+                Sorumlu
+                <select
+                  value={selected.assignedTo || ''}
+                  onChange={(e) => update(selected.id, { assignedTo: e.target.value || null })}
+                >
+                  <option value="">Atanmamış</option>
+                  {assignees.map(name => (
+                    <option key={name} value={name}>{name}</option>
+                  ))}
+                </select>
+              </label>
+            </div>
+
+            {'reference' in selected ? (
+              <>
+                <dl className="admin-detail-fields">
+                  <dt>Ad Soyad</dt><dd>{selected.contact.name}</dd>
+                  <dt>Firma</dt><dd>{selected.contact.company || '-'}</dd>
+                  <dt>E-posta</dt><dd><a href={`mailto:${selected.contact.email}`}>{selected.contact.email}</a></dd>
+                  <dt>Telefon</dt><dd><a href={`tel:${selected.contact.phone}`}>{selected.contact.phone}</a></dd>
+                  <dt>Şehir</dt><dd>{selected.contact.city || '-'}</dd>
+                </dl>
+                <table className="admin-items">
+                  <thead>
+                    <tr><th>Ürün</th><th>Renk</th><th>m²</th><th>Köşe (m)</th></tr>
+                  </thead>
+                  <tbody>
+                    {selected.items.map((line, index) => (
+                      <tr key={index} title={line.note}>
+                        <td>{line.productTitle} <small>{line.productCode}</small></td>
+                        <td>{line.colorName}</td>
+                        <td>{line.quantity}</td>
+                        <td>{line.cornerLength || '-'}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+                {selected.contact.message && <p className="admin-message">{selected.contact.message}</p>}
+              </>
+            ) : (
+              <>
+                <dl className="admin-detail-fields">
+                  <dt>E-posta</dt><dd><a href={`mailto:${selected.email}`}>{selected.email}</a></dd>
+                  <dt>Telefon</dt><dd>{selected.phone ? <a href={`tel:${selected.phone}`}>{selected.phone}</a> : '-'}</dd>
+                  <dt>Kaynak</dt><dd>{selected.source}{selected.page ? ` (${selected.page})` : ''}</dd>
+                </dl>
+                <p className="admin-message">{selected.message}</p>
+              </>
+            )}
+
+            <div className="admin-notes">
+              <h4>Notlar ({selected.notes.length})</h4>
+              {selected.notes.map(note => (
+                <div key={note.id} className="admin-note">
+                  <div className="admin-note-meta">{note.author} · {formatDate(note.createdAt)}</div>
+                  <div>{note.text}</div>
+                </div>
+              ))}
+              <textarea
+                value={noteDraft}
+                onChange={(e) => setNoteDraft(e.target.value)}
+                placeholder="Dahili not ekleyin..."
+                rows={3}
+                maxLength={2000}
+              />
+              <button
+                type="button"
+                className="metrics-button collect"
+                onClick={() => handleAddNote(selected.id)}
+                disabled={!noteDraft.trim()}
+              >
+                Not Ekle
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AdminDashboard;
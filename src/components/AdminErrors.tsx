@@ -0,0 +1,161 @@
+"use client";
+
+// Admin Errors Component
+// Client error groups from /api/admin/errors, with stack traces mapped back
+// to src/ files where the build's source maps were available
+
+import React, { useState, useEffect, useCallback } from 'react';
+import type { ErrorGroupSummary } from '@/lib/errorLog';
+
+interface AdminErrorsProps {
+  user: string;
+  className?: string;
+}
+
+interface ErrorsResponse {
+  items: ErrorGroupSummary[];
+  total: number;
+  occurrences: number;
+}
+
+const formatDate = (iso: string) =>
+  new Date(iso).toLocaleString('tr-TR', { dateStyle: 'short', timeStyle: 'short' });
+
+const AdminErrors: React.FC<AdminErrorsProps> = ({ user, className = '' }) => {
+  const [data, setData] = useState<ErrorsResponse | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [showMinified, setShowMinified] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/admin/errors', { cache: 'no-store' });
+      if (response.status === 401) {
+        window.location.href = '/admin/login';
+        return;
+      }
+      if (!response.ok) throw new Error(`HTTP ${response.status}`);
+      setData(await response.json());
+    } catch (err) {
+      console.error('[Admin] Failed to load errors:', err);
+      setError('Hata kayıtları yüklenemedi.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const items = data?.items || [];
+  const selected = items.find(item => item.id === selectedId) || null;
+  const componentStack = selected?.lastReport.context?.componentStack;
+
+  return (
+    <div className={`metrics-dashboard admin-dashboard ${className}`}>
+      <div className="metrics-header">
+        <div className="metrics-title">
+          <span>🐞 Hata Kayıtları</span>
+          <span className="overall-score">👤 {user}</span>
+        </div>
+
+        <div className="metrics-controls">
+          <button onClick={load} className="metrics-button collect" disabled={isLoading}>
+            {isLoading ? 'Yükleniyor...' : 'Yenile'}
+          </button>
+          <a href="/admin" className="metrics-button">
+            Satış Paneli
+          </a>
+        </div>
+      </div>
+
+      <div className="score-overview">
+        <div className="category-scores">
+          <div className="category-score-card">
+            <div className="category-name">Hata Grupları</div>
+            <div className="category-score">{data?.total || 0}</div>
+          </div>
+          <div className="category-score-card">
+            <div className="category-name">Toplam Tekrar</div>
+            <div className="category-score">{data?.occurrences || 0}</div>
+          </div>
+        </div>
+      </div>
+
+      {error && (
+        <div className="notification error admin-error">
+          <span className="notification-message">{error}</span>
+        </div>
+      )}
+
+      <div className="metrics-content admin-content">
+        <div className="admin-list">
+          {items.length === 0 && !isLoading && (
+            <div className="admin-empty">Kayıtlı hata yok.</div>
+          )}
+          {items.map(item => (
+            <button
+              key={item.id}
+              type="button"
+              className={`admin-row ${item.id === selectedId ? 'selected' : ''}`}
+              onClick={() => setSelectedId(item.id)}
+            >
+              <span className="admin-row-title">{item.name}: {item.message}</span>
+              <span className="admin-row-meta">
+                {item.count} kez · {item.sessionCount} oturum · son {formatDate(item.lastSeen)}
+              </span>
+              <span className="admin-row-status">
+                {(item.sourceFrames || item.frames)[0] || 'Yığın bilgisi yok'}
+              </span>
+            </button>
+          ))}
+        </div>
+
+        {selected && (
+          <div className="admin-detail">
+            <h3>{selected.name}: {selected.message}</h3>
+
+            <dl className="admin-detail-fields">
+              <dt>Tekrar</dt><dd>{selected.count} kez, {selected.sessionCount} oturum</dd>
+              <dt>İlk görülme</dt><dd>{formatDate(selected.firstSeen)}</dd>
+              <dt>Son görülme</dt><dd>{formatDate(selected.lastSeen)}</dd>
+              <dt>Sayfalar</dt><dd>{selected.pages.join(', ') || '-'}</dd>
+              <dt>Tarayıcı</dt><dd>{selected.lastReport.userAgent || '-'}</dd>
+              <dt>Parmak izi</dt><dd><code>{selected.id}</code></dd>
+            </dl>
+
+            <div className="admin-stack-header">
+              <h4>{selected.sourceFrames && !showMinified ? 'Yığın (kaynak kodu)' : 'Yığın'}</h4>
+              {selected.sourceFrames && (
+                <button type="button" className="admin-filter-reset" onClick={() => setShowMinified(!showMinified)}>
+                  {showMinified ? 'Kaynak kodu göster' : 'Derlenmiş hali göster'}
+                </button>
+              )}
+            </div>
+            <pre className="admin-stack">
+              {selected.sourceFrames && !showMinified
+                ? selected.sourceFrames.join('\n')
+                : selected.lastReport.stack || selected.frames.join('\n') || '-'}
+            </pre>
+            {!selected.sourceFrames && selected.frames.length > 0 && (
+              <p className="admin-row-meta">Bu derlemenin kaynak haritaları bulunamadı.</p>
+            )}
+
+            {typeof componentStack === 'string' && (
+              <>
+                <h4>Bileşen yığını</h4>
+                <pre className="admin-stack">{componentStack.trim()}</pre>
+              </>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AdminErrors;
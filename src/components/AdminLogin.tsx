@@ -0,0 +1,121 @@
+"use client";
+
+import { useState } from 'react';
+import Loading from './Loading';
+
+const inputStyle: React.CSSProperties = {
+  width: '100%',
+  padding: '12px 15px',
+  border: '2px solid #e9ecef',
+  borderRadius: '8px',
+  fontSize: '16px',
+  marginTop: '8px',
+};
+
+export default function AdminLogin() {
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/admin/session', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ username, password }),
+      });
+      if (!response.ok) {
+        setError(
+          response.status === 401 ? 'Kullanıcı adı veya şifre hatalı.' :
+          response.status === 429 ? 'Çok fazla hatalı deneme. Lütfen daha sonra tekrar deneyin.' :
+          'Giriş yapılamadı.'
+        );
+        return;
+      }
+      window.location.href = '/admin';
+    } catch (err) {
+      console.error('[Admin] Login failed:', err);
+      setError('Giriş yapılamadı.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} style={{
+      maxWidth: '400px',
+      margin: '0 auto',
+      background: '#fff',
+      padding: '30px',
+      borderRadius: '15px',
+      boxShadow: '0 10px 30px rgba(0,0,0,0.1)',
+    }}>
+      <h1 style={{ fontSize: '1.6rem', fontWeight: 600, marginBottom: '25px', color: '#2c3e50' }}>
+        Satış Paneli Girişi
+      </h1>
+
+      {error && (
+        <div style={{
+          background: '#f8d7da',
+          color: '#721c24',
+          padding: '12px',
+          borderRadius: '8px',
+          marginBottom: '20px',
+          border: '1px solid #f5c6cb',
+        }}>
+          {error}
+        </div>
+      )}
+
+      <label style={{ display: 'block', marginBottom: '20px', fontWeight: 500, color: '#2c3e50' }}>
+        Kullanıcı Adı
+        <input
+          type="text"
+          value={username}
+          onChange={(e) => setUsername(e.target.value)}
+          autoComplete="username"
+          required
+          style={inputStyle}
+        />
+      </label>
+      <label style={{ display: 'block', marginBottom: '25px', fontWeight: 500, color: '#2c3e50' }}>
+        Şifre
+        <input
+          type="password"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          autoComplete="current-password"
+          required
+          style={inputStyle}
+        />
+      </label>
+
+      <button
+        type="submit"
+        disabled={isSubmitting}
+        style={{
+          width: '100%',
+          background: isSubmitting ? '#ccc' : '#FD7E14',
+          color: '#fff',
+          border: 'none',
+          padding: '14px',
+          borderRadius: '8px',
+          fontSize: '1rem',
+          fontWeight: 600,
+          cursor: isSubmitting ? 'not-allowed' : 'pointer',
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'center',
+          gap: '12px',
+        }}
+      >
+        {isSubmitting ? <Loading size="small" type="spinner" /> : 'Giriş Yap'}
+      </button>
+    </form>
+  );
+}
@@ -0,0 +1,322 @@
+"use client";
+
+// Admin Web Vitals Component
+// Field LCP, CLS, INP and TTFB (utils/webVitals) from /api/admin/analytics:
+// p75 per route and device class, and its trend across deploys and days
+
+import React, { useState, useEffect, useCallback } from 'react';
+import type { DeviceClass, MetricGroup } from '@/lib/analytics';
+import { PERFORMANCE_THRESHOLDS, WEB_VITALS, rateVital, type WebVitalName } from '@/utils/webVitals';
+
+interface AdminWebVitalsProps {
+  user: string;
+  className?: string;
+}
+
+interface VitalsData {
+  overall: MetricGroup[]; // per metric, with a daily series
+  routes: MetricGroup[]; // per metric, route and device
+  builds: MetricGroup[]; // per metric and build
+}
+
+interface TrendPoint {
+  label: string;
+  title: string;
+  value: number;
+  count: number;
+}
+
+const PERIODS = [7, 28, 90];
+
+// Deploys shown in the trend charts
+const MAX_BUILDS = 12;
+
+const DEVICE_LABELS: Record<DeviceClass | 'unknown', string> = {
+  mobile: 'Mobil',
+  tablet: 'Tablet',
+  desktop: 'Masaüstü',
+  unknown: 'Bilinmiyor',
+};
+
+const ROUTE_LABELS: Record<string, string> = {
+  home: 'Ana sayfa',
+  products: 'Ürünler',
+  series: 'Seri',
+  product: 'Ürün',
+  gallery: 'Galeri',
+  project: 'Proje',
+  contact: 'İletişim',
+  quote: 'Teklif',
+  search: 'Arama',
+  differences: 'Farklar',
+  professionals: 'Profesyoneller',
+  visualizer: 'Duvar görselleştirici',
+};
+
+const VITAL_LABELS: Record<WebVitalName, string> = {
+  LCP: 'Largest Contentful Paint',
+  CLS: 'Cumulative Layout Shift',
+  INP: 'Interaction to Next Paint',
+  TTFB: 'Time to First Byte',
+};
+
+const formatVital = (name: WebVitalName, value: number) => {
+  if (name === 'CLS') return value.toFixed(3);
+  if (value < 1000) return `${Math.round(value)}ms`;
+  return `${(value / 1000).toFixed(2)}s`;
+};
+
+const formatDate = (iso: string) =>
+  new Date(iso).toLocaleDateString('tr-TR', { day: 'numeric', month: 'short' });
+
+const daysAgo = (days: number) => new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+
+const findGroup = (groups: MetricGroup[], metric: WebVitalName, match: Partial<MetricGroup> = {}) =>
+  groups.find(group =>
+    group.metric === metric &&
+    (match.route === undefined || group.route === match.route) &&
+    (match.device === undefined || group.device === match.device)
+  );
+
+const VitalValue: React.FC<{ name: WebVitalName; group?: MetricGroup }> = ({ name, group }) => {
+  if (!group) return <span className="vital-value empty">-</span>;
+  return (
+    <span className={`vital-value ${rateVital(name, group.p75)}`} title={`${group.count} ölçüm`}>
+      {formatVital(name, group.p75)}
+    </span>
+  );
+};
+
+// p75 line with the good / needs improvement thresholds as dashed lines
+const TrendChart: React.FC<{ name: WebVitalName; points: TrendPoint[] }> = ({ name, points }) => {
+  const width = 320;
+  const height = 140;
+  const padding = { top: 10, right: 10, bottom: 22, left: 10 };
+  const threshold = PERFORMANCE_THRESHOLDS[name];
+  const max = Math.max(threshold.needsImprovement, ...points.map(point => point.value)) * 1.1;
+
+  const x = (index: number) =>
+    points.length === 1
+      ? width / 2
+      : padding.left + (index / (points.length - 1)) * (width - padding.left - padding.right);
+  const y = (value: number) => padding.top + (1 - value / max) * (height - padding.top - padding.bottom);
+
+  return (
+    <div className="vital-trend">
+      <div className="vital-trend-title">
+        <strong>{name}</strong> <span>{VITAL_LABELS[name]} · p75</span>
+      </div>
+      {points.length === 0 ? (
+        <div className="admin-empty">Veri yok.</div>
+      ) : (
+        <svg viewBox={`0 0 ${width} ${height}`} role="img" aria-label={`${name} p75 trendi`}>
+          <line className="vital-threshold good" x1={padding.left} x2={width - padding.right} y1={y(threshold.good)} y2={y(threshold.good)} />
+          <line className="vital-threshold poor" x1={padding.left} x2={width - padding.right} y1={y(threshold.needsImprovement)} y2={y(threshold.needsImprovement)} />
+          <polyline
+            className="vital-line"
+            points={points.map((point, index) => `${x(index)},${y(point.value)}`).join(' ')}
+          />
+          {points.map((point, index) => (
+            <circle key={point.label} className={`vital-dot ${rateVital(name, point.value)}`} cx={x(index)} cy={y(point.value)} r={4}>
+              <title>{`${point.title}: ${formatVital(name, point.value)} (${point.count} ölçüm)`}</title>
+            </circle>
+          ))}
+          <text className="vital-axis" x={padding.left} y={height - 6} textAnchor="start">{points[0].label}</text>
+          {points.length > 1 && (
+            <text className="vital-axis" x={width - padding.right} y={height - 6} textAnchor="end">
+              {points[points.length - 1].label}
+            </text>
+          )}
+        </svg>
+      )}
+    </div>
+  );
+};
+
+const AdminWebVitals: React.FC<AdminWebVitalsProps> = ({ user, className = '' }) => {
+  const [days, setDays] = useState(28);
+  const [device, setDevice] = useState<DeviceClass | ''>('');
+  const [trend, setTrend] = useState<'build' | 'day'>('build');
+  const [data, setData] = useState<VitalsData | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    const base = `from=${daysAgo(days - 1)}&metric=${WEB_VITALS.join(',')}${device ? `&device=${device}` : ''}`;
+
+    try {
+      const responses = await Promise.all(
+        [`${base}&interval=day`, `${base}&groupBy=route,device`, `${base}&groupBy=build`].map(params =>
+          fetch(`/api/admin/analytics?${params}`, { cache: 'no-store' })
+        )
+      );
+      if (responses.some(response => response.status === 401)) {
+        window.location.href = '/admin/login';
+        return;
+      }
+      const failed = responses.find(response => !response.ok);
+      if (failed) throw new Error(`HTTP ${failed.status}`);
+
+      const [overall, routes, builds] = await Promise.all(responses.map(response => response.json()));
+      setData({ overall: overall.items, routes: routes.items, builds: builds.items });
+    } catch (err) {
+      console.error('[Admin] Failed to load Web Vitals:', err);
+      setError('Performans verileri yüklenemedi.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [days, device]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  // One row per route and device, busiest first
+  const rows: { route: string; device: DeviceClass | 'unknown'; count: number }[] = [];
+  (data?.routes || []).forEach(group => {
+    const route = group.route as string;
+    const rowDevice = group.device || 'unknown';
+    const row = rows.find(item => item.route === route && item.device === rowDevice);
+    if (row) row.count = Math.max(row.count, group.count);
+    else rows.push({ route, device: rowDevice, count: group.count });
+  });
+  rows.sort((a, b) => b.count - a.count);
+
+  const trendPoints = (name: WebVitalName): TrendPoint[] => {
+    if (!data) return [];
+    if (trend === 'day') {
+      const group = findGroup(data.overall, name);
+      return (group?.series || []).map(bucket => ({
+        label: formatDate(bucket.start),
+        title: formatDate(bucket.start),
+        value: bucket.p75,
+        count: bucket.count,
+      }));
+    }
+    return data.builds
+      .filter(group => group.metric === name)
+      .sort((a, b) => a.firstSeen.localeCompare(b.firstSeen))
+      .slice(-MAX_BUILDS)
+      .map(group => ({
+        label: group.build as string,
+        title: `${group.build} (${formatDate(group.firstSeen)} - ${formatDate(group.lastSeen)})`,
+        value: group.p75,
+        count: group.count,
+      }));
+  };
+
+  return (
+    <div className={`metrics-dashboard admin-dashboard ${className}`}>
+      <div className="metrics-header">
+        <div className="metrics-title">
+          <span>⚡ Web Vitals (saha verisi)</span>
+          <span className="overall-score">👤 {user}</span>
+        </div>
+
+        <div className="metrics-controls">
+          <button onClick={load} className="metrics-button collect" disabled={isLoading}>
+            {isLoading ? 'Yükleniyor...' : 'Yenile'}
+          </button>
+          <a href="/admin" className="metrics-button">
+            Satış Paneli
+          </a>
+        </div>
+      </div>
+
+      <div className="admin-filters">
+        <label>
+          Dönem
+          <select value={days} onChange={(e) => setDays(Number(e.target.value))}>
+            {PERIODS.map(period => (
+              <option key={period} value={period}>Son {period} gün</option>
+            ))}
+          </select>
+        </label>
+        <label>
+          Cihaz
+          <select value={device} onChange={(e) => setDevice(e.target.value as DeviceClass | '')}>
+            <option value="">Tümü</option>
+            <option value="mobile">{DEVICE_LABELS.mobile}</option>
+            <option value="tablet">{DEVICE_LABELS.tablet}</option>
+            <option value="desktop">{DEVICE_LABELS.desktop}</option>
+          </select>
+        </label>
+        <label>
+          Trend
+          <select value={trend} onChange={(e) => setTrend(e.target.value as 'build' | 'day')}>
+            <option value="build">Sürüme göre</option>
+            <option value="day">Güne göre</option>
+          </select>
+        </label>
+      </div>
+
+      <div className="score-overview">
+        <div className="category-scores">
+          {WEB_VITALS.map(name => {
+            const group = data ? findGroup(data.overall, name) : undefined;
+            return (
+              <div key={name} className={`category-score-card vital-card ${group ? rateVital(name, group.p75) : ''}`}>
+                <div className="category-name">{name} · p75</div>
+                <div className="category-score">{group ? formatVital(name, group.p75) : '-'}</div>
+                <div className="admin-row-meta">{group ? `${group.count} ölçüm` : 'Ölçüm yok'}</div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+
+      {error && (
+        <div className="notification error admin-error">
+          <span className="notification-message">{error}</span>
+        </div>
+      )}
+
+      <div className="metrics-content">
+        <div className="vital-trends">
+          {WEB_VITALS.map(name => (
+            <TrendChart key={name} name={name} points={trendPoints(name)} />
+          ))}
+        </div>
+
+        <h3 className="vital-section-title">Sayfa türü ve cihaza göre p75</h3>
+        {rows.length === 0 && !isLoading ? (
+          <div className="admin-empty">Bu dönemde ölçüm yok.</div>
+        ) : (
+          <table className="admin-items vital-table">
+            <thead>
+              <tr>
+                <th>Sayfa türü</th>
+                <th>Cihaz</th>
+                {WEB_VITALS.map(name => <th key={name}>{name}</th>)}
+                <th>Ölçüm</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map(row => (
+                <tr key={`${row.route} ${row.device}`}>
+                  <td>{ROUTE_LABELS[row.route] || row.route}</td>
+                  <td>{DEVICE_LABELS[row.device]}</td>
+                  {WEB_VITALS.map(name => (
+                    <td key={name}>
+                      <VitalValue name={name} group={findGroup(data?.routes || [], name, { route: row.route, device: row.device })} />
+                    </td>
+                  ))}
+                  <td>{row.count}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+
+        <p className="admin-row-meta">
+          Renkler Core Web Vitals eşiklerine göre: iyi, iyileştirilmeli, zayıf. Değerler ziyaretlerin
+          %75&apos;inin kaldığı sınırdır (p75).
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default AdminWebVitals;
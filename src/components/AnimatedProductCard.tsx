@@ -2,8 +2,7 @@
 
 import { useState, useEffect } from 'react'
 import Link from 'next/link'
-import Image from 'next/image'
-import ProductImage from './ProductImage'
+import ResponsiveImage from './ResponsiveImage'
 import Loading, { ProductCardSkeleton } from './Loading'
 import { useErrorHandling } from '@/hooks/useErrorHandling'
 import { usePerformanceMonitoring } from '@/hooks/usePerformanceMonitoring'
@@ -20,7 +19,6 @@ interface AnimatedProductCardProps {
 export default function AnimatedProductCard({ id, title, description, images, link, loading = false }: AnimatedProductCardProps) {
   const [currentImageIndex, setCurrentImageIndex] = useState(0)
   const [isTransitioning, setIsTransitioning] = useState(false)
-  const [imagesLoaded, setImagesLoaded] = useState(false)
   const [cardError, setCardError] = useState(false)
 
   const { handleError, executeWithErrorHandling } = useErrorHandling({
@@ -33,11 +31,6 @@ export default function AnimatedProductCard({ id, title, description, images, li
 
   const { measureUserInteraction } = usePerformanceMonitoring('AnimatedProductCard');
 
-  // Handle image loading
-  const handleImageLoad = () => {
-    setImagesLoaded(true);
-  };
-
   // Click tracking
   const handleCardClick = () => {
     const endMeasurement = measureUserInteraction('product_card_click');
@@ -69,7 +62,7 @@ export default function AnimatedProductCard({ id, title, description, images, li
   }, [images, id, executeWithErrorHandling]);
 
   // Show loading skeleton
-  if (loading || !imagesLoaded) {
+  if (loading) {
     return <ProductCardSkeleton />;
   }
 
@@ -119,23 +112,18 @@ export default function AnimatedProductCard({ id, title, description, images, li
           height: '300px',
           backgroundColor: '#f5f5f5'
         }}>
-          {/* Ana resim - Next.js Image component ile optimize edilmiş */}
+          {/* Ana resim - manifest'teki AVIF/WebP boyutlarından tarayıcı seçer */}
           {images && images.length > 0 && (
-            <Image 
-              src={images[currentImageIndex]} 
-              alt={`${title} - ${currentImageIndex + 1}`} 
+            <ResponsiveImage
+              src={images[currentImageIndex]}
+              alt={`${title} - ${currentImageIndex + 1}`}
               fill
               sizes="(max-width: 768px) 100vw, (max-width: 1200px) 50vw, 33vw"
-              style={{ 
-                objectFit: 'cover',
+              priority={currentImageIndex === 0}
+              style={{
                 transition: 'opacity 0.4s ease-in-out',
                 opacity: isTransitioning ? 0 : 1,
               }}
-              quality={75}
-              priority={currentImageIndex === 0}
-              placeholder="blur"
-              blurDataURL="data:image/jpeg;base64,/9j/4AAQSkZJRgABAQAAAQABAAD/2wBDAAYEBQYFBAYGBQYHBwYIChAKCgkJChQODwwQFxQYGBcUFhYaHSUfGhsjHBYWICwgIyYnKSopGR8tMC0oMCUoKSj/2wBDAQcHBwoIChMKChMoGhYaKCgoKCgoKCgoKCgoKCgoKCgoKCgoKCgoKCgoKCgoKCgoKCgoKCgoKCgoKCgoKCgoKCj/wAARCAAIAAoDASIAAhEBAxEB/8QAFQABAQAAAAAAAAAAAAAAAAAAAAv/xAAhEAACAQMDBQAAAAAAAAAAAAABAgMABAUGIWGRkqGx0f/EABUBAQEAAAAAAAAAAAAAAAAAAAMF/8QAGhEAAgIDAAAAAAAAAAAAAAAAAAECEgMRkf/aAAwDAQACEQMRAD8AltJagyeH0AthI5xdrLcNM91BF5pX2HaH9bcfaSXWGaRmknyJckliyjqTzSlT54b6bk+h0R//2Q=="
-              loading={currentImageIndex === 0 ? "eager" : "lazy"}
             />
           )}
           
@@ -1,120 +1,101 @@
 "use client";
 import Link from 'next/link';
 import { usePathname } from 'next/navigation';
-import { useEffect, useState } from 'react';
+import { getProductBySlug, getSeries, getSeriesPath, type SeriesId } from '@/data/catalog';
+import { getProjectBySlug } from '@/data/gallery';
+import JsonLd from '@/components/JsonLd';
+import { useTranslations } from '@/i18n/I18nProvider';
+import { getLocalizedPath, matchRoute, type RouteMatch } from '@/i18n/routes';
+import type { Translator } from '@/i18n/translate';
+import { getBreadcrumbJsonLd } from '@/lib/seo';
 
-const breadcrumbMapTr: Record<string, string> = {
-  '': 'Anasayfa',
-  'urun': 'Ürünler',
-  'urunler': 'Ürünler',
-  'kultur-taslari': 'Kültür Taşları',
-  'kultur-tuglalari': 'Kültür Tuğlaları',
-  'galeri': 'Görsel Galeri',
-  'farkliliklar': 'Farklılıklarımız',
-  'profesyonellere-ozel': 'Profesyonellere Özel',
-  'iletisim': 'İletişim',
-  'kultur-tasi-1': 'Mitra',
-  'kultur-tasi-2': 'Luminar',
-  'kultur-tasi-3': 'Belezza',
-  'kultur-tasi-4': 'Arvion',
-  'kultur-tasi-5': 'Tivoli',
-  'kultur-tuglasi-1': 'Leon',
-  'kultur-tuglasi-2': 'Leila',
-  'kultur-tuglasi-3': 'Lora',
-};
-const breadcrumbMapEn: Record<string, string> = {
-  '': 'Home',
-  'products': 'Products',
-  'gallery': 'Gallery',
-  'differences': 'Our Differences',
-  'for-professionals': 'For Professionals',
-  'contact': 'Contact',
-  // örnek ürünler
-  'culture-stone-1': 'Mitra',
-  'culture-stone-2': 'Luminar',
-  'culture-stone-3': 'Belezza',
-  'culture-stone-4': 'Arvion',
-  'culture-stone-5': 'Tivoli',
-  'culture-brick-1': 'Leon',
-  'culture-brick-2': 'Leila',
-  'culture-brick-3': 'Lora',
-};
+interface Crumb {
+  label: string;
+  href: string;
+}
 
-const colors = ['#FFA726', '#FB8C00', '#E53935'];
+// Sayfa adları mesaj kataloğundan; ürün, seri ve proje adları katalog ve galeri verisinden gelir
+function buildTrail({ locale, route, params }: RouteMatch, t: Translator): Crumb[] {
+  const trail: Crumb[] = [{ label: t('breadcrumb.home'), href: getLocalizedPath(locale, 'home') }];
+  const productsCrumb = { label: t('breadcrumb.products'), href: getLocalizedPath(locale, 'products') };
 
-function formatTitle(str: string) {
-  if (!str) return '';
-  return str.charAt(0).toUpperCase() + str.slice(1).toLowerCase();
+  switch (route) {
+    case 'home':
+      return trail;
+    case 'products':
+      return [...trail, productsCrumb];
+    case 'series': {
+      const current = getSeries(params.series as SeriesId);
+      return [...trail, productsCrumb, { label: current.plural[locale], href: getSeriesPath(current.id, locale) }];
+    }
+    case 'product': {
+      const product = getProductBySlug(params.slug || '', locale);
+      if (!product) return [...trail, productsCrumb];
+      const current = getSeries(product.series);
+      return [
+        ...trail,
+        productsCrumb,
+        { label: current.plural[locale], href: getSeriesPath(current.id, locale) },
+        { label: product.title, href: getLocalizedPath(locale, 'product', params) },
+      ];
+    }
+    case 'project': {
+      const galleryCrumb = { label: t('breadcrumb.gallery'), href: getLocalizedPath(locale, 'gallery') };
+      const project = getProjectBySlug(params.slug || '', locale);
+      if (!project) return [...trail, galleryCrumb];
+      return [...trail, galleryCrumb, { label: project.title[locale], href: getLocalizedPath(locale, 'project', params) }];
+    }
+    default:
+      return [...trail, { label: t(`breadcrumb.${route}`), href: getLocalizedPath(locale, route) }];
+  }
 }
 
+const colors = ['#FFA726', '#FB8C00', '#E53935'];
+
 export default function Breadcrumb() {
   const pathname = usePathname();
-  const [isEn, setIsEn] = useState(false);
-  const [isClient, setIsClient] = useState(false);
+  const t = useTranslations();
+  const match = matchRoute(pathname, true);
 
-  // Handle client-side hydration
-  useEffect(() => {
-    setIsClient(true);
-    setIsEn(pathname.startsWith('/en'));
-  }, [pathname]);
-
-  // Parçaları al, eğer İngilizce ise baştaki 'en'i atla
-  const parts = pathname.split('/').filter(Boolean);
-  const realParts = isClient && isEn ? parts.slice(1) : parts;
-  let path = isClient && isEn ? '/en' : '';
-  const map = isClient && isEn ? breadcrumbMapEn : breadcrumbMapTr;
-
-  // Ana sayfada breadcrumb gösterme
-  if (pathname === '/' || pathname === '/en') {
+  // Ana sayfada ve bulunamayan sayfalarda breadcrumb gösterme
+  if (!match || match.route === 'home') {
     return null;
   }
 
+  const trail = buildTrail(match, t);
+
   return (
-    <nav style={{
-      background: 'rgba(255,255,255,0.92)',
-      borderBottom: '1px solid #eee',
-      fontSize: '0.98rem',
-      padding: '10px 0 10px 32px',
-      color: '#444',
-      letterSpacing: '0.01em',
-      zIndex: 900,
-      position: 'relative',
-      fontWeight: 500,
-      display: 'flex',
-      alignItems: 'center',
-      gap: 0,
-    }} aria-label="breadcrumb">
-      {realParts.length === 0 ? (
-        <span style={{ color: colors[0], fontWeight: 700 }}>{map['']}</span>
-      ) : (
-        <>
-          <Link href={isEn ? "/en" : "/"} style={{ color: colors[0], textDecoration: 'none', fontWeight: 700 }}>{map['']}</Link>
-          <span style={{ margin: '0 8px', color: '#aaa' }}>/</span>
-          {realParts.map((part, idx) => {
-            path += '/' + part;
-            const isLast = idx === realParts.length - 1;
-            const label = map[part] || formatTitle(part.replace(/-/g, ' '));
-            const color = colors[idx + 1] || colors[2];
-            
-            // Özel durum: "urun" ve "products" linklerini doğru sayfalara yönlendir
-            let linkPath = path;
-            if (part === 'urun') {
-              linkPath = isEn ? '/en/products' : '/urunler';
-            } else if (part === 'products') {
-              linkPath = '/en/products';
-            }
-            
-            return isLast ? (
-              <span key={part} style={{ color, fontWeight: 700 }}>{label}</span>
-            ) : (
-              <span key={part}>
-                <Link href={linkPath} style={{ color, textDecoration: 'none', fontWeight: 700 }}>{label}</Link>
-                <span style={{ margin: '0 8px', color: '#aaa' }}>/</span>
-              </span>
-            );
-          })}
-        </>
-      )}
-    </nav>
+    <>
+      <JsonLd data={getBreadcrumbJsonLd(trail)} />
+      <nav style={{
+        background: 'rgba(255,255,255,0.92)',
+        borderBottom: '1px solid #eee',
+        fontSize: '0.98rem',
+        paddingBlock: '10px',
+        paddingInlineStart: '32px',
+        color: '#444',
+        letterSpacing: '0.01em',
+        zIndex: 900,
+        position: 'relative',
+        fontWeight: 500,
+        display: 'flex',
+        alignItems: 'center',
+        gap: 0,
+      }} aria-label={t('breadcrumb.label')}>
+        {trail.map((crumb, idx) => {
+          const isLast = idx === trail.length - 1;
+          const color = colors[idx] || colors[2];
+
+          return isLast ? (
+            <span key={crumb.href} style={{ color, fontWeight: 700 }} aria-current="page">{crumb.label}</span>
+          ) : (
+            <span key={crumb.href}>
+              <Link href={crumb.href} style={{ color, textDecoration: 'none', fontWeight: 700 }}>{crumb.label}</Link>
+              <span style={{ margin: '0 8px', color: '#aaa' }}>/</span>
+            </span>
+          );
+        })}
+      </nav>
+    </>
   );
-} 
\ No newline at end of file
+}
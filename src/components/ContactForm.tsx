@@ -1,12 +1,16 @@
 "use client";
 
 import { useState } from 'react';
+import Link from 'next/link';
 import { useFormErrorHandling, useErrorHandling } from '@/hooks/useErrorHandling';
 import { usePerformanceMonitoring } from '@/hooks/usePerformanceMonitoring';
 import Loading from './Loading';
 import MobileFormInput from './MobileFormInput';
 import MobileTextarea from './MobileTextarea';
 import MobilePhoneInput from './MobilePhoneInput';
+import { getContactValidators } from '@/utils/validators';
+import { ContactSubmitError, submitContact } from '@/utils/contactApi';
+import { QUOTE_PAGE_PATHS } from '@/utils/quoteApi';
 
 interface FormData {
   name: string;
@@ -80,36 +84,8 @@ export default function ContactForm({ className = "" }: ContactFormProps) {
 
   const { measureApiCall, measureUserInteraction } = usePerformanceMonitoring('ContactForm');
 
-  // Validation functions
-  const validators = {
-    name: (value: string) => {
-      if (!value.trim()) return 'İsim gereklidir';
-      if (value.trim().length < 2) return 'İsim en az 2 karakter olmalıdır';
-      return null;
-    },
-    email: (value: string) => {
-      if (!value.trim()) return 'E-posta gereklidir';
-      const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
-      if (!emailRegex.test(value)) return 'Geçerli bir e-posta adresi girin';
-      return null;
-    },
-    phone: (value: string) => {
-      if (!value.trim()) return 'Telefon numarası gereklidir';
-      const phoneRegex = /^[\d\s\-\+\(\)]{10,}$/;
-      if (!phoneRegex.test(value)) return 'Geçerli bir telefon numarası girin';
-      return null;
-    },
-    subject: (value: string) => {
-      if (!value.trim()) return 'Konu gereklidir';
-      if (value.trim().length < 5) return 'Konu en az 5 karakter olmalıdır';
-      return null;
-    },
-    message: (value: string) => {
-      if (!value.trim()) return 'Mesaj gereklidir';
-      if (value.trim().length < 10) return 'Mesaj en az 10 karakter olmalıdır';
-      return null;
-    },
-  };
+  // Same validators as the /api/contact route
+  const validators = getContactValidators('tr', { phoneRequired: true });
 
   const handleInputChange = (field: keyof FormData, value: string) => {
     setFormData(prev => ({ ...prev, [field]: value }));
@@ -150,15 +126,7 @@ export default function ContactForm({ className = "" }: ContactFormProps) {
   };
 
   const submitForm = async (data: FormData) => {
-    // Simulate API call
-    await new Promise(resolve => setTimeout(resolve, 1500));
-    
-    // For demo purposes, randomly succeed/fail
-    if (Math.random() > 0.8) {
-      throw new Error('Sunucu hatası: Mesaj gönderilemedi');
-    }
-
-    return { success: true, message: 'Mesajınız başarıyla gönderildi!' };
+    return submitContact({ ...data, locale: 'tr', source: 'contact-form' });
   };
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -175,12 +143,12 @@ export default function ContactForm({ className = "" }: ContactFormProps) {
 
     setIsSubmitting(true);
 
-    const result = await measureApiCall(
-      () => submitForm(formData),
-      'contact_form_submit'
-    );
+    try {
+      await measureApiCall(
+        () => submitForm(formData),
+        'contact_form_submit'
+      );
 
-    if (result) {
       setIsSuccess(true);
       setFormData({
         name: '',
@@ -193,7 +161,12 @@ export default function ContactForm({ className = "" }: ContactFormProps) {
       setTimeout(() => {
         setIsSuccess(false);
       }, 5000);
-    } else {
+    } catch (error) {
+      if (error instanceof ContactSubmitError) {
+        Object.entries(error.fieldErrors).forEach(([field, message]) => {
+          if (message) setFieldError(field, message);
+        });
+      }
       setSubmitError('Mesaj gönderilemedi. Lütfen tekrar deneyin.');
     }
 
@@ -334,6 +307,25 @@ export default function ContactForm({ className = "" }: ContactFormProps) {
         />
       </div>
 
+      {/* Quote requests have their own flow with product/color line items */}
+      {formData.subject.trim().toLocaleLowerCase('tr-TR') === 'fiyat teklifi' && (
+        <div style={{
+          background: '#fff3e6',
+          border: '1px solid #FD7E14',
+          borderRadius: '8px',
+          padding: '12px',
+          marginBottom: '20px',
+          fontSize: '0.9rem',
+          color: '#2c3e50',
+        }}>
+          Ürün ve renk bazında fiyat almak için{' '}
+          <Link href={QUOTE_PAGE_PATHS.tr} style={{ color: '#FD7E14', fontWeight: 600 }}>
+            teklif sepetini
+          </Link>{' '}
+          kullanabilirsiniz; talebiniz referans numarası ile takip edilir.
+        </div>
+      )}
+
       {/* Message Field */}
       <div style={{ marginBottom: '24px' }}>
         <MobileTextarea
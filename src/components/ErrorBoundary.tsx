@@ -1,6 +1,7 @@
 "use client";
 
 import React, { Component, ErrorInfo, ReactNode } from 'react';
+import { logErrorToService } from '@/hooks/useErrorHandling';
 
 interface Props {
   children: ReactNode;
@@ -38,25 +39,13 @@ export default class ErrorBoundary extends Component<Props, State> {
   }
 
   private logErrorToService = (error: Error, errorInfo: ErrorInfo) => {
-    // You can integrate with services like Sentry, LogRocket, etc.
-    const errorData = {
-      message: error.message,
-      stack: error.stack,
-      componentStack: errorInfo.componentStack,
-      timestamp: new Date().toISOString(),
-      userAgent: navigator.userAgent,
-      url: window.location.href,
-    };
-
-    // For now, log to console - replace with actual service
-    console.error('Error logged:', errorData);
-    
-    // Example: Send to monitoring service
-    // fetch('/api/log-error', {
-    //   method: 'POST',
-    //   headers: { 'Content-Type': 'application/json' },
-    //   body: JSON.stringify(errorData),
-    // });
+    // Same reporting path as setupGlobalErrorHandling: /api/error-logging,
+    // buffered while offline
+    logErrorToService(
+      error,
+      { type: 'error_boundary', componentStack: errorInfo.componentStack },
+      0
+    );
   };
 
   private handleReload = () => {
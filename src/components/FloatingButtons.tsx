@@ -1,18 +1,19 @@
 'use client'
 
-import { useState } from 'react'
+import { CONTACT_LINKS } from '@/i18n/config'
+import { useTranslations } from '@/i18n/I18nProvider'
 
 export default function FloatingButtons() {
+  const t = useTranslations()
 
   const handleWhatsApp = () => {
-    const phoneNumber = '905323820197'
-    const message = 'Merhaba! Monopol Stone ürünleri hakkında bilgi almak istiyorum.'
-    const whatsappUrl = `https://wa.me/${phoneNumber}?text=${encodeURIComponent(message)}`
+    const message = t('floating.whatsappMessage')
+    const whatsappUrl = `${CONTACT_LINKS.whatsapp}?text=${encodeURIComponent(message)}`
     window.open(whatsappUrl, '_blank')
   }
 
   const handleCall = () => {
-    window.location.href = 'tel:05323820197'
+    window.location.href = CONTACT_LINKS.phone
   }
 
   return (
@@ -1,18 +1,16 @@
 "use client";
-import { usePathname } from 'next/navigation';
-import { useEffect, useState } from 'react';
+import { getSeriesPath, series } from '@/data/catalog';
+import { CONTACT_LINKS } from '@/i18n/config';
+import { useLocale, useTranslations } from '@/i18n/I18nProvider';
+import { getLocalizedPath } from '@/i18n/routes';
 
+const SERIES_BULLETS = ['#FFA726', '#FB8C00'];
 
 export default function Footer() {
-  const pathname = usePathname();
-  const [isClient, setIsClient] = useState(false);
-  const [isEn, setIsEn] = useState(false);
+  const locale = useLocale();
+  const t = useTranslations();
+  const galleryPath = getLocalizedPath(locale, 'gallery');
 
-  // Handle client-side hydration
-  useEffect(() => {
-    setIsClient(true);
-    setIsEn(pathname.startsWith('/en'));
-  }, [pathname]);
   return (
     <footer style={{
       background: '#000',
@@ -20,7 +18,7 @@ export default function Footer() {
       padding: '60px 0 40px',
       marginTop: '80px',
       fontFamily: 'Poppins, -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, Oxygen, Ubuntu, Cantarell, sans-serif'
-    }} suppressHydrationWarning>
+    }}>
       <div style={{
         maxWidth: '1200px',
         margin: '0 auto',
@@ -50,9 +48,7 @@ export default function Footer() {
             marginBottom: '20px',
             fontFamily: 'Poppins, -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, Oxygen, Ubuntu, Cantarell, sans-serif'
           }}>
-            {isEn
-              ? 'Monopol Stone preserves the authentic spirit of natural stone; produced with the desire to give it a new interpretation in different shapes and colors.'
-              : 'Monopol Stone olarak doğal taşın özgün ruhunu koruyarak; farklı şekil ve renklerde, ona yeni bir yorum katma arzusuyla üretildi.'}
+            {t('footer.about')}
           </p>
           <div style={{
             color: '#999',
@@ -61,7 +57,7 @@ export default function Footer() {
             paddingTop: '20px',
             fontFamily: 'Poppins, -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, Oxygen, Ubuntu, Cantarell, sans-serif'
           }}>
-            © 2024 Monopol Stone. All rights reserved.
+            {t('footer.copyright')}
           </div>
         </div>
 
@@ -80,33 +76,23 @@ export default function Footer() {
               marginBottom: '20px',
               fontWeight: 600,
             }}>
-              {isClient && isClient && isEn ? 'Products' : 'Ürünler'}
+              {t('footer.products')}
             </h3>
             <div style={{ display: 'flex', flexDirection: 'column', gap: '12px' }}>
-              <a href={isClient && isEn ? "/en/products" : "/urunler"} style={{
-                color: '#ccc',
-                textDecoration: 'none',
-                fontSize: '0.95rem',
-                transition: 'color 0.2s',
-                display: 'flex',
-                alignItems: 'center',
-                gap: '8px',
-              }}>
-                <span style={{ color: '#FFA726' }}>•</span>
-                {isClient && isEn ? 'Culture Stones' : 'Kültür Taşları'}
-              </a>
-              <a href={isClient && isEn ? "/en/products" : "/urunler"} style={{
-                color: '#ccc',
-                textDecoration: 'none',
-                fontSize: '0.95rem',
-                transition: 'color 0.2s',
-                display: 'flex',
-                alignItems: 'center',
-                gap: '8px',
-              }}>
-                <span style={{ color: '#FB8C00' }}>•</span>
-                {isClient && isEn ? 'Culture Bricks' : 'Kültür Tuğlaları'}
-              </a>
+              {series.map((item, index) => (
+                <a key={item.id} href={getSeriesPath(item.id, locale)} style={{
+                  color: '#ccc',
+                  textDecoration: 'none',
+                  fontSize: '0.95rem',
+                  transition: 'color 0.2s',
+                  display: 'flex',
+                  alignItems: 'center',
+                  gap: '8px',
+                }}>
+                  <span style={{ color: SERIES_BULLETS[index % SERIES_BULLETS.length] }}>•</span>
+                  {item.plural[locale]}
+                </a>
+              ))}
             </div>
           </div>
 
@@ -118,10 +104,10 @@ export default function Footer() {
               marginBottom: '20px',
               fontWeight: 600,
             }}>
-              {isClient && isEn ? 'Gallery' : 'Görsel Galeri'}
+              {t('footer.gallery')}
             </h3>
             <div style={{ display: 'flex', flexDirection: 'column', gap: '12px' }}>
-              <a href={isClient && isEn ? "/en/gallery" : "/galeri/projeler"} style={{
+              <a href={galleryPath} style={{
                 color: '#ccc',
                 textDecoration: 'none',
                 fontSize: '0.95rem',
@@ -131,9 +117,9 @@ export default function Footer() {
                 gap: '8px',
               }}>
                 <span style={{ color: '#FFA726' }}>•</span>
-                {isClient && isEn ? 'Completed Projects' : 'Tamamlanan Projeler'}
+                {t('footer.projects')}
               </a>
-              <a href={isClient && isEn ? "/en/gallery" : "/galeri/uygulamalar"} style={{
+              <a href={galleryPath} style={{
                 color: '#ccc',
                 textDecoration: 'none',
                 fontSize: '0.95rem',
@@ -143,9 +129,9 @@ export default function Footer() {
                 gap: '8px',
               }}>
                 <span style={{ color: '#FB8C00' }}>•</span>
-                {isClient && isEn ? 'Applications' : 'Uygulama Örnekleri'}
+                {t('footer.applications')}
               </a>
-              <a href={isClient && isEn ? "/en/gallery" : "/galeri/showroom"} style={{
+              <a href={galleryPath} style={{
                 color: '#ccc',
                 textDecoration: 'none',
                 fontSize: '0.95rem',
@@ -155,7 +141,7 @@ export default function Footer() {
                 gap: '8px',
               }}>
                 <span style={{ color: '#E53935' }}>•</span>
-                {isClient && isEn ? 'Showroom' : 'Showroom'}
+                {t('footer.showroom')}
               </a>
             </div>
           </div>
@@ -168,7 +154,7 @@ export default function Footer() {
               marginBottom: '20px',
               fontWeight: 600,
             }}>
-              {isClient && isEn ? 'Contact Us' : 'Bize Ulaşın'}
+              {t('footer.contact')}
             </h3>
             <div style={{ display: 'flex', flexDirection: 'column', gap: '12px' }}>
               <div style={{
@@ -179,7 +165,7 @@ export default function Footer() {
                 gap: '8px',
               }}>
                 <span style={{ color: '#E53935' }}>📞</span>
-                <a href="tel:+905323820197" style={{
+                <a href={CONTACT_LINKS.phone} style={{
                   color: '#ccc',
                   textDecoration: 'none',
                   transition: 'color 0.2s',
@@ -195,7 +181,7 @@ export default function Footer() {
                 gap: '8px',
               }}>
                 <span style={{ color: '#E53935' }}>📧</span>
-                <a href="mailto:info@monopolstone.com" style={{
+                <a href={CONTACT_LINKS.email} style={{
                   color: '#ccc',
                   textDecoration: 'none',
                   transition: 'color 0.2s',
@@ -211,7 +197,7 @@ export default function Footer() {
                 gap: '8px',
               }}>
                 <span style={{ color: '#E53935' }}>📍</span>
-                <span>İstanbul, Türkiye</span>
+                <span>{t('footer.location')}</span>
               </div>
             </div>
           </div>
@@ -1,16 +1,21 @@
 "use client";
-import { usePathname } from 'next/navigation';
 import { useEffect, useState, useRef } from 'react';
 import Link from 'next/link';
+import { getSeriesPath, series } from '@/data/catalog';
 import { useErrorHandling } from '@/hooks/useErrorHandling';
 import { usePerformanceMonitoring } from '@/hooks/usePerformanceMonitoring';
+import { useDirection, useLocale, useTranslations } from '@/i18n/I18nProvider';
+import { getLocalizedPath } from '@/i18n/routes';
+import LanguageSwitcher from './LanguageSwitcher';
 import SafeResponsiveNavigation from './SafeResponsiveNavigation';
 
+const SERIES_BULLETS = ['#FFA726', '#FB8C00'];
+
 
 export default function Header() {
-  const pathname = usePathname();
-  const [isEn, setIsEn] = useState(false);
-  const [isClient, setIsClient] = useState(false);
+  const locale = useLocale();
+  const isRtl = useDirection() === 'rtl';
+  const t = useTranslations();
   const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false);
   const [isScrolled, setIsScrolled] = useState(false);
   const menuRef = useRef<HTMLDivElement>(null);
@@ -24,11 +29,10 @@ export default function Header() {
 
   const { measureUserInteraction } = usePerformanceMonitoring('Header');
 
-  // Handle client-side hydration
-  useEffect(() => {
-    setIsClient(true);
-    setIsEn(pathname.startsWith('/en'));
-  }, [pathname]);
+  const homePath = getLocalizedPath(locale, 'home');
+  const productsPath = getLocalizedPath(locale, 'products');
+  const galleryPath = getLocalizedPath(locale, 'gallery');
+  const contactPath = getLocalizedPath(locale, 'contact');
 
   // Handle scroll effect
   useEffect(() => {
@@ -69,18 +73,6 @@ export default function Header() {
     };
   }, [isMobileMenuOpen]);
 
-  // Handle language switch
-  const handleLanguageSwitch = (lang: 'tr' | 'en') => {
-    const endMeasurement = measureUserInteraction(`language_switch_${lang}`);
-    
-    const currentPath = pathname.replace(/^\/en/, '');
-    const newPath = lang === 'en' ? `/en${currentPath}` : currentPath || '/';
-    
-    window.location.href = newPath;
-    endMeasurement();
-  };
-
-
 
   return (
     <SafeResponsiveNavigation>
@@ -137,8 +129,8 @@ export default function Header() {
 
             
             {/* Sol: Logo */}
-            <div className="logo-container" style={{ display: 'flex', alignItems: 'center', marginLeft: '-20px', flex: '0 0 auto' }}>
-              <Link href={isClient && isEn ? "/en" : "/"} style={{ textDecoration: 'none' }}>
+            <div className="logo-container" style={{ display: 'flex', alignItems: 'center', marginInlineStart: '-20px', flex: '0 0 auto' }}>
+              <Link href={homePath} style={{ textDecoration: 'none' }}>
                 <img 
                   src="/logo.jpeg" 
                   alt="Monopol Stone Logo" 
@@ -156,47 +148,38 @@ export default function Header() {
             <nav style={{ flex: '1 1 auto', display: 'flex', justifyContent: 'center', position: 'relative', zIndex: 1001 }}>
               <ul className="nav-menu">
                 <li>
-                  <Link href={isClient && isEn ? "/en" : "/"} style={{ display: 'flex', alignItems: 'center', gap: '8px', background: '#444', borderRadius: '8px', padding: '6px 16px', fontWeight: 700, color: '#fff', WebkitTextFillColor: '#fff', transition: 'background-color 0.3s ease' }} onMouseEnter={(e) => { (e.currentTarget as HTMLAnchorElement).style.background = '#FD7E14'; const img = e.currentTarget.querySelector('img'); if (img) (img as HTMLImageElement).style.filter = 'brightness(0) invert(1)'; }} onMouseLeave={(e) => { (e.currentTarget as HTMLAnchorElement).style.background = '#444'; const img = e.currentTarget.querySelector('img'); if (img) (img as HTMLImageElement).style.filter = 'none'; }}>
+                  <Link href={homePath} style={{ display: 'flex', alignItems: 'center', gap: '8px', background: '#444', borderRadius: '8px', padding: '6px 16px', fontWeight: 700, color: '#fff', WebkitTextFillColor: '#fff', transition: 'background-color 0.3s ease' }} onMouseEnter={(e) => { (e.currentTarget as HTMLAnchorElement).style.background = '#FD7E14'; const img = e.currentTarget.querySelector('img'); if (img) (img as HTMLImageElement).style.filter = 'brightness(0) invert(1)'; }} onMouseLeave={(e) => { (e.currentTarget as HTMLAnchorElement).style.background = '#444'; const img = e.currentTarget.querySelector('img'); if (img) (img as HTMLImageElement).style.filter = 'none'; }}>
                     <img src="/house.svg" alt="Home Icon" style={{ width: 22, height: 22, verticalAlign: 'middle', transition: 'filter 0.3s ease' }} />
-                    {isClient && isEn ? "HOME" : "ANASAYFA"}
+                    {t('menu.home')}
                   </Link>
                 </li>
                 <li style={{ position: 'relative' }}>
                   <Link
-                    href={isClient && isEn ? "/en/products" : "/urunler"}
+                    href={productsPath}
                     style={{ display: 'flex', alignItems: 'center', gap: '4px' }}
                   >
-                    {isClient && isEn ? "PRODUCTS" : "ÜRÜNLER"}
+                    {t('menu.products')}
                     <span style={{ fontSize: '12px', transition: 'transform 0.3s ease' }}>▼</span>
                   </Link>
                   <div className="dropdown-menu">
-                    <Link href={isClient && isEn ? "/en/products" : "/urunler/kultur-taslari"} style={{
-                      display: 'block',
-                      padding: '10px 20px',
-                      color: '#333',
-                      textDecoration: 'none',
-                      fontSize: '14px',
-                      transition: 'background-color 0.2s',
-                      borderBottom: '1px solid #f0f0f0',
-                    }} onMouseEnter={(e) => (e.currentTarget as HTMLAnchorElement).style.background = '#f8f8f8'} onMouseLeave={(e) => (e.currentTarget as HTMLAnchorElement).style.background = 'transparent'}>
-                      <span style={{ color: '#FFA726 !important', marginRight: '8px', WebkitTextFillColor: '#FFA726' }}>•</span>
-                      {isClient && isEn ? 'Culture Stones' : 'Kültür Taşları'}
-                    </Link>
-                    <Link href={isClient && isEn ? "/en/products" : "/urunler/kultur-tuglalari"} style={{
-                      display: 'block',
-                      padding: '10px 20px',
-                      color: '#333',
-                      textDecoration: 'none',
-                      fontSize: '14px',
-                      transition: 'background-color 0.2s',
-                    }} onMouseEnter={(e) => (e.currentTarget as HTMLAnchorElement).style.background = '#f8f8f8'} onMouseLeave={(e) => (e.currentTarget as HTMLAnchorElement).style.background = 'transparent'}>
-                      <span style={{ color: '#FB8C00 !important', marginRight: '8px', WebkitTextFillColor: '#FB8C00' }}>•</span>
-                      {isClient && isEn ? 'Culture Bricks' : 'Kültür Tuğlaları'}
-                    </Link>
+                    {series.map((item, index) => (
+                      <Link key={item.id} href={getSeriesPath(item.id, locale)} style={{
+                        display: 'block',
+                        padding: '10px 20px',
+                        color: '#333',
+                        textDecoration: 'none',
+                        fontSize: '14px',
+                        transition: 'background-color 0.2s',
+                        borderBottom: index < series.length - 1 ? '1px solid #f0f0f0' : undefined,
+                      }} onMouseEnter={(e) => (e.currentTarget as HTMLAnchorElement).style.background = '#f8f8f8'} onMouseLeave={(e) => (e.currentTarget as HTMLAnchorElement).style.background = 'transparent'}>
+                        <span style={{ color: `${SERIES_BULLETS[index % SERIES_BULLETS.length]} !important`, marginInlineEnd: '8px', WebkitTextFillColor: SERIES_BULLETS[index % SERIES_BULLETS.length] }}>•</span>
+                        {item.plural[locale]}
+                      </Link>
+                    ))}
                   </div>
                 </li>
-                <li><Link href={isClient && isEn ? "/en/gallery" : "/galeri"}>{isClient && isEn ? "GALLERY" : "GÖRSEL GALERİ"}</Link></li>
-                <li><Link href={isClient && isEn ? "/en/contact" : "/iletisim"}>{isClient && isEn ? "CONTACT US" : "BİZE ULAŞIN"}</Link></li>
+                <li><Link href={galleryPath}>{t('menu.gallery')}</Link></li>
+                <li><Link href={contactPath}>{t('menu.contact')}</Link></li>
               </ul>
             </nav>
 
@@ -216,83 +199,54 @@ export default function Header() {
                   alignItems: 'center',
                 }}>
                   <li>
-                    <Link href={isClient && isEn ? "/en" : "/"} style={{
+                    <Link href={homePath} style={{
                       textDecoration: 'none',
                       color: '#333',
                       fontWeight: 500,
                       fontSize: '0.95rem',
                       transition: 'color 0.3s ease',
                     }}>
-                      {isClient && isEn ? 'Home' : 'Anasayfa'}
+                      {t('nav.home')}
                     </Link>
                   </li>
                   <li>
-                    <Link href={isClient && isEn ? "/en/products" : "/urunler"} style={{
+                    <Link href={productsPath} style={{
                       textDecoration: 'none',
                       color: '#333',
                       fontWeight: 500,
                       fontSize: '0.95rem',
                       transition: 'color 0.3s ease',
                     }}>
-                      {isClient && isEn ? 'Products' : 'Ürünler'}
+                      {t('nav.products')}
                     </Link>
                   </li>
                   <li>
-                    <Link href={isClient && isEn ? "/en/gallery" : "/galeri"} style={{
+                    <Link href={galleryPath} style={{
                       textDecoration: 'none',
                       color: '#333',
                       fontWeight: 500,
                       fontSize: '0.95rem',
                       transition: 'color 0.3s ease',
                     }}>
-                      {isClient && isEn ? 'Gallery' : 'Galeri'}
+                      {t('nav.gallery')}
                     </Link>
                   </li>
                   <li>
-                    <Link href={isClient && isEn ? "/en/contact" : "/iletisim"} style={{
+                    <Link href={contactPath} style={{
                       textDecoration: 'none',
                       color: '#333',
                       fontWeight: 500,
                       fontSize: '0.95rem',
                       transition: 'color 0.3s ease',
                     }}>
-                      {isClient && isEn ? 'Contact' : 'İletişim'}
+                      {t('nav.contact')}
                     </Link>
                   </li>
                 </ul>
               </nav>
 
               {/* Dil seçici */}
-              <div className="language-buttons" style={{ display: 'flex', alignItems: 'center', gap: '12px' }}>
-                <button
-                  onClick={() => handleLanguageSwitch('tr')}
-                  style={{
-                    border: 'none',
-                    background: 'transparent',
-                    cursor: 'pointer',
-                    padding: '4px',
-                    borderRadius: '4px',
-                    opacity: !isEn ? 1 : 0.6,
-                    transition: 'opacity 0.3s ease',
-                  }}
-                >
-                  <img src="/tr.svg" alt="Türkçe" style={{ width: 24, height: 24 }} />
-                </button>
-                <button
-                  onClick={() => handleLanguageSwitch('en')}
-                  style={{
-                    border: 'none',
-                    background: 'transparent',
-                    cursor: 'pointer',
-                    padding: '4px',
-                    borderRadius: '4px',
-                    opacity: isEn ? 1 : 0.6,
-                    transition: 'opacity 0.3s ease',
-                  }}
-                >
-                  <img src="/gb.svg" alt="English" style={{ width: 24, height: 24 }} />
-                </button>
-              </div>
+              <LanguageSwitcher />
 
               {/* Enhanced Mobile Menu Button - Safe Implementation */}
               <button
@@ -307,7 +261,7 @@ export default function Header() {
                   borderRadius: '8px',
                   transition: 'background 0.3s ease',
                 }}
-                aria-label="Toggle navigation menu"
+                aria-label={t('menu.toggle')}
                 aria-expanded={isMobileMenuOpen}
                 aria-controls="nav-menu"
                 id="responsive-nav-toggle"
@@ -386,15 +340,15 @@ export default function Header() {
         style={{
           position: 'fixed',
           top: 0,
-          right: isMobileMenuOpen ? 0 : '-100%',
+          insetInlineEnd: isMobileMenuOpen ? 0 : '-100%',
           width: '280px',
           height: '100vh',
           background: '#fff',
           zIndex: 1001,
-          transition: 'right 0.3s ease',
+          transition: 'inset-inline-end 0.3s ease',
           display: 'flex',
           flexDirection: 'column',
-          boxShadow: '-2px 0 20px rgba(0, 0, 0, 0.1)',
+          boxShadow: `${isRtl ? 2 : -2}px 0 20px rgba(0, 0, 0, 0.1)`,
         }}
         aria-hidden={!isMobileMenuOpen}
         role="navigation"
@@ -410,6 +364,7 @@ export default function Header() {
         }}>
           <img src="/logo.jpeg" alt="Monopol Stone" style={{ height: '40px', width: 'auto' }} />
           <button
+            aria-label={t('menu.close')}
             onClick={() => {
               setIsMobileMenuOpen(false);
               document.body.style.overflow = 'auto';
@@ -440,10 +395,10 @@ export default function Header() {
             padding: 0,
           }}>
             {[
-              { href: isClient && isEn ? "/en" : "/", label: isClient && isEn ? 'Home' : 'Anasayfa', icon: '🏠' },
-              { href: isClient && isEn ? "/en/products" : "/urunler", label: isClient && isEn ? 'Products' : 'Ürünler', icon: '🏗️' },
-              { href: isClient && isEn ? "/en/gallery" : "/galeri", label: isClient && isEn ? 'Gallery' : 'Galeri', icon: '🖼️' },
-              { href: isClient && isEn ? "/en/contact" : "/iletisim", label: isClient && isEn ? 'Contact' : 'İletişim', icon: '📞' },
+              { href: homePath, label: t('nav.home'), icon: '🏠' },
+              { href: productsPath, label: t('nav.products'), icon: '🏗️' },
+              { href: galleryPath, label: t('nav.gallery'), icon: '🖼️' },
+              { href: contactPath, label: t('nav.contact'), icon: '📞' },
             ].map((item, index) => (
               <li key={index}>
                 <Link
@@ -479,59 +434,13 @@ export default function Header() {
           borderTop: '1px solid #eee',
         }}>
           {/* Language Switch */}
-          <div style={{
-            display: 'flex',
-            gap: '12px',
-            justifyContent: 'center',
-            marginBottom: '20px',
-          }}>
-            <button
-              onClick={() => {
-                handleLanguageSwitch('tr');
-                setIsMobileMenuOpen(false);
-                document.body.style.overflow = 'auto';
-              }}
-              style={{
-                display: 'flex',
-                alignItems: 'center',
-                gap: '8px',
-                padding: '12px 16px',
-                border: !isEn ? '2px solid #FD7E14' : '2px solid #e0e0e0',
-                borderRadius: '8px',
-                background: !isEn ? '#FFF3E6' : 'transparent',
-                cursor: 'pointer',
-                fontSize: '0.9rem',
-                fontWeight: 600,
-                transition: 'all 0.3s ease',
-              }}
-            >
-              <img src="/tr.svg" alt="TR" style={{ width: '20px', height: '20px' }} />
-              Türkçe
-            </button>
-            <button
-              onClick={() => {
-                handleLanguageSwitch('en');
-                setIsMobileMenuOpen(false);
-                document.body.style.overflow = 'auto';
-              }}
-              style={{
-                display: 'flex',
-                alignItems: 'center',
-                gap: '8px',
-                padding: '12px 16px',
-                border: isEn ? '2px solid #FD7E14' : '2px solid #e0e0e0',
-                borderRadius: '8px',
-                background: isEn ? '#FFF3E6' : 'transparent',
-                cursor: 'pointer',
-                fontSize: '0.9rem',
-                fontWeight: 600,
-                transition: 'all 0.3s ease',
-              }}
-            >
-              <img src="/gb.svg" alt="EN" style={{ width: '20px', height: '20px' }} />
-              English
-            </button>
-          </div>
+          <LanguageSwitcher
+            variant="buttons"
+            onSwitch={() => {
+              setIsMobileMenuOpen(false);
+              document.body.style.overflow = 'auto';
+            }}
+          />
 
           {/* Contact Info */}
           <div style={{
@@ -2,14 +2,16 @@
 
 import { useEffect, useState } from 'react'
 import Link from 'next/link'
-import { usePathname } from 'next/navigation'
 import Loading from './Loading'
 import { useErrorHandling } from '@/hooks/useErrorHandling'
 import { usePerformanceMonitoring } from '@/hooks/usePerformanceMonitoring'
+import { useDirection, useLocale, useTranslations } from '@/i18n/I18nProvider'
+import { getLocalizedPath } from '@/i18n/routes'
 
 export default function HeroSlider() {
-  const pathname = usePathname()
-  const [isEn, setIsEn] = useState(false)
+  const locale = useLocale()
+  const isRtl = useDirection() === 'rtl'
+  const t = useTranslations()
   const [isClient, setIsClient] = useState(false)
   const [imagesLoaded, setImagesLoaded] = useState(false)
   const [loadedImages, setLoadedImages] = useState(0)
@@ -26,8 +28,7 @@ export default function HeroSlider() {
   // Handle client-side hydration
   useEffect(() => {
     setIsClient(true)
-    setIsEn(pathname.startsWith('/en'))
-  }, [pathname])
+  }, [])
   
   const [currentSlide, setCurrentSlide] = useState(0)
   const slides = [
@@ -118,7 +119,7 @@ export default function HeroSlider() {
           <Loading 
             size="large" 
             type="pulse" 
-            text={`Resimler yükleniyor... (${loadedImages}/${slides.length})`}
+            text={t('hero.loading', { loaded: loadedImages, total: slides.length })}
           />
           
           <div style={{
@@ -165,14 +166,11 @@ export default function HeroSlider() {
               <div className="hero-content">
                 <h1>MONOPOL STONE</h1>
                 <p>
-                  {isClient && isEn 
-                    ? "We enhance your spaces with aesthetic and durability through our natural stone and artificial stone solutions. With Monopol Stone quality, we offer elegance and strength tailored to every project."
-                    : "Doğal taş ve yapay taş çözümlerimizle mekanlarınıza estetik ve dayanıklılık katıyoruz. Monopol Stone kalitesiyle, her projeye özel şıklık ve sağlamlık sunuyoruz."
-                  }
+                  {t('hero.text')}
                 </p>
-                <Link href={isClient && isEn ? "/en/products" : "/urunler"}>
+                <Link href={getLocalizedPath(locale, 'products')}>
                   <button className="btn-primary">
-                    {isClient && isEn ? "EXPLORE OUR PRODUCTS" : "ÜRÜNLERİMİZİ İNCELEYİN"}
+                    {t('hero.cta')}
                   </button>
                 </Link>
               </div>
@@ -183,11 +181,12 @@ export default function HeroSlider() {
       
       {/* Slider Navigation Arrows */}
       <div className="slider-nav">
-        <button className="slider-arrow slider-arrow-left" onClick={prevSlide}>
-          ‹
+        {/* The row mirrors in right-to-left languages, so "previous" sits on the right */}
+        <button className="slider-arrow slider-arrow-prev" onClick={prevSlide}>
+          {isRtl ? '›' : '‹'}
         </button>
-        <button className="slider-arrow slider-arrow-right" onClick={nextSlide}>
-          ›
+        <button className="slider-arrow slider-arrow-next" onClick={nextSlide}>
+          {isRtl ? '‹' : '›'}
         </button>
       </div>
       
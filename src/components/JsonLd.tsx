@@ -0,0 +1,10 @@
+// schema.org structured data. "<" is escaped so catalog texts can't
+// close the script tag.
+export default function JsonLd({ data }: { data: object }) {
+  return (
+    <script
+      type="application/ld+json"
+      dangerouslySetInnerHTML={{ __html: JSON.stringify(data).replace(/</g, '\\u003c') }}
+    />
+  );
+}
@@ -0,0 +1,85 @@
+"use client";
+import Link from 'next/link';
+import { usePathname } from 'next/navigation';
+import { usePerformanceMonitoring } from '@/hooks/usePerformanceMonitoring';
+import { LOCALES, LOCALE_SETTINGS } from '@/i18n/config';
+import { useLocale, useTranslations } from '@/i18n/I18nProvider';
+import { getAlternatePath } from '@/i18n/navigation';
+
+interface LanguageSwitcherProps {
+  // Flags only in the header bar, labelled buttons in the mobile menu
+  variant?: 'flags' | 'buttons';
+  onSwitch?: () => void;
+}
+
+// Links every language to the same page in that language, so switching
+// keeps the visitor where they are (/urun/mitra <-> /en/product/mitra)
+export default function LanguageSwitcher({ variant = 'flags', onSwitch }: LanguageSwitcherProps) {
+  const pathname = usePathname();
+  const current = useLocale();
+  const t = useTranslations();
+  const { measureUserInteraction } = usePerformanceMonitoring('LanguageSwitcher');
+
+  return (
+    <div
+      className="language-buttons"
+      role="group"
+      aria-label={t('language.label')}
+      style={{
+        display: 'flex',
+        alignItems: 'center',
+        gap: '12px',
+        justifyContent: variant === 'buttons' ? 'center' : undefined,
+        marginBottom: variant === 'buttons' ? '20px' : undefined,
+      }}
+    >
+      {LOCALES.map((locale) => {
+        const settings = LOCALE_SETTINGS[locale];
+        const isActive = locale === current;
+
+        return (
+          <Link
+            key={locale}
+            href={getAlternatePath(pathname, locale)}
+            hrefLang={settings.htmlLang}
+            lang={settings.htmlLang}
+            aria-current={isActive ? 'true' : undefined}
+            title={settings.label}
+            onClick={() => {
+              const endMeasurement = measureUserInteraction(`language_switch_${locale}`);
+              onSwitch?.();
+              endMeasurement();
+            }}
+            style={variant === 'buttons' ? {
+              display: 'flex',
+              alignItems: 'center',
+              gap: '8px',
+              padding: '12px 16px',
+              border: isActive ? '2px solid #FD7E14' : '2px solid #e0e0e0',
+              borderRadius: '8px',
+              background: isActive ? '#FFF3E6' : 'transparent',
+              color: '#333',
+              textDecoration: 'none',
+              fontSize: '0.9rem',
+              fontWeight: 600,
+              transition: 'all 0.3s ease',
+            } : {
+              display: 'flex',
+              padding: '4px',
+              borderRadius: '4px',
+              opacity: isActive ? 1 : 0.6,
+              transition: 'opacity 0.3s ease',
+            }}
+          >
+            <img
+              src={settings.flag}
+              alt={variant === 'buttons' ? locale.toUpperCase() : settings.label}
+              style={variant === 'buttons' ? { width: '20px', height: '20px' } : { width: 24, height: 24 }}
+            />
+            {variant === 'buttons' && settings.label}
+          </Link>
+        );
+      })}
+    </div>
+  );
+}
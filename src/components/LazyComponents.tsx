@@ -225,71 +225,6 @@ export function IntersectionLazy({
   );
 }
 
-// Progressive image loading
-interface ProgressiveImageProps {
-  src: string;
-  placeholder?: string;
-  alt: string;
-  className?: string;
-  style?: React.CSSProperties;
-  onLoad?: () => void;
-}
-
-export function ProgressiveImage({
-  src,
-  placeholder = '/images/product-placeholder.svg',
-  alt,
-  className = '',
-  style = {},
-  onLoad,
-}: ProgressiveImageProps) {
-  const [imageSrc, setImageSrc] = useState(placeholder);
-  const [isLoaded, setIsLoaded] = useState(false);
-  const { elementRef, isVisible } = useIntersectionLazyLoad();
-
-  useEffect(() => {
-    if (!isVisible) return;
-
-    const img = new Image();
-    img.onload = () => {
-      setImageSrc(src);
-      setIsLoaded(true);
-      onLoad?.();
-    };
-    img.onerror = () => {
-      console.error('Failed to load image:', src);
-    };
-    img.src = src;
-  }, [isVisible, src, onLoad]);
-
-  return (
-    <div ref={elementRef} className={className} style={{ position: 'relative', ...style }}>
-      <img
-        src={imageSrc}
-        alt={alt}
-        style={{
-          width: '100%',
-          height: '100%',
-          objectFit: 'cover',
-          transition: 'opacity 0.3s ease',
-          opacity: isLoaded ? 1 : 0.7,
-          filter: isLoaded ? 'none' : 'blur(2px)',
-        }}
-      />
-      {!isLoaded && (
-        <div style={{
-          position: 'absolute',
-          top: '50%',
-          left: '50%',
-          transform: 'translate(-50%, -50%)',
-        }}>
-          <Loading size="small" type="spinner" />
-        </div>
-      )}
-    </div>
-  );
-}
-
 export default {
   ContactFormLazy,
   SearchBarLazy,
@@ -298,6 +233,5 @@ export default {
   createLazyPage,
   withLazyLoading,
   IntersectionLazy,
-  ProgressiveImage,
   useIntersectionLazyLoad,
 };
\ No newline at end of file
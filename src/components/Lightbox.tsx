@@ -0,0 +1,172 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { ResponsiveAutoGrid } from '@/components/ResponsiveGrid';
+import ResponsiveImage from '@/components/ResponsiveImage';
+import { TouchEnhanced } from '@/components/TouchGestures';
+import { useDirection, useTranslations } from '@/i18n/I18nProvider';
+
+export interface LightboxPhoto {
+  src: string;
+  alt: string;
+}
+
+interface LightboxProps {
+  photos: LightboxPhoto[];
+}
+
+const MAX_ZOOM = 3;
+
+const clampZoom = (value: number) => Math.min(MAX_ZOOM, Math.max(1, value));
+
+const controlStyle: React.CSSProperties = {
+  background: 'rgba(255,255,255,0.15)',
+  border: 'none',
+  borderRadius: '50%',
+  color: '#fff',
+  width: '48px',
+  height: '48px',
+  fontSize: '1.6rem',
+  cursor: 'pointer',
+};
+
+// Thumbnail grid that opens a full-screen viewer. Swipe to browse, pinch
+// or double-tap to zoom, swipe down (or Escape) to close.
+export default function Lightbox({ photos }: LightboxProps) {
+  const t = useTranslations();
+  const isRtl = useDirection() === 'rtl';
+  const [openIndex, setOpenIndex] = useState<number | null>(null);
+  const [zoom, setZoom] = useState(1);
+  // Zoom when the current pinch started; pinch scales are relative to it
+  const pinchBase = useRef(1);
+  const isOpen = openIndex !== null;
+
+  const close = useCallback(() => setOpenIndex(null), []);
+  const step = useCallback((delta: number) => {
+    setOpenIndex((index) => (index === null ? index : (index + delta + photos.length) % photos.length));
+  }, [photos.length]);
+
+  // Every photo opens unzoomed
+  useEffect(() => {
+    setZoom(1);
+    pinchBase.current = 1;
+  }, [openIndex]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    // Arrow keys follow the reading direction
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') close();
+      if (event.key === 'ArrowRight') step(isRtl ? -1 : 1);
+      if (event.key === 'ArrowLeft') step(isRtl ? 1 : -1);
+    };
+    const overflow = document.body.style.overflow;
+    document.body.style.overflow = 'hidden';
+    window.addEventListener('keydown', onKeyDown);
+    return () => {
+      document.body.style.overflow = overflow;
+      window.removeEventListener('keydown', onKeyDown);
+    };
+  }, [isOpen, isRtl, close, step]);
+
+  const photo = openIndex === null ? null : photos[openIndex];
+
+  return (
+    <>
+      <ResponsiveAutoGrid className="supports-grid" minItemWidth="220px" gap="md">
+        {photos.map((item, index) => (
+          <button
+            key={item.src}
+            onClick={() => setOpenIndex(index)}
+            aria-label={t('gallery.lightbox.open', { title: item.alt })}
+            style={{
+              padding: 0,
+              border: 'none',
+              borderRadius: '8px',
+              overflow: 'hidden',
+              cursor: 'zoom-in',
+              aspectRatio: '4 / 3',
+              background: '#f0f0f0',
+            }}
+          >
+            <ResponsiveImage src={item.src} alt={item.alt} sizes="(max-width: 768px) 50vw, 300px" style={{ width: '100%', height: '100%' }} />
+          </button>
+        ))}
+      </ResponsiveAutoGrid>
+
+      {photo && openIndex !== null && (
+        <div
+          role="dialog"
+          aria-modal="true"
+          aria-label={t('gallery.lightbox.label')}
+          style={{
+            position: 'fixed',
+            inset: 0,
+            zIndex: 2000,
+            background: 'rgba(0,0,0,0.92)',
+            display: 'flex',
+            flexDirection: 'column',
+          }}
+        >
+          <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', padding: '16px 20px', color: '#fff' }}>
+            <span aria-live="polite">
+              {t('gallery.lightbox.counter', { current: openIndex + 1, total: photos.length })}
+            </span>
+            <button onClick={close} aria-label={t('gallery.lightbox.close')} style={controlStyle} autoFocus>
+              ×
+            </button>
+          </div>
+
+          {/* Buttons stay outside the touch area: it cancels the default
+              touch handling, which would swallow their clicks */}
+          <TouchEnhanced
+            options={{ enablePan: false, enableLongPress: false, preventDefaultEvents: true }}
+            handlers={{
+              onSwipe: ({ direction }) => {
+                if (zoom > 1) return;
+                if (direction === 'down') close();
+                if (direction === 'left') step(isRtl ? -1 : 1);
+                if (direction === 'right') step(isRtl ? 1 : -1);
+              },
+              onPinch: ({ scale }) => setZoom(clampZoom(pinchBase.current * scale)),
+              onTouchEnd: () => {
+                pinchBase.current = zoom;
+              },
+              onDoubleTap: () => {
+                const next = zoom > 1 ? 1 : 2;
+                pinchBase.current = next;
+                setZoom(next);
+              },
+            }}
+            style={{ flex: 1, display: 'flex', alignItems: 'center', justifyContent: 'center', overflow: 'hidden' }}
+          >
+            <ResponsiveImage
+              src={photo.src}
+              alt={photo.alt}
+              sizes="92vw"
+              fit="contain"
+              priority
+              style={{
+                maxWidth: '92vw',
+                maxHeight: '78vh',
+                transform: `scale(${zoom})`,
+                transition: 'transform 0.15s ease-out',
+              }}
+            />
+          </TouchEnhanced>
+
+          <div style={{ display: 'flex', justifyContent: 'center', alignItems: 'center', gap: '24px', padding: '16px 20px 24px', color: '#ddd' }}>
+            <button onClick={() => step(-1)} aria-label={t('gallery.lightbox.previous')} style={controlStyle}>
+              {isRtl ? '›' : '‹'}
+            </button>
+            <span style={{ maxWidth: '60vw', textAlign: 'center' }}>{photo.alt}</span>
+            <button onClick={() => step(1)} aria-label={t('gallery.lightbox.next')} style={controlStyle}>
+              {isRtl ? '‹' : '›'}
+            </button>
+          </div>
+        </div>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,338 @@
+"use client";
+
+import { useMemo, useState } from 'react';
+import { useSelectedColor } from '@/components/SelectedColorProvider';
+import type { InstallationMethod, Locale, ProductSpecs, ProductSummary } from '@/data/catalog';
+import { formatQuantity } from '@/data/specs';
+import { usePerformanceMonitoring } from '@/hooks/usePerformanceMonitoring';
+import { useQuoteBasket } from '@/hooks/useQuoteBasket';
+import { useTranslations } from '@/i18n/I18nProvider';
+import {
+  DEFAULT_WASTE_PERCENT,
+  calculateMaterials,
+  canEstimateMaterials,
+  formatEstimateSummary,
+  type EstimableSpecs,
+  type EstimateInput,
+} from '@/utils/materialCalculator';
+import { QUOTE_PAGE_PATHS } from '@/utils/quoteApi';
+
+interface MaterialCalculatorProps {
+  product: ProductSummary;
+  specs: ProductSpecs;
+  locale: Locale;
+  className?: string;
+}
+
+interface DimensionRow {
+  width: string;
+  height: string;
+  count: string;
+}
+
+const parse = (value: string) => {
+  const parsed = parseFloat(value.replace(',', '.'));
+  return Number.isFinite(parsed) ? parsed : 0;
+};
+
+const emptyRow = (): DimensionRow => ({ width: '', height: '', count: '1' });
+
+const inputStyle: React.CSSProperties = {
+  width: '100%',
+  padding: '10px 12px',
+  border: '2px solid #e9ecef',
+  borderRadius: '8px',
+  fontSize: '16px',
+  fontFamily: 'inherit',
+};
+
+const labelStyle: React.CSSProperties = {
+  display: 'block',
+  marginBottom: '6px',
+  fontSize: '0.85rem',
+  fontWeight: 500,
+  color: '#2c3e50',
+};
+
+const linkButtonStyle: React.CSSProperties = {
+  background: 'none',
+  border: 'none',
+  color: '#FD7E14',
+  fontWeight: 600,
+  cursor: 'pointer',
+  padding: '6px 0',
+  fontSize: '0.95rem',
+};
+
+// Products whose sheets lack box coverage or consumption figures get no
+// calculator rather than an estimate built on guesses
+export default function MaterialCalculator(props: MaterialCalculatorProps) {
+  const { specs } = props;
+  return canEstimateMaterials(specs) ? <Calculator {...props} specs={specs} /> : null;
+}
+
+function Calculator({
+  product,
+  locale,
+  specs,
+  className = "",
+}: MaterialCalculatorProps & { specs: EstimableSpecs }) {
+  const t = useTranslations();
+  const [colorKey] = useSelectedColor();
+
+  const [walls, setWalls] = useState<DimensionRow[]>([emptyRow()]);
+  const [openings, setOpenings] = useState<DimensionRow[]>([]);
+  const [cornerLength, setCornerLength] = useState('');
+  const [wastePercent, setWastePercent] = useState(String(DEFAULT_WASTE_PERCENT));
+  const [installation, setInstallation] = useState<InstallationMethod>(
+    specs.installation.indexOf('jointed') >= 0 ? 'jointed' : specs.installation[0]
+  );
+  const [copied, setCopied] = useState(false);
+
+  const { measureUserInteraction } = usePerformanceMonitoring('MaterialCalculator');
+  const { addItem } = useQuoteBasket();
+
+  const input: EstimateInput = useMemo(() => ({
+    walls: walls.map((w) => ({ width: parse(w.width), height: parse(w.height) })),
+    openings: openings.map((o) => ({ width: parse(o.width), height: parse(o.height), count: parse(o.count) })),
+    cornerLength: parse(cornerLength),
+    wastePercent: parse(wastePercent),
+    installation,
+  }), [walls, openings, cornerLength, wastePercent, installation]);
+
+  const estimate = useMemo(() => calculateMaterials(specs, input), [specs, input]);
+  const hasResult = estimate.netArea > 0;
+
+  const updateRow = (
+    setRows: React.Dispatch<React.SetStateAction<DimensionRow[]>>,
+    index: number,
+    field: keyof DimensionRow,
+    value: string
+  ) => {
+    setRows((rows) => rows.map((row, i) => (i === index ? { ...row, [field]: value } : row)));
+  };
+
+  const summary = () => formatEstimateSummary(product, colorKey, input, estimate, locale);
+
+  // Adds the ordered quantities (whole boxes) to the quote basket
+  const handleRequestQuote = () => {
+    const endMeasurement = measureUserInteraction('calculator_request_quote');
+    addItem({
+      productId: product.id,
+      colorKey,
+      quantity: estimate.flatBoxArea,
+      cornerLength: estimate.cornerBoxes > 0 ? estimate.cornerBoxLength : undefined,
+      note: summary(),
+    });
+    endMeasurement();
+    window.location.href = QUOTE_PAGE_PATHS[locale];
+  };
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(summary());
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (error) {
+      console.error('MaterialCalculator copy error:', error);
+    }
+  };
+
+  const renderRows = (
+    rows: DimensionRow[],
+    setRows: React.Dispatch<React.SetStateAction<DimensionRow[]>>,
+    rowLabel: string,
+    withCount: boolean
+  ) => rows.map((row, index) => (
+    <div key={index} style={{
+      display: 'grid',
+      gridTemplateColumns: withCount ? '1fr 1fr 80px auto' : '1fr 1fr auto',
+      gap: '10px',
+      alignItems: 'end',
+      marginBottom: '10px',
+    }}>
+      <div>
+        <label style={labelStyle}>{rowLabel} {index + 1} · {t('calculator.width')}</label>
+        <input
+          type="number"
+          inputMode="decimal"
+          min="0"
+          step="0.01"
+          value={row.width}
+          onChange={(e) => updateRow(setRows, index, 'width', e.target.value)}
+          style={inputStyle}
+        />
+      </div>
+      <div>
+        <label style={labelStyle}>{t('calculator.height')}</label>
+        <input
+          type="number"
+          inputMode="decimal"
+          min="0"
+          step="0.01"
+          value={row.height}
+          onChange={(e) => updateRow(setRows, index, 'height', e.target.value)}
+          style={inputStyle}
+        />
+      </div>
+      {withCount && (
+        <div>
+          <label style={labelStyle}>{t('calculator.count')}</label>
+          <input
+            type="number"
+            inputMode="numeric"
+            min="1"
+            step="1"
+            value={row.count}
+            onChange={(e) => updateRow(setRows, index, 'count', e.target.value)}
+            style={inputStyle}
+          />
+        </div>
+      )}
+      <button
+        type="button"
+        onClick={() => setRows((current) => current.filter((_, i) => i !== index))}
+        disabled={!withCount && rows.length === 1}
+        style={{ ...linkButtonStyle, color: '#999' }}
+        aria-label={`${t('calculator.remove')} ${rowLabel} ${index + 1}`}
+      >
+        ✕
+      </button>
+    </div>
+  ));
+
+  const results = [
+    { label: t('calculator.netArea'), value: formatQuantity(estimate.netArea, 'm²', locale, 2) },
+    {
+      label: t('calculator.flatBoxes'),
+      value: `${estimate.flatBoxes} ${t('calculator.box')}`,
+      detail: formatQuantity(estimate.flatBoxArea, 'm²', locale, 2),
+    },
+    ...(specs.corner ? [{
+      label: t('calculator.cornerBoxes'),
+      value: `${estimate.cornerBoxes} ${t('calculator.box')}`,
+      detail: formatQuantity(estimate.cornerBoxLength, 'm', locale, 2),
+    }] : []),
+    ...(installation === 'jointed' ? [{ label: t('calculator.mortar'), value: formatQuantity(estimate.jointMortarKg, 'kg', locale) }] : []),
+    { label: t('calculator.adhesive'), value: formatQuantity(estimate.adhesiveKg, 'kg', locale) },
+    { label: t('calculator.weight'), value: formatQuantity(estimate.totalWeightKg, 'kg', locale) },
+  ];
+
+  return (
+    <section className={`material-calculator ${className}`} style={{
+      background: '#fff',
+      borderRadius: '12px',
+      padding: '32px',
+      boxShadow: '0 4px 12px rgba(0, 0, 0, 0.1)',
+      margin: '40px 0',
+      fontFamily: 'Poppins, sans-serif',
+      color: '#333',
+    }}>
+      <h2 style={{ fontSize: '1.6rem', fontWeight: 600, marginBottom: '8px', color: '#2c3e50' }}>
+        {t('calculator.title')}
+      </h2>
+      <p style={{ color: '#666', marginBottom: '24px' }}>{t('calculator.intro')}</p>
+
+      <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fit, minmax(300px, 1fr))', gap: '32px' }}>
+        <div>
+          <h3 style={{ fontSize: '1.1rem', marginBottom: '12px' }}>{t('calculator.walls')}</h3>
+          {renderRows(walls, setWalls, t('calculator.wall'), false)}
+          <button type="button" onClick={() => setWalls((w) => [...w, emptyRow()])} style={linkButtonStyle}>
+            {t('calculator.addWall')}
+          </button>
+
+          <h3 style={{ fontSize: '1.1rem', margin: '20px 0 12px' }}>{t('calculator.openings')}</h3>
+          {renderRows(openings, setOpenings, t('calculator.opening'), true)}
+          <button type="button" onClick={() => setOpenings((o) => [...o, emptyRow()])} style={linkButtonStyle}>
+            {t('calculator.addOpening')}
+          </button>
+
+          <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '12px', marginTop: '20px' }}>
+            {specs.corner && (
+              <div>
+                <label style={labelStyle}>{t('calculator.corners')}</label>
+                <input
+                  type="number"
+                  inputMode="decimal"
+                  min="0"
+                  step="0.1"
+                  value={cornerLength}
+                  onChange={(e) => setCornerLength(e.target.value)}
+                  style={inputStyle}
+                />
+              </div>
+            )}
+            <div>
+              <label style={labelStyle}>{t('calculator.waste')}</label>
+              <input
+                type="number"
+                inputMode="numeric"
+                min="0"
+                max="100"
+                step="1"
+                value={wastePercent}
+                onChange={(e) => setWastePercent(e.target.value)}
+                style={inputStyle}
+              />
+            </div>
+            {specs.installation.length > 1 && (
+              <div>
+                <label style={labelStyle}>{t('calculator.installation')}</label>
+                <select
+                  value={installation}
+                  onChange={(e) => setInstallation(e.target.value as InstallationMethod)}
+                  style={{ ...inputStyle, backgroundColor: '#fff' }}
+                >
+                  {specs.installation.map((method) => (
+                    <option key={method} value={method}>{t(`calculator.${method}`)}</option>
+                  ))}
+                </select>
+              </div>
+            )}
+          </div>
+        </div>
+
+        <div aria-live="polite">
+          <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fit, minmax(140px, 1fr))', gap: '12px' }}>
+            {results.map((result) => (
+              <div key={result.label} style={{
+                background: '#f8f9fa',
+                borderRadius: '8px',
+                padding: '16px',
+                borderLeft: '4px solid #FD7E14',
+              }}>
+                <div style={{ fontSize: '0.8rem', color: '#666', textTransform: 'uppercase' }}>{result.label}</div>
+                <div style={{ fontSize: '1.4rem', fontWeight: 700, color: '#2c3e50' }}>{result.value}</div>
+                {result.detail && <div style={{ fontSize: '0.8rem', color: '#999' }}>{result.detail}</div>}
+              </div>
+            ))}
+          </div>
+
+          <button
+            type="button"
+            onClick={handleRequestQuote}
+            disabled={!hasResult}
+            style={{
+              width: '100%',
+              marginTop: '20px',
+              background: hasResult ? '#FD7E14' : '#ccc',
+              color: '#fff',
+              border: 'none',
+              padding: '14px',
+              borderRadius: '8px',
+              fontSize: '1rem',
+              fontWeight: 600,
+              cursor: hasResult ? 'pointer' : 'not-allowed',
+            }}
+          >
+            {t('calculator.requestQuote')}
+          </button>
+          <button type="button" onClick={handleCopy} disabled={!hasResult} style={{ ...linkButtonStyle, marginTop: '8px' }}>
+            {copied ? t('calculator.copied') : t('calculator.copy')}
+          </button>
+          <p style={{ fontSize: '0.8rem', color: '#999', marginTop: '12px' }}>{t('calculator.disclaimer')}</p>
+        </div>
+      </div>
+    </section>
+  );
+}
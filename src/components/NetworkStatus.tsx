@@ -2,6 +2,7 @@
 
 import { useState, useEffect } from 'react';
 import { usePerformanceMonitoring } from '@/hooks/usePerformanceMonitoring';
+import { flushTelemetry } from '@/utils/telemetryQueue';
 
 interface NetworkInfo {
   online: boolean;
@@ -52,6 +53,8 @@ export default function NetworkStatus({
           trackMetric('network_status_change', newNetworkInfo.online ? 1 : 0, 'boolean');
           
           if (newNetworkInfo.online) {
+            // Send what was buffered while offline
+            flushTelemetry();
             setShowOnlineMessage(true);
             setShowOfflineMessage(false);
             if (autoHide) {
@@ -0,0 +1,72 @@
+"use client";
+
+import type { Locale } from '@/data/catalog';
+import { useTranslations } from '@/i18n/I18nProvider';
+
+interface PDFCatalogProps {
+  locale: Locale;
+  className?: string;
+}
+
+export const getCatalogPdfUrl = (locale: Locale, download = false) =>
+  `/api/catalog.pdf?locale=${locale}${download ? '&download=1' : ''}`;
+
+export default function PDFCatalog({ locale, className = "" }: PDFCatalogProps) {
+  const t = useTranslations();
+
+  return (
+    <div className={`pdf-catalog-card ${className}`} style={{
+      display: 'flex',
+      flexWrap: 'wrap',
+      alignItems: 'center',
+      justifyContent: 'space-between',
+      gap: '20px',
+      background: '#fff',
+      borderRadius: '12px',
+      padding: '24px 32px',
+      boxShadow: '0 4px 12px rgba(0, 0, 0, 0.1)',
+      borderLeft: '4px solid #FD7E14',
+      fontFamily: 'Poppins, sans-serif',
+    }}>
+      <div style={{ flex: '1 1 320px' }}>
+        <h3 style={{ fontSize: '1.3rem', fontWeight: 600, color: '#2c3e50', margin: '0 0 8px 0' }}>
+          📘 {t('catalogDownload.title')}
+        </h3>
+        <p style={{ fontSize: '0.95rem', color: '#666', lineHeight: '1.5', margin: 0 }}>
+          {t('catalogDownload.description')}
+        </p>
+      </div>
+      <div style={{ display: 'flex', gap: '12px', flexWrap: 'wrap' }}>
+        <a
+          href={getCatalogPdfUrl(locale)}
+          target="_blank"
+          rel="noopener"
+          style={{
+            background: '#FD7E14',
+            color: '#fff',
+            padding: '12px 24px',
+            borderRadius: '8px',
+            fontWeight: 600,
+            textDecoration: 'none',
+          }}
+        >
+          {t('catalogDownload.view')}
+        </a>
+        <a
+          href={getCatalogPdfUrl(locale, true)}
+          download
+          style={{
+            border: '2px solid #FD7E14',
+            color: '#FD7E14',
+            padding: '10px 22px',
+            borderRadius: '8px',
+            fontWeight: 600,
+            textDecoration: 'none',
+          }}
+        >
+          {t('catalogDownload.download')}
+        </a>
+      </div>
+    </div>
+  );
+}
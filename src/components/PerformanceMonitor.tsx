@@ -4,6 +4,7 @@
 // Based on CLAUDE.md Part 1 - Performance tracking and optimization
 
 import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { PERFORMANCE_THRESHOLDS } from '@/utils/webVitals';
 
 // Performance metrics interfaces
 interface PerformanceMetrics {
@@ -63,19 +64,6 @@ interface PerformanceAlert {
   threshold: number;
 }
 
-// Performance thresholds (Core Web Vitals based)
-const PERFORMANCE_THRESHOLDS = {
-  LCP: { good: 2500, needsImprovement: 4000 }, // Largest Contentful Paint
-  FID: { good: 100, needsImprovement: 300 },   // First Input Delay
-  CLS: { good: 0.1, needsImprovement: 0.25 },  // Cumulative Layout Shift
-  FCP: { good: 1800, needsImprovement: 3000 }, // First Contentful Paint
-  TTI: { good: 3800, needsImprovement: 7300 }, // Time to Interactive
-  TBT: { good: 200, needsImprovement: 600 },   // Total Blocking Time
-  memoryUsage: { good: 50 * 1024 * 1024, needsImprovement: 100 * 1024 * 1024 }, // 50MB, 100MB
-  resizeEvents: { good: 5, needsImprovement: 15 }, // per minute
-  layoutShifts: { good: 3, needsImprovement: 10 }  // per minute
-};
-
 // Hook for performance monitoring
 export function usePerformanceMonitor() {
   const [metrics, setMetrics] = useState<PerformanceMetrics | null>(null);
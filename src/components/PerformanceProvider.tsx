@@ -3,6 +3,8 @@
 import { useEffect } from 'react';
 import { setupGlobalErrorHandling } from '@/hooks/useErrorHandling';
 import { usePerformanceMonitoring } from '@/hooks/usePerformanceMonitoring';
+import { setupTelemetryReplay } from '@/utils/telemetryQueue';
+import { reportWebVitals } from '@/utils/webVitals';
 
 interface PerformanceProviderProps {
   children: React.ReactNode;
@@ -15,6 +17,12 @@ export default function PerformanceProvider({ children }: PerformanceProviderPro
     // Setup global error handling
     setupGlobalErrorHandling();
 
+    // Replay error reports and metrics buffered while offline
+    setupTelemetryReplay();
+
+    // Field LCP, CLS, INP and TTFB for /admin/performance
+    reportWebVitals();
+
     // Track initial app load
     const loadStartTime = performance.now();
     
@@ -0,0 +1,63 @@
+"use client";
+
+import ResponsiveImage from '@/components/ResponsiveImage';
+import { useSelectedColor } from '@/components/SelectedColorProvider';
+import { getColor, type ProductSummary } from '@/data/catalog';
+
+interface ProductColorSelectorProps {
+  product: ProductSummary;
+  // Server-rendered parts of the page placed around the selected color
+  details: React.ReactNode;
+  description: React.ReactNode;
+}
+
+// The color swatches and the main image they switch. The sections that
+// follow the selected color are rendered by the page next to this one.
+export default function ProductColorSelector({ product, details, description }: ProductColorSelectorProps) {
+  const [selectedColor, setSelectedColor] = useSelectedColor();
+  const activeColor = getColor(product, selectedColor);
+
+  return (
+    <>
+      {/* Main Product Section */}
+      <div className="product-main-exact">
+        <div className="product-image-exact">
+          <ResponsiveImage
+            src={activeColor.image}
+            alt={`${product.title} - ${activeColor.name}`}
+            sizes="(max-width: 768px) 100vw, 600px"
+            priority
+          />
+        </div>
+
+        {details}
+      </div>
+
+      {description}
+
+      {/* Color Options */}
+      {product.colors.length > 0 && (
+        <div className="color-options-exact">
+          {product.colors.map((color) => (
+            <div key={color.key} className="color-option-exact">
+              <h4>{color.name}</h4>
+              <div className="product-code-exact">
+                {product.code.replace('BP-', 'AG ').replace('BT-', 'AG ')}
+              </div>
+              <button
+                onClick={() => setSelectedColor(color.key)}
+                className={`color-image-exact ${selectedColor === color.key ? 'active' : ''}`}
+              >
+                <ResponsiveImage
+                  src={color.image}
+                  alt={color.name}
+                  sizes="(max-width: 768px) 100vw, 320px"
+                />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </>
+  );
+}
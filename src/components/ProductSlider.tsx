@@ -4,7 +4,9 @@ import { useEffect, useState } from 'react'
 import Link from 'next/link'
 import { useErrorHandling } from '@/hooks/useErrorHandling'
 import { usePerformanceMonitoring } from '@/hooks/usePerformanceMonitoring'
+import { useDirection, useTranslations } from '@/i18n/I18nProvider'
 import Loading from './Loading'
+import ResponsiveImage from './ResponsiveImage'
 
 interface Product {
   id: number
@@ -20,6 +22,9 @@ interface ProductSliderProps {
 }
 
 export default function ProductSlider({ products, title }: ProductSliderProps) {
+  const t = useTranslations()
+  // Slides are laid out right to left in RTL languages, so the track moves the other way
+  const isRtl = useDirection() === 'rtl'
   const [currentSlide, setCurrentSlide] = useState(0)
   const [isAutoPlaying, setIsAutoPlaying] = useState(true)
   const [isLoading, setIsLoading] = useState(true)
@@ -73,7 +78,7 @@ export default function ProductSlider({ products, title }: ProductSliderProps) {
           className="product-slider-track" 
           style={{ 
             display: 'flex', 
-            transform: `translateX(-${currentSlide * 100}%)`,
+            transform: `translateX(${isRtl ? '' : '-'}${currentSlide * 100}%)`,
             transition: 'transform 0.5s ease-in-out',
             width: `${products.length * 100}%`
           }}
@@ -97,10 +102,12 @@ export default function ProductSlider({ products, title }: ProductSliderProps) {
                   flexDirection: 'column'
                 }}>
                   <div style={{ position: 'relative', overflow: 'hidden', borderRadius: '8px 8px 0 0' }}>
-                    <img 
-                      src={product.image} 
-                      alt={product.title} 
-                      className="product-image-premium large" 
+                    <ResponsiveImage
+                      src={product.image}
+                      alt={product.title}
+                      sizes="(max-width: 1200px) 100vw, 1200px"
+                      priority={index === 0}
+                      className="product-image-premium large"
                       style={{ 
                         width: '100%', 
                         height: '300px', 
@@ -119,10 +126,10 @@ export default function ProductSlider({ products, title }: ProductSliderProps) {
                     <div className="product-title-premium">{product.title}</div>
                     <div className="product-description-premium" style={{ flex: 1 }}>{product.description}</div>
                     <div className="product-details-premium">
-                      <span>Yükseklik: 2" - 12"</span>
-                      <span>Uzunluk: 5" - 16"</span>
+                      <span>{t('productSlider.height')}: 2" - 12"</span>
+                      <span>{t('productSlider.length')}: 5" - 16"</span>
                     </div>
-                    <button className="btn-premium">Detay</button>
+                    <button className="btn-premium">{t('productSlider.details')}</button>
                   </div>
                 </div>
               </Link>
@@ -133,7 +140,7 @@ export default function ProductSlider({ products, title }: ProductSliderProps) {
         {/* Slider Navigation Arrows */}
         <div className="slider-nav" style={{ position: 'absolute', top: '50%', left: 0, right: 0, transform: 'translateY(-50%)', display: 'flex', justifyContent: 'space-between', padding: '0 20px', pointerEvents: 'none' }}>
           <button 
-            className="slider-arrow slider-arrow-left" 
+            className="slider-arrow slider-arrow-prev" 
             onClick={prevSlide}
             style={{
               background: 'rgba(255,255,255,0.9)',
@@ -159,10 +166,10 @@ export default function ProductSlider({ products, title }: ProductSliderProps) {
               e.currentTarget.style.transform = 'scale(1)'
             }}
           >
-            ‹
+            {isRtl ? '›' : '‹'}
           </button>
           <button 
-            className="slider-arrow slider-arrow-right" 
+            className="slider-arrow slider-arrow-next" 
             onClick={nextSlide}
             style={{
               background: 'rgba(255,255,255,0.9)',
@@ -188,7 +195,7 @@ export default function ProductSlider({ products, title }: ProductSliderProps) {
               e.currentTarget.style.transform = 'scale(1)'
             }}
           >
-            ›
+            {isRtl ? '‹' : '›'}
           </button>
         </div>
         
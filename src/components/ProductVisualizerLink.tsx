@@ -0,0 +1,24 @@
+"use client";
+
+import Link from 'next/link';
+import { useSelectedColor } from '@/components/SelectedColorProvider';
+import type { Locale } from '@/data/catalog';
+import { useTranslations } from '@/i18n/I18nProvider';
+import { getLocalizedPath } from '@/i18n/routes';
+
+// Opens the wall visualizer with the product in the selected color
+export default function ProductVisualizerLink({ productId, locale }: { productId: string; locale: Locale }) {
+  const t = useTranslations();
+  const [colorKey] = useSelectedColor();
+
+  return (
+    <p style={{ margin: '0 0 16px' }}>
+      <Link
+        href={`${getLocalizedPath(locale, 'visualizer')}?product=${productId}&color=${encodeURIComponent(colorKey)}`}
+        style={{ color: '#FD7E14', fontWeight: 600, textDecoration: 'none' }}
+      >
+        {t('product.visualize')} →
+      </Link>
+    </p>
+  );
+}
@@ -0,0 +1,36 @@
+"use client";
+
+import type { ReactNode } from 'react';
+import { ResponsiveAutoGrid } from '@/components/ResponsiveGrid';
+import { useSelectedColor } from '@/components/SelectedColorProvider';
+
+interface ProjectReferenceCard {
+  // Colors of the product used in the project
+  colorKeys: string[];
+  card: ReactNode;
+}
+
+interface ProjectReferenceCardsProps {
+  cards: ProjectReferenceCard[];
+  // Note shown above the fallback list, per color key
+  otherColors: Record<string, string>;
+}
+
+// Picks the project cards (rendered by ProjectReferences) for the selected
+// color, falling back to every project with the product
+export default function ProjectReferenceCards({ cards, otherColors }: ProjectReferenceCardsProps) {
+  const [colorKey] = useSelectedColor();
+  const inColor = cards.filter((card) => card.colorKeys.indexOf(colorKey) >= 0);
+
+  return (
+    <>
+      {inColor.length === 0 && (
+        <p style={{ color: '#666', marginBottom: '20px' }}>{otherColors[colorKey]}</p>
+      )}
+
+      <ResponsiveAutoGrid className="supports-grid" minItemWidth="240px" gap="md">
+        {(inColor.length > 0 ? inColor : cards).map((card) => card.card)}
+      </ResponsiveAutoGrid>
+    </>
+  );
+}
@@ -0,0 +1,85 @@
+import Link from 'next/link';
+import ProjectReferenceCards from '@/components/ProjectReferenceCards';
+import ResponsiveImage from '@/components/ResponsiveImage';
+import { getColor, type Locale, type Product } from '@/data/catalog';
+import { PROJECT_CATEGORIES, getProjectPath, getProjectsByProduct } from '@/data/gallery';
+import { getLocalizedPath } from '@/i18n/routes';
+import { createTranslator } from '@/i18n/translate';
+
+interface ProjectReferencesProps {
+  product: Product;
+  locale: Locale;
+}
+
+// "Used in these projects" on the product page. The cards of every project
+// built with the product are rendered here; ProjectReferenceCards shows the
+// ones in the selected color, or all of them when there are none yet.
+export default function ProjectReferences({ product, locale }: ProjectReferencesProps) {
+  const t = createTranslator(locale);
+  const projects = getProjectsByProduct(product.id);
+
+  if (projects.length === 0) return null;
+
+  const otherColors: Record<string, string> = {};
+  product.colors.forEach((color) => {
+    otherColors[color.key] = t('product.projects.otherColors', { color: color.name[locale] });
+  });
+
+  return (
+    <section className="project-references" style={{ margin: '50px 0 0' }}>
+      <h3 style={{ fontSize: '24px', fontWeight: 600, color: '#333', marginBottom: '10px' }}>
+        {t('product.projects.title')}
+      </h3>
+      <ProjectReferenceCards
+        otherColors={otherColors}
+        cards={projects.map((project) => {
+          const materials = project.materials.filter((m) => m.productId === product.id);
+          const colors = materials.map((m) => getColor(product, m.colorKey).name[locale]);
+
+          return {
+            colorKeys: materials.map((m) => m.colorKey),
+            card: (
+              <Link
+                key={project.id}
+                href={getProjectPath(project, locale)}
+                className="project-card"
+                style={{
+                  display: 'block',
+                  background: '#fff',
+                  borderRadius: '12px',
+                  overflow: 'hidden',
+                  textDecoration: 'none',
+                  color: 'inherit',
+                }}
+              >
+                <ResponsiveImage
+                  src={project.photos[0]}
+                  alt={project.title[locale]}
+                  sizes="(max-width: 768px) 100vw, 320px"
+                  style={{ width: '100%', aspectRatio: '4 / 3' }}
+                />
+                <div style={{ padding: '16px' }}>
+                  <span style={{ color: '#FD7E14', fontSize: '0.8rem', fontWeight: 600, textTransform: 'uppercase' }}>
+                    {PROJECT_CATEGORIES[project.category][locale]}
+                  </span>
+                  <h4 style={{ fontSize: '1.1rem', margin: '4px 0 6px', color: '#333', fontWeight: 600 }}>
+                    {project.title[locale]}
+                  </h4>
+                  <p style={{ color: '#666', fontSize: '0.9rem', margin: 0 }}>
+                    {project.location[locale]} · {product.title} {colors.join(', ')}
+                  </p>
+                </div>
+              </Link>
+            ),
+          };
+        })}
+      />
+
+      <p style={{ marginTop: '20px' }}>
+        <Link href={getLocalizedPath(locale, 'gallery')} style={{ color: '#FD7E14', fontWeight: 600, textDecoration: 'none' }}>
+          {t('product.projects.viewAll')}
+        </Link>
+      </p>
+    </section>
+  );
+}
@@ -0,0 +1,343 @@
+"use client";
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { getColor, getProductById, getProductPath, type Locale } from '@/data/catalog';
+import { formatQuantity } from '@/data/specs';
+import { useQuoteBasket } from '@/hooks/useQuoteBasket';
+import { useTranslations } from '@/i18n/I18nProvider';
+import { getRoutePaths } from '@/i18n/routes';
+import { usePerformanceMonitoring } from '@/hooks/usePerformanceMonitoring';
+import { QuoteSubmitError, submitQuote, type QuoteContactFields } from '@/utils/quoteApi';
+import { getContactValidators } from '@/utils/validators';
+import Loading from './Loading';
+import ResponsiveImage from './ResponsiveImage';
+
+interface QuoteBasketProps {
+  locale: Locale;
+  className?: string;
+}
+
+const PRODUCTS_LINKS: Record<Locale, string> = getRoutePaths('products');
+
+const emptyContact = (): QuoteContactFields => ({
+  name: '',
+  email: '',
+  phone: '',
+  company: '',
+  city: '',
+  message: '',
+});
+
+const inputStyle: React.CSSProperties = {
+  width: '100%',
+  padding: '12px 15px',
+  border: '2px solid #e9ecef',
+  borderRadius: '8px',
+  fontSize: '16px',
+  fontFamily: 'inherit',
+};
+
+const labelStyle: React.CSSProperties = {
+  display: 'block',
+  marginBottom: '8px',
+  fontWeight: 500,
+  color: '#2c3e50',
+};
+
+const cardStyle: React.CSSProperties = {
+  background: '#fff',
+  padding: '30px',
+  borderRadius: '15px',
+  boxShadow: '0 10px 30px rgba(0,0,0,0.1)',
+};
+
+export default function QuoteBasket({ locale, className = "" }: QuoteBasketProps) {
+  const t = useTranslations();
+  const { items, isLoaded, updateItem, removeItem, clear } = useQuoteBasket();
+  const [contact, setContact] = useState<QuoteContactFields>(emptyContact);
+  const [fieldErrors, setFieldErrors] = useState<Partial<Record<keyof QuoteContactFields, string>>>({});
+  const [submitError, setSubmitError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [reference, setReference] = useState<string | null>(null);
+
+  const { measureApiCall, measureUserInteraction } = usePerformanceMonitoring('QuoteBasket');
+
+  // Same validators as the /api/quotes route
+  const validators = getContactValidators(locale, { phoneRequired: true });
+
+  const totalArea = items.reduce((sum, item) => sum + (item.quantity || 0), 0);
+
+  const handleContactChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+    const { name, value } = e.target;
+    setContact(prev => ({ ...prev, [name]: value }));
+    setFieldErrors(prev => ({ ...prev, [name]: undefined }));
+  };
+
+  const handleQuantityChange = (index: number, field: 'quantity' | 'cornerLength', value: string) => {
+    const parsed = parseFloat(value.replace(',', '.'));
+    updateItem(index, { [field]: Number.isFinite(parsed) && parsed >= 0 ? parsed : 0 });
+  };
+
+  const validate = () => {
+    const errors: Partial<Record<keyof QuoteContactFields, string>> = {};
+    (['name', 'email', 'phone'] as const).forEach((field) => {
+      const error = validators[field](contact[field]);
+      if (error) errors[field] = error;
+    });
+    setFieldErrors(errors);
+    return Object.keys(errors).length === 0;
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const endMeasurement = measureUserInteraction('quote_submit');
+    setSubmitError(null);
+
+    if (!validate()) {
+      endMeasurement();
+      return;
+    }
+
+    setIsSubmitting(true);
+
+    try {
+      const result = await measureApiCall(
+        () => submitQuote({ locale, contact, items }),
+        'quote_submit'
+      );
+      setReference(result.reference);
+      setContact(emptyContact());
+      clear();
+    } catch (error) {
+      if (error instanceof QuoteSubmitError) {
+        setFieldErrors(error.fieldErrors);
+        setSubmitError(error.itemErrors.length > 0 ? t('quoteBasket.itemError') : t('quoteBasket.error'));
+      } else {
+        setSubmitError(t('quoteBasket.error'));
+      }
+    } finally {
+      setIsSubmitting(false);
+      endMeasurement();
+    }
+  };
+
+  if (reference) {
+    return (
+      <div className={`quote-basket-success ${className}`} style={{
+        background: '#d4edda',
+        border: '1px solid #c3e6cb',
+        borderRadius: '12px',
+        padding: '40px',
+        textAlign: 'center',
+        color: '#155724',
+      }}>
+        <div style={{ fontSize: '3rem', marginBottom: '16px' }}>✅</div>
+        <h2 style={{ fontSize: '1.5rem', marginBottom: '12px', fontWeight: 600 }}>{t('quoteBasket.successTitle')}</h2>
+        <p style={{ fontSize: '1rem', lineHeight: '1.6', marginBottom: '20px' }}>{t('quoteBasket.successText')}</p>
+        <div style={{ fontSize: '0.85rem', textTransform: 'uppercase' }}>{t('quoteBasket.reference')}</div>
+        <div style={{ fontSize: '2rem', fontWeight: 700, letterSpacing: '1px' }}>{reference}</div>
+      </div>
+    );
+  }
+
+  if (!isLoaded) {
+    return <Loading size="medium" type="spinner" />;
+  }
+
+  if (items.length === 0) {
+    return (
+      <div className={`quote-basket-empty ${className}`} style={{ ...cardStyle, textAlign: 'center' }}>
+        <p style={{ color: '#666', marginBottom: '20px' }}>{t('quoteBasket.empty')}</p>
+        <Link href={PRODUCTS_LINKS[locale]} style={{
+          display: 'inline-block',
+          background: '#FD7E14',
+          color: '#fff',
+          padding: '12px 24px',
+          borderRadius: '8px',
+          fontWeight: 600,
+          textDecoration: 'none',
+        }}>
+          {t('quoteBasket.browse')}
+        </Link>
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className={`quote-basket ${className}`} style={{
+      display: 'grid',
+      gridTemplateColumns: 'repeat(auto-fit, minmax(320px, 1fr))',
+      gap: '40px',
+      alignItems: 'start',
+    }}>
+      <div style={cardStyle}>
+        <h2 style={{ fontSize: '1.8rem', fontWeight: 600, marginBottom: '25px', color: '#2c3e50' }}>
+          {t('quoteBasket.basket')} ({items.length})
+        </h2>
+
+        {items.map((item, index) => {
+          const product = getProductById(item.productId);
+          if (!product) return null;
+          const color = getColor(product, item.colorKey);
+
+          return (
+            <div key={`${item.productId}-${item.colorKey}`} style={{
+              display: 'grid',
+              gridTemplateColumns: '80px 1fr',
+              gap: '16px',
+              padding: '16px 0',
+              borderBottom: '1px solid #e9ecef',
+            }}>
+              <ResponsiveImage
+                src={color.image}
+                alt={`${product.title} ${color.name[locale]}`}
+                sizes="80px"
+                style={{ width: '80px', height: '80px', borderRadius: '8px' }}
+              />
+              <div>
+                <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'baseline', gap: '8px' }}>
+                  <Link href={getProductPath(product, locale)} style={{ fontWeight: 600, color: '#2c3e50', textDecoration: 'none' }}>
+                    {product.title} <span style={{ color: '#999', fontWeight: 400, fontSize: '0.85rem' }}>{product.code}</span>
+                  </Link>
+                  <button
+                    type="button"
+                    onClick={() => removeItem(index)}
+                    aria-label={`${t('quoteBasket.remove')} ${product.title}`}
+                    style={{ background: 'none', border: 'none', color: '#999', cursor: 'pointer', fontSize: '1rem' }}
+                  >
+                    ✕
+                  </button>
+                </div>
+                <div style={{ fontSize: '0.9rem', color: '#666', margin: '4px 0 10px', display: 'flex', alignItems: 'center', gap: '6px' }}>
+                  <span style={{ width: '12px', height: '12px', borderRadius: '50%', background: color.hex, display: 'inline-block' }} />
+                  {t('quoteBasket.color')}: {color.name[locale]}
+                </div>
+                <div style={{ display: 'grid', gridTemplateColumns: product.specs.corner ? '1fr 1fr' : '1fr', gap: '10px' }}>
+                  <label style={{ fontSize: '0.8rem', color: '#2c3e50' }}>
+                    {t('quoteBasket.quantity')}
+                    <input
+                      type="number"
+                      inputMode="decimal"
+                      min="0"
+                      step="0.01"
+                      value={item.quantity || ''}
+                      onChange={(e) => handleQuantityChange(index, 'quantity', e.target.value)}
+                      style={{ ...inputStyle, padding: '8px 10px' }}
+                    />
+                  </label>
+                  {product.specs.corner && (
+                    <label style={{ fontSize: '0.8rem', color: '#2c3e50' }}>
+                      {t('quoteBasket.corner')}
+                      <input
+                        type="number"
+                        inputMode="decimal"
+                        min="0"
+                        step="0.1"
+                        value={item.cornerLength || ''}
+                        onChange={(e) => handleQuantityChange(index, 'cornerLength', e.target.value)}
+                        style={{ ...inputStyle, padding: '8px 10px' }}
+                      />
+                    </label>
+                  )}
+                </div>
+                {item.note && (
+                  <details style={{ marginTop: '8px', fontSize: '0.8rem', color: '#666' }}>
+                    <summary style={{ cursor: 'pointer' }}>ℹ️</summary>
+                    <pre style={{ whiteSpace: 'pre-wrap', fontFamily: 'inherit' }}>{item.note}</pre>
+                  </details>
+                )}
+              </div>
+            </div>
+          );
+        })}
+
+        <div style={{ display: 'flex', justifyContent: 'space-between', marginTop: '16px', fontWeight: 600, color: '#2c3e50' }}>
+          <span>{t('quoteBasket.total')}</span>
+          <span>{formatQuantity(totalArea, 'm²', locale, 2)}</span>
+        </div>
+      </div>
+
+      <div style={cardStyle}>
+        <h2 style={{ fontSize: '1.8rem', fontWeight: 600, marginBottom: '25px', color: '#2c3e50' }}>
+          {t('quoteBasket.contact')}
+        </h2>
+
+        {(['name', 'email', 'phone', 'company', 'city'] as const).map((field) => (
+          <div key={field} style={{ marginBottom: '20px' }}>
+            <label htmlFor={`quote-${field}`} style={labelStyle}>{t(`quoteBasket.${field}`)}</label>
+            <input
+              id={`quote-${field}`}
+              type={field === 'email' ? 'email' : field === 'phone' ? 'tel' : 'text'}
+              name={field}
+              value={contact[field]}
+              onChange={handleContactChange}
+              autoComplete={field === 'company' ? 'organization' : field === 'city' ? 'address-level2' : field === 'phone' ? 'tel' : field}
+              maxLength={100}
+              style={{ ...inputStyle, borderColor: fieldErrors[field] ? '#dc3545' : '#e9ecef' }}
+            />
+            {fieldErrors[field] && (
+              <div style={{ color: '#dc3545', fontSize: '0.85rem', marginTop: '4px' }}>{fieldErrors[field]}</div>
+            )}
+          </div>
+        ))}
+
+        <div style={{ marginBottom: '20px' }}>
+          <label htmlFor="quote-message" style={labelStyle}>{t('quoteBasket.message')}</label>
+          <textarea
+            id="quote-message"
+            name="message"
+            value={contact.message}
+            onChange={handleContactChange}
+            rows={4}
+            maxLength={1000}
+            style={{ ...inputStyle, resize: 'vertical' }}
+          />
+        </div>
+
+        {submitError && (
+          <div style={{
+            background: '#f8d7da',
+            border: '1px solid #f5c6cb',
+            borderRadius: '8px',
+            padding: '12px',
+            marginBottom: '20px',
+            color: '#721c24',
+            fontSize: '0.9rem',
+          }}>
+            {submitError}
+          </div>
+        )}
+
+        <button
+          type="submit"
+          disabled={isSubmitting || totalArea <= 0}
+          style={{
+            width: '100%',
+            background: isSubmitting || totalArea <= 0 ? '#ccc' : '#FD7E14',
+            color: '#fff',
+            border: 'none',
+            padding: '16px',
+            borderRadius: '8px',
+            fontSize: '1.1rem',
+            fontWeight: 600,
+            cursor: isSubmitting || totalArea <= 0 ? 'not-allowed' : 'pointer',
+            display: 'flex',
+            alignItems: 'center',
+            justifyContent: 'center',
+            gap: '12px',
+          }}
+        >
+          {isSubmitting ? (
+            <>
+              <Loading size="small" type="spinner" />
+              {t('quoteBasket.submitting')}
+            </>
+          ) : (
+            t('quoteBasket.submit')
+          )}
+        </button>
+      </div>
+    </form>
+  );
+}
@@ -294,7 +294,7 @@ export function useResponsiveBreakpoint() {
 export function useGridUtils() {
   const breakpoint = useResponsiveBreakpoint();
   
-  const getResponsiveValue = <T>(values: {
+  const getResponsiveValue = <T,>(values: {
     xs?: T;
     sm?: T;
     md?: T;
@@ -386,4 +386,11 @@ export const GridExamples = () => {
   );
 };
 
-export default ResponsiveGrid;
\ No newline at end of file
+export default {
+  ResponsiveContainer,
+  ResponsiveRow,
+  ResponsiveCol,
+  ResponsiveAutoGrid,
+  ResponsiveMasonry,
+  ResponsiveGridItem
+};
@@ -1,35 +1,52 @@
 "use client";
 
-import { useState, useCallback, useEffect } from 'react';
+import { useState, useCallback, useEffect, useRef } from 'react';
 import { useErrorHandling } from '@/hooks/useErrorHandling';
+import { useListNavigation } from '@/hooks/useListNavigation';
 import { usePerformanceMonitoring } from '@/hooks/usePerformanceMonitoring';
 import Loading from './Loading';
-
-interface SearchResult {
-  id: string;
-  title: string;
-  description: string;
-  link: string;
-  type: 'product' | 'page';
-  image?: string;
-}
+import type { Locale } from '@/data/catalog';
+import { useTranslations } from '@/i18n/I18nProvider';
+import type { HighlightSegment, SearchHit } from '@/lib/search';
+import { buildSearchUrl, fetchSearchResults, segmentsToText } from '@/utils/searchApi';
 
 interface SearchBarProps {
   placeholder?: string;
-  onResultSelect?: (result: SearchResult) => void;
+  locale?: Locale;
+  onResultSelect?: (result: SearchHit) => void;
   className?: string;
 }
 
+const renderSegments = (segments: HighlightSegment[]) =>
+  segments.map((segment, index) =>
+    segment.match ? (
+      <mark key={index} style={{ background: 'rgba(253, 126, 20, 0.2)', color: 'inherit', padding: 0 }}>
+        {segment.text}
+      </mark>
+    ) : (
+      <span key={index}>{segment.text}</span>
+    )
+  );
+
 export default function SearchBar({ 
-  placeholder = "Ürün arayın...", 
+  placeholder,
+  locale = 'tr',
   onResultSelect,
   className = ""
 }: SearchBarProps) {
+  const t = useTranslations();
   const [query, setQuery] = useState('');
-  const [results, setResults] = useState<SearchResult[]>([]);
+  const [results, setResults] = useState<SearchHit[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [isOpen, setIsOpen] = useState(false);
-  const [selectedIndex, setSelectedIndex] = useState(-1);
+
+  const { selectedIndex, setSelectedIndex, handleKeyDown: handleListKeyDown } = useListNavigation(
+    isOpen ? results : [],
+    {
+      onSelect: (result) => handleResultClick(result),
+      onEscape: () => setIsOpen(false),
+    }
+  );
 
   const { executeWithErrorHandling } = useErrorHandling({
     enableLogging: true,
@@ -40,39 +57,39 @@ export default function SearchBar({
   });
 
   const { measureUserInteraction, measureApiCall } = usePerformanceMonitoring('SearchBar');
-
-  // Mock search data - replace with real API call
-  const searchData: SearchResult[] = [
-    { id: '1', title: 'Mitra Kültür Taşı', description: 'Doğal görünümlü kültür taşı', link: '/urun/kultur-tasi-1', type: 'product' },
-    { id: '2', title: 'Tivoli Kültür Taşı', description: 'Modern stil kültür taşı', link: '/urun/kultur-tasi-2', type: 'product' },
-    { id: '3', title: 'Luminar Kültür Taşı', description: 'Şık ve zarif kültür taşı', link: '/urun/kultur-tasi-3', type: 'product' },
-    { id: '4', title: 'Leon Kültür Tuğlası', description: 'Rustik kültür tuğlası', link: '/urun/kultur-tuglasi-1', type: 'product' },
-    { id: '5', title: 'Ürünler', description: 'Tüm ürünleri görüntüle', link: '/urunler', type: 'page' },
-    { id: '6', title: 'İletişim', description: 'Bizimle iletişime geçin', link: '/iletisim', type: 'page' },
-  ];
+  const abortRef = useRef<AbortController | null>(null);
 
   const performSearch = useCallback(async (searchQuery: string) => {
     if (!searchQuery.trim()) {
+      abortRef.current?.abort();
       setResults([]);
       setIsOpen(false);
+      setIsLoading(false);
       return;
     }
 
     setIsLoading(true);
 
-    const searchResults = await executeWithErrorHandling(async () => {
-      // Simulate API delay
-      await new Promise(resolve => setTimeout(resolve, 300));
-
-      // Filter mock data
-      const filtered = searchData.filter(item =>
-        item.title.toLowerCase().includes(searchQuery.toLowerCase()) ||
-        item.description.toLowerCase().includes(searchQuery.toLowerCase())
-      );
+    // Only the latest request may update the results
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
 
-      return filtered.slice(0, 8); // Limit to 8 results
+    const searchResults = await executeWithErrorHandling(async () => {
+      try {
+        const response = await measureApiCall(
+          () => fetchSearchResults(searchQuery, locale, { limit: 8, signal: controller.signal }),
+          'search_products'
+        );
+        return response.results;
+      } catch (error) {
+        if (controller.signal.aborted) return null;
+        throw error;
+      }
     }, 'search_products');
 
+    if (controller.signal.aborted) return;
+
     if (searchResults) {
       setResults(searchResults);
       setIsOpen(true);
@@ -80,7 +97,7 @@ export default function SearchBar({
     }
 
     setIsLoading(false);
-  }, [executeWithErrorHandling]);
+  }, [executeWithErrorHandling, measureApiCall, locale]);
 
   // Debounced search
   useEffect(() => {
@@ -101,35 +118,10 @@ export default function SearchBar({
     }
   };
 
-  const handleKeyDown = (e: React.KeyboardEvent) => {
-    if (!isOpen || results.length === 0) return;
-
-    switch (e.key) {
-      case 'ArrowDown':
-        e.preventDefault();
-        setSelectedIndex(prev => (prev + 1) % results.length);
-        break;
-      case 'ArrowUp':
-        e.preventDefault();
-        setSelectedIndex(prev => prev <= 0 ? results.length - 1 : prev - 1);
-        break;
-      case 'Enter':
-        e.preventDefault();
-        if (selectedIndex >= 0 && results[selectedIndex]) {
-          handleResultClick(results[selectedIndex]);
-        }
-        break;
-      case 'Escape':
-        setIsOpen(false);
-        setSelectedIndex(-1);
-        break;
-    }
-  };
-
-  const handleResultClick = (result: SearchResult) => {
+  const handleResultClick = (result: SearchHit) => {
     const endMeasurement = measureUserInteraction('search_result_click');
     
-    setQuery(result.title);
+    setQuery(segmentsToText(result.titleSegments));
     setIsOpen(false);
     setSelectedIndex(-1);
     
@@ -141,6 +133,17 @@ export default function SearchBar({
     endMeasurement();
   };
 
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (handleListKeyDown(e)) return;
+
+    // Enter without a highlighted result opens the full result page
+    if (e.key === 'Enter' && query.trim()) {
+      e.preventDefault();
+      setIsOpen(false);
+      window.location.href = buildSearchUrl(locale, query);
+    }
+  };
+
   const handleFocus = () => {
     const endMeasurement = measureUserInteraction('search_focus');
     if (query.trim() && results.length > 0) {
@@ -171,7 +174,8 @@ export default function SearchBar({
           onKeyDown={handleKeyDown}
           onFocus={handleFocus}
           onBlur={handleBlur}
-          placeholder={placeholder}
+          placeholder={placeholder || t('search.placeholder')}
+          aria-label={placeholder || t('search.placeholder')}
           style={{
             width: '100%',
             padding: '12px 40px 12px 16px',
@@ -259,14 +263,14 @@ export default function SearchBar({
                       color: '#333',
                       marginBottom: '2px',
                     }}>
-                      {result.title}
+                      {renderSegments(result.titleSegments)}
                     </div>
                     <div style={{
                       fontSize: '0.85rem',
                       color: '#666',
                       lineHeight: '1.3',
                     }}>
-                      {result.description}
+                      {renderSegments(result.snippet)}
                     </div>
                   </div>
                   
@@ -276,7 +280,7 @@ export default function SearchBar({
                     textTransform: 'uppercase',
                     fontWeight: 500,
                   }}>
-                    {result.type === 'product' ? 'ÜRÜN' : 'SAYFA'}
+                    {result.type === 'product' ? t('search.product') : t('search.page')}
                   </div>
                 </div>
               </div>
@@ -289,9 +293,9 @@ export default function SearchBar({
               fontSize: '0.9rem',
             }}>
               <div style={{ fontSize: '2rem', marginBottom: '8px' }}>🔍</div>
-              <div>Sonuç bulunamadı</div>
+              <div>{t('search.noResults')}</div>
               <div style={{ fontSize: '0.8rem', marginTop: '4px' }}>
-                "{query}" için hiçbir sonuç bulunamadı
+                {t('search.noResultsFor', { query })}
               </div>
             </div>
           ) : null}
@@ -0,0 +1,263 @@
+"use client";
+
+import { useEffect, useState, useTransition } from 'react';
+import Link from 'next/link';
+import Image from 'next/image';
+import { useRouter } from 'next/navigation';
+import { useListNavigation } from '@/hooks/useListNavigation';
+import { usePerformanceMonitoring } from '@/hooks/usePerformanceMonitoring';
+import type { Locale } from '@/data/catalog';
+import { useTranslations } from '@/i18n/I18nProvider';
+import type {
+  FacetKey,
+  FacetSelection,
+  FacetedSearchResponse,
+  HighlightSegment,
+  SearchHit,
+} from '@/lib/search';
+import { buildSearchUrl, segmentsToText } from '@/utils/searchApi';
+
+interface SearchResultsProps {
+  locale: Locale;
+  response: FacetedSearchResponse;
+}
+
+const renderSegments = (segments: HighlightSegment[]) =>
+  segments.map((segment, index) =>
+    segment.match ? (
+      <mark key={index} style={{ background: 'rgba(253, 126, 20, 0.2)', color: 'inherit', padding: 0 }}>
+        {segment.text}
+      </mark>
+    ) : (
+      <span key={index}>{segment.text}</span>
+    )
+  );
+
+export default function SearchResults({ locale, response }: SearchResultsProps) {
+  const t = useTranslations();
+  const router = useRouter();
+  const [isPending, startTransition] = useTransition();
+  const [query, setQuery] = useState(response.query);
+  const { measureUserInteraction } = usePerformanceMonitoring('SearchResults');
+
+  // Back/forward navigation brings a new response for the same component
+  useEffect(() => {
+    setQuery(response.query);
+  }, [response.query]);
+
+  // Filters and the query live in the URL, so every state can be shared
+  const navigate = (nextQuery: string, selection: FacetSelection) => {
+    startTransition(() => {
+      router.push(buildSearchUrl(locale, nextQuery, selection), { scroll: false });
+    });
+  };
+
+  const openResult = (result: SearchHit) => {
+    const endMeasurement = measureUserInteraction('search_page_result_click');
+    router.push(result.link);
+    endMeasurement();
+  };
+
+  const { selectedIndex, setSelectedIndex, handleKeyDown } = useListNavigation(response.results, {
+    onSelect: (result) => openResult(result),
+  });
+
+  // A new result list starts without a highlighted item
+  useEffect(() => {
+    setSelectedIndex(-1);
+  }, [response, setSelectedIndex]);
+
+  const toggleFacet = (key: FacetKey, value: string) => {
+    const current = response.selection[key] || [];
+    const next = current.indexOf(value) >= 0
+      ? current.filter((v) => v !== value)
+      : [...current, value];
+    navigate(response.query, { ...response.selection, [key]: next });
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    navigate(query, response.selection);
+  };
+
+  const hasFilters = response.facets.some((facet) => facet.values.some((value) => value.selected));
+
+  return (
+    <div style={{ fontFamily: 'Poppins, sans-serif' }}>
+      <form onSubmit={handleSubmit} role="search" style={{ display: 'flex', gap: '12px', marginBottom: '24px' }}>
+        <input
+          type="search"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          onKeyDown={handleKeyDown}
+          placeholder={t('search.placeholder')}
+          aria-label={t('search.placeholder')}
+          aria-controls="search-results-list"
+          aria-activedescendant={selectedIndex >= 0 ? `search-result-${selectedIndex}` : undefined}
+          maxLength={100}
+          style={{
+            flex: 1,
+            padding: '12px 16px',
+            border: '2px solid #e0e0e0',
+            borderRadius: '25px',
+            fontSize: '1rem',
+            fontFamily: 'Poppins, sans-serif',
+            outline: 'none',
+          }}
+        />
+        <button
+          type="submit"
+          style={{
+            background: '#FD7E14',
+            color: '#fff',
+            border: 'none',
+            padding: '12px 28px',
+            borderRadius: '25px',
+            fontSize: '1rem',
+            fontWeight: 600,
+            cursor: 'pointer',
+          }}
+        >
+          {t('search.submit')}
+        </button>
+      </form>
+
+      <div style={{ display: 'flex', flexWrap: 'wrap', gap: '24px', alignItems: 'flex-start' }}>
+        {/* Facets */}
+        <aside style={{
+          flex: '1 1 220px',
+          maxWidth: '100%',
+          background: '#fff',
+          borderRadius: '12px',
+          padding: '20px',
+          boxShadow: '0 4px 12px rgba(0, 0, 0, 0.06)',
+        }}>
+          <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '12px' }}>
+            <h2 style={{ fontSize: '1.1rem', fontWeight: 600, margin: 0, color: '#2c3e50' }}>{t('search.filters')}</h2>
+            {hasFilters && (
+              <button
+                type="button"
+                onClick={() => navigate(response.query, {})}
+                style={{ background: 'none', border: 'none', color: '#FD7E14', cursor: 'pointer', fontSize: '0.85rem', padding: 0 }}
+              >
+                {t('search.clearFilters')}
+              </button>
+            )}
+          </div>
+
+          {response.facets.map((facet) => facet.values.length > 0 && (
+            <fieldset key={facet.key} style={{ border: 'none', padding: 0, margin: '0 0 16px 0' }}>
+              <legend style={{ fontWeight: 600, fontSize: '0.9rem', color: '#2c3e50', marginBottom: '8px' }}>
+                {t(`search.facets.${facet.key}`)}
+              </legend>
+              {facet.values.map((value) => (
+                <label
+                  key={value.value}
+                  style={{
+                    display: 'flex',
+                    alignItems: 'center',
+                    gap: '8px',
+                    fontSize: '0.9rem',
+                    color: value.count === 0 ? '#aaa' : '#333',
+                    padding: '4px 0',
+                    cursor: 'pointer',
+                  }}
+                >
+                  <input
+                    type="checkbox"
+                    checked={value.selected}
+                    onChange={() => toggleFacet(facet.key, value.value)}
+                    style={{ accentColor: '#FD7E14' }}
+                  />
+                  <span style={{ flex: 1 }}>{value.label}</span>
+                  <span style={{ color: '#999', fontSize: '0.8rem' }}>{value.count}</span>
+                </label>
+              ))}
+            </fieldset>
+          ))}
+        </aside>
+
+        {/* Results */}
+        <section style={{ flex: '999 1 480px', minWidth: 0, opacity: isPending ? 0.6 : 1, transition: 'opacity 0.2s ease' }}>
+          <div style={{ display: 'flex', justifyContent: 'space-between', flexWrap: 'wrap', gap: '8px', marginBottom: '16px', color: '#666', fontSize: '0.9rem' }}>
+            <span aria-live="polite">{response.query
+              ? t('search.count', { total: response.total, query: response.query })
+              : t('search.countAll', { total: response.total })}</span>
+            {response.results.length > 0 && <span style={{ color: '#999' }}>{t('search.keyboardHint')}</span>}
+          </div>
+
+          {response.results.length > 0 ? (
+            <ul id="search-results-list" role="listbox" style={{ listStyle: 'none', padding: 0, margin: 0, display: 'grid', gap: '12px' }}>
+              {response.results.map((result, index) => (
+                <li
+                  key={result.id}
+                  id={`search-result-${index}`}
+                  role="option"
+                  aria-selected={selectedIndex === index}
+                  onMouseEnter={() => setSelectedIndex(index)}
+                >
+                  <Link
+                    href={result.link}
+                    style={{
+                      display: 'flex',
+                      gap: '16px',
+                      alignItems: 'center',
+                      padding: '12px',
+                      borderRadius: '12px',
+                      background: selectedIndex === index ? '#fff3e6' : '#fff',
+                      border: `1px solid ${selectedIndex === index ? '#FD7E14' : '#eee'}`,
+                      textDecoration: 'none',
+                      color: 'inherit',
+                      transition: 'background-color 0.2s ease',
+                    }}
+                  >
+                    {result.image ? (
+                      <Image
+                        src={result.image}
+                        alt={segmentsToText(result.titleSegments)}
+                        width={96}
+                        height={72}
+                        style={{ objectFit: 'cover', borderRadius: '8px', flexShrink: 0 }}
+                      />
+                    ) : (
+                      <div style={{
+                        width: '96px',
+                        height: '72px',
+                        borderRadius: '8px',
+                        background: '#6c757d',
+                        display: 'flex',
+                        alignItems: 'center',
+                        justifyContent: 'center',
+                        fontSize: '1.5rem',
+                        flexShrink: 0,
+                      }}>
+                        📄
+                      </div>
+                    )}
+                    <div style={{ flex: 1, minWidth: 0 }}>
+                      <div style={{ fontWeight: 600, fontSize: '1rem', color: '#2c3e50', marginBottom: '4px' }}>
+                        {renderSegments(result.titleSegments)}
+                      </div>
+                      <div style={{ fontSize: '0.875rem', color: '#666', lineHeight: '1.4' }}>
+                        {renderSegments(result.snippet)}
+                      </div>
+                    </div>
+                    <div style={{ fontSize: '0.75rem', color: '#999', fontWeight: 500 }}>
+                      {result.type === 'product' ? t('search.product') : t('search.page')}
+                    </div>
+                  </Link>
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <div style={{ padding: '40px 20px', textAlign: 'center', color: '#666', background: '#fff', borderRadius: '12px' }}>
+              <div style={{ fontSize: '2rem', marginBottom: '8px' }}>🔍</div>
+              <div style={{ fontWeight: 600 }}>{t('search.noResults')}</div>
+              <div style={{ fontSize: '0.875rem', marginTop: '4px' }}>{t('search.noResultsHint')}</div>
+            </div>
+          )}
+        </section>
+      </div>
+    </div>
+  );
+}
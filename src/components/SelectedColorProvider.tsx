@@ -0,0 +1,38 @@
+"use client";
+
+import { createContext, useContext, useEffect, useState, type ReactNode } from 'react';
+
+type SelectedColor = [colorKey: string, select: (colorKey: string) => void];
+
+const SelectedColorContext = createContext<SelectedColor>(['', () => {}]);
+
+interface SelectedColorProviderProps {
+  colorKeys: string[];
+  children: ReactNode;
+}
+
+// The color chosen on the product page. The page itself stays a server
+// component; the selector and the sections that depend on the color (quote,
+// spec sheet, calculator, reference projects) share the choice through this.
+export default function SelectedColorProvider({ colorKeys, children }: SelectedColorProviderProps) {
+  const [colorKey, setColorKey] = useState(colorKeys[0]);
+
+  // Links from gallery projects preselect their color (?color=köz). The page
+  // is static, so the query is only read on the client.
+  useEffect(() => {
+    const color = new URLSearchParams(window.location.search).get('color');
+    if (color && colorKeys.indexOf(color) >= 0) {
+      setColorKey(color);
+    }
+  }, [colorKeys]);
+
+  return (
+    <SelectedColorContext.Provider value={[colorKey, setColorKey]}>
+      {children}
+    </SelectedColorContext.Provider>
+  );
+}
+
+export function useSelectedColor(): SelectedColor {
+  return useContext(SelectedColorContext);
+}
@@ -0,0 +1,115 @@
+import type { Metadata, Viewport } from 'next'
+import '@/styles/globals.css'
+import '@/styles/responsive-foundation.css'
+import '@/styles/responsive-typography.css'
+import '@/styles/responsive-grid.css'
+import '@/styles/touch-gestures.css'
+import '@/styles/performance-monitor.css'
+import '@/styles/responsive-animations.css'
+import '@/styles/test-dashboard.css'
+import '@/styles/rollback-dashboard.css'
+import '@/styles/migration-dashboard.css'
+import '@/styles/safeguards-dashboard.css'
+import '@/styles/maintenance-dashboard.css'
+import '@/styles/metrics-dashboard.css'
+import '@/styles/checklist-dashboard.css'
+import '@/styles/deployment-dashboard.css'
+import '@/styles/admin-dashboard.css'
+import Header from '@/components/Header'
+import Footer from '@/components/Footer'
+import ErrorBoundary from '@/components/ErrorBoundary'
+import PerformanceProvider from '@/components/PerformanceProvider'
+import JsonLd from '@/components/JsonLd'
+import ResourceHints, { CriticalCSS, CRITICAL_CSS } from '@/components/ResourceHints'
+import { LOCALE_SETTINGS, SITE_URL, type Locale } from '@/i18n/config'
+import { I18nProvider } from '@/i18n/I18nProvider'
+import { createTranslator } from '@/i18n/translate'
+import { getOrganizationJsonLd } from '@/lib/seo'
+import '@/utils/serviceWorker'
+
+// <html> document shared by the root layouts: the localized site under
+// app/[locale] and the internal tools under app/(internal).
+
+export function getSiteMetadata(locale: Locale): Metadata {
+  const t = createTranslator(locale)
+  return {
+    // Relative Open Graph image URLs resolve against the canonical origin
+    metadataBase: new URL(SITE_URL),
+    title: t('meta.title'),
+    description: t('meta.description'),
+    keywords: t('meta.keywords'),
+    icons: {
+      icon: '/siyahlogo.png',
+      shortcut: '/siyahlogo.png',
+      apple: '/siyahlogo.png',
+    },
+    openGraph: {
+      title: t('meta.ogTitle'),
+      description: t('meta.ogDescription'),
+      type: 'website',
+      siteName: 'Monopol Stone',
+      locale: LOCALE_SETTINGS[locale].openGraph,
+      images: ['/siyahlogo.png'],
+    },
+    manifest: '/manifest.json',
+    appleWebApp: {
+      capable: true,
+      statusBarStyle: 'default',
+      title: 'Monopol Stone',
+    },
+    formatDetection: {
+      telephone: true,
+      date: false,
+      address: true,
+      email: true,
+    },
+    other: {
+      'mobile-web-app-capable': 'yes',
+      'HandheldFriendly': 'True',
+      'MobileOptimized': '320',
+    },
+  }
+}
+
+export const SITE_VIEWPORT: Viewport = {
+  width: 'device-width',
+  initialScale: 1,
+  maximumScale: 5,
+  userScalable: true,
+  viewportFit: 'cover',
+  themeColor: '#FD7E14',
+}
+
+export default function SiteDocument({
+  locale,
+  children,
+}: {
+  locale: Locale
+  children: React.ReactNode
+}) {
+  const settings = LOCALE_SETTINGS[locale]
+
+  return (
+    <html lang={settings.htmlLang} dir={settings.dir}>
+      <head>
+        <meta charSet="utf-8" />
+        <meta httpEquiv="Content-Type" content="text/html; charset=utf-8" />
+        <meta name="viewport" content="width=device-width, initial-scale=1" />
+      </head>
+      <body>
+        <CriticalCSS css={CRITICAL_CSS} />
+        <JsonLd data={getOrganizationJsonLd(locale)} />
+        <ResourceHints />
+        <I18nProvider locale={locale}>
+          <PerformanceProvider>
+            <ErrorBoundary>
+              <Header />
+              {children}
+              <Footer />
+            </ErrorBoundary>
+          </PerformanceProvider>
+        </I18nProvider>
+      </body>
+    </html>
+  )
+}
@@ -0,0 +1,51 @@
+"use client";
+
+import { useSelectedColor } from '@/components/SelectedColorProvider';
+import { getColor, type Locale, type ProductSummary } from '@/data/catalog';
+import { useTranslations } from '@/i18n/I18nProvider';
+
+interface SpecSheetDownloadProps {
+  product: ProductSummary;
+  locale: Locale;
+  className?: string;
+}
+
+export const getSpecSheetUrl = (productId: string, colorKey: string, locale: Locale) =>
+  `/api/spec-sheet/${encodeURIComponent(productId)}?locale=${locale}&color=${encodeURIComponent(colorKey)}`;
+
+export default function SpecSheetDownload({ product, locale, className = "" }: SpecSheetDownloadProps) {
+  const t = useTranslations();
+  const [colorKey] = useSelectedColor();
+  const color = getColor(product, colorKey);
+
+  return (
+    <div className={`spec-sheet-download ${className}`} style={{
+      display: 'flex',
+      flexWrap: 'wrap',
+      alignItems: 'center',
+      gap: '12px',
+      margin: '16px 0',
+      fontFamily: 'Poppins, sans-serif',
+    }}>
+      <a
+        href={getSpecSheetUrl(product.id, color.key, locale)}
+        download
+        style={{
+          display: 'inline-flex',
+          alignItems: 'center',
+          gap: '8px',
+          border: '2px solid #FD7E14',
+          color: '#FD7E14',
+          background: '#fff',
+          padding: '10px 20px',
+          borderRadius: '8px',
+          fontWeight: 600,
+          textDecoration: 'none',
+        }}
+      >
+        📄 {t('specSheetDownload.button')}
+      </a>
+      <span style={{ fontSize: '0.85rem', color: '#666' }}>{t('specSheetDownload.hint', { color: color.name })}</span>
+    </div>
+  );
+}
@@ -0,0 +1,444 @@
+"use client";
+
+import { useEffect, useRef, useState } from 'react';
+import Link from 'next/link';
+import ResponsiveImage from '@/components/ResponsiveImage';
+import { getColor, getProductById, getProductPath, getProducts, series, type Locale } from '@/data/catalog';
+import { useTranslations } from '@/i18n/I18nProvider';
+import {
+  GROUT_COLORS,
+  GROUT_KEYS,
+  SWATCH_SIZE_M,
+  recolorGrout,
+  renderWall,
+  tilePixelSize,
+  type GroutKey,
+  type Point,
+  type Quad,
+} from '@/utils/wallVisualizer';
+
+interface WallVisualizerProps {
+  locale: Locale;
+}
+
+// Longest side photos are worked on at; larger photos are scaled down
+const MAX_PHOTO_SIZE = 1600;
+
+// Radius for grabbing a corner, in CSS pixels (fingertip sized)
+const HANDLE_RADIUS = 22;
+
+const PHOTO_INPUT_ID = 'visualizer-photo';
+
+const loadImage = (src: string) =>
+  new Promise<HTMLImageElement>((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = reject;
+    image.src = src;
+  });
+
+const chipStyle = (active: boolean): React.CSSProperties => ({
+  padding: '6px 12px',
+  borderRadius: '16px',
+  border: active ? '2px solid #FD7E14' : '2px solid #e0e0e0',
+  background: active ? '#FD7E14' : '#fff',
+  color: active ? '#fff' : '#333',
+  cursor: 'pointer',
+  fontSize: '0.9rem',
+  display: 'inline-flex',
+  alignItems: 'center',
+  gap: '6px',
+});
+
+const buttonStyle: React.CSSProperties = {
+  background: '#FD7E14',
+  color: '#fff',
+  border: 'none',
+  borderRadius: '8px',
+  padding: '10px 18px',
+  fontWeight: 600,
+  cursor: 'pointer',
+};
+
+const labelStyle: React.CSSProperties = { display: 'block', fontWeight: 600, margin: '18px 0 8px', color: '#333' };
+
+// Upload a photo, mark the wall's corners and preview a product on it.
+// The photo is only ever drawn into canvases on this page.
+export default function WallVisualizer({ locale }: WallVisualizerProps) {
+  const t = useTranslations();
+  const products = getProducts();
+  const [productId, setProductId] = useState(products[0].id);
+  const product = getProductById(productId) || products[0];
+  const [colorKey, setColorKey] = useState(product.colors[0].key);
+  const color = getColor(product, colorKey);
+  const [grout, setGrout] = useState<GroutKey>('original');
+  const [wallWidth, setWallWidth] = useState('4');
+  const [wallHeight, setWallHeight] = useState('2.7');
+
+  const [photo, setPhoto] = useState<HTMLCanvasElement | null>(null);
+  const [swatch, setSwatch] = useState<HTMLImageElement | null>(null);
+  const [points, setPoints] = useState<Point[]>([]);
+  const [dragging, setDragging] = useState<number | null>(null);
+  const [error, setError] = useState(false);
+  const [canShare, setCanShare] = useState(false);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  // The finished picture without corner handles, for download and share
+  const resultRef = useRef<HTMLCanvasElement | null>(null);
+
+  // Product pages link here with their product and color (?product=mitra&color=antrasit)
+  useEffect(() => {
+    const query = new URLSearchParams(window.location.search);
+    const preset = getProductById(query.get('product') || '');
+    if (preset) {
+      setProductId(preset.id);
+      setColorKey(getColor(preset, query.get('color') || undefined).key);
+    }
+    setCanShare(
+      typeof navigator.canShare === 'function' &&
+        navigator.canShare({ files: [new File([''], 'wall.jpg', { type: 'image/jpeg' })] })
+    );
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadImage(color.image)
+      .then((image) => {
+        if (!cancelled) setSwatch(image);
+      })
+      .catch(() => undefined);
+    return () => {
+      cancelled = true;
+    };
+  }, [color.image]);
+
+  // Paint the wall, then draw the result plus the corner handles on screen.
+  // While a corner is dragged only the outline is drawn, which keeps it smooth.
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!photo || !canvas) return;
+
+    const result = document.createElement('canvas');
+    result.width = photo.width;
+    result.height = photo.height;
+    const context = result.getContext('2d');
+    if (!context) return;
+    context.drawImage(photo, 0, 0);
+
+    const tiles = { x: parseFloat(wallWidth) / SWATCH_SIZE_M, y: parseFloat(wallHeight) / SWATCH_SIZE_M };
+    if (points.length === 4 && swatch && dragging === null && tiles.x > 0 && tiles.y > 0) {
+      const quad = points as Quad;
+      // Texture at roughly the size one tile takes up on screen
+      const width = Math.round(Math.min(swatch.naturalWidth, Math.max(16, tilePixelSize(quad, tiles))));
+      const height = Math.max(1, Math.round((width * swatch.naturalHeight) / swatch.naturalWidth));
+      const tile = document.createElement('canvas');
+      tile.width = width;
+      tile.height = height;
+      const tileContext = tile.getContext('2d');
+      if (tileContext) {
+        tileContext.drawImage(swatch, 0, 0, width, height);
+        const texture = tileContext.getImageData(0, 0, width, height);
+        const groutColor = GROUT_COLORS[grout];
+        if (groutColor) recolorGrout(texture, groutColor);
+        const image = context.getImageData(0, 0, result.width, result.height);
+        renderWall(image, texture, quad, tiles);
+        context.putImageData(image, 0, 0);
+      }
+    }
+    resultRef.current = result;
+
+    canvas.width = result.width;
+    canvas.height = result.height;
+    const screen = canvas.getContext('2d');
+    if (!screen) return;
+    screen.drawImage(result, 0, 0);
+
+    // Handles keep their on-screen size however large the photo is
+    const scale = canvas.clientWidth ? canvas.width / canvas.clientWidth : 1;
+    screen.lineWidth = 2 * scale;
+    screen.strokeStyle = '#FD7E14';
+    if (points.length > 1) {
+      screen.beginPath();
+      points.forEach((p, index) => (index === 0 ? screen.moveTo(p.x, p.y) : screen.lineTo(p.x, p.y)));
+      if (points.length === 4) screen.closePath();
+      screen.stroke();
+    }
+    points.forEach((p, index) => {
+      screen.beginPath();
+      screen.arc(p.x, p.y, 12 * scale, 0, Math.PI * 2);
+      screen.fillStyle = index === dragging ? '#FD7E14' : 'rgba(255,255,255,0.9)';
+      screen.fill();
+      screen.stroke();
+      screen.fillStyle = index === dragging ? '#fff' : '#333';
+      screen.font = `bold ${12 * scale}px Poppins, sans-serif`;
+      screen.textAlign = 'center';
+      screen.textBaseline = 'middle';
+      screen.fillText(String(index + 1), p.x, p.y);
+    });
+  }, [photo, swatch, points, dragging, grout, wallWidth, wallHeight]);
+
+  const selectProduct = (id: string) => {
+    const next = getProductById(id);
+    if (!next) return;
+    setProductId(next.id);
+    setColorKey(next.colors[0].key);
+  };
+
+  const onPhoto = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    // Allow picking the same file again
+    event.target.value = '';
+    if (!file) return;
+
+    const url = URL.createObjectURL(file);
+    loadImage(url)
+      .then((image) => {
+        const ratio = Math.min(1, MAX_PHOTO_SIZE / Math.max(image.naturalWidth, image.naturalHeight));
+        const canvas = document.createElement('canvas');
+        canvas.width = Math.round(image.naturalWidth * ratio);
+        canvas.height = Math.round(image.naturalHeight * ratio);
+        canvas.getContext('2d')?.drawImage(image, 0, 0, canvas.width, canvas.height);
+        setPhoto(canvas);
+        setPoints([]);
+        setError(false);
+      })
+      .catch(() => setError(true))
+      .finally(() => URL.revokeObjectURL(url));
+  };
+
+  const toCanvas = (event: React.PointerEvent<HTMLCanvasElement>): Point => {
+    const canvas = event.currentTarget;
+    const rect = canvas.getBoundingClientRect();
+    return {
+      x: Math.min(canvas.width, Math.max(0, ((event.clientX - rect.left) * canvas.width) / rect.width)),
+      y: Math.min(canvas.height, Math.max(0, ((event.clientY - rect.top) * canvas.height) / rect.height)),
+    };
+  };
+
+  const onPointerDown = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const point = toCanvas(event);
+    const radius = (HANDLE_RADIUS * event.currentTarget.width) / event.currentTarget.getBoundingClientRect().width;
+    const hit = points.findIndex((p) => Math.abs(p.x - point.x) <= radius && Math.abs(p.y - point.y) <= radius);
+    if (hit >= 0) {
+      event.currentTarget.setPointerCapture(event.pointerId);
+      setDragging(hit);
+    } else if (points.length < 4) {
+      setPoints([...points, point]);
+    }
+  };
+
+  const onPointerMove = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    if (dragging === null) return;
+    const point = toCanvas(event);
+    setPoints((current) => current.map((p, index) => (index === dragging ? point : p)));
+  };
+
+  const stopDragging = () => setDragging(null);
+
+  const fileName = `monopol-stone-${product.id}-${color.key}.jpg`;
+
+  const exportImage = () =>
+    new Promise<Blob | null>((resolve) => {
+      if (!resultRef.current) return resolve(null);
+      resultRef.current.toBlob(resolve, 'image/jpeg', 0.9);
+    });
+
+  const download = async () => {
+    const blob = await exportImage();
+    if (!blob) return;
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const share = async () => {
+    const blob = await exportImage();
+    if (!blob) return;
+    try {
+      await navigator.share({
+        files: [new File([blob], fileName, { type: 'image/jpeg' })],
+        text: t('visualizer.shareText', { product: product.title, color: color.name[locale] }),
+      });
+    } catch {
+      // Closing the share sheet rejects; nothing to do
+    }
+  };
+
+  return (
+    <div className="visualizer-layout">
+      <div>
+        <input
+          id={PHOTO_INPUT_ID}
+          type="file"
+          accept="image/*"
+          onChange={onPhoto}
+          style={{ position: 'absolute', width: 1, height: 1, opacity: 0, pointerEvents: 'none' }}
+        />
+
+        {photo ? (
+          <>
+            <p aria-live="polite" style={{ margin: '0 0 12px', color: '#333', fontWeight: 500 }}>
+              {points.length < 4 ? t('visualizer.markCorners', { count: points.length }) : t('visualizer.adjustCorners')}
+            </p>
+            <canvas
+              ref={canvasRef}
+              aria-label={t('visualizer.canvasLabel')}
+              onPointerDown={onPointerDown}
+              onPointerMove={onPointerMove}
+              onPointerUp={stopDragging}
+              onPointerCancel={stopDragging}
+              style={{
+                width: '100%',
+                height: 'auto',
+                display: 'block',
+                borderRadius: '8px',
+                touchAction: 'none',
+                cursor: points.length < 4 ? 'crosshair' : dragging === null ? 'default' : 'grabbing',
+              }}
+            />
+            <div style={{ display: 'flex', flexWrap: 'wrap', gap: '10px', marginTop: '14px' }}>
+              <button
+                type="button"
+                onClick={() => setPoints([])}
+                disabled={points.length === 0}
+                style={{ ...buttonStyle, background: '#fff', color: '#333', border: '2px solid #e0e0e0' }}
+              >
+                {t('visualizer.resetCorners')}
+              </button>
+              <label htmlFor={PHOTO_INPUT_ID} style={{ ...buttonStyle, background: '#fff', color: '#333', border: '2px solid #e0e0e0' }}>
+                {t('visualizer.change')}
+              </label>
+              <button type="button" onClick={download} disabled={points.length < 4} style={buttonStyle}>
+                {t('visualizer.download')}
+              </button>
+              {canShare && (
+                <button type="button" onClick={share} disabled={points.length < 4} style={buttonStyle}>
+                  {t('visualizer.share')}
+                </button>
+              )}
+            </div>
+          </>
+        ) : (
+          <label htmlFor={PHOTO_INPUT_ID} className="visualizer-upload">
+            <span style={{ fontSize: '2.5rem' }} aria-hidden="true">📷</span>
+            <span style={{ ...buttonStyle, display: 'inline-block' }}>{t('visualizer.upload')}</span>
+            <span style={{ color: '#666', fontSize: '0.95rem' }}>{t('visualizer.uploadHint')}</span>
+          </label>
+        )}
+
+        {error && (
+          <p role="alert" style={{ color: '#c0392b', marginTop: '12px' }}>
+            {t('visualizer.error')}
+          </p>
+        )}
+        <p style={{ color: '#666', fontSize: '0.9rem', marginTop: '14px' }}>🔒 {t('visualizer.privacy')}</p>
+      </div>
+
+      <aside>
+        <label htmlFor="visualizer-product" style={{ ...labelStyle, marginTop: 0 }}>
+          {t('visualizer.product')}
+        </label>
+        <select
+          id="visualizer-product"
+          value={product.id}
+          onChange={(event) => selectProduct(event.target.value)}
+          style={{ width: '100%', padding: '10px', borderRadius: '8px', border: '2px solid #e0e0e0', fontSize: '1rem' }}
+        >
+          {series.map((item) => (
+            <optgroup key={item.id} label={item.plural[locale]}>
+              {getProducts(item.id).map((p) => (
+                <option key={p.id} value={p.id}>
+                  {p.title}
+                </option>
+              ))}
+            </optgroup>
+          ))}
+        </select>
+
+        <span style={labelStyle}>{t('visualizer.color')}</span>
+        <div role="radiogroup" aria-label={t('visualizer.color')} style={{ display: 'flex', flexWrap: 'wrap', gap: '8px' }}>
+          {product.colors.map((c) => (
+            <button
+              key={c.key}
+              type="button"
+              role="radio"
+              aria-checked={c.key === color.key}
+              onClick={() => setColorKey(c.key)}
+              style={chipStyle(c.key === color.key)}
+            >
+              <ResponsiveImage src={c.image} alt="" sizes="24px" style={{ width: '24px', height: '24px', borderRadius: '50%' }} />
+              {c.name[locale]}
+            </button>
+          ))}
+        </div>
+
+        <span style={labelStyle}>{t('visualizer.grout')}</span>
+        <div role="radiogroup" aria-label={t('visualizer.grout')} style={{ display: 'flex', flexWrap: 'wrap', gap: '8px' }}>
+          {GROUT_KEYS.map((key) => (
+            <button
+              key={key}
+              type="button"
+              role="radio"
+              aria-checked={key === grout}
+              onClick={() => setGrout(key)}
+              style={chipStyle(key === grout)}
+            >
+              {GROUT_COLORS[key] && (
+                <span
+                  aria-hidden="true"
+                  style={{ width: '14px', height: '14px', borderRadius: '50%', background: GROUT_COLORS[key] || undefined, border: '1px solid #ccc' }}
+                />
+              )}
+              {t(`visualizer.grouts.${key}`)}
+            </button>
+          ))}
+        </div>
+
+        <div style={{ display: 'flex', gap: '12px' }}>
+          <div style={{ flex: 1 }}>
+            <label htmlFor="visualizer-width" style={labelStyle}>
+              {t('visualizer.wallWidth')}
+            </label>
+            <input
+              id="visualizer-width"
+              type="number"
+              min="0.5"
+              step="0.1"
+              inputMode="decimal"
+              value={wallWidth}
+              onChange={(event) => setWallWidth(event.target.value)}
+              style={{ width: '100%', padding: '10px', borderRadius: '8px', border: '2px solid #e0e0e0' }}
+            />
+          </div>
+          <div style={{ flex: 1 }}>
+            <label htmlFor="visualizer-height" style={labelStyle}>
+              {t('visualizer.wallHeight')}
+            </label>
+            <input
+              id="visualizer-height"
+              type="number"
+              min="0.5"
+              step="0.1"
+              inputMode="decimal"
+              value={wallHeight}
+              onChange={(event) => setWallHeight(event.target.value)}
+              style={{ width: '100%', padding: '10px', borderRadius: '8px', border: '2px solid #e0e0e0' }}
+            />
+          </div>
+        </div>
+
+        <p style={{ marginTop: '20px' }}>
+          <Link
+            href={`${getProductPath(product, locale)}?color=${encodeURIComponent(color.key)}`}
+            style={{ color: '#FD7E14', fontWeight: 600, textDecoration: 'none' }}
+          >
+            {t('visualizer.viewProduct')}: {product.title} {color.name[locale]}
+          </Link>
+        </p>
+        <p style={{ color: '#888', fontSize: '0.85rem' }}>{t('visualizer.disclaimer')}</p>
+      </aside>
+    </div>
+  );
+}
@@ -0,0 +1,324 @@
+import { LOCALES, type Locale } from '@/i18n/config';
+import { getLocalizedPath } from '@/i18n/routes';
+import { products } from './products';
+
+// Single source of truth for the product catalog.
+// Every route, the search and the breadcrumbs read products from here.
+
+export { LOCALES, type Locale };
+
+export type LocalizedText = Record<Locale, string>;
+
+export type SeriesId = 'kultur-tasi' | 'kultur-tuglasi';
+
+export interface ProductSeries {
+  id: SeriesId;
+  title: LocalizedText;
+  plural: LocalizedText;
+  // Prefix of the legacy numbered product slugs (kultur-tasi-1), which
+  // are only kept to redirect old links
+  legacySlugPrefix: LocalizedText;
+}
+
+// Coarse color groups used for filtering (search facets)
+export type ColorFamily = 'white' | 'grey' | 'beige' | 'brown' | 'red' | 'black' | 'mixed';
+
+export const COLOR_FAMILIES: Record<ColorFamily, LocalizedText> = {
+  white: { tr: 'Beyaz', en: 'White', de: 'Weiß', ar: 'أبيض' },
+  grey: { tr: 'Gri', en: 'Grey', de: 'Grau', ar: 'رمادي' },
+  beige: { tr: 'Bej', en: 'Beige', de: 'Beige', ar: 'بيج' },
+  brown: { tr: 'Kahverengi', en: 'Brown', de: 'Braun', ar: 'بني' },
+  red: { tr: 'Kırmızı', en: 'Red', de: 'Rot', ar: 'أحمر' },
+  black: { tr: 'Siyah', en: 'Black', de: 'Schwarz', ar: 'أسود' },
+  mixed: { tr: 'Karışık', en: 'Mixed', de: 'Gemischt', ar: 'مختلط' },
+};
+
+export interface ColorVariant {
+  key: string;
+  name: LocalizedText;
+  family: ColorFamily;
+  hex: string;
+  image: string;
+}
+
+export type InstallationMethod = 'jointed' | 'stacked';
+
+export type ApplicationEnvironment = 'indoor' | 'outdoor';
+
+export interface NumberRange {
+  min: number;
+  max: number;
+}
+
+// Flat (wall) pieces are sold by area
+export interface FlatPieceSpec {
+  weight: number; // kg/m²
+  boxCoverage?: number; // m² per box
+}
+
+// Corner pieces are sold by external corner length
+export interface CornerPieceSpec {
+  weight: number; // kg/m
+  boxLength: number; // linear m per box
+}
+
+// Figures the product sheets do not state are left out, never estimated:
+// spec tables skip them and the material calculator needs box coverage
+// and both consumption figures.
+export interface ProductSpecs {
+  pieceArea?: NumberRange; // cm²
+  thickness?: NumberRange; // cm
+  installation: InstallationMethod[];
+  environment: ApplicationEnvironment[];
+  jointWidth?: number; // cm
+  jointConsumption?: number; // kg/m²
+  adhesiveConsumption?: number; // kg/m²
+  flat: FlatPieceSpec;
+  corner?: CornerPieceSpec;
+  material: LocalizedText;
+  finish: LocalizedText;
+}
+
+export interface Product {
+  // Canonical id - stored in quotes, leads and analytics, never shown in URLs
+  id: string;
+  series: SeriesId;
+  // Position inside the series, used for ordering and legacy numbered slugs
+  position: number;
+  code: string;
+  title: string;
+  // URL slug per language: /urun/<tr>, /en/product/<en>
+  slug: LocalizedText;
+  summary: LocalizedText;
+  description: LocalizedText;
+  colors: ColorVariant[];
+  specs: ProductSpecs;
+  features: LocalizedText[];
+  applications: LocalizedText[];
+}
+
+// The part of a product the product page hands to client components: one
+// language and only what they show or send, not the whole record.
+export interface ProductSummary {
+  id: string;
+  code: string;
+  title: string;
+  colors: { key: string; name: string; image: string }[];
+}
+
+export const series: ProductSeries[] = [
+  {
+    id: 'kultur-tasi',
+    title: { tr: 'Kültür Taşı', en: 'Culture Stone', de: 'Kulturstein', ar: 'حجر ثقافي' },
+    plural: { tr: 'Kültür Taşları', en: 'Culture Stones', de: 'Kultursteine', ar: 'الأحجار الثقافية' },
+    legacySlugPrefix: { tr: 'kultur-tasi', en: 'culture-stone', de: 'culture-stone', ar: 'culture-stone' },
+  },
+  {
+    id: 'kultur-tuglasi',
+    title: { tr: 'Kültür Tuğlası', en: 'Culture Brick', de: 'Kulturziegel', ar: 'طوب ثقافي' },
+    plural: { tr: 'Kültür Tuğlaları', en: 'Culture Bricks', de: 'Kulturziegel', ar: 'الطوب الثقافي' },
+    legacySlugPrefix: { tr: 'kultur-tuglasi', en: 'culture-brick', de: 'culture-brick', ar: 'culture-brick' },
+  },
+];
+
+export function getSeries(id: SeriesId): ProductSeries {
+  const found = series.find((s) => s.id === id);
+  if (!found) {
+    throw new Error(`[Catalog] Unknown series: ${id}`);
+  }
+  return found;
+}
+
+export function getProducts(seriesId?: SeriesId): Product[] {
+  const list = seriesId ? products.filter((p) => p.series === seriesId) : products;
+  return [...list].sort((a, b) => {
+    if (a.series !== b.series) {
+      return series.findIndex((s) => s.id === a.series) - series.findIndex((s) => s.id === b.series);
+    }
+    return a.position - b.position;
+  });
+}
+
+export function getProductSlug(product: Product, locale: Locale): string {
+  return product.slug[locale];
+}
+
+function getLegacyProductSlug(product: Product, locale: Locale): string {
+  return `${getSeries(product.series).legacySlugPrefix[locale]}-${product.position}`;
+}
+
+export function getProductPath(product: Product, locale: Locale): string {
+  return getLocalizedPath(locale, 'product', { slug: getProductSlug(product, locale) });
+}
+
+// Listing page for the whole series
+export function getSeriesPath(id: SeriesId, locale: Locale): string {
+  return getLocalizedPath(locale, 'series', { series: id });
+}
+
+export function getProductBySlug(slug: string, locale: Locale): Product | undefined {
+  return products.find((p) => getProductSlug(p, locale) === slug);
+}
+
+// Product an outdated product URL refers to: a legacy numbered slug
+// (/urun/kultur-tasi-1) or the slug of another language
+// (/en/product/<tr slug>). The middleware redirects these to
+// getProductPath() so old links and bookmarks keep working.
+export function getProductBySlugAlias(slug: string, locale: Locale): Product | undefined {
+  return (
+    products.find((p) => getLegacyProductSlug(p, locale) === slug) ||
+    products.find((p) => LOCALES.some((other) => getProductSlug(p, other) === slug || getLegacyProductSlug(p, other) === slug))
+  );
+}
+
+export function getProductById(id: string): Product | undefined {
+  return products.find((p) => p.id === id);
+}
+
+export function getColor<C extends { key: string }>(product: { colors: C[] }, colorKey?: string): C {
+  return product.colors.find((c) => c.key === colorKey) || product.colors[0];
+}
+
+export function getProductSummary(product: Product, locale: Locale): ProductSummary {
+  return {
+    id: product.id,
+    code: product.code,
+    title: product.title,
+    colors: product.colors.map(({ key, name, image }) => ({ key, name: name[locale], image })),
+  };
+}
+
+export function getProductImages(product: Product): string[] {
+  return product.colors.map((c) => c.image);
+}
+
+function validateSpecs(specs: ProductSpecs): string[] {
+  const errors: string[] = [];
+  const positive = (value: number | undefined, name: string) => {
+    if (typeof value !== 'number' || !(value > 0)) {
+      errors.push(`specs.${name} must be a positive number`);
+    }
+  };
+  const optional = (value: number | undefined, name: string) => {
+    if (value !== undefined) positive(value, name);
+  };
+  const range = (value: NumberRange | undefined, name: string) => {
+    if (!value) return;
+    positive(value.min, `${name}.min`);
+    positive(value.max, `${name}.max`);
+    if (value.min > value.max) errors.push(`specs.${name} min is greater than max`);
+  };
+
+  range(specs.pieceArea, 'pieceArea');
+  range(specs.thickness, 'thickness');
+  optional(specs.jointWidth, 'jointWidth');
+  optional(specs.jointConsumption, 'jointConsumption');
+  optional(specs.adhesiveConsumption, 'adhesiveConsumption');
+  positive(specs.flat.weight, 'flat.weight');
+  optional(specs.flat.boxCoverage, 'flat.boxCoverage');
+  if (specs.corner) {
+    positive(specs.corner.weight, 'corner.weight');
+    positive(specs.corner.boxLength, 'corner.boxLength');
+  }
+  if (specs.installation.length === 0) errors.push('specs.installation is empty');
+  if (specs.environment.length === 0) errors.push('specs.environment is empty');
+
+  return errors;
+}
+
+// Validation - runs when the module is first evaluated, so `next build`
+// fails on an inconsistent catalog instead of shipping broken pages.
+export function validateCatalog(list: Product[] = products): string[] {
+  const errors: string[] = [];
+  const seen = new Map<string, string>();
+
+  const claim = (key: string, owner: string) => {
+    const existing = seen.get(key);
+    if (existing && existing !== owner) {
+      errors.push(`duplicate ${key} (${existing}, ${owner})`);
+    }
+    seen.set(key, owner);
+  };
+
+  list.forEach((product) => {
+    const label = product.id || '<missing id>';
+
+    if (!/^[a-z0-9-]+$/.test(product.id)) {
+      errors.push(`${label}: id must be lowercase ascii`);
+    }
+    if (!series.some((s) => s.id === product.series)) {
+      errors.push(`${label}: unknown series "${product.series}"`);
+    }
+    if (!Number.isInteger(product.position) || product.position < 1) {
+      errors.push(`${label}: position must be a positive integer`);
+    }
+    if (!/^B[PT]-\d{5}$/.test(product.code)) {
+      errors.push(`${label}: invalid product code "${product.code}"`);
+    }
+
+    LOCALES.forEach((locale) => {
+      const slug = product.slug[locale];
+      if (!slug || !/^[a-z0-9-]+$/.test(slug)) {
+        errors.push(`${label}: ${locale} slug must be lowercase ascii`);
+      }
+      // Slugs may not shadow a legacy numbered slug, which would
+      // break its redirect
+      claim(`slug:${locale}:${slug}`, label);
+      if (series.some((s) => s.id === product.series)) {
+        claim(`slug:${locale}:${getLegacyProductSlug(product, locale)}`, label);
+      }
+    });
+
+    claim(`id:${product.id}`, label);
+    claim(`code:${product.code}`, label);
+    claim(`position:${product.series}:${product.position}`, label);
+
+    LOCALES.forEach((locale) => {
+      if (!product.summary[locale]) errors.push(`${label}: missing ${locale} summary`);
+      if (!product.description[locale]) errors.push(`${label}: missing ${locale} description`);
+      if (!product.specs.material[locale] || !product.specs.finish[locale]) {
+        errors.push(`${label}: missing ${locale} specs text`);
+      }
+      product.features.forEach((f, i) => {
+        if (!f[locale]) errors.push(`${label}: missing ${locale} feature #${i + 1}`);
+      });
+      product.applications.forEach((a, i) => {
+        if (!a[locale]) errors.push(`${label}: missing ${locale} application #${i + 1}`);
+      });
+    });
+
+    errors.push(...validateSpecs(product.specs).map((e) => `${label}: ${e}`));
+
+    if (product.colors.length === 0) {
+      errors.push(`${label}: at least one color variant is required`);
+    }
+    const colorKeys = new Set<string>();
+    product.colors.forEach((color) => {
+      if (colorKeys.has(color.key)) {
+        errors.push(`${label}: duplicate color key "${color.key}"`);
+      }
+      colorKeys.add(color.key);
+      if (!/^#[0-9a-f]{3}([0-9a-f]{3})?$/i.test(color.hex)) {
+        errors.push(`${label}/${color.key}: invalid hex "${color.hex}"`);
+      }
+      if (!COLOR_FAMILIES[color.family]) {
+        errors.push(`${label}/${color.key}: unknown color family "${color.family}"`);
+      }
+      if (!color.image.startsWith('/images/')) {
+        errors.push(`${label}/${color.key}: image must live under /images/`);
+      }
+      LOCALES.forEach((locale) => {
+        if (!color.name[locale]) errors.push(`${label}/${color.key}: missing ${locale} name`);
+      });
+    });
+  });
+
+  return errors;
+}
+
+const catalogErrors = validateCatalog();
+if (catalogErrors.length > 0) {
+  throw new Error(`[Catalog] Invalid product data:\n- ${catalogErrors.join('\n- ')}`);
+}
+
+export { products };
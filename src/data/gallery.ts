@@ -0,0 +1,148 @@
+import { getLocalizedPath } from '@/i18n/routes';
+import { LOCALES, getProductById, type Locale, type LocalizedText } from './catalog';
+import { projects } from './projects';
+
+// Single source of truth for the project gallery: reference projects with
+// their location, photos and the products and colors they were built with.
+
+export type ProjectCategory = 'villa' | 'facade' | 'interior' | 'fireplace';
+
+export const PROJECT_CATEGORIES: Record<ProjectCategory, LocalizedText> = {
+  villa: { tr: 'Villa', en: 'Villa', de: 'Villa', ar: 'فيلا' },
+  facade: { tr: 'Cephe', en: 'Facade', de: 'Fassade', ar: 'واجهة' },
+  interior: { tr: 'İç Mekan', en: 'Interior', de: 'Innenraum', ar: 'تصميم داخلي' },
+  fireplace: { tr: 'Şömine', en: 'Fireplace', de: 'Kamin', ar: 'مدفأة' },
+};
+
+export const PROJECT_CATEGORY_KEYS = Object.keys(PROJECT_CATEGORIES) as ProjectCategory[];
+
+// A product in one color, as used on site
+export interface ProjectMaterial {
+  productId: string;
+  colorKey: string;
+}
+
+export interface Project {
+  // Canonical id, never shown in URLs
+  id: string;
+  // URL slug per language: /galeri/<tr>, /en/gallery/<en>
+  slug: LocalizedText;
+  title: LocalizedText;
+  category: ProjectCategory;
+  location: LocalizedText;
+  year: number;
+  summary: LocalizedText;
+  materials: ProjectMaterial[];
+  // The first photo is the cover of the gallery card
+  photos: string[];
+  // Made-up placeholder, left out of production builds
+  sample?: boolean;
+}
+
+// Sample projects only fill the gallery in development. Every lookup below
+// goes through this list, so production pages, the sitemap and the middleware
+// never see them.
+const publishedProjects = process.env.NODE_ENV === 'production'
+  ? projects.filter((p) => !p.sample)
+  : projects;
+
+export function isProjectCategory(value: unknown): value is ProjectCategory {
+  return typeof value === 'string' && PROJECT_CATEGORY_KEYS.indexOf(value as ProjectCategory) >= 0;
+}
+
+// Newest first
+export function getProjects(category?: ProjectCategory): Project[] {
+  const list = category ? publishedProjects.filter((p) => p.category === category) : publishedProjects;
+  return [...list].sort((a, b) => b.year - a.year);
+}
+
+export function getProjectSlug(project: Project, locale: Locale): string {
+  return project.slug[locale];
+}
+
+export function getProjectPath(project: Project, locale: Locale): string {
+  return getLocalizedPath(locale, 'project', { slug: getProjectSlug(project, locale) });
+}
+
+export function getProjectBySlug(slug: string, locale: Locale): Project | undefined {
+  return publishedProjects.find((p) => getProjectSlug(p, locale) === slug);
+}
+
+// Projects built with a product, optionally in a single color - newest first
+export function getProjectsByProduct(productId: string, colorKey?: string): Project[] {
+  return getProjects().filter((project) =>
+    project.materials.some((m) => m.productId === productId && (!colorKey || m.colorKey === colorKey))
+  );
+}
+
+// Validation - same contract as validateCatalog(): a broken reference to a
+// product or color fails the build instead of rendering a dead link.
+export function validateProjects(list: Project[] = projects): string[] {
+  const errors: string[] = [];
+  const seen = new Map<string, string>();
+
+  const claim = (key: string, owner: string) => {
+    const existing = seen.get(key);
+    if (existing && existing !== owner) {
+      errors.push(`duplicate ${key} (${existing}, ${owner})`);
+    }
+    seen.set(key, owner);
+  };
+
+  list.forEach((project) => {
+    const label = project.id || '<missing id>';
+
+    if (!/^[a-z0-9-]+$/.test(project.id)) {
+      errors.push(`${label}: id must be lowercase ascii`);
+    }
+    claim(`id:${project.id}`, label);
+
+    if (!isProjectCategory(project.category)) {
+      errors.push(`${label}: unknown category "${project.category}"`);
+    }
+    if (!Number.isInteger(project.year) || project.year < 2000) {
+      errors.push(`${label}: invalid year ${project.year}`);
+    }
+
+    LOCALES.forEach((locale) => {
+      const slug = project.slug[locale];
+      if (!slug || !/^[a-z0-9-]+$/.test(slug)) {
+        errors.push(`${label}: ${locale} slug must be lowercase ascii`);
+      }
+      claim(`slug:${locale}:${slug}`, label);
+      if (!project.title[locale]) errors.push(`${label}: missing ${locale} title`);
+      if (!project.location[locale]) errors.push(`${label}: missing ${locale} location`);
+      if (!project.summary[locale]) errors.push(`${label}: missing ${locale} summary`);
+    });
+
+    if (project.materials.length === 0) {
+      errors.push(`${label}: at least one material is required`);
+    }
+    project.materials.forEach(({ productId, colorKey }) => {
+      const product = getProductById(productId);
+      if (!product) {
+        errors.push(`${label}: unknown product "${productId}"`);
+      } else if (!product.colors.some((c) => c.key === colorKey)) {
+        errors.push(`${label}: ${productId} has no color "${colorKey}"`);
+      }
+    });
+
+    if (project.photos.length === 0) {
+      errors.push(`${label}: at least one photo is required`);
+    }
+    project.photos.forEach((photo) => {
+      if (!photo.startsWith('/images/')) {
+        errors.push(`${label}: photo ${photo} must live under /images/`);
+      }
+    });
+  });
+
+  return errors;
+}
+
+const projectErrors = validateProjects();
+if (projectErrors.length > 0) {
+  throw new Error(`[Gallery] Invalid project data:\n- ${projectErrors.join('\n- ')}`);
+}
+
+export { projects };
@@ -0,0 +1,41 @@
+import manifest from './image-manifest.json';
+
+// Typed access to image-manifest.json, which scripts/process-images.js
+// generates (npm run images, also run by predev and prebuild; the file is
+// not committed). Keys are the public paths of the originals,
+// i.e. the paths products and projects use.
+
+export type ImageFormat = 'avif' | 'webp';
+
+export const IMAGE_FORMATS: ImageFormat[] = ['avif', 'webp'];
+
+export interface ImageRendition {
+  width: number;
+  src: string;
+}
+
+export interface ImageManifestEntry {
+  // Normalized file name of the renditions
+  name: string;
+  width: number;
+  height: number;
+  // Content hash of the original, part of every rendition file name
+  hash: string;
+  // Dominant color, for the box shown before anything loads
+  color: string;
+  // Tiny blurred WebP data URL (LQIP)
+  placeholder: string;
+  avif: ImageRendition[];
+  webp: ImageRendition[];
+}
+
+const images = manifest as Record<string, ImageManifestEntry>;
+
+export function getImage(src: string): ImageManifestEntry | undefined {
+  return images[src];
+}
+
+// "…-320.avif 320w, …-768.avif 768w"
+export function getSrcSet(entry: ImageManifestEntry, format: ImageFormat): string {
+  return entry[format].map((r) => `${r.src} ${r.width}w`).join(', ');
+}
@@ -0,0 +1,378 @@
+import type { ColorVariant, LocalizedText, Product, ProductSpecs } from './catalog';
+
+// Product records. Shape and consistency are checked by validateCatalog()
+// in ./catalog - import products from there, not from this file.
+
+const IMAGE_DIR = '/images/webp-optimized';
+
+const image = (file: string) => `${IMAGE_DIR}/${file}`;
+
+const STONE_PALETTE: Array<Omit<ColorVariant, 'image'>> = [
+  { key: 'gölge', name: { tr: 'Gölge', en: 'Shadow', de: 'Schatten', ar: 'الظل' }, family: 'grey', hex: '#bfc3c6' },
+  { key: 'sis', name: { tr: 'Sis', en: 'Mist', de: 'Nebel', ar: 'الضباب' }, family: 'white', hex: '#e3e6e8' },
+  { key: 'toprak', name: { tr: 'Toprak', en: 'Earth', de: 'Erde', ar: 'التراب' }, family: 'beige', hex: '#b49a7a' },
+  { key: 'antrasit', name: { tr: 'Antrasit', en: 'Anthracite', de: 'Anthrazit', ar: 'الأنثراسيت' }, family: 'black', hex: '#222' },
+];
+
+const BRICK_PALETTE: Array<Omit<ColorVariant, 'image'>> = [
+  { key: 'inci', name: { tr: 'İnci', en: 'Pearl', de: 'Perle', ar: 'اللؤلؤ' }, family: 'white', hex: '#f5f5f5' },
+  { key: 'çakıl', name: { tr: 'Çakıl', en: 'Pebble', de: 'Kiesel', ar: 'الحصى' }, family: 'brown', hex: '#8b7355' },
+  { key: 'çöl', name: { tr: 'Çöl', en: 'Desert', de: 'Wüste', ar: 'الصحراء' }, family: 'beige', hex: '#d2b48c' },
+  { key: 'köz', name: { tr: 'Köz', en: 'Ember', de: 'Glut', ar: 'الجمر' }, family: 'red', hex: '#8b4513' },
+  { key: 'lav', name: { tr: 'Lav', en: 'Lava', de: 'Lava', ar: 'الحمم' }, family: 'black', hex: '#2f2f2f' },
+  { key: 'mix', name: { tr: 'Mix', en: 'Mix', de: 'Mix', ar: 'مزيج' }, family: 'mixed', hex: '#696969' },
+];
+
+// Image files follow "<model>-<color>.jpg"; a few originals were saved
+// under different names and are listed as overrides.
+function palette(
+  base: Array<Omit<ColorVariant, 'image'>>,
+  model: string,
+  overrides: Record<string, string> = {}
+): ColorVariant[] {
+  return base.map((color) => ({
+    ...color,
+    image: image(overrides[color.key] || `${model}-${color.key}.jpg`),
+  }));
+}
+
+// Installer reference values from the product sheets, which state the same
+// figures for every model of a series; products override only what
+// differs. Stones: the Turkish product page's spec table (weights 34 kg/m²
+// flat, 12 kg/m corner). Bricks: only the weight is known - the other
+// figures are left out until the brick sheets give them (see ProductSpecs).
+const STONE_SPECS: ProductSpecs = {
+  pieceArea: { min: 25, max: 1200 },
+  thickness: { min: 3, max: 5 },
+  installation: ['stacked', 'jointed'],
+  environment: ['indoor', 'outdoor'],
+  jointWidth: 2,
+  jointConsumption: 6.5,
+  adhesiveConsumption: 8,
+  flat: { weight: 34, boxCoverage: 1.25 },
+  corner: { weight: 12, boxLength: 3 },
+  material: { tr: 'Çimento esaslı', en: 'Cement-based', de: 'Zementgebunden', ar: 'أساس إسمنتي' },
+  finish: { tr: 'Doğal taş dokusu', en: 'Natural stone texture', de: 'Natursteinstruktur', ar: 'ملمس الحجر الطبيعي' },
+};
+
+const BRICK_SPECS: ProductSpecs = {
+  installation: ['jointed'],
+  environment: ['indoor', 'outdoor'],
+  flat: { weight: 35 },
+  material: { tr: 'Çimento esaslı', en: 'Cement-based', de: 'Zementgebunden', ar: 'أساس إسمنتي' },
+  finish: { tr: 'Tuğla dokusu', en: 'Brick texture', de: 'Ziegelstruktur', ar: 'ملمس الطوب' },
+};
+
+const t = (tr: string, en: string, de: string, ar: string): LocalizedText => ({ tr, en, de, ar });
+
+export const products: Product[] = [
+  // Kültür Taşları
+  {
+    id: 'mitra',
+    series: 'kultur-tasi',
+    position: 1,
+    code: 'BP-13001',
+    title: 'Mitra',
+    slug: t('mitra', 'mitra', 'mitra', 'mitra'),
+    summary: t(
+      'Doğal taş görünümlü kültür taşı modelleri ile duvar kaplama. m2 fiyatları ile uygun fiyatlar.',
+      'Natural stone-look culture stone models for wall cladding. Affordable prices with m2 pricing.',
+      'Kultursteinmodelle in Natursteinoptik für die Wandverkleidung. Günstige Preise pro m².',
+      'نماذج حجر ثقافي بمظهر الحجر الطبيعي لتكسية الجدران. أسعار مناسبة بالمتر المربع.'
+    ),
+    description: t(
+      "Asimetrik taşlardan olan ve adını Mısır'ın başkentinden alan bu taş modelimiz, Kahire'nin 19.yy mimarisinden esinlenerek tasarlanmıştır. Doğadan özenle seçilmiş doku ve renk seçenekleri ile her türden mekanı yaşayan bir alana çevirebilirsiniz.",
+      'Natural stone-look culture stone models for wall cladding. Affordable prices with m2 pricing. Inspired by 19th century Cairo architecture, this stone model brings timeless elegance to any space.',
+      'Kultursteinmodelle in Natursteinoptik für die Wandverkleidung. Günstige Preise pro m². Dieses von der Kairoer Architektur des 19. Jahrhunderts inspirierte Modell aus asymmetrischen Steinen verleiht jedem Raum zeitlose Eleganz.',
+      'نماذج حجر ثقافي بمظهر الحجر الطبيعي لتكسية الجدران. أسعار مناسبة بالمتر المربع. صُمم هذا النموذج المكوّن من أحجار غير متماثلة مستوحىً من عمارة القاهرة في القرن التاسع عشر، ليمنح كل مكان أناقة خالدة.'
+    ),
+    colors: palette(STONE_PALETTE, 'mitra'),
+    specs: STONE_SPECS,
+    features: [
+      t('Doğal taş görünümü', 'Natural stone appearance', 'Natursteinoptik', 'مظهر الحجر الطبيعي'),
+      t('Kolay uygulama', 'Easy installation', 'Einfache Verlegung', 'سهولة التركيب'),
+      t('Uzun ömürlü', 'Long-lasting', 'Langlebig', 'عمر طويل'),
+      t('Su geçirmez', 'Waterproof', 'Wasserfest', 'مقاوم للماء'),
+      t('Isı yalıtımı', 'Thermal insulation', 'Wärmedämmung', 'عزل حراري'),
+      t('Ses yalıtımı', 'Sound insulation', 'Schalldämmung', 'عزل صوتي'),
+    ],
+    applications: [
+      t('Dış cephe kaplaması', 'Exterior wall cladding', 'Fassadenverkleidung', 'تكسية الجدران الخارجية'),
+      t('İç duvar dekorasyonu', 'Interior wall decoration', 'Innenwandgestaltung', 'ديكور الجدران الداخلية'),
+      t('Şömine çevresi', 'Fireplace surrounds', 'Kaminverkleidung', 'تكسية محيط المدفأة'),
+      t('Bahçe duvarları', 'Garden walls', 'Gartenmauern', 'جدران الحدائق'),
+      t('Teras kaplaması', 'Terrace cladding', 'Terrassenverkleidung', 'تكسية التراسات'),
+      t('Villa projeleri', 'Villa projects', 'Villenprojekte', 'مشاريع الفلل'),
+    ],
+  },
+  {
+    id: 'luminar',
+    series: 'kultur-tasi',
+    position: 2,
+    code: 'BP-13002',
+    title: 'Luminar',
+    slug: t('luminar', 'luminar', 'luminar', 'luminar'),
+    summary: t(
+      'Modern tasarım kültür taşı modelleri. İç ve dış mekan uygulamaları için ideal.',
+      'Modern design culture stone models. Ideal for indoor and outdoor applications.',
+      'Kultursteinmodelle in modernem Design. Ideal für den Innen- und Außenbereich.',
+      'نماذج حجر ثقافي بتصميم عصري. مثالية للتطبيقات الداخلية والخارجية.'
+    ),
+    description: t(
+      'Modern tasarım kültür taşı modelleri. İç ve dış mekan uygulamaları için ideal. Çağdaş mimari projelerde tercih edilen şık görünüm.',
+      'Modern design culture stone models. Ideal for indoor and outdoor applications. Preferred choice in contemporary architectural projects.',
+      'Kultursteinmodelle in modernem Design. Ideal für den Innen- und Außenbereich. Eine elegante Wahl für zeitgenössische Architekturprojekte.',
+      'نماذج حجر ثقافي بتصميم عصري. مثالية للتطبيقات الداخلية والخارجية. مظهر أنيق مفضل في المشاريع المعمارية المعاصرة.'
+    ),
+    colors: palette(STONE_PALETTE, 'luminar'),
+    specs: { ...STONE_SPECS, finish: t('Modern taş dokusu', 'Modern stone texture', 'Moderne Steinstruktur', 'ملمس حجري عصري') },
+    features: [
+      t('Modern tasarım', 'Modern design', 'Modernes Design', 'تصميم عصري'),
+      t('Kolay uygulama', 'Easy installation', 'Einfache Verlegung', 'سهولة التركيب'),
+      t('Uzun ömürlü', 'Long-lasting', 'Langlebig', 'عمر طويل'),
+      t('Su geçirmez', 'Waterproof', 'Wasserfest', 'مقاوم للماء'),
+      t('Isı yalıtımı', 'Thermal insulation', 'Wärmedämmung', 'عزل حراري'),
+      t('Ses yalıtımı', 'Sound insulation', 'Schalldämmung', 'عزل صوتي'),
+    ],
+    applications: [
+      t('Modern bina cepheleri', 'Modern building facades', 'Moderne Gebäudefassaden', 'واجهات المباني الحديثة'),
+      t('İç mekan dekorasyonu', 'Interior decoration', 'Innenraumgestaltung', 'الديكور الداخلي'),
+      t('Ofis projeleri', 'Office projects', 'Büroprojekte', 'مشاريع المكاتب'),
+      t('AVM cepheleri', 'Shopping mall facades', 'Fassaden von Einkaufszentren', 'واجهات المراكز التجارية'),
+      t('Otel projeleri', 'Hotel projects', 'Hotelprojekte', 'مشاريع الفنادق'),
+      t('Rezidans projeleri', 'Residential projects', 'Wohnprojekte', 'المشاريع السكنية'),
+    ],
+  },
+  {
+    id: 'belezza',
+    series: 'kultur-tasi',
+    position: 3,
+    code: 'BP-13003',
+    title: 'Belezza',
+    slug: t('belezza', 'belezza', 'belezza', 'belezza'),
+    summary: t(
+      'Klasik görünümlü kültür taşı modelleri. Villa ve konut projeleri için özel tasarım.',
+      'Classic-looking culture stone models. Special design for villa and residential projects.',
+      'Kultursteinmodelle in klassischer Optik. Speziell für Villen- und Wohnprojekte gestaltet.',
+      'نماذج حجر ثقافي بمظهر كلاسيكي. تصميم خاص لمشاريع الفلل والمساكن.'
+    ),
+    description: t(
+      'Klasik görünümlü kültür taşı modelleri. Villa ve konut projeleri için özel tasarım. Zamansız güzellik ve kalite.',
+      'Classic-looking culture stone models. Special design for villa and residential projects. Timeless beauty and quality.',
+      'Kultursteinmodelle in klassischer Optik. Speziell für Villen- und Wohnprojekte gestaltet. Zeitlose Schönheit und Qualität.',
+      'نماذج حجر ثقافي بمظهر كلاسيكي. تصميم خاص لمشاريع الفلل والمساكن. جمال وجودة لا يتأثران بالزمن.'
+    ),
+    colors: [
+      { key: 'günbatımı', name: t('Günbatımı', 'Sunset', 'Sonnenuntergang', 'الغروب'), family: 'beige', hex: '#d4a574', image: image('belezza-günbatımı.jpg') },
+      { key: 'yıldız', name: t('Yıldız', 'Star', 'Stern', 'النجمة'), family: 'white', hex: '#f5f5dc', image: image('belezza-yıldız.jpg') },
+    ],
+    specs: { ...STONE_SPECS, finish: t('Klasik taş dokusu', 'Classic stone texture', 'Klassische Steinstruktur', 'ملمس حجري كلاسيكي') },
+    features: [
+      t('Klasik tasarım', 'Classic design', 'Klassisches Design', 'تصميم كلاسيكي'),
+      t('Kolay uygulama', 'Easy installation', 'Einfache Verlegung', 'سهولة التركيب'),
+      t('Uzun ömürlü', 'Long-lasting', 'Langlebig', 'عمر طويل'),
+      t('Su geçirmez', 'Waterproof', 'Wasserfest', 'مقاوم للماء'),
+      t('Isı yalıtımı', 'Thermal insulation', 'Wärmedämmung', 'عزل حراري'),
+      t('Ses yalıtımı', 'Sound insulation', 'Schalldämmung', 'عزل صوتي'),
+    ],
+    applications: [
+      t('Villa cepheleri', 'Villa facades', 'Villenfassaden', 'واجهات الفلل'),
+      t('Konut projeleri', 'Residential projects', 'Wohnprojekte', 'المشاريع السكنية'),
+      t('Bahçe duvarları', 'Garden walls', 'Gartenmauern', 'جدران الحدائق'),
+      t('Şömine çevresi', 'Fireplace surrounds', 'Kaminverkleidung', 'تكسية محيط المدفأة'),
+      t('Teras kaplaması', 'Terrace cladding', 'Terrassenverkleidung', 'تكسية التراسات'),
+      t('Lüks projeler', 'Luxury projects', 'Luxusprojekte', 'المشاريع الفاخرة'),
+    ],
+  },
+  {
+    id: 'arvion',
+    series: 'kultur-tasi',
+    position: 4,
+    code: 'BP-13004',
+    title: 'Arvion',
+    slug: t('arvion', 'arvion', 'arvion', 'arvion'),
+    summary: t(
+      'Rustik görünümlü kültür taşı modelleri. Köy evi ve doğal yaşam projeleri için özel.',
+      'Rustic-looking culture stone models. Special for country house and natural living projects.',
+      'Kultursteinmodelle in rustikaler Optik. Speziell für Landhäuser und naturnahes Wohnen.',
+      'نماذج حجر ثقافي بمظهر ريفي. مخصصة للبيوت الريفية ومشاريع الحياة الطبيعية.'
+    ),
+    description: t(
+      'Rustik görünümlü kültür taşı modelleri. Köy evi ve doğal yaşam projeleri için özel. Doğanın sıcaklığını mekanlarınıza taşır.',
+      'Rustic-looking culture stone models. Special for country house and natural living projects. Brings the warmth of nature to your spaces.',
+      'Kultursteinmodelle in rustikaler Optik. Speziell für Landhäuser und naturnahes Wohnen. Bringt die Wärme der Natur in Ihre Räume.',
+      'نماذج حجر ثقافي بمظهر ريفي. مخصصة للبيوت الريفية ومشاريع الحياة الطبيعية. تنقل دفء الطبيعة إلى مساحاتكم.'
+    ),
+    colors: palette(STONE_PALETTE, 'arvion'),
+    specs: { ...STONE_SPECS, finish: t('Rustik taş dokusu', 'Rustic stone texture', 'Rustikale Steinstruktur', 'ملمس حجري ريفي') },
+    features: [
+      t('Rustik tasarım', 'Rustic design', 'Rustikales Design', 'تصميم ريفي'),
+      t('Doğal görünüm', 'Natural appearance', 'Natürliche Optik', 'مظهر طبيعي'),
+      t('Kolay uygulama', 'Easy installation', 'Einfache Verlegung', 'سهولة التركيب'),
+      t('Uzun ömürlü', 'Long-lasting', 'Langlebig', 'عمر طويل'),
+      t('Su geçirmez', 'Waterproof', 'Wasserfest', 'مقاوم للماء'),
+      t('Isı yalıtımı', 'Thermal insulation', 'Wärmedämmung', 'عزل حراري'),
+    ],
+    applications: [
+      t('Köy evleri', 'Country houses', 'Landhäuser', 'البيوت الريفية'),
+      t('Doğal yaşam projeleri', 'Natural living projects', 'Projekte für naturnahes Wohnen', 'مشاريع الحياة الطبيعية'),
+      t('Bahçe duvarları', 'Garden walls', 'Gartenmauern', 'جدران الحدائق'),
+      t('Şömine çevresi', 'Fireplace surrounds', 'Kaminverkleidung', 'تكسية محيط المدفأة'),
+      t('Teras kaplaması', 'Terrace cladding', 'Terrassenverkleidung', 'تكسية التراسات'),
+      t('Rustik projeler', 'Rustic projects', 'Rustikale Projekte', 'المشاريع الريفية'),
+    ],
+  },
+  {
+    id: 'tivoli',
+    series: 'kultur-tasi',
+    position: 5,
+    code: 'BP-13005',
+    title: 'Tivoli',
+    slug: t('tivoli', 'tivoli', 'tivoli', 'tivoli'),
+    summary: t(
+      'Lüks ve premium kültür taşı modelleri. Özel projeler ve villa uygulamaları için.',
+      'Luxury and premium culture stone models. For special projects and villa applications.',
+      'Luxuriöse Premium-Kultursteinmodelle. Für besondere Projekte und Villen.',
+      'نماذج حجر ثقافي فاخرة ومميزة. للمشاريع الخاصة وتطبيقات الفلل.'
+    ),
+    description: t(
+      'Lüks ve premium kültür taşı modelleri. Özel projeler ve villa uygulamaları için. Prestijli projelerin tercihi.',
+      'Luxury and premium culture stone models. For special projects and villa applications. The choice of prestigious projects.',
+      'Luxuriöse Premium-Kultursteinmodelle. Für besondere Projekte und Villen. Die Wahl für prestigeträchtige Projekte.',
+      'نماذج حجر ثقافي فاخرة ومميزة. للمشاريع الخاصة وتطبيقات الفلل. اختيار المشاريع المرموقة.'
+    ),
+    colors: palette(STONE_PALETTE, 'tivoli'),
+    specs: { ...STONE_SPECS, finish: t('Premium taş dokusu', 'Premium stone texture', 'Premium-Steinstruktur', 'ملمس حجري فاخر') },
+    features: [
+      t('Premium tasarım', 'Premium design', 'Premium-Design', 'تصميم فاخر'),
+      t('Lüks görünüm', 'Luxury appearance', 'Luxuriöse Optik', 'مظهر فاخر'),
+      t('Kolay uygulama', 'Easy installation', 'Einfache Verlegung', 'سهولة التركيب'),
+      t('Uzun ömürlü', 'Long-lasting', 'Langlebig', 'عمر طويل'),
+      t('Su geçirmez', 'Waterproof', 'Wasserfest', 'مقاوم للماء'),
+      t('Isı yalıtımı', 'Thermal insulation', 'Wärmedämmung', 'عزل حراري'),
+    ],
+    applications: [
+      t('Lüks villa projeleri', 'Luxury villa projects', 'Luxusvillen', 'مشاريع الفلل الفاخرة'),
+      t('Premium konutlar', 'Premium residences', 'Premium-Residenzen', 'المساكن الفاخرة'),
+      t('Otel projeleri', 'Hotel projects', 'Hotelprojekte', 'مشاريع الفنادق'),
+      t('Rezidans projeleri', 'Residential projects', 'Wohnprojekte', 'المشاريع السكنية'),
+      t('Özel projeler', 'Special projects', 'Sonderprojekte', 'المشاريع الخاصة'),
+      t('Prestijli yapılar', 'Prestigious buildings', 'Repräsentative Gebäude', 'المباني المرموقة'),
+    ],
+  },
+  // Kültür Tuğlaları
+  {
+    id: 'leon',
+    series: 'kultur-tuglasi',
+    position: 1,
+    code: 'BT-14001',
+    title: 'Leon',
+    slug: t('leon', 'leon', 'leon', 'leon'),
+    summary: t(
+      'Leon serisi kültür tuğlası modelleri. Modern ve klasik projeler için ideal.',
+      'Leon series culture brick models. Ideal for modern and classic projects.',
+      'Kulturziegelmodelle der Serie Leon. Ideal für moderne und klassische Projekte.',
+      'نماذج الطوب الثقافي من سلسلة Leon. مثالية للمشاريع العصرية والكلاسيكية.'
+    ),
+    description: t(
+      'Leon serisi kültür tuğlası modelleri. Modern ve klasik projeler için ideal. Yüksek kaliteli malzeme ve özenli işçilik ile üretilmiştir.',
+      'Leon series culture brick models. Ideal for modern and classic projects. Made with high quality materials and careful craftsmanship.',
+      'Kulturziegelmodelle der Serie Leon. Ideal für moderne und klassische Projekte. Aus hochwertigen Materialien in sorgfältiger Handarbeit gefertigt.',
+      'نماذج الطوب الثقافي من سلسلة Leon. مثالية للمشاريع العصرية والكلاسيكية. مصنوعة من مواد عالية الجودة وبحرفية دقيقة.'
+    ),
+    colors: palette(BRICK_PALETTE, 'leon', { 'çöl': 'leon-çöl 1.jpg' }),
+    specs: BRICK_SPECS,
+    features: [
+      t('Modern tasarım', 'Modern design', 'Modernes Design', 'تصميم عصري'),
+      t('Kolay uygulama', 'Easy installation', 'Einfache Verlegung', 'سهولة التركيب'),
+      t('Uzun ömürlü', 'Long-lasting', 'Langlebig', 'عمر طويل'),
+      t('Su geçirmez', 'Waterproof', 'Wasserfest', 'مقاوم للماء'),
+      t('Isı yalıtımı', 'Thermal insulation', 'Wärmedämmung', 'عزل حراري'),
+      t('Ses yalıtımı', 'Sound insulation', 'Schalldämmung', 'عزل صوتي'),
+    ],
+    applications: [
+      t('Dış cephe kaplaması', 'Exterior wall cladding', 'Fassadenverkleidung', 'تكسية الجدران الخارجية'),
+      t('İç duvar dekorasyonu', 'Interior wall decoration', 'Innenwandgestaltung', 'ديكور الجدران الداخلية'),
+      t('Şömine çevresi', 'Fireplace surrounds', 'Kaminverkleidung', 'تكسية محيط المدفأة'),
+      t('Bahçe duvarları', 'Garden walls', 'Gartenmauern', 'جدران الحدائق'),
+      t('Teras kaplaması', 'Terrace cladding', 'Terrassenverkleidung', 'تكسية التراسات'),
+      t('Villa projeleri', 'Villa projects', 'Villenprojekte', 'مشاريع الفلل'),
+    ],
+  },
+  {
+    id: 'leila',
+    series: 'kultur-tuglasi',
+    position: 2,
+    code: 'BT-14002',
+    title: 'Leila',
+    slug: t('leila', 'leila', 'leila', 'leila'),
+    summary: t(
+      'Leila serisi kültür tuğlası modelleri. Farklı renk ve dokularıyla dikkat çeker.',
+      'Leila series culture brick models. Stands out with different colors and textures.',
+      'Kulturziegelmodelle der Serie Leila. Fallen durch unterschiedliche Farben und Strukturen auf.',
+      'نماذج الطوب الثقافي من سلسلة Leila. تتميز بألوانها وملامسها المتنوعة.'
+    ),
+    description: t(
+      'Leila serisi kültür tuğlası modelleri. Farklı renk ve dokularıyla dikkat çeker. Estetik ve fonksiyonel çözümler sunar.',
+      'Leila series culture brick models. Stands out with different colors and textures. Offers aesthetic and functional solutions.',
+      'Kulturziegelmodelle der Serie Leila. Fallen durch unterschiedliche Farben und Strukturen auf. Bieten ästhetische und funktionale Lösungen.',
+      'نماذج الطوب الثقافي من سلسلة Leila. تتميز بألوانها وملامسها المتنوعة. تقدم حلولاً جمالية وعملية.'
+    ),
+    colors: palette(BRICK_PALETTE, 'leila', { 'çöl': 'leila-çol 1.jpg' }),
+    specs: BRICK_SPECS,
+    features: [
+      t('Çeşitli renk seçenekleri', 'Various color options', 'Verschiedene Farboptionen', 'خيارات ألوان متعددة'),
+      t('Kolay uygulama', 'Easy installation', 'Einfache Verlegung', 'سهولة التركيب'),
+      t('Uzun ömürlü', 'Long-lasting', 'Langlebig', 'عمر طويل'),
+      t('Su geçirmez', 'Waterproof', 'Wasserfest', 'مقاوم للماء'),
+      t('Isı yalıtımı', 'Thermal insulation', 'Wärmedämmung', 'عزل حراري'),
+      t('Ses yalıtımı', 'Sound insulation', 'Schalldämmung', 'عزل صوتي'),
+    ],
+    applications: [
+      t('Dış cephe kaplaması', 'Exterior wall cladding', 'Fassadenverkleidung', 'تكسية الجدران الخارجية'),
+      t('İç duvar dekorasyonu', 'Interior wall decoration', 'Innenwandgestaltung', 'ديكور الجدران الداخلية'),
+      t('Şömine çevresi', 'Fireplace surrounds', 'Kaminverkleidung', 'تكسية محيط المدفأة'),
+      t('Bahçe duvarları', 'Garden walls', 'Gartenmauern', 'جدران الحدائق'),
+      t('Teras kaplaması', 'Terrace cladding', 'Terrassenverkleidung', 'تكسية التراسات'),
+      t('Konut projeleri', 'Residential projects', 'Wohnprojekte', 'المشاريع السكنية'),
+    ],
+  },
+  {
+    id: 'lora',
+    series: 'kultur-tuglasi',
+    position: 3,
+    code: 'BT-14003',
+    title: 'Lora',
+    slug: t('lora', 'lora', 'lora', 'lora'),
+    summary: t(
+      'Lora serisi kültür tuğlası modelleri. Estetik ve dayanıklı çözümler sunar.',
+      'Lora series culture brick models. Offers aesthetic and durable solutions.',
+      'Kulturziegelmodelle der Serie Lora. Bieten ästhetische und langlebige Lösungen.',
+      'نماذج الطوب الثقافي من سلسلة Lora. تقدم حلولاً جمالية ومتينة.'
+    ),
+    description: t(
+      'Lora serisi kültür tuğlası modelleri. Estetik ve dayanıklı çözümler sunar. Her türlü projeye uygun tasarım.',
+      'Lora series culture brick models. Offers aesthetic and durable solutions. A design suitable for every kind of project.',
+      'Kulturziegelmodelle der Serie Lora. Bieten ästhetische und langlebige Lösungen. Ein Design, das zu jedem Projekt passt.',
+      'نماذج الطوب الثقافي من سلسلة Lora. تقدم حلولاً جمالية ومتينة. تصميم يناسب جميع أنواع المشاريع.'
+    ),
+    colors: palette(BRICK_PALETTE, 'lora', { 'çöl': 'lora-çöl 1.jpg' }),
+    specs: BRICK_SPECS,
+    features: [
+      t('Estetik tasarım', 'Aesthetic design', 'Ästhetisches Design', 'تصميم جمالي'),
+      t('Dayanıklı yapı', 'Durable structure', 'Robuste Struktur', 'بنية متينة'),
+      t('Kolay uygulama', 'Easy installation', 'Einfache Verlegung', 'سهولة التركيب'),
+      t('Uzun ömürlü', 'Long-lasting', 'Langlebig', 'عمر طويل'),
+      t('Su geçirmez', 'Waterproof', 'Wasserfest', 'مقاوم للماء'),
+      t('Isı yalıtımı', 'Thermal insulation', 'Wärmedämmung', 'عزل حراري'),
+    ],
+    applications: [
+      t('Dış cephe kaplaması', 'Exterior wall cladding', 'Fassadenverkleidung', 'تكسية الجدران الخارجية'),
+      t('İç duvar dekorasyonu', 'Interior wall decoration', 'Innenwandgestaltung', 'ديكور الجدران الداخلية'),
+      t('Şömine çevresi', 'Fireplace surrounds', 'Kaminverkleidung', 'تكسية محيط المدفأة'),
+      t('Bahçe duvarları', 'Garden walls', 'Gartenmauern', 'جدران الحدائق'),
+      t('Teras kaplaması', 'Terrace cladding', 'Terrassenverkleidung', 'تكسية التراسات'),
+      t('Ticari projeler', 'Commercial projects', 'Gewerbeprojekte', 'المشاريع التجارية'),
+    ],
+  },
+];
@@ -0,0 +1,171 @@
+import type { LocalizedText } from './catalog';
+import type { Project } from './gallery';
+
+// Project records. Shape and product references are checked by
+// validateProjects() in ./gallery - import projects from there, not from
+// this file.
+//
+// The projects below are sample content written to lay out the gallery:
+// the sites are made up and the photos are product swatches. They are
+// flagged `sample` and never published in production builds; replace them
+// with real references (and real site photos) as those come in.
+
+const IMAGE_DIR = '/images/webp-optimized';
+
+const image = (file: string) => `${IMAGE_DIR}/${file}`;
+
+const t = (tr: string, en: string, de: string, ar: string): LocalizedText => ({ tr, en, de, ar });
+
+export const projects: Project[] = [
+  {
+    id: 'zekeriyakoy-villa',
+    slug: t('zekeriyakoy-villa', 'zekeriyakoy-villa', 'villa-zekeriyakoey', 'zekeriyakoy-villa'),
+    title: t('Zekeriyaköy Villası', 'Zekeriyaköy Villa', 'Villa in Zekeriyaköy', 'فيلا زكريا كوي'),
+    category: 'villa',
+    location: t('Sarıyer, İstanbul', 'Sarıyer, Istanbul', 'Sarıyer, Istanbul', 'صارير، إسطنبول'),
+    year: 2024,
+    summary: t(
+      'Orman kenarındaki iki katlı villanın dış cephesi Mitra Toprak ile kaplandı; bahçe duvarları ve giriş sütunlarında Leon Köz tuğla kullanıldı.',
+      'The exterior of a two-storey villa on the edge of the forest was clad in Mitra Earth, with Leon Ember brick on the garden walls and entrance columns.',
+      'Die Außenfassade einer zweigeschossigen Villa am Waldrand wurde mit Mitra Erde verkleidet, Gartenmauern und Eingangssäulen mit Leon Glut.',
+      'كُسيت الواجهة الخارجية لفيلا من طابقين على أطراف الغابة بحجر ميترا التراب، واستُخدم طوب ليون الجمر في جدران الحديقة وأعمدة المدخل.'
+    ),
+    materials: [
+      { productId: 'mitra', colorKey: 'toprak' },
+      { productId: 'leon', colorKey: 'köz' },
+    ],
+    sample: true,
+    photos: [image('mitra-toprak.jpg'), image('leon-köz.jpg'), image('mitra-gölge.jpg')],
+  },
+  {
+    id: 'yalikavak-villa',
+    slug: t('yalikavak-villa', 'yalikavak-villa', 'villa-yalikavak', 'yalikavak-villa'),
+    title: t('Yalıkavak Villası', 'Yalıkavak Villa', 'Villa in Yalıkavak', 'فيلا ياليكافاك'),
+    category: 'villa',
+    location: t('Bodrum, Muğla', 'Bodrum, Muğla', 'Bodrum, Muğla', 'بودروم، موغلا'),
+    year: 2023,
+    summary: t(
+      'Ege mimarisine uygun açık tonlar için cephede Arvion Sis, teras ve havuz çevresinde Leila İnci tuğla tercih edildi.',
+      'To match Aegean architecture, the light tones of Arvion Mist were chosen for the facade and Leila Pearl brick for the terrace and pool surround.',
+      'Passend zur ägäischen Architektur wurden für die Fassade die hellen Töne von Arvion Nebel und für Terrasse und Pool Leila Perle gewählt.',
+      'تماشياً مع عمارة بحر إيجة، اختيرت الألوان الفاتحة لحجر أرفيون الضباب للواجهة وطوب ليلى اللؤلؤ للتراس ومحيط المسبح.'
+    ),
+    materials: [
+      { productId: 'arvion', colorKey: 'sis' },
+      { productId: 'leila', colorKey: 'inci' },
+    ],
+    sample: true,
+    photos: [image('arvion-sis.jpg'), image('leila-inci.jpg')],
+  },
+  {
+    id: 'kadikoy-apartment',
+    slug: t('kadikoy-apartman-cephesi', 'kadikoy-apartment-facade', 'wohnhausfassade-kadikoey', 'kadikoy-apartment-facade'),
+    title: t('Kadıköy Apartman Cephesi', 'Kadıköy Apartment Facade', 'Wohnhausfassade in Kadıköy', 'واجهة مبنى سكني في قاضي كوي'),
+    category: 'facade',
+    location: t('Kadıköy, İstanbul', 'Kadıköy, Istanbul', 'Kadıköy, Istanbul', 'قاضي كوي، إسطنبول'),
+    year: 2023,
+    summary: t(
+      'Yenilenen apartmanın zemin kat ve giriş cephesinde Tivoli Antrasit kullanılarak sokakla uyumlu, modern bir görünüm elde edildi.',
+      'Tivoli Anthracite on the ground floor and entrance of the renovated building gives it a modern look that fits the street.',
+      'Tivoli Anthrazit im Erdgeschoss und am Eingang des sanierten Wohnhauses sorgt für einen modernen, zur Straße passenden Auftritt.',
+      'منح حجر تيفولي الأنثراسيت في الطابق الأرضي ومدخل المبنى المجدد مظهراً عصرياً ينسجم مع الشارع.'
+    ),
+    materials: [{ productId: 'tivoli', colorKey: 'antrasit' }],
+    sample: true,
+    photos: [image('tivoli-antrasit.jpg'), image('tivoli-gölge.jpg')],
+  },
+  {
+    id: 'bornova-office',
+    slug: t('bornova-ofis-cephesi', 'bornova-office-facade', 'buerofassade-bornova', 'bornova-office-facade'),
+    title: t('Bornova Ofis Binası', 'Bornova Office Building', 'Bürogebäude in Bornova', 'مبنى مكاتب في بورنوفا'),
+    category: 'facade',
+    location: t('Bornova, İzmir', 'Bornova, Izmir', 'Bornova, Izmir', 'بورنوفا، إزمير'),
+    year: 2022,
+    summary: t(
+      'Üç katlı ofis binasının cephesinde Luminar Gölge taş, pencere aralarındaki şeritlerde Lora Lav tuğla birlikte uygulandı.',
+      'The three-storey office building combines Luminar Shadow stone on the facade with bands of Lora Lava brick between the windows.',
+      'Das dreigeschossige Bürogebäude kombiniert Luminar Schatten an der Fassade mit Bändern aus Lora Lava zwischen den Fenstern.',
+      'يجمع مبنى المكاتب المكون من ثلاثة طوابق بين حجر لومينار الظل على الواجهة وأشرطة من طوب لورا الحمم بين النوافذ.'
+    ),
+    materials: [
+      { productId: 'luminar', colorKey: 'gölge' },
+      { productId: 'lora', colorKey: 'lav' },
+    ],
+    sample: true,
+    photos: [image('luminar-gölge.jpg'), image('lora-lav.jpg')],
+  },
+  {
+    id: 'nisantasi-cafe',
+    slug: t('nisantasi-kafe', 'nisantasi-cafe', 'cafe-nisantasi', 'nisantasi-cafe'),
+    title: t('Nişantaşı Kafe', 'Nişantaşı Café', 'Café in Nişantaşı', 'مقهى في نيشانتاشي'),
+    category: 'interior',
+    location: t('Şişli, İstanbul', 'Şişli, Istanbul', 'Şişli, Istanbul', 'شيشلي، إسطنبول'),
+    year: 2024,
+    summary: t(
+      'Kafenin bar arkası duvarında Lora Mix, oturma alanında Leon Çakıl tuğla ile sıcak ve samimi bir iç mekan tasarlandı.',
+      'Lora Mix behind the bar and Leon Pebble brick in the seating area give the café a warm, welcoming interior.',
+      'Lora Mix hinter der Bar und Leon Kiesel im Sitzbereich verleihen dem Café ein warmes, einladendes Ambiente.',
+      'منح طوب لورا المزيج خلف البار وطوب ليون الحصى في منطقة الجلوس المقهى أجواءً داخلية دافئة ومرحبة.'
+    ),
+    materials: [
+      { productId: 'lora', colorKey: 'mix' },
+      { productId: 'leon', colorKey: 'çakıl' },
+    ],
+    sample: true,
+    photos: [image('lora-mix.jpg'), image('leon-çakıl.jpg'), image('lora-köz.jpg')],
+  },
+  {
+    id: 'cankaya-school',
+    slug: t('cankaya-okul-koridoru', 'cankaya-school-corridor', 'schulflur-cankaya', 'cankaya-school-corridor'),
+    title: t('Çankaya Okul Koridoru', 'Çankaya School Corridor', 'Schulflur in Çankaya', 'ممر مدرسة في تشانكايا'),
+    category: 'interior',
+    location: t('Çankaya, Ankara', 'Çankaya, Ankara', 'Çankaya, Ankara', 'تشانكايا، أنقرة'),
+    year: 2022,
+    summary: t(
+      'Yoğun kullanılan okul koridorlarında darbeye dayanıklı ve kolay temizlenen Leila Çöl tuğla kaplama tercih edildi.',
+      'The busy school corridors were clad in Leila Desert brick, which stands up to knocks and is easy to clean.',
+      'Die stark genutzten Schulflure wurden mit Leila Wüste verkleidet, die stoßfest und leicht zu reinigen ist.',
+      'كُسيت ممرات المدرسة المزدحمة بطوب ليلى الصحراء المقاوم للصدمات والسهل التنظيف.'
+    ),
+    materials: [{ productId: 'leila', colorKey: 'çöl' }],
+    sample: true,
+    photos: [image('leila-çol 1.jpg'), image('leila-mix.jpg')],
+  },
+  {
+    id: 'abant-chalet',
+    slug: t('abant-dag-evi-somine', 'abant-chalet-fireplace', 'chalet-kamin-abant', 'abant-chalet-fireplace'),
+    title: t('Abant Dağ Evi Şöminesi', 'Abant Chalet Fireplace', 'Kamin eines Chalets in Abant', 'مدفأة شاليه في أبانت'),
+    category: 'fireplace',
+    location: t('Abant, Bolu', 'Abant, Bolu', 'Abant, Bolu', 'أبانت، بولو'),
+    year: 2023,
+    summary: t(
+      'Dağ evinin salonundaki şömine duvarı, sıcak tonlarıyla ahşap tavanı tamamlayan Belezza Günbatımı ile kaplandı.',
+      'The fireplace wall in the chalet living room was clad in Belezza Sunset, whose warm tones complement the timber ceiling.',
+      'Die Kaminwand im Wohnraum des Chalets wurde mit Belezza Sonnenuntergang verkleidet, dessen warme Töne die Holzdecke ergänzen.',
+      'كُسي جدار المدفأة في صالة الشاليه بحجر بيليزا الغروب الذي تكمل ألوانه الدافئة السقف الخشبي.'
+    ),
+    materials: [{ productId: 'belezza', colorKey: 'günbatımı' }],
+    sample: true,
+    photos: [image('belezza-günbatımı.jpg'), image('belezza-yıldız.jpg')],
+  },
+  {
+    id: 'uludag-hotel',
+    slug: t('uludag-otel-somine', 'uludag-hotel-fireplace', 'hotelkamin-uludag', 'uludag-hotel-fireplace'),
+    title: t('Uludağ Otel Lobisi Şöminesi', 'Uludağ Hotel Lobby Fireplace', 'Lobbykamin eines Hotels am Uludağ', 'مدفأة ردهة فندق في أولوداغ'),
+    category: 'fireplace',
+    location: t('Uludağ, Bursa', 'Uludağ, Bursa', 'Uludağ, Bursa', 'أولوداغ، بورصة'),
+    year: 2021,
+    summary: t(
+      'Otel lobisindeki çift taraflı şöminede Mitra Antrasit, çevre duvarlarda Tivoli Gölge kullanıldı.',
+      'The double-sided fireplace in the hotel lobby uses Mitra Anthracite, with Tivoli Shadow on the surrounding walls.',
+      'Der doppelseitige Kamin in der Hotellobby ist mit Mitra Anthrazit verkleidet, die umgebenden Wände mit Tivoli Schatten.',
+      'استُخدم حجر ميترا الأنثراسيت في المدفأة ذات الوجهين في ردهة الفندق، وحجر تيفولي الظل في الجدران المحيطة.'
+    ),
+    materials: [
+      { productId: 'mitra', colorKey: 'antrasit' },
+      { productId: 'tivoli', colorKey: 'gölge' },
+    ],
+    sample: true,
+    photos: [image('mitra-antrasit.jpg'), image('tivoli-gölge.jpg')],
+  },
+];
@@ -0,0 +1,133 @@
+import type {
+  ApplicationEnvironment,
+  InstallationMethod,
+  Locale,
+  LocalizedText,
+  NumberRange,
+  Product,
+} from './catalog';
+import { LOCALE_SETTINGS } from '@/i18n/config';
+
+// Turns the structured ProductSpecs into labelled rows for spec tables.
+
+export type SpecKey =
+  | 'pieceArea'
+  | 'thickness'
+  | 'installation'
+  | 'environment'
+  | 'jointWidth'
+  | 'jointConsumption'
+  | 'adhesiveConsumption'
+  | 'weight'
+  | 'flatBox'
+  | 'cornerBox'
+  | 'material'
+  | 'finish';
+
+export interface SpecRow {
+  key: SpecKey;
+  label: string;
+  value: string;
+}
+
+// Unit symbols per language; Arabic texts use Arabic abbreviations
+export type Unit = 'cm' | 'cm²' | 'm' | 'm²' | 'kg' | 'kg/m' | 'kg/m²';
+
+const UNIT_SYMBOLS: Record<Unit, LocalizedText> = {
+  cm: { tr: 'cm', en: 'cm', de: 'cm', ar: 'سم' },
+  'cm²': { tr: 'cm²', en: 'cm²', de: 'cm²', ar: 'سم²' },
+  m: { tr: 'm', en: 'm', de: 'm', ar: 'م' },
+  'm²': { tr: 'm²', en: 'm²', de: 'm²', ar: 'م²' },
+  kg: { tr: 'kg', en: 'kg', de: 'kg', ar: 'كغ' },
+  'kg/m': { tr: 'kg/m', en: 'kg/m', de: 'kg/m', ar: 'كغ/م' },
+  'kg/m²': { tr: 'kg/m²', en: 'kg/m²', de: 'kg/m²', ar: 'كغ/م²' },
+};
+
+const SPEC_LABELS: Record<SpecKey, LocalizedText> = {
+  pieceArea: { tr: 'Boyutlar', en: 'Piece Size', de: 'Steingröße', ar: 'مقاس القطعة' },
+  thickness: { tr: 'Kalınlık', en: 'Thickness', de: 'Stärke', ar: 'السماكة' },
+  installation: { tr: 'Uygulama', en: 'Installation', de: 'Verlegung', ar: 'طريقة التركيب' },
+  environment: { tr: 'Uygulama Alanı', en: 'Application Area', de: 'Einsatzbereich', ar: 'مجال الاستخدام' },
+  jointWidth: { tr: 'Önerilen Derz Aralığı', en: 'Recommended Joint Width', de: 'Empfohlene Fugenbreite', ar: 'عرض الفاصل الموصى به' },
+  jointConsumption: { tr: 'Önerilen Derz Miktarı', en: 'Recommended Joint Mortar', de: 'Empfohlener Fugenmörtel', ar: 'كمية ملاط الفواصل الموصى بها' },
+  adhesiveConsumption: { tr: 'Önerilen Yapıştırıcı Miktarı', en: 'Recommended Adhesive', de: 'Empfohlener Kleber', ar: 'كمية اللاصق الموصى بها' },
+  weight: { tr: 'Ağırlık Düz / Köşe', en: 'Weight Flat / Corner', de: 'Gewicht Fläche / Ecke', ar: 'الوزن مسطح / زاوية' },
+  flatBox: { tr: '1 Kutu Kaplama Taşı', en: '1 Box Flat Pieces', de: '1 Karton Flächensteine', ar: 'صندوق واحد من القطع المسطحة' },
+  cornerBox: { tr: '1 Kutu Köşe Taşı', en: '1 Box Corner Pieces', de: '1 Karton Ecksteine', ar: 'صندوق واحد من قطع الزوايا' },
+  material: { tr: 'Malzeme', en: 'Material', de: 'Material', ar: 'المادة' },
+  finish: { tr: 'Yüzey', en: 'Finish', de: 'Oberfläche', ar: 'السطح' },
+};
+
+const INSTALLATION_LABELS: Record<InstallationMethod, LocalizedText> = {
+  stacked: { tr: 'Yığma', en: 'Dry stacked', de: 'Trocken gestapelt', ar: 'تراص جاف' },
+  jointed: { tr: 'Derzli', en: 'Jointed', de: 'Verfugt', ar: 'بفواصل' },
+};
+
+export const ENVIRONMENT_LABELS: Record<ApplicationEnvironment, LocalizedText> = {
+  indoor: { tr: 'İç Mekan', en: 'Indoor', de: 'Innenbereich', ar: 'داخلي' },
+  outdoor: { tr: 'Dış Mekan', en: 'Outdoor', de: 'Außenbereich', ar: 'خارجي' },
+};
+
+export function formatNumber(value: number, locale: Locale, fractionDigits = 0): string {
+  return value.toLocaleString(LOCALE_SETTINGS[locale].intl, {
+    minimumFractionDigits: fractionDigits,
+    maximumFractionDigits: Math.max(fractionDigits, 2),
+  });
+}
+
+// %10 in Turkish, 10% in English, 10 % in German
+export function formatPercent(value: number, locale: Locale): string {
+  return (value / 100).toLocaleString(LOCALE_SETTINGS[locale].intl, { style: 'percent', maximumFractionDigits: 1 });
+}
+
+// e.g. formatQuantity(1.25, 'm²', 'de', 2) -> "1,25 m²"
+export function formatQuantity(value: number, unit: Unit, locale: Locale, fractionDigits = 0): string {
+  return `${formatNumber(value, locale, fractionDigits)} ${UNIT_SYMBOLS[unit][locale]}`;
+}
+
+export function formatRange(range: NumberRange, locale: Locale, unit: Unit): string {
+  if (range.min === range.max) {
+    return formatQuantity(range.min, unit, locale);
+  }
+  return `${formatNumber(range.min, locale)} - ${formatQuantity(range.max, unit, locale)}`;
+}
+
+export function getSpecLabel(key: SpecKey, locale: Locale): string {
+  return SPEC_LABELS[key][locale];
+}
+
+export function getSpecRows(product: Product, locale: Locale): SpecRow[] {
+  const { specs } = product;
+  const row = (key: SpecKey, value: string): SpecRow => ({ key, label: getSpecLabel(key, locale), value });
+
+  // Figures a product sheet does not state get no row at all
+  const rows: SpecRow[] = [];
+  if (specs.pieceArea) rows.push(row('pieceArea', formatRange(specs.pieceArea, locale, 'cm²')));
+  if (specs.thickness) rows.push(row('thickness', formatRange(specs.thickness, locale, 'cm')));
+  rows.push(
+    row('installation', specs.installation.map((m) => INSTALLATION_LABELS[m][locale]).join(' & ')),
+    row('environment', specs.environment.map((e) => ENVIRONMENT_LABELS[e][locale]).join(' / '))
+  );
+  if (specs.jointWidth) rows.push(row('jointWidth', formatQuantity(specs.jointWidth, 'cm', locale, 2)));
+  if (specs.jointConsumption) {
+    rows.push(row('jointConsumption', `(+-) ${formatQuantity(specs.jointConsumption, 'kg/m²', locale, 1)}`));
+  }
+  if (specs.adhesiveConsumption) {
+    rows.push(row('adhesiveConsumption', `(+-) ${formatQuantity(specs.adhesiveConsumption, 'kg/m²', locale, 1)}`));
+  }
+  rows.push(row(
+    'weight',
+    specs.corner
+      ? `${formatQuantity(specs.flat.weight, 'kg/m²', locale)} - ${formatQuantity(specs.corner.weight, 'kg/m', locale)}`
+      : formatQuantity(specs.flat.weight, 'kg/m²', locale)
+  ));
+  if (specs.flat.boxCoverage) rows.push(row('flatBox', formatQuantity(specs.flat.boxCoverage, 'm²', locale, 2)));
+
+  if (specs.corner) {
+    rows.push(row('cornerBox', formatQuantity(specs.corner.boxLength, 'm', locale, 2)));
+  }
+
+  rows.push(row('material', specs.material[locale]), row('finish', specs.finish[locale]));
+
+  return rows;
+}
@@ -1,6 +1,7 @@
 "use client";
 
 import { useState, useCallback, useEffect } from 'react';
+import { sendTelemetry } from '@/utils/telemetryQueue';
 
 interface ErrorState {
   hasError: boolean;
@@ -162,8 +163,8 @@ export const setupGlobalErrorHandling = () => {
   });
 };
 
-// Error logging service
-const logErrorToService = (error: Error, errorInfo: any, retryCount: number) => {
+// Error logging service, also used by ErrorBoundary
+export const logErrorToService = (error: Error, errorInfo: any, retryCount: number) => {
   if (typeof window === 'undefined') return;
 
   const errorData = {
@@ -182,7 +183,6 @@ const logErrorToService = (error: Error, errorInfo: any, retryCount: number) =>
   // Send to monitoring services
   sendToSentry(errorData);
   sendToCustomAnalytics(errorData);
-  sendToLocalStorage(errorData);
 };
 
 // Sentry integration (if using Sentry)
@@ -198,39 +198,12 @@ const sendToSentry = (errorData: any) => {
   }
 };
 
-// Custom analytics endpoint
-const sendToCustomAnalytics = async (errorData: any) => {
-  try {
-    await fetch('/api/error-logging', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        type: 'error',
-        data: errorData,
-      }),
-    });
-  } catch (error) {
+// Custom error log endpoint; reports that cannot be sent now are kept in
+// localStorage and replayed later (see telemetryQueue)
+const sendToCustomAnalytics = (errorData: any) => {
+  sendTelemetry('error', errorData).catch((error) => {
     console.warn('Failed to send error to analytics endpoint:', error);
-  }
-};
-
-// Store errors in localStorage for offline scenarios
-const sendToLocalStorage = (errorData: any) => {
-  try {
-    const errors = JSON.parse(localStorage.getItem('error_logs') || '[]');
-    errors.push(errorData);
-    
-    // Keep only last 50 errors
-    if (errors.length > 50) {
-      errors.splice(0, errors.length - 50);
-    }
-    
-    localStorage.setItem('error_logs', JSON.stringify(errors));
-  } catch (error) {
-    console.warn('Failed to store error in localStorage:', error);
-  }
+  });
 };
 
 // Utility functions
@@ -0,0 +1,46 @@
+"use client";
+
+import { useState, useCallback } from 'react';
+
+// Arrow key navigation for result lists (search dropdown and result pages).
+// ArrowDown/ArrowUp wrap around, Enter picks the highlighted item and
+// Escape clears the highlight. Returns whether the key was handled.
+
+interface ListNavigationOptions<T> {
+  onSelect: (item: T, index: number) => void;
+  onEscape?: () => void;
+}
+
+export const useListNavigation = <T>(items: T[], { onSelect, onEscape }: ListNavigationOptions<T>) => {
+  const [selectedIndex, setSelectedIndex] = useState(-1);
+
+  const handleKeyDown = useCallback((e: React.KeyboardEvent): boolean => {
+    if (items.length === 0) return false;
+
+    switch (e.key) {
+      case 'ArrowDown':
+        e.preventDefault();
+        setSelectedIndex(prev => (prev + 1) % items.length);
+        return true;
+      case 'ArrowUp':
+        e.preventDefault();
+        setSelectedIndex(prev => prev <= 0 ? items.length - 1 : prev - 1);
+        return true;
+      case 'Enter':
+        if (selectedIndex >= 0 && items[selectedIndex]) {
+          e.preventDefault();
+          onSelect(items[selectedIndex], selectedIndex);
+          return true;
+        }
+        return false;
+      case 'Escape':
+        setSelectedIndex(-1);
+        onEscape?.();
+        return true;
+      default:
+        return false;
+    }
+  }, [items, selectedIndex, onSelect, onEscape]);
+
+  return { selectedIndex, setSelectedIndex, handleKeyDown };
+};
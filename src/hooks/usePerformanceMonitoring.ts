@@ -1,6 +1,7 @@
 "use client";
 
 import React, { useEffect, useCallback, useRef } from 'react';
+import { sendTelemetry } from '@/utils/telemetryQueue';
 
 interface PerformanceMetrics {
   pageLoadTime: number;
@@ -265,21 +266,13 @@ export const usePerformanceMonitoring = (componentName?: string) => {
   };
 };
 
-// Send metrics to analytics endpoint
-const sendToAnalyticsEndpoint = async (data: any) => {
-  try {
-    // Replace with your actual analytics endpoint
-    await fetch('/api/analytics', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(data),
-    });
-  } catch (error) {
+// Send metrics to analytics endpoint; events that cannot be sent now are
+// queued and replayed later (see telemetryQueue)
+const sendToAnalyticsEndpoint = (data: any) => {
+  sendTelemetry('analytics', data).catch((error) => {
     // Silently fail - don't break user experience for analytics
     console.warn('Failed to send analytics data:', error);
-  }
+  });
 };
 
 // Utility function for measuring component render time
@@ -0,0 +1,108 @@
+"use client";
+
+import { useState, useEffect, useCallback } from 'react';
+
+// Quote basket persisted in localStorage and shared across tabs/components
+
+export interface QuoteBasketItem {
+  productId: string;
+  colorKey: string;
+  quantity: number; // m²
+  cornerLength?: number; // m
+  note?: string;
+}
+
+export const QUOTE_BASKET_KEY = 'quote_basket';
+export const MAX_BASKET_ITEMS = 20;
+
+const CHANGE_EVENT = 'quote-basket-change';
+
+const readBasket = (): QuoteBasketItem[] => {
+  try {
+    const raw = localStorage.getItem(QUOTE_BASKET_KEY);
+    const parsed = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (error) {
+    console.error('[QuoteBasket] Failed to read basket:', error);
+    return [];
+  }
+};
+
+const writeBasket = (items: QuoteBasketItem[]) => {
+  try {
+    localStorage.setItem(QUOTE_BASKET_KEY, JSON.stringify(items));
+    window.dispatchEvent(new Event(CHANGE_EVENT));
+  } catch (error) {
+    console.error('[QuoteBasket] Failed to save basket:', error);
+  }
+};
+
+export const useQuoteBasket = () => {
+  const [items, setItems] = useState<QuoteBasketItem[]>([]);
+  const [isLoaded, setIsLoaded] = useState(false);
+
+  useEffect(() => {
+    const sync = () => setItems(readBasket());
+    sync();
+    setIsLoaded(true);
+
+    const handleStorage = (e: StorageEvent) => {
+      if (e.key === QUOTE_BASKET_KEY) sync();
+    };
+
+    window.addEventListener(CHANGE_EVENT, sync);
+    window.addEventListener('storage', handleStorage);
+    return () => {
+      window.removeEventListener(CHANGE_EVENT, sync);
+      window.removeEventListener('storage', handleStorage);
+    };
+  }, []);
+
+  // Adding the same product and color again merges the quantities
+  const addItem = useCallback((item: QuoteBasketItem) => {
+    const current = readBasket();
+    const index = current.findIndex((i) => i.productId === item.productId && i.colorKey === item.colorKey);
+
+    if (index >= 0) {
+      const existing = current[index];
+      current[index] = {
+        ...existing,
+        quantity: existing.quantity + item.quantity,
+        cornerLength: (existing.cornerLength || 0) + (item.cornerLength || 0) || undefined,
+        note: item.note || existing.note,
+      };
+    } else if (current.length < MAX_BASKET_ITEMS) {
+      current.push(item);
+    } else {
+      return false;
+    }
+
+    writeBasket(current);
+    return true;
+  }, []);
+
+  const updateItem = useCallback((index: number, changes: Partial<QuoteBasketItem>) => {
+    const current = readBasket();
+    if (!current[index]) return;
+    current[index] = { ...current[index], ...changes };
+    writeBasket(current);
+  }, []);
+
+  const removeItem = useCallback((index: number) => {
+    writeBasket(readBasket().filter((_, i) => i !== index));
+  }, []);
+
+  const clear = useCallback(() => {
+    writeBasket([]);
+  }, []);
+
+  return {
+    items,
+    isLoaded,
+    count: items.length,
+    addItem,
+    updateItem,
+    removeItem,
+    clear,
+  };
+};
@@ -0,0 +1,29 @@
+"use client";
+
+import { createContext, useContext, useMemo, type ReactNode } from 'react';
+import { DEFAULT_LOCALE, LOCALE_SETTINGS, type Locale } from './config';
+import { createTranslator, type Translator } from './translate';
+
+// The locale comes from the [locale] route segment, so client components
+// render the right language on the server as well, without reading the URL.
+const LocaleContext = createContext<Locale>(DEFAULT_LOCALE);
+
+export function I18nProvider({ locale, children }: { locale: Locale; children: ReactNode }) {
+  return <LocaleContext.Provider value={locale}>{children}</LocaleContext.Provider>;
+}
+
+export function useLocale(): Locale {
+  return useContext(LocaleContext);
+}
+
+// Layout direction of the current language. Flex rows and logical CSS
+// properties mirror by themselves; this is for what does not (slide
+// offsets, arrow glyphs, side-specific shadows).
+export function useDirection(): 'ltr' | 'rtl' {
+  return LOCALE_SETTINGS[useLocale()].dir;
+}
+
+export function useTranslations(): Translator {
+  const locale = useLocale();
+  return useMemo(() => createTranslator(locale), [locale]);
+}
@@ -0,0 +1,74 @@
+// Languages the site is published in. Adding a language means adding an
+// entry here and a message catalog under ./messages.
+
+export interface LocaleSettings {
+  // Name of the language in that language, shown in the language switcher
+  label: string;
+  flag: string;
+  htmlLang: string;
+  dir: 'ltr' | 'rtl';
+  // BCP 47 tag for Intl (numbers, dates, upper-casing)
+  intl: string;
+  openGraph: string;
+}
+
+export const LOCALE_SETTINGS = {
+  tr: {
+    label: 'Türkçe',
+    flag: '/tr.svg',
+    htmlLang: 'tr',
+    dir: 'ltr',
+    intl: 'tr-TR',
+    openGraph: 'tr_TR',
+  },
+  en: {
+    label: 'English',
+    flag: '/gb.svg',
+    htmlLang: 'en',
+    dir: 'ltr',
+    intl: 'en-GB',
+    openGraph: 'en_GB',
+  },
+  de: {
+    label: 'Deutsch',
+    flag: '/de.svg',
+    htmlLang: 'de',
+    dir: 'ltr',
+    intl: 'de-DE',
+    openGraph: 'de_DE',
+  },
+  ar: {
+    label: 'العربية',
+    flag: '/ae.svg',
+    htmlLang: 'ar',
+    dir: 'rtl',
+    intl: 'ar-AE',
+    openGraph: 'ar_AE',
+  },
+} satisfies Record<string, LocaleSettings>;
+
+export type Locale = keyof typeof LOCALE_SETTINGS;
+
+export const LOCALES = Object.keys(LOCALE_SETTINGS) as Locale[];
+
+// Served without a path prefix (/urunler), the others under /<locale>
+export const DEFAULT_LOCALE: Locale = 'tr';
+
+// Canonical origin for absolute links (hreflang alternates, PDFs, structured data)
+export const SITE_URL = 'https://monopolstone.com';
+export const CONTACT = { email: 'info@monopolstone.com', phone: '+90 532 382 01 97' };
+
+// Link targets for CONTACT: call, WhatsApp chat and e-mail
+export const CONTACT_LINKS = {
+  phone: `tel:${CONTACT.phone.replace(/\s/g, '')}`,
+  whatsapp: `https://wa.me/${CONTACT.phone.replace(/\D/g, '')}`,
+  email: `mailto:${CONTACT.email}`,
+};
+
+export function isLocale(value: unknown): value is Locale {
+  return typeof value === 'string' && LOCALES.indexOf(value as Locale) >= 0;
+}
+
+export function getLocalePrefix(locale: Locale): string {
+  return locale === DEFAULT_LOCALE ? '' : `/${locale}`;
+}
@@ -0,0 +1,397 @@
+import type { Messages } from './tr';
+
+const ar: Messages = {
+  meta: {
+    title: 'Monopol Stone - الحجر الصناعي وتكسيات الجدران',
+    description: 'منتجات عالية الجودة من الحجر الصناعي وتكسيات الجدران الديكورية. حلول احترافية للمكاتب والمقاهي والمدارس.',
+    keywords: 'تكسية طوب, تكسية جدران بالطوب, حجر ثقافي ديكوري, تكسية حجر طبيعي, تكسية جدران حجرية, طوب ديكوري, تكسية واجهات الفلل, تكسية جدران داخلية, أسعار الحجر الثقافي, نماذج حجر ديكوري, تكسية واجهات خارجية, حجر صناعي, ديكور مكاتب, ديكور مقاهي, ديكور مدارس, عمارة, ترميم معماري',
+    ogTitle: 'Monopol Stone - تكسية الطوب والحجر الثقافي الديكوري',
+    ogDescription: 'تكسية الطوب والحجر الثقافي الديكوري وتكسية الحجر الطبيعي. حلول احترافية لديكور المكاتب والمقاهي والمدارس.',
+  },
+  // ASCII paths: Arabic segments end up percent-encoded in shared links
+  routes: {
+    products: 'products',
+    product: 'product',
+    gallery: 'gallery',
+    contact: 'contact',
+    quote: 'quote',
+    search: 'search',
+    differences: 'differences',
+    professionals: 'for-professionals',
+    visualizer: 'wall-visualizer',
+    series: {
+      'kultur-tasi': 'culture-stones',
+      'kultur-tuglasi': 'culture-bricks',
+    },
+  },
+  nav: {
+    home: 'الرئيسية',
+    products: 'المنتجات',
+    gallery: 'المعرض',
+    contact: 'اتصل بنا',
+  },
+  menu: {
+    home: 'الرئيسية',
+    products: 'المنتجات',
+    gallery: 'المعرض',
+    contact: 'اتصل بنا',
+    toggle: 'فتح قائمة التنقل أو إغلاقها',
+    close: 'إغلاق القائمة',
+  },
+  language: {
+    label: 'اللغة',
+  },
+  breadcrumb: {
+    label: 'مسار التنقل',
+    home: 'الرئيسية',
+    products: 'المنتجات',
+    gallery: 'المعرض',
+    differences: 'ما يميزنا',
+    professionals: 'للمحترفين',
+    contact: 'اتصل بنا',
+    quote: 'طلب عرض سعر',
+    search: 'البحث',
+    visualizer: 'محاكاة الجدار',
+  },
+  footer: {
+    about: 'تحافظ Monopol Stone على الروح الأصيلة للحجر الطبيعي، وتقدمه بتفسير جديد بأشكال وألوان مختلفة.',
+    copyright: '© 2024 Monopol Stone. جميع الحقوق محفوظة.',
+    products: 'المنتجات',
+    gallery: 'المعرض',
+    projects: 'مشاريع منجزة',
+    applications: 'التطبيقات',
+    showroom: 'صالة العرض',
+    contact: 'اتصل بنا',
+    location: 'إسطنبول، تركيا',
+  },
+  hero: {
+    text: 'نضفي على مساحاتكم الجمال والمتانة بحلول الحجر الطبيعي والحجر الصناعي. وبجودة Monopol Stone نقدم الأناقة والقوة المناسبة لكل مشروع.',
+    cta: 'اكتشف منتجاتنا',
+    loading: 'جارٍ تحميل الصور... ({loaded}/{total})',
+  },
+  floating: {
+    whatsappMessage: 'مرحباً! أود الحصول على معلومات حول منتجات Monopol Stone.',
+  },
+  home: {
+    productsTitle: 'منتجاتنا',
+    differencesTitle: 'ما يميزنا',
+    features: {
+      heat: { title: 'مقاوم للحرارة', description: 'مقاوم للعوامل الخارجية.' },
+      cold: { title: 'مقاوم للبرودة', description: 'مقاوم للعوامل الخارجية.' },
+      pattern: { title: 'نقوش طبيعية', description: 'مستوحى من الطبيعة.' },
+      eco: { title: 'صديق للبيئة', description: 'إنتاج مستدام يراعي البيئة.' },
+      healthy: { title: 'صحي', description: 'لا يحتوي على مواد مسرطنة.' },
+      delivery: { title: 'تسليم في الموعد', description: 'نلتزم بالتسليم في الوقت المحدد.' },
+      installation: { title: 'تركيب سهل', description: 'تطبيق سهل وعملي.' },
+    },
+    aboutTitle: 'قصة Monopol Stone',
+    aboutText: 'تُنتج Monopol Stone بشغف لتقديم منتجات أصلية عالية الجودة في تكسية الطوب والحجر الثقافي الديكوري وتكسية الحجر الطبيعي وتكسية الجدران. نضيف قيمة إلى مساحاتكم بحلول تكسية واجهات الفلل والجدران الداخلية وديكور المكاتب والمقاهي والواجهات الخارجية.',
+  },
+  products: {
+    title: 'منتجاتنا',
+  },
+  product: {
+    contactTitle: 'كيف يمكننا مساعدتك؟',
+    contactText: 'بخبرة تزيد على 20 عاماً في الحجر الثقافي والطوب الثقافي، نرافقك في كل مراحل العمل من اختيار المنتج حتى انتهاء التركيب.',
+    contactButton: 'اتصل بنا',
+    whatsappButton: 'واتساب',
+    features: 'المميزات',
+    applications: 'مجالات الاستخدام',
+    disclaimer: '* المقاسات والأوزان قيم تقريبية. مساحة تغطية الصندوق محسوبة على التركيب مع الفواصل. في التركيب بدون فواصل يجب زيادة الكمية المطلوبة بنسبة 15%-25%.',
+    visualize: 'شاهده على جدارك',
+    projects: {
+      title: 'استُخدم في هذه المشاريع',
+      otherColors: 'لا يوجد لدينا بعد مشروع مرجعي باللون {color}. مشاريع استُخدم فيها هذا المنتج بألوان أخرى:',
+      viewAll: 'عرض جميع المشاريع',
+    },
+  },
+  productSlider: {
+    height: 'الارتفاع',
+    length: 'الطول',
+    details: 'التفاصيل',
+  },
+  gallery: {
+    title: 'معرض الصور',
+    intro: 'من الفلل إلى ردهات الفنادق، تعرّف على المنتجات والألوان المستخدمة في مشاريعنا المنجزة. افتح أي مشروع لمشاهدة جميع صوره.',
+    filterLabel: 'التصفية حسب الفئة',
+    all: 'الكل',
+    empty: 'لا توجد مشاريع في هذه الفئة بعد.',
+    photos: '{count} صور',
+    materials: 'المنتجات المستخدمة',
+    backToGallery: 'جميع المشاريع',
+    lightbox: {
+      label: 'عارض الصور',
+      open: 'تكبير الصورة: {title}',
+      close: 'إغلاق',
+      previous: 'الصورة السابقة',
+      next: 'الصورة التالية',
+      counter: '{current} / {total}',
+    },
+    moreTitle: 'هل تحتاج إلى مزيد من المعلومات؟',
+    moreText: 'تواصل معنا للحصول على معلومات مفصلة عن منتجاتنا وخدماتنا.',
+    call: 'اتصل الآن',
+    whatsapp: 'واتساب',
+  },
+  visualizer: {
+    title: 'محاكاة الجدار',
+    intro: 'حمّل صورة لمنزلك أو مساحتك، وحدّد الجدار، وشاهد المنتج واللون اللذين تختارهما على جدارك.',
+    privacy: 'تتم معالجة صورتك على جهازك ولا تُرفع أبداً إلى أي خادم.',
+    upload: 'اختر صورة',
+    uploadHint: 'أفضل نتيجة تأتي من صورة ملتقطة مقابل الجدار في ضوء النهار.',
+    change: 'اختر صورة أخرى',
+    error: 'تعذر فتح الصورة. يرجى تجربة ملف JPG أو PNG.',
+    canvasLabel: 'معاينة الجدار',
+    markCorners: 'المس زوايا الجدار بالترتيب: أعلى اليسار، أعلى اليمين، أسفل اليمين، أسفل اليسار ({count}/4).',
+    adjustCorners: 'اسحب الزوايا لتطابق الجدار تماماً.',
+    resetCorners: 'تحديد الزوايا من جديد',
+    product: 'المنتج',
+    color: 'اللون',
+    grout: 'لون الفواصل',
+    grouts: {
+      original: 'كما في الصورة',
+      white: 'أبيض',
+      grey: 'رمادي',
+      anthracite: 'أنثراسيت',
+      beige: 'بيج',
+    },
+    wallWidth: 'عرض الجدار (م)',
+    wallHeight: 'ارتفاع الجدار (م)',
+    download: 'تنزيل',
+    share: 'مشاركة',
+    shareText: 'كيف سيبدو {product} {color} على جداري؟',
+    viewProduct: 'تفاصيل المنتج',
+    disclaimer: 'المعاينة تقريبية؛ قد تختلف الألوان حسب الشاشة والإضاءة.',
+  },
+  contact: {
+    title: 'اتصل بنا',
+    intro: 'تواصل معنا بخصوص مشاريعك، ويسعدنا أن نقدم لك الحلول الأنسب.',
+    formTitle: 'تواصل معنا',
+    success: 'تم إرسال رسالتك بنجاح! سنعود إليك في أقرب وقت ممكن.',
+    error: 'حدث خطأ. يرجى المحاولة مرة أخرى.',
+    name: 'الاسم الكامل *',
+    email: 'البريد الإلكتروني *',
+    phone: 'الهاتف',
+    subject: 'الموضوع *',
+    selectSubject: 'اختر الموضوع',
+    subjects: {
+      'kultur-tasi': 'الحجر الثقافي',
+      'kultur-tugla': 'الطوب الثقافي',
+      'fiyat-teklifi': 'عرض سعر',
+      'teknik-bilgi': 'معلومات فنية',
+      'diger': 'أخرى',
+    },
+    message: 'الرسالة *',
+    messagePlaceholder: 'اكتب تفاصيل مشروعك هنا...',
+    sending: 'جارٍ الإرسال...',
+    send: 'إرسال الرسالة',
+    infoTitle: 'معلومات الاتصال',
+    address: 'العنوان',
+    city: 'Çatalca / إسطنبول',
+    country: 'تركيا',
+    phoneLabel: 'الهاتف',
+    phoneDisplay: '+90 (532) 382 01 97',
+    emailLabel: 'البريد الإلكتروني',
+    location: 'الموقع',
+    mapTitle: 'موقع Monopol Stone في Çatalca',
+    mapLoading: 'جارٍ تحميل الخريطة...',
+  },
+  quote: {
+    title: 'طلب عرض سعر',
+    intro: 'راجع المنتجات والألوان في سلتك، واترك بيانات الاتصال الخاصة بك، وسنعد لك عرض سعر برقم مرجعي.',
+  },
+  search: {
+    title: 'البحث عن المنتجات',
+    intro: 'ابحث في نماذج الحجر الثقافي والطوب الثقافي بالاسم أو الرمز أو اللون، ثم صفِّ النتائج حسب نوع المنتج واللون والسماكة ومجال الاستخدام.',
+    metaTitle: 'البحث عن المنتجات | Monopol Stone',
+    metaTitleQuery: 'نتائج البحث عن "{query}" | Monopol Stone',
+    placeholder: 'ابحث عن منتج أو لون أو رمز...',
+    submit: 'بحث',
+    filters: 'عوامل التصفية',
+    clearFilters: 'مسح عوامل التصفية',
+    facets: {
+      series: 'نوع المنتج',
+      color: 'عائلة اللون',
+      thickness: 'السماكة',
+      application: 'مجال الاستخدام',
+    },
+    product: 'منتج',
+    page: 'صفحة',
+    count: '{total} نتيجة لـ "{query}"',
+    countAll: '{total} منتج',
+    noResults: 'لم يتم العثور على نتائج',
+    noResultsFor: 'لم يتم العثور على نتائج لـ "{query}"',
+    noResultsHint: 'جرّب كلمة أخرى أو أزل بعض عوامل التصفية.',
+    keyboardHint: 'استخدم ↑ ↓ للتنقل بين النتائج و Enter لفتح النتيجة',
+    pages: {
+      products: {
+        title: 'المنتجات',
+        description: 'تصفح جميع منتجات الحجر الثقافي والطوب الثقافي',
+        keywords: 'كتالوج قائمة المنتجات',
+      },
+      stones: {
+        title: 'الأحجار الثقافية',
+        description: 'جميع نماذج سلسلة الحجر الثقافي',
+        keywords: 'تكسية جدران حجرية',
+      },
+      bricks: {
+        title: 'الطوب الثقافي',
+        description: 'جميع نماذج سلسلة الطوب الثقافي',
+        keywords: 'تكسية جدران بالطوب',
+      },
+      gallery: {
+        title: 'المعرض',
+        description: 'صور التطبيقات والمشاريع',
+        keywords: 'مشروع مرجع صور',
+      },
+      differences: {
+        title: 'ما يميزنا',
+        description: 'ما يميز منتجات Monopol Stone',
+        keywords: 'جودة مزايا',
+      },
+      professionals: {
+        title: 'للمحترفين',
+        description: 'معلومات للمهندسين المعماريين والمنفذين والموزعين',
+        keywords: 'مهندس معماري موزع منفذ فني',
+      },
+      quote: {
+        title: 'طلب عرض سعر',
+        description: 'اختر المنتجات والألوان واطلب عرض سعر',
+        keywords: 'سعر عرض سلة',
+      },
+      contact: {
+        title: 'اتصل بنا',
+        description: 'تواصل معنا',
+        keywords: 'عنوان هاتف بريد إلكتروني',
+      },
+    },
+  },
+  differences: {
+    title: 'ما يميزنا',
+  },
+  professionals: {
+    title: 'للمحترفين',
+  },
+  notFound: {
+    title: 'الصفحة غير موجودة',
+    text: 'ربما تم نقل الصفحة التي تبحث عنها أو حذفها.',
+    home: 'العودة إلى الرئيسية',
+    products: 'تصفح المنتجات',
+  },
+  addToQuote: {
+    title: 'أضف إلى سلة عرض السعر',
+    quantity: 'الكمية (م²)',
+    add: 'أضف إلى السلة',
+    added: 'تمت إضافته إلى سلتك.',
+    full: 'سلة عرض السعر ممتلئة. يرجى إرسالها أولاً.',
+    goToBasket: 'الذهاب إلى سلة عرض السعر',
+  },
+  quoteBasket: {
+    basket: 'سلة عرض السعر',
+    empty: 'سلة عرض السعر فارغة. اختر لوناً وأدخل المساحة بالمتر المربع في أي صفحة منتج لإضافته.',
+    browse: 'تصفح المنتجات',
+    product: 'المنتج',
+    color: 'اللون',
+    quantity: 'الكمية (م²)',
+    corner: 'الزوايا (م)',
+    remove: 'إزالة',
+    total: 'المساحة الإجمالية',
+    contact: 'بيانات الاتصال',
+    name: 'الاسم الكامل *',
+    email: 'البريد الإلكتروني *',
+    phone: 'الهاتف *',
+    company: 'الشركة',
+    city: 'المدينة',
+    message: 'ملاحظات المشروع',
+    submit: 'اطلب عرض سعر',
+    submitting: 'جارٍ الإرسال...',
+    successTitle: 'تم استلام طلب عرض السعر!',
+    successText: 'رقمك المرجعي أدناه. سنتواصل معك بالأسعار باستخدام هذا الرقم.',
+    reference: 'الرقم المرجعي',
+    error: 'تعذر إرسال طلب عرض السعر. يرجى المحاولة مرة أخرى.',
+    itemError: 'بعض المنتجات في سلتك غير صالحة. يرجى التحقق من الكميات.',
+  },
+  calculator: {
+    title: 'حاسبة المواد',
+    intro: 'أدخل مقاسات جدرانك وسنقدّر عدد الصناديق وقطع الزوايا وملاط الفواصل واللاصق الذي تحتاجه.',
+    walls: 'الجدران',
+    wall: 'جدار',
+    openings: 'فتحات النوافذ / الأبواب',
+    opening: 'فتحة',
+    width: 'العرض (م)',
+    height: 'الارتفاع (م)',
+    count: 'العدد',
+    addWall: '+ إضافة جدار',
+    addOpening: '+ إضافة فتحة',
+    remove: 'إزالة',
+    corners: 'طول الزوايا الخارجية (م)',
+    waste: 'نسبة الهدر (%)',
+    installation: 'طريقة التركيب',
+    stacked: 'تراص جاف',
+    jointed: 'بفواصل',
+    netArea: 'المساحة الصافية',
+    flatBoxes: 'القطع المسطحة',
+    cornerBoxes: 'قطع الزوايا',
+    mortar: 'ملاط الفواصل',
+    adhesive: 'اللاصق',
+    weight: 'الوزن الإجمالي',
+    box: 'صناديق',
+    requestQuote: 'اطلب عرض سعر بهذا التقدير',
+    copy: 'نسخ الملخص',
+    copied: 'تم النسخ',
+    disclaimer: '* النتائج تقريبية. يرجى التواصل معنا قبل التركيب لمعرفة الكميات الدقيقة.',
+    summary: {
+      title: 'تقدير المواد',
+      product: 'المنتج',
+      netArea: 'المساحة الصافية للجدران',
+      waste: 'نسبة الهدر',
+      flatBoxes: 'القطع المسطحة',
+      cornerBoxes: 'قطع الزوايا',
+      mortar: 'ملاط الفواصل',
+      adhesive: 'اللاصق',
+      weight: 'الوزن الإجمالي',
+      box: 'صناديق',
+    },
+  },
+  catalogDownload: {
+    title: 'كتالوج المنتجات (PDF باللغة الإنجليزية)',
+    description: 'جميع النماذج وخيارات الألوان والمواصفات الفنية في ملف واحد، يُنشأ من بيانات المنتجات على هذا الموقع.',
+    view: 'عرض الكتالوج',
+    download: 'تنزيل',
+  },
+  specSheetDownload: {
+    button: 'تنزيل البيانات الفنية',
+    hint: 'ورقة بيانات فنية من صفحة واحدة للون {color} (PDF باللغة الإنجليزية)',
+  },
+  // Arabic visitors get the English PDFs for now (getPdfLocale)
+  pdf: {
+    catalog: {
+      title: 'كتالوج المنتجات',
+      subtitle: 'الحجر الثقافي والطوب الثقافي',
+      contents: 'المحتويات',
+      overview: 'مجموعات المنتجات',
+      overviewText: 'تُستخدم منتجات الحجر الثقافي والطوب الثقافي من Monopol Stone لتكسية الجدران في الأماكن الداخلية والخارجية. تظهر خيارات الألوان والبيانات الفنية لكل منتج على صفحتين متقابلتين، وتجد أحدث المعلومات دائماً في صفحات المنتجات على موقعنا.',
+      products: 'منتجات',
+      code: 'رمز المنتج',
+      features: 'المميزات',
+      applications: 'مجالات الاستخدام',
+      colors: 'خيارات الألوان',
+      specs: 'المواصفات الفنية',
+      colorNote: 'قد تختلف درجات الألوان في الطباعة وبسبب ملمس الحجر الطبيعي.',
+      contact: 'اتصل بنا',
+      contactText: 'تواصل معنا للحصول على العينات وعروض الأسعار ودعم التركيب.',
+    },
+    specSheet: {
+      title: 'ورقة البيانات الفنية',
+      code: 'رمز المنتج',
+      color: 'اللون',
+      specs: 'المواصفات الفنية',
+      features: 'المميزات',
+      applications: 'مجالات الاستخدام',
+      contactText: 'تواصل معنا للحصول على العينات وعروض الأسعار ودعم التركيب.',
+      date: 'التاريخ',
+      note: 'القيم متوسطة، وقد تختلف درجات الألوان بسبب ملمس الحجر الطبيعي.',
+    },
+  },
+};
+
+export default ar;
@@ -0,0 +1,395 @@
+import type { Messages } from './tr';
+
+const de: Messages = {
+  meta: {
+    title: 'Monopol Stone - Kunststein & Wandverkleidung',
+    description: 'Hochwertige Kunststein- und dekorative Wandverkleidungsprodukte. Professionelle Lösungen für Büros, Cafés und Schulen.',
+    keywords: 'Riemchen, Klinkerriemchen Wandverkleidung, Kulturstein, dekorative Steinverkleidung, Natursteinverkleidung, Steinwand, Verblender, Fassadenverkleidung Villa, Steinwand innen, Kulturstein Preise, Wandverblender, Fassadenverkleidung außen, Kunststeinverkleidung, Bürodekoration, Cafédekoration, Schuldekoration, Architektur, Restaurierung',
+    ogTitle: 'Monopol Stone - Riemchen, Kulturstein und dekorative Wandverkleidung',
+    ogDescription: 'Riemchen, dekorativer Kulturstein und Natursteinverkleidung. Professionelle Lösungen für Büro-, Café- und Schuldekoration.',
+  },
+  routes: {
+    products: 'produkte',
+    product: 'produkt',
+    gallery: 'galerie',
+    contact: 'kontakt',
+    quote: 'angebot',
+    search: 'suche',
+    differences: 'unterschiede',
+    professionals: 'fuer-profis',
+    visualizer: 'wand-visualisierung',
+    series: {
+      'kultur-tasi': 'kultursteine',
+      'kultur-tuglasi': 'kulturziegel',
+    },
+  },
+  nav: {
+    home: 'Startseite',
+    products: 'Produkte',
+    gallery: 'Galerie',
+    contact: 'Kontakt',
+  },
+  menu: {
+    home: 'STARTSEITE',
+    products: 'PRODUKTE',
+    gallery: 'GALERIE',
+    contact: 'KONTAKT',
+    toggle: 'Navigationsmenü umschalten',
+    close: 'Menü schließen',
+  },
+  language: {
+    label: 'Sprache',
+  },
+  breadcrumb: {
+    label: 'Brotkrümelnavigation',
+    home: 'Startseite',
+    products: 'Produkte',
+    gallery: 'Galerie',
+    differences: 'Unsere Unterschiede',
+    professionals: 'Für Profis',
+    contact: 'Kontakt',
+    quote: 'Angebot anfordern',
+    search: 'Suche',
+    visualizer: 'Wand-Visualisierung',
+  },
+  footer: {
+    about: 'Monopol Stone bewahrt den ursprünglichen Charakter von Naturstein und interpretiert ihn in neuen Formen und Farben.',
+    copyright: '© 2024 Monopol Stone. Alle Rechte vorbehalten.',
+    products: 'Produkte',
+    gallery: 'Galerie',
+    projects: 'Abgeschlossene Projekte',
+    applications: 'Anwendungen',
+    showroom: 'Ausstellungsraum',
+    contact: 'Kontakt',
+    location: 'Istanbul, Türkei',
+  },
+  hero: {
+    text: 'Mit unseren Natur- und Kunststeinlösungen verbinden wir Ästhetik und Langlebigkeit in Ihren Räumen. Mit der Qualität von Monopol Stone bieten wir Eleganz und Stärke für jedes Projekt.',
+    cta: 'PRODUKTE ENTDECKEN',
+    loading: 'Bilder werden geladen... ({loaded}/{total})',
+  },
+  floating: {
+    whatsappMessage: 'Hallo! Ich möchte Informationen zu den Produkten von Monopol Stone erhalten.',
+  },
+  home: {
+    productsTitle: 'Unsere Produkte',
+    differencesTitle: 'Unsere Unterschiede',
+    features: {
+      heat: { title: 'HITZEBESTÄNDIG', description: 'Beständig gegen äußere Einflüsse.' },
+      cold: { title: 'KÄLTEBESTÄNDIG', description: 'Beständig gegen äußere Einflüsse.' },
+      pattern: { title: 'NATÜRLICHE STRUKTUR', description: 'Von der Natur inspiriert.' },
+      eco: { title: 'UMWELTFREUNDLICH', description: 'Umweltbewusste, nachhaltige Produktion.' },
+      healthy: { title: 'GESUND', description: 'Enthält keine krebserregenden Stoffe.' },
+      delivery: { title: 'PÜNKTLICHE LIEFERUNG', description: 'Wir liefern termingerecht.' },
+      installation: { title: 'EINFACHE VERLEGUNG', description: 'Einfache und praktische Anwendung.' },
+    },
+    aboutTitle: 'Die Geschichte von Monopol Stone',
+    aboutText: 'Monopol Stone wird mit Leidenschaft hergestellt, um Originalprodukte in höchster Qualität anzubieten: Riemchen, dekorativer Kulturstein, Natursteinverkleidung und Wandverkleidung. Mit Lösungen für Villenfassaden, Innenwände, Büros, Cafés und Außenfassaden werten wir Ihre Räume auf.',
+  },
+  products: {
+    title: 'Unsere Produkte',
+  },
+  product: {
+    contactTitle: 'Wie können wir helfen?',
+    contactText: 'Mit mehr als 20 Jahren Erfahrung mit Kulturstein und Kulturziegeln begleiten wir Sie von der Produktauswahl bis zur fertigen Verlegung.',
+    contactButton: 'Kontakt aufnehmen',
+    whatsappButton: 'WhatsApp',
+    features: 'Eigenschaften',
+    applications: 'Anwendungsbereiche',
+    disclaimer: '* Maße und Gewichte sind Näherungswerte. Die Kartonfläche bezieht sich auf die Verlegung mit Fuge. Bei fugenloser Verlegung sollte die Bestellmenge um 15-25 % erhöht werden.',
+    visualize: 'An Ihrer Wand ansehen',
+    projects: {
+      title: 'In diesen Projekten verwendet',
+      otherColors: 'In der Farbe {color} gibt es noch kein Referenzprojekt. Projekte mit diesem Produkt in anderen Farben:',
+      viewAll: 'Alle Projekte ansehen',
+    },
+  },
+  productSlider: {
+    height: 'Höhe',
+    length: 'Länge',
+    details: 'Details',
+  },
+  gallery: {
+    title: 'Bildergalerie',
+    intro: 'Von Villen bis zu Hotellobbys: Sehen Sie, welche Produkte und Farben in unseren abgeschlossenen Projekten verwendet wurden. Öffnen Sie ein Projekt, um alle Fotos zu sehen.',
+    filterLabel: 'Nach Kategorie filtern',
+    all: 'Alle',
+    empty: 'In dieser Kategorie gibt es noch keine Projekte.',
+    photos: '{count} Fotos',
+    materials: 'Verwendete Produkte',
+    backToGallery: 'Alle Projekte',
+    lightbox: {
+      label: 'Fotoansicht',
+      open: 'Foto vergrößern: {title}',
+      close: 'Schließen',
+      previous: 'Vorheriges Foto',
+      next: 'Nächstes Foto',
+      counter: '{current} / {total}',
+    },
+    moreTitle: 'Weitere Informationen?',
+    moreText: 'Kontaktieren Sie uns für ausführliche Informationen zu unseren Produkten und Leistungen.',
+    call: 'Jetzt anrufen',
+    whatsapp: 'WhatsApp',
+  },
+  visualizer: {
+    title: 'Wand-Visualisierung',
+    intro: 'Laden Sie ein Foto Ihres Hauses oder Raums hoch, markieren Sie die Wand und sehen Sie das gewählte Produkt in der gewählten Farbe an Ihrer eigenen Wand.',
+    privacy: 'Ihr Foto wird auf Ihrem Gerät verarbeitet und nie auf einen Server hochgeladen.',
+    upload: 'Foto auswählen',
+    uploadHint: 'Ein bei Tageslicht frontal zur Wand aufgenommenes Foto liefert das beste Ergebnis.',
+    change: 'Anderes Foto auswählen',
+    error: 'Das Foto konnte nicht geöffnet werden. Bitte versuchen Sie eine JPG- oder PNG-Datei.',
+    canvasLabel: 'Wandvorschau',
+    markCorners: 'Tippen Sie die Ecken der Wand der Reihe nach an: oben links, oben rechts, unten rechts, unten links ({count}/4).',
+    adjustCorners: 'Ziehen Sie die Ecken, bis sie genau auf der Wand sitzen.',
+    resetCorners: 'Ecken neu markieren',
+    product: 'Produkt',
+    color: 'Farbe',
+    grout: 'Fugenfarbe',
+    grouts: {
+      original: 'Wie im Foto',
+      white: 'Weiß',
+      grey: 'Grau',
+      anthracite: 'Anthrazit',
+      beige: 'Beige',
+    },
+    wallWidth: 'Wandbreite (m)',
+    wallHeight: 'Wandhöhe (m)',
+    download: 'Herunterladen',
+    share: 'Teilen',
+    shareText: 'Wie sähe {product} {color} an meiner Wand aus?',
+    viewProduct: 'Produktdetails',
+    disclaimer: 'Die Vorschau ist eine Annäherung; Farben können je nach Bildschirm und Licht abweichen.',
+  },
+  contact: {
+    title: 'Kontakt',
+    intro: 'Sprechen Sie uns zu Ihren Projekten an. Wir bieten Ihnen gerne die passende Lösung.',
+    formTitle: 'Schreiben Sie uns',
+    success: 'Ihre Nachricht wurde erfolgreich gesendet! Wir melden uns so schnell wie möglich.',
+    error: 'Es ist ein Fehler aufgetreten. Bitte versuchen Sie es erneut.',
+    name: 'Vor- und Nachname *',
+    email: 'E-Mail *',
+    phone: 'Telefon',
+    subject: 'Betreff *',
+    selectSubject: 'Betreff auswählen',
+    subjects: {
+      'kultur-tasi': 'Kulturstein',
+      'kultur-tugla': 'Kulturziegel',
+      'fiyat-teklifi': 'Preisangebot',
+      'teknik-bilgi': 'Technische Informationen',
+      'diger': 'Sonstiges',
+    },
+    message: 'Nachricht *',
+    messagePlaceholder: 'Beschreiben Sie hier Ihr Projekt...',
+    sending: 'Wird gesendet...',
+    send: 'Nachricht senden',
+    infoTitle: 'Kontaktdaten',
+    address: 'Adresse',
+    city: 'Çatalca / Istanbul',
+    country: 'Türkei',
+    phoneLabel: 'Telefon',
+    phoneDisplay: '+90 (532) 382 01 97',
+    emailLabel: 'E-Mail',
+    location: 'Standort',
+    mapTitle: 'Standort von Monopol Stone in Çatalca',
+    mapLoading: 'Karte wird geladen...',
+  },
+  quote: {
+    title: 'Angebot anfordern',
+    intro: 'Prüfen Sie die Produkte und Farben in Ihrem Warenkorb, hinterlassen Sie Ihre Kontaktdaten und wir erstellen ein Angebot mit Referenznummer.',
+  },
+  search: {
+    title: 'Produktsuche',
+    intro: 'Suchen Sie Kulturstein- und Kulturziegelmodelle nach Name, Code oder Farbe und filtern Sie nach Produktart, Farbe, Stärke und Einsatzbereich.',
+    metaTitle: 'Produktsuche | Monopol Stone',
+    metaTitleQuery: 'Suchergebnisse für „{query}“ | Monopol Stone',
+    placeholder: 'Produkte, Farben oder Codes suchen...',
+    submit: 'Suchen',
+    filters: 'Filter',
+    clearFilters: 'Filter zurücksetzen',
+    facets: {
+      series: 'Produktart',
+      color: 'Farbfamilie',
+      thickness: 'Stärke',
+      application: 'Einsatzbereich',
+    },
+    product: 'PRODUKT',
+    page: 'SEITE',
+    count: '{total} Ergebnisse für „{query}“',
+    countAll: '{total} Produkte',
+    noResults: 'Keine Ergebnisse gefunden',
+    noResultsFor: 'Keine Ergebnisse für „{query}“ gefunden',
+    noResultsHint: 'Versuchen Sie einen anderen Begriff oder entfernen Sie Filter.',
+    keyboardHint: 'Mit ↑ ↓ durch die Ergebnisse blättern, mit Enter öffnen',
+    pages: {
+      products: {
+        title: 'Produkte',
+        description: 'Alle Kulturstein- und Kulturziegelprodukte ansehen',
+        keywords: 'Katalog Produktliste',
+      },
+      stones: {
+        title: 'Kultursteine',
+        description: 'Alle Modelle der Kulturstein-Serie',
+        keywords: 'Steinwand Wandverkleidung',
+      },
+      bricks: {
+        title: 'Kulturziegel',
+        description: 'Alle Modelle der Kulturziegel-Serie',
+        keywords: 'Riemchen Ziegelwand Wandverkleidung',
+      },
+      gallery: {
+        title: 'Galerie',
+        description: 'Fotos von Anwendungen und Projekten',
+        keywords: 'Projekt Referenz Foto',
+      },
+      differences: {
+        title: 'Unsere Unterschiede',
+        description: 'Was die Produkte von Monopol Stone auszeichnet',
+        keywords: 'Qualität Vorteile',
+      },
+      professionals: {
+        title: 'Für Profis',
+        description: 'Informationen für Architekten, Verarbeiter und Händler',
+        keywords: 'Architekt Händler Verarbeiter technisch',
+      },
+      quote: {
+        title: 'Angebot anfordern',
+        description: 'Produkte und Farben wählen und ein Angebot anfordern',
+        keywords: 'Preis Angebot Warenkorb',
+      },
+      contact: {
+        title: 'Kontakt',
+        description: 'Nehmen Sie Kontakt mit uns auf',
+        keywords: 'Adresse Telefon E-Mail',
+      },
+    },
+  },
+  differences: {
+    title: 'Unsere Unterschiede',
+  },
+  professionals: {
+    title: 'Für Profis',
+  },
+  notFound: {
+    title: 'Seite nicht gefunden',
+    text: 'Die gesuchte Seite wurde möglicherweise verschoben oder entfernt.',
+    home: 'Zur Startseite',
+    products: 'Produkte ansehen',
+  },
+  addToQuote: {
+    title: 'Zum Angebotskorb hinzufügen',
+    quantity: 'Menge (m²)',
+    add: 'Hinzufügen',
+    added: 'wurde dem Angebotskorb hinzugefügt.',
+    full: 'Ihr Angebotskorb ist voll. Bitte senden Sie ihn zuerst ab.',
+    goToBasket: 'Zum Angebotskorb',
+  },
+  quoteBasket: {
+    basket: 'Angebotskorb',
+    empty: 'Ihr Angebotskorb ist leer. Wählen Sie auf einer Produktseite eine Farbe und geben Sie die m² ein, um das Produkt hinzuzufügen.',
+    browse: 'Produkte ansehen',
+    product: 'Produkt',
+    color: 'Farbe',
+    quantity: 'Menge (m²)',
+    corner: 'Ecke (m)',
+    remove: 'Entfernen',
+    total: 'Gesamtfläche',
+    contact: 'Kontaktdaten',
+    name: 'Vor- und Nachname *',
+    email: 'E-Mail *',
+    phone: 'Telefon *',
+    company: 'Firma',
+    city: 'Stadt',
+    message: 'Hinweise zum Projekt',
+    submit: 'Angebot anfordern',
+    submitting: 'Wird gesendet...',
+    successTitle: 'Ihre Angebotsanfrage ist eingegangen!',
+    successText: 'Ihre Referenznummer finden Sie unten. Sobald die Preise feststehen, melden wir uns unter dieser Nummer bei Ihnen.',
+    reference: 'Referenznr.',
+    error: 'Ihre Angebotsanfrage konnte nicht gesendet werden. Bitte versuchen Sie es erneut.',
+    itemError: 'Einige Produkte im Korb sind ungültig. Bitte prüfen Sie die Mengen.',
+  },
+  calculator: {
+    title: 'Materialrechner',
+    intro: 'Geben Sie Ihre Wandmaße ein und wir berechnen die benötigten Kartons, Ecksteine, Fugenmörtel und Kleber.',
+    walls: 'Wände',
+    wall: 'Wand',
+    openings: 'Fenster- / Türöffnungen',
+    opening: 'Öffnung',
+    width: 'Breite (m)',
+    height: 'Höhe (m)',
+    count: 'Anzahl',
+    addWall: '+ Wand hinzufügen',
+    addOpening: '+ Öffnung hinzufügen',
+    remove: 'Entfernen',
+    corners: 'Länge der Außenecken (m)',
+    waste: 'Verschnitt (%)',
+    installation: 'Verlegeart',
+    stacked: 'Trocken gestapelt',
+    jointed: 'Verfugt',
+    netArea: 'Nettofläche',
+    flatBoxes: 'Flächensteine',
+    cornerBoxes: 'Ecksteine',
+    mortar: 'Fugenmörtel',
+    adhesive: 'Kleber',
+    weight: 'Gesamtgewicht',
+    box: 'Kartons',
+    requestQuote: 'Angebot mit dieser Berechnung anfordern',
+    copy: 'Zusammenfassung kopieren',
+    copied: 'Kopiert',
+    disclaimer: '* Die Ergebnisse sind Richtwerte. Bitte sprechen Sie vor der Verlegung mit uns über die genauen Mengen.',
+    summary: {
+      title: 'Materialberechnung',
+      product: 'Produkt',
+      netArea: 'Netto-Wandfläche',
+      waste: 'Verschnitt',
+      flatBoxes: 'Flächensteine',
+      cornerBoxes: 'Ecksteine',
+      mortar: 'Fugenmörtel',
+      adhesive: 'Kleber',
+      weight: 'Gesamtgewicht',
+      box: 'Kartons',
+    },
+  },
+  catalogDownload: {
+    title: 'Produktkatalog (PDF)',
+    description: 'Alle Modelle, Farbvarianten und technischen Daten in einer Datei, erstellt aus den Produktdaten dieser Website.',
+    view: 'Katalog ansehen',
+    download: 'Herunterladen',
+  },
+  specSheetDownload: {
+    button: 'Datenblatt herunterladen',
+    hint: 'Einseitiges technisches Datenblatt für die Farbe {color} (PDF)',
+  },
+  pdf: {
+    catalog: {
+      title: 'Produktkatalog',
+      subtitle: 'Kulturstein und Kulturziegel',
+      contents: 'Inhalt',
+      overview: 'Produktgruppen',
+      overviewText: 'Kulturstein und Kulturziegel von Monopol Stone werden als Wandverkleidung im Innen- und Außenbereich eingesetzt. Farbvarianten und technische Daten jedes Produkts stehen auf gegenüberliegenden Seiten; aktuelle Angaben finden Sie auf den Produktseiten unserer Website.',
+      products: 'Produkte',
+      code: 'Produktcode',
+      features: 'Eigenschaften',
+      applications: 'Einsatzbereiche',
+      colors: 'Farbvarianten',
+      specs: 'Technische Daten',
+      colorNote: 'Farbtöne können im Druck und aufgrund der Natursteinstruktur abweichen.',
+      contact: 'Kontakt',
+      contactText: 'Kontaktieren Sie uns für Muster, Angebote und Unterstützung bei der Verlegung.',
+    },
+    specSheet: {
+      title: 'Technisches Datenblatt',
+      code: 'Produktcode',
+      color: 'Farbe',
+      specs: 'Technische Daten',
+      features: 'Eigenschaften',
+      applications: 'Einsatzbereiche',
+      contactText: 'Kontaktieren Sie uns für Muster, Angebote und Unterstützung bei der Verlegung.',
+      date: 'Datum',
+      note: 'Durchschnittswerte; Farbtöne können aufgrund der Natursteinstruktur abweichen.',
+    },
+  },
+};
+
+export default de;
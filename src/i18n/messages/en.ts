@@ -0,0 +1,395 @@
+import type { Messages } from './tr';
+
+const en: Messages = {
+  meta: {
+    title: 'Monopol Stone - Artificial Stone & Wall Cladding',
+    description: 'High-quality artificial stone and decorative wall cladding products. Professional solutions for offices, cafes, and schools.',
+    keywords: 'brick cladding, brick wall cladding, decorative culture stone, wooden wall panels, natural stone cladding, stone wall cladding, decorative brick, villa facade stone cladding, interior stone wall cladding, culture stone prices, decorative stone models, exterior facade cladding, artificial stone cladding, office decoration, cafe decoration, school decoration, architecture, architectural restoration',
+    ogTitle: 'Monopol Stone - Brick Cladding, Decorative Culture Stone and Wooden Wall Panels',
+    ogDescription: 'Brick cladding, decorative culture stone, wooden wall panels and natural stone cladding products. Professional solutions for office, cafe and school decoration.',
+  },
+  routes: {
+    products: 'products',
+    product: 'product',
+    gallery: 'gallery',
+    contact: 'contact',
+    quote: 'quote',
+    search: 'search',
+    differences: 'differences',
+    professionals: 'for-professionals',
+    visualizer: 'wall-visualizer',
+    series: {
+      'kultur-tasi': 'culture-stones',
+      'kultur-tuglasi': 'culture-bricks',
+    },
+  },
+  nav: {
+    home: 'Home',
+    products: 'Products',
+    gallery: 'Gallery',
+    contact: 'Contact',
+  },
+  menu: {
+    home: 'HOME',
+    products: 'PRODUCTS',
+    gallery: 'GALLERY',
+    contact: 'CONTACT US',
+    toggle: 'Toggle navigation menu',
+    close: 'Close menu',
+  },
+  language: {
+    label: 'Language',
+  },
+  breadcrumb: {
+    label: 'Breadcrumb',
+    home: 'Home',
+    products: 'Products',
+    gallery: 'Gallery',
+    differences: 'Our Differences',
+    professionals: 'For Professionals',
+    contact: 'Contact',
+    quote: 'Request a Quote',
+    search: 'Search',
+    visualizer: 'Wall Visualizer',
+  },
+  footer: {
+    about: 'Monopol Stone preserves the authentic spirit of natural stone; produced with the desire to give it a new interpretation in different shapes and colors.',
+    copyright: '© 2024 Monopol Stone. All rights reserved.',
+    products: 'Products',
+    gallery: 'Gallery',
+    projects: 'Completed Projects',
+    applications: 'Applications',
+    showroom: 'Showroom',
+    contact: 'Contact Us',
+    location: 'Istanbul, Turkey',
+  },
+  hero: {
+    text: 'We enhance your spaces with aesthetic and durability through our natural stone and artificial stone solutions. With Monopol Stone quality, we offer elegance and strength tailored to every project.',
+    cta: 'EXPLORE OUR PRODUCTS',
+    loading: 'Loading images... ({loaded}/{total})',
+  },
+  floating: {
+    whatsappMessage: 'Hello! I would like to get information about Monopol Stone products.',
+  },
+  home: {
+    productsTitle: 'Our Products',
+    differencesTitle: 'Our Differences',
+    features: {
+      heat: { title: 'HEAT RESISTANCE', description: 'Resistant to external factors.' },
+      cold: { title: 'COLD RESISTANCE', description: 'Resistant to external factors.' },
+      pattern: { title: 'NATURAL PATTERN', description: 'Inspired by nature.' },
+      eco: { title: 'ECO-FRIENDLY', description: 'Environmentally conscious, sustainable production.' },
+      healthy: { title: 'HEALTHY', description: 'No carcinogenic substances.' },
+      delivery: { title: 'ON-TIME DELIVERY', description: 'We ensure timely delivery.' },
+      installation: { title: 'EASY INSTALLATION', description: 'Easy and practical application.' },
+    },
+    aboutTitle: 'Monopol Stone History',
+    aboutText: 'Monopol Stone is passionately produced to offer superior quality original products in brick cladding, decorative culture stone, wooden wall panels, natural stone cladding and wall cladding. We add value to your spaces with our villa facade cladding, interior wall cladding, office decoration, cafe decoration and exterior facade cladding solutions.',
+  },
+  products: {
+    title: 'Our Products',
+  },
+  product: {
+    contactTitle: 'How can we help?',
+    contactText: 'With more than 20 years of experience in culture stone and culture brick, we are with you throughout the whole process, from choosing the product to finishing the installation.',
+    contactButton: 'Contact Us',
+    whatsappButton: 'WhatsApp',
+    features: 'Features',
+    applications: 'Application Areas',
+    disclaimer: '* Dimensions and weights are approximate values. Box coverage is based on jointed application. For stacked application, order quantity should be increased by 15%-25%.',
+    visualize: 'See it on your wall',
+    projects: {
+      title: 'Used in These Projects',
+      otherColors: 'We have no reference project in {color} yet. Projects with this product in other colors:',
+      viewAll: 'See all projects',
+    },
+  },
+  productSlider: {
+    height: 'Height',
+    length: 'Length',
+    details: 'Details',
+  },
+  gallery: {
+    title: 'Visual Gallery',
+    intro: 'From villas to hotel lobbies, see which products and colors were used in our completed projects. Open a project to see all of its photos.',
+    filterLabel: 'Filter by category',
+    all: 'All',
+    empty: 'No projects in this category yet.',
+    photos: '{count} photos',
+    materials: 'Products Used',
+    backToGallery: 'All Projects',
+    lightbox: {
+      label: 'Photo viewer',
+      open: 'Enlarge photo: {title}',
+      close: 'Close',
+      previous: 'Previous photo',
+      next: 'Next photo',
+      counter: '{current} / {total}',
+    },
+    moreTitle: 'Need More Information?',
+    moreText: 'Contact us for detailed information about our products and services.',
+    call: 'Call Now',
+    whatsapp: 'WhatsApp',
+  },
+  visualizer: {
+    title: 'Wall Visualizer',
+    intro: 'Upload a photo of your house or space, mark the wall and see the product and color you choose on your own wall.',
+    privacy: 'Your photo is processed on your device and is never uploaded to a server.',
+    upload: 'Choose a Photo',
+    uploadHint: 'A photo taken facing the wall in daylight gives the best result.',
+    change: 'Choose another photo',
+    error: 'The photo could not be opened. Please try a JPG or PNG file.',
+    canvasLabel: 'Wall preview',
+    markCorners: 'Tap the corners of the wall in order: top left, top right, bottom right, bottom left ({count}/4).',
+    adjustCorners: 'Drag the corners to fit the wall exactly.',
+    resetCorners: 'Mark the corners again',
+    product: 'Product',
+    color: 'Color',
+    grout: 'Grout Color',
+    grouts: {
+      original: 'As in the photo',
+      white: 'White',
+      grey: 'Grey',
+      anthracite: 'Anthracite',
+      beige: 'Beige',
+    },
+    wallWidth: 'Wall width (m)',
+    wallHeight: 'Wall height (m)',
+    download: 'Download',
+    share: 'Share',
+    shareText: 'How would {product} {color} look on my wall?',
+    viewProduct: 'Product details',
+    disclaimer: 'The preview is an approximation; colors may vary with your screen and lighting.',
+  },
+  contact: {
+    title: 'Contact Us',
+    intro: 'Get in touch with us for your projects. We are happy to offer you the most suitable solutions.',
+    formTitle: 'Get In Touch',
+    success: 'Your message has been sent successfully! We will get back to you as soon as possible.',
+    error: 'An error occurred. Please try again.',
+    name: 'Full Name *',
+    email: 'Email *',
+    phone: 'Phone',
+    subject: 'Subject *',
+    selectSubject: 'Select a subject',
+    subjects: {
+      'kultur-tasi': 'Cultured Stone',
+      'kultur-tugla': 'Cultured Brick',
+      'fiyat-teklifi': 'Price Quote',
+      'teknik-bilgi': 'Technical Information',
+      'diger': 'Other',
+    },
+    message: 'Message *',
+    messagePlaceholder: 'Write details about your project here...',
+    sending: 'Sending...',
+    send: 'Send Message',
+    infoTitle: 'Contact Information',
+    address: 'Address',
+    city: 'Çatalca / Istanbul',
+    country: 'Turkey',
+    phoneLabel: 'Phone',
+    phoneDisplay: '+90 (532) 382 01 97',
+    emailLabel: 'Email',
+    location: 'Location',
+    mapTitle: 'Monopol Stone location in Çatalca',
+    mapLoading: 'Loading map...',
+  },
+  quote: {
+    title: 'Request a Quote',
+    intro: 'Review the products and colors in your basket, leave your contact details and we will prepare a quote with a reference number.',
+  },
+  search: {
+    title: 'Product Search',
+    intro: 'Search culture stone and culture brick models by name, code or color, then narrow the results by product type, color, thickness and application area.',
+    metaTitle: 'Product Search | Monopol Stone',
+    metaTitleQuery: 'Search results for "{query}" | Monopol Stone',
+    placeholder: 'Search products, colors or codes...',
+    submit: 'Search',
+    filters: 'Filters',
+    clearFilters: 'Clear filters',
+    facets: {
+      series: 'Product Type',
+      color: 'Color Family',
+      thickness: 'Thickness',
+      application: 'Application Area',
+    },
+    product: 'PRODUCT',
+    page: 'PAGE',
+    count: '{total} results for "{query}"',
+    countAll: '{total} products',
+    noResults: 'No results found',
+    noResultsFor: 'No results found for "{query}"',
+    noResultsHint: 'Try another word or remove some filters.',
+    keyboardHint: 'Use ↑ ↓ to move through the results and Enter to open one',
+    pages: {
+      products: {
+        title: 'Products',
+        description: 'Browse all culture stone and culture brick products',
+        keywords: 'catalog product list',
+      },
+      stones: {
+        title: 'Culture Stones',
+        description: 'All models of the culture stone series',
+        keywords: 'stone wall cladding',
+      },
+      bricks: {
+        title: 'Culture Bricks',
+        description: 'All models of the culture brick series',
+        keywords: 'brick wall cladding',
+      },
+      gallery: {
+        title: 'Gallery',
+        description: 'Installation and project photos',
+        keywords: 'project reference photo',
+      },
+      differences: {
+        title: 'Our Differences',
+        description: 'What sets Monopol Stone products apart',
+        keywords: 'quality advantage',
+      },
+      professionals: {
+        title: 'For Professionals',
+        description: 'Information for architects, applicators and dealers',
+        keywords: 'architect dealer applicator technical',
+      },
+      quote: {
+        title: 'Request a Quote',
+        description: 'Pick products and colors to request a quote',
+        keywords: 'price quote basket',
+      },
+      contact: {
+        title: 'Contact',
+        description: 'Get in touch with us',
+        keywords: 'address phone email',
+      },
+    },
+  },
+  differences: {
+    title: 'Our Differences',
+  },
+  professionals: {
+    title: 'For Professionals',
+  },
+  notFound: {
+    title: 'Page not found',
+    text: 'The page you are looking for may have been moved or removed.',
+    home: 'Back to Home',
+    products: 'Browse Products',
+  },
+  addToQuote: {
+    title: 'Add to Quote Basket',
+    quantity: 'Quantity (m²)',
+    add: 'Add to Basket',
+    added: 'added to your basket.',
+    full: 'Your quote basket is full. Please submit it first.',
+    goToBasket: 'Go to Quote Basket',
+  },
+  quoteBasket: {
+    basket: 'Quote Basket',
+    empty: 'Your quote basket is empty. Pick a color and enter m² on any product page to add it.',
+    browse: 'Browse Products',
+    product: 'Product',
+    color: 'Color',
+    quantity: 'Quantity (m²)',
+    corner: 'Corner (m)',
+    remove: 'Remove',
+    total: 'Total Area',
+    contact: 'Contact Details',
+    name: 'Full Name *',
+    email: 'Email *',
+    phone: 'Phone *',
+    company: 'Company',
+    city: 'City',
+    message: 'Project Notes',
+    submit: 'Request Quote',
+    submitting: 'Sending...',
+    successTitle: 'Quote Request Received!',
+    successText: 'Your reference number is below. We will get back to you with pricing using this number.',
+    reference: 'Reference No',
+    error: 'Failed to send your quote request. Please try again.',
+    itemError: 'Some items in your basket are invalid. Please check the quantities.',
+  },
+  calculator: {
+    title: 'Material Calculator',
+    intro: 'Enter your wall dimensions and we will estimate the boxes, corner pieces, joint mortar and adhesive you need.',
+    walls: 'Walls',
+    wall: 'Wall',
+    openings: 'Window / Door Openings',
+    opening: 'Opening',
+    width: 'Width (m)',
+    height: 'Height (m)',
+    count: 'Qty',
+    addWall: '+ Add Wall',
+    addOpening: '+ Add Opening',
+    remove: 'Remove',
+    corners: 'External Corner Length (m)',
+    waste: 'Waste Allowance (%)',
+    installation: 'Installation',
+    stacked: 'Dry stacked',
+    jointed: 'Jointed',
+    netArea: 'Net Area',
+    flatBoxes: 'Flat Pieces',
+    cornerBoxes: 'Corner Pieces',
+    mortar: 'Joint Mortar',
+    adhesive: 'Adhesive',
+    weight: 'Total Weight',
+    box: 'boxes',
+    requestQuote: 'Request a Quote with This Estimate',
+    copy: 'Copy Summary',
+    copied: 'Copied',
+    disclaimer: '* Results are approximate. Please contact us before installation for exact quantities.',
+    summary: {
+      title: 'Material estimate',
+      product: 'Product',
+      netArea: 'Net wall area',
+      waste: 'Waste allowance',
+      flatBoxes: 'Flat pieces',
+      cornerBoxes: 'Corner pieces',
+      mortar: 'Joint mortar',
+      adhesive: 'Adhesive',
+      weight: 'Total weight',
+      box: 'boxes',
+    },
+  },
+  catalogDownload: {
+    title: 'Product Catalog (PDF)',
+    description: 'All models, color options and technical specifications in one file, generated from the product data on this website.',
+    view: 'View Catalog',
+    download: 'Download',
+  },
+  specSheetDownload: {
+    button: 'Download Spec Sheet',
+    hint: 'One-page technical data sheet for {color} (PDF)',
+  },
+  pdf: {
+    catalog: {
+      title: 'Product Catalog',
+      subtitle: 'Culture Stone and Culture Brick',
+      contents: 'Contents',
+      overview: 'Product Groups',
+      overviewText: 'Monopol Stone culture stone and culture brick products are used as wall cladding indoors and outdoors. Each product has its color options and technical data on facing pages; the product pages on our website always have the latest details.',
+      products: 'products',
+      code: 'Product Code',
+      features: 'Features',
+      applications: 'Applications',
+      colors: 'Color Options',
+      specs: 'Technical Specifications',
+      colorNote: 'Color tones may vary in print and due to the natural stone texture.',
+      contact: 'Contact',
+      contactText: 'Get in touch for samples, quotes and installation support.',
+    },
+    specSheet: {
+      title: 'Technical Data Sheet',
+      code: 'Product Code',
+      color: 'Color',
+      specs: 'Technical Specifications',
+      features: 'Features',
+      applications: 'Applications',
+      contactText: 'Get in touch for samples, quotes and installation support.',
+      date: 'Date',
+      note: 'Values are averages; color tones may vary due to the natural stone texture.',
+    },
+  },
+};
+
+export default en;
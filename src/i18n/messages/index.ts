@@ -0,0 +1,9 @@
+import type { Locale } from '../config';
+import ar from './ar';
+import de from './de';
+import en from './en';
+import tr, { type Messages } from './tr';
+
+export type { Messages };
+
+export const MESSAGES: Record<Locale, Messages> = { tr, en, de, ar };
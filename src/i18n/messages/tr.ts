@@ -0,0 +1,399 @@
+// Turkish is the source catalog: its shape defines the Messages type that
+// every other language has to match.
+
+const tr = {
+  meta: {
+    title: 'Monopol Stone - Tuğla Kaplama, Dekoratif Kültür Taşı, Ahşap Duvar Panelleri, Doğal Taş Kaplama',
+    description: 'Tuğla kaplama, dekoratif kültür taşı, ahşap duvar panelleri, doğal taş kaplama, tas duvar kaplama, dekoratif tuğla modelleri, villa cephe tas kaplama, iç mekan tas duvar kaplama, ofis dekorasyonu, cafe dekorasyonu. m2 fiyatları ile kaliteli ürünler.',
+    keywords: 'tuğla kaplama, tuğla duvar kaplama, dekoratif kültür taşı, ahşap duvar panelleri, doğal taş kaplama, tas duvar kaplama, dekoratif tuğla, villa cephe tas kaplama, iç mekan tas duvar kaplama, tas kaplama m2 fiyatları, kültür taşı fiyatları, dekoratif taş modelleri, dış cephe tas kaplama, ahşap panel fiyatı, tas duvar modelleri, yapay taş kaplama, ofis dekorasyonu, cafe dekorasyonu, okul dekorasyonu, mimarlık, mimari restorasyon',
+    ogTitle: 'Monopol Stone - Tuğla Kaplama, Dekoratif Kültür Taşı ve Ahşap Duvar Panelleri',
+    ogDescription: 'Tuğla kaplama, dekoratif kültür taşı, ahşap duvar panelleri ve doğal taş kaplama ürünleri. Ofis, cafe, okul dekorasyonu için profesyonel çözümler. m2 fiyatları ile uygun fiyatlar.',
+  },
+  // Localized URL segments, see src/i18n/routes.ts
+  routes: {
+    products: 'urunler',
+    product: 'urun',
+    gallery: 'galeri',
+    contact: 'iletisim',
+    quote: 'teklif',
+    search: 'ara',
+    differences: 'farkliliklar',
+    professionals: 'profesyonellere-ozel',
+    visualizer: 'duvar-simulasyonu',
+    series: {
+      'kultur-tasi': 'kultur-taslari',
+      'kultur-tuglasi': 'kultur-tuglalari',
+    },
+  },
+  nav: {
+    home: 'Anasayfa',
+    products: 'Ürünler',
+    gallery: 'Galeri',
+    contact: 'İletişim',
+  },
+  menu: {
+    home: 'ANASAYFA',
+    products: 'ÜRÜNLER',
+    gallery: 'GÖRSEL GALERİ',
+    contact: 'BİZE ULAŞIN',
+    toggle: 'Menüyü aç/kapat',
+    close: 'Menüyü kapat',
+  },
+  language: {
+    label: 'Dil seçimi',
+  },
+  breadcrumb: {
+    label: 'Bulunduğunuz sayfa',
+    home: 'Anasayfa',
+    products: 'Ürünler',
+    gallery: 'Görsel Galeri',
+    differences: 'Farklılıklarımız',
+    professionals: 'Profesyonellere Özel',
+    contact: 'İletişim',
+    quote: 'Teklif Sepeti',
+    search: 'Arama',
+    visualizer: 'Duvar Simülasyonu',
+  },
+  footer: {
+    about: 'Monopol Stone olarak doğal taşın özgün ruhunu koruyarak; farklı şekil ve renklerde, ona yeni bir yorum katma arzusuyla üretildi.',
+    copyright: '© 2024 Monopol Stone. Tüm hakları saklıdır.',
+    products: 'Ürünler',
+    gallery: 'Görsel Galeri',
+    projects: 'Tamamlanan Projeler',
+    applications: 'Uygulama Örnekleri',
+    showroom: 'Showroom',
+    contact: 'Bize Ulaşın',
+    location: 'İstanbul, Türkiye',
+  },
+  hero: {
+    text: 'Doğal taş ve yapay taş çözümlerimizle mekanlarınıza estetik ve dayanıklılık katıyoruz. Monopol Stone kalitesiyle, her projeye özel şıklık ve sağlamlık sunuyoruz.',
+    cta: 'ÜRÜNLERİMİZİ İNCELEYİN',
+    loading: 'Resimler yükleniyor... ({loaded}/{total})',
+  },
+  floating: {
+    whatsappMessage: 'Merhaba! Monopol Stone ürünleri hakkında bilgi almak istiyorum.',
+  },
+  home: {
+    productsTitle: 'Ürünlerimiz',
+    differencesTitle: 'Farklılıklarımız',
+    features: {
+      heat: { title: 'ISIYA DAYANIKLI', description: 'Dış etkenlere karşı dayanıklıdır.' },
+      cold: { title: 'SOĞUĞA DAYANIKLI', description: 'Dış etkenlere karşı dayanıklıdır.' },
+      pattern: { title: 'DOĞAL DESEN', description: 'Doğadan ilham alır.' },
+      eco: { title: 'ÇEVRE DOSTU', description: 'Çevreye duyarlı, sürdürülebilir üretim.' },
+      healthy: { title: 'SAĞLIKLI', description: 'Kanserojen madde içermez.' },
+      delivery: { title: 'ZAMANINDA TESLİMAT', description: 'Siparişlerinizi zamanında teslim ederiz.' },
+      installation: { title: 'KOLAY UYGULAMA', description: 'Kolay ve pratik uygulama.' },
+    },
+    aboutTitle: 'Monopol Stone Hikayesi',
+    aboutText: 'Monopol Stone; tuğla kaplama, dekoratif kültür taşı, ahşap duvar panelleri, doğal taş kaplama ve duvar kaplamada üstün kaliteli özgün ürünler sunmak için tutkuyla üretilir. Villa cephe kaplama, iç mekan duvar kaplama, ofis dekorasyonu, cafe dekorasyonu ve dış cephe kaplama çözümlerimizle mekanlarınıza değer katıyoruz.',
+  },
+  products: {
+    title: 'Ürünlerimiz',
+  },
+  product: {
+    contactTitle: 'Nasıl yardımcı olabiliriz?',
+    contactText: 'Kültür taşı ve Kültür Tuğlası alanında 20 seneyi aşkın tecrübemizle ürün seçiminden uygulama bitimine dek tüm süreç boyunca yanınızdayız.',
+    contactButton: 'Bize Ulaşın',
+    whatsappButton: 'WhatsApp',
+    features: 'Özellikler',
+    applications: 'Uygulama Alanları',
+    disclaimer: '* Ölçü ve ağırlıklar yaklaşık değerlerdir. Kutu kaplama alanı derzli uygulamaya göredir. Derzsiz uygulamada sipariş miktarı %15-%25 artırılmalıdır.',
+    visualize: 'Kendi duvarınızda görün',
+    projects: {
+      title: 'Bu Ürünün Kullanıldığı Projeler',
+      otherColors: '{color} rengiyle henüz bir referans projemiz yok. Ürünün diğer renkleriyle yaptığımız projeler:',
+      viewAll: 'Tüm projeleri görün',
+    },
+  },
+  productSlider: {
+    height: 'Yükseklik',
+    length: 'Uzunluk',
+    details: 'Detay',
+  },
+  gallery: {
+    title: 'Görsel Galeri',
+    intro: 'Villalardan otel lobilerine, tamamlanan projelerimizde hangi ürün ve rengin kullanıldığını görün. Bir projeye tıklayarak tüm fotoğraflarına ulaşabilirsiniz.',
+    filterLabel: 'Kategoriye göre filtrele',
+    all: 'Tümü',
+    empty: 'Bu kategoride henüz proje yok.',
+    photos: '{count} fotoğraf',
+    materials: 'Kullanılan Ürünler',
+    backToGallery: 'Tüm Projeler',
+    lightbox: {
+      label: 'Fotoğraf görüntüleyici',
+      open: 'Fotoğrafı büyüt: {title}',
+      close: 'Kapat',
+      previous: 'Önceki fotoğraf',
+      next: 'Sonraki fotoğraf',
+      counter: '{current} / {total}',
+    },
+    moreTitle: 'Daha Fazla Bilgi mi Gerekiyor?',
+    moreText: 'Ürünlerimiz ve hizmetlerimiz hakkında detaylı bilgi için bize ulaşın.',
+    call: 'Hemen Arayın',
+    whatsapp: 'WhatsApp',
+  },
+  visualizer: {
+    title: 'Duvar Simülasyonu',
+    intro: 'Evinizin ya da mekanınızın fotoğrafını yükleyin, duvarı işaretleyin ve seçtiğiniz ürünü ve rengi kendi duvarınızda görün.',
+    privacy: 'Fotoğrafınız cihazınızda işlenir; hiçbir sunucuya yüklenmez.',
+    upload: 'Fotoğraf Seçin',
+    uploadHint: 'Duvara karşıdan, gün ışığında çekilmiş bir fotoğraf en iyi sonucu verir.',
+    change: 'Başka fotoğraf seçin',
+    error: 'Fotoğraf açılamadı. Lütfen JPG veya PNG bir dosya deneyin.',
+    canvasLabel: 'Duvar önizlemesi',
+    markCorners: 'Duvarın köşelerine sırayla dokunun: sol üst, sağ üst, sağ alt, sol alt ({count}/4).',
+    adjustCorners: 'Köşeleri sürükleyerek duvara tam oturtun.',
+    resetCorners: 'Köşeleri yeniden işaretle',
+    product: 'Ürün',
+    color: 'Renk',
+    grout: 'Derz Rengi',
+    grouts: {
+      original: 'Fotoğraftaki gibi',
+      white: 'Beyaz',
+      grey: 'Gri',
+      anthracite: 'Antrasit',
+      beige: 'Bej',
+    },
+    wallWidth: 'Duvar genişliği (m)',
+    wallHeight: 'Duvar yüksekliği (m)',
+    download: 'İndir',
+    share: 'Paylaş',
+    shareText: '{product} {color} duvarımda nasıl görünür?',
+    viewProduct: 'Ürün detayları',
+    disclaimer: 'Önizleme yaklaşık bir görünümdür; renkler ekran ve ışığa göre farklılık gösterebilir.',
+  },
+  contact: {
+    title: 'İletişim',
+    intro: 'Projeleriniz için bizimle iletişime geçin. Size en uygun çözümleri sunmaktan mutluluk duyarız.',
+    formTitle: 'Bize Ulaşın',
+    success: 'Mesajınız başarıyla gönderildi! En kısa sürede size dönüş yapacağız.',
+    error: 'Bir hata oluştu. Lütfen tekrar deneyin.',
+    name: 'Ad Soyad *',
+    email: 'E-posta *',
+    phone: 'Telefon',
+    subject: 'Konu *',
+    selectSubject: 'Konu seçiniz',
+    subjects: {
+      'kultur-tasi': 'Kültür Taşı',
+      'kultur-tugla': 'Kültür Tuğla',
+      'fiyat-teklifi': 'Fiyat Teklifi',
+      'teknik-bilgi': 'Teknik Bilgi',
+      'diger': 'Diğer',
+    },
+    message: 'Mesajınız *',
+    messagePlaceholder: 'Projeniz hakkında detayları buraya yazabilirsiniz...',
+    sending: 'Gönderiliyor...',
+    send: 'Mesaj Gönder',
+    infoTitle: 'İletişim Bilgileri',
+    address: 'Adres',
+    city: 'Çatalca / İstanbul',
+    country: 'Türkiye',
+    phoneLabel: 'Telefon',
+    phoneDisplay: '0 (532) 382 01 97',
+    emailLabel: 'E-posta',
+    location: 'Konum',
+    mapTitle: 'Monopol Stone Çatalca Konumu',
+    mapLoading: 'Harita yükleniyor...',
+  },
+  quote: {
+    title: 'Fiyat Teklifi',
+    intro: 'Sepetinizdeki ürün ve renkleri kontrol edin, iletişim bilgilerinizi bırakın; size referans numaralı bir teklif hazırlayalım.',
+  },
+  search: {
+    title: 'Ürün Arama',
+    intro: 'Kültür taşı ve kültür tuğlası modellerini ada, koda veya renge göre arayın; sonuçları ürün tipi, renk, kalınlık ve uygulama alanına göre daraltın.',
+    metaTitle: 'Ürün Arama | Monopol Stone',
+    metaTitleQuery: '"{query}" Arama Sonuçları | Monopol Stone',
+    placeholder: 'Ürün, renk veya kod arayın...',
+    submit: 'Ara',
+    filters: 'Filtreler',
+    clearFilters: 'Filtreleri Temizle',
+    facets: {
+      series: 'Ürün Tipi',
+      color: 'Renk Ailesi',
+      thickness: 'Kalınlık',
+      application: 'Uygulama Alanı',
+    },
+    product: 'ÜRÜN',
+    page: 'SAYFA',
+    count: '"{query}" için {total} sonuç',
+    countAll: '{total} ürün',
+    noResults: 'Sonuç bulunamadı',
+    noResultsFor: '"{query}" için hiçbir sonuç bulunamadı',
+    noResultsHint: 'Farklı bir kelime deneyin veya filtreleri kaldırın.',
+    keyboardHint: '↑ ↓ ile sonuçlar arasında gezinin, Enter ile açın',
+    pages: {
+      products: {
+        title: 'Ürünler',
+        description: 'Tüm kültür taşı ve kültür tuğlası ürünlerini görüntüleyin',
+        keywords: 'katalog ürün listesi',
+      },
+      stones: {
+        title: 'Kültür Taşları',
+        description: 'Kültür taşı serisinin tüm modelleri',
+        keywords: 'taş duvar kaplama',
+      },
+      bricks: {
+        title: 'Kültür Tuğlaları',
+        description: 'Kültür tuğlası serisinin tüm modelleri',
+        keywords: 'tuğla duvar kaplama',
+      },
+      gallery: {
+        title: 'Görsel Galeri',
+        description: 'Uygulama ve proje fotoğrafları',
+        keywords: 'proje referans fotoğraf',
+      },
+      differences: {
+        title: 'Farklılıklarımız',
+        description: 'Monopol Stone ürünlerini farklı kılan özellikler',
+        keywords: 'kalite avantaj',
+      },
+      professionals: {
+        title: 'Profesyonellere Özel',
+        description: 'Mimar, uygulayıcı ve bayiler için bilgiler',
+        keywords: 'mimar bayi uygulayıcı teknik',
+      },
+      quote: {
+        title: 'Fiyat Teklifi',
+        description: 'Ürün ve renk seçerek teklif isteyin',
+        keywords: 'fiyat teklif sepet',
+      },
+      contact: {
+        title: 'İletişim',
+        description: 'Bizimle iletişime geçin',
+        keywords: 'adres telefon e-posta',
+      },
+    },
+  },
+  differences: {
+    title: 'Farklılıklarımız',
+  },
+  professionals: {
+    title: 'Profesyonellere Özel',
+  },
+  notFound: {
+    title: 'Sayfa bulunamadı',
+    text: 'Aradığınız sayfa taşınmış ya da kaldırılmış olabilir.',
+    home: 'Anasayfaya Dön',
+    products: 'Ürünleri İncele',
+  },
+  addToQuote: {
+    title: 'Teklif Sepetine Ekle',
+    quantity: 'Miktar (m²)',
+    add: 'Sepete Ekle',
+    added: 'sepete eklendi.',
+    full: 'Teklif sepeti dolu. Lütfen önce sepetinizi gönderin.',
+    goToBasket: 'Teklif Sepetine Git',
+  },
+  quoteBasket: {
+    basket: 'Teklif Sepeti',
+    empty: 'Teklif sepetiniz boş. Ürün sayfalarından renk seçip m² girerek ürün ekleyebilirsiniz.',
+    browse: 'Ürünleri İncele',
+    product: 'Ürün',
+    color: 'Renk',
+    quantity: 'Miktar (m²)',
+    corner: 'Köşe (m)',
+    remove: 'Kaldır',
+    total: 'Toplam Alan',
+    contact: 'İletişim Bilgileri',
+    name: 'Ad Soyad *',
+    email: 'E-posta *',
+    phone: 'Telefon *',
+    company: 'Firma',
+    city: 'Şehir',
+    message: 'Proje Notları',
+    submit: 'Teklif İste',
+    submitting: 'Gönderiliyor...',
+    successTitle: 'Teklif Talebiniz Alındı!',
+    successText: 'Referans numaranız aşağıdadır. Fiyatlandırma tamamlandığında size bu numara ile dönüş yapacağız.',
+    reference: 'Referans No',
+    error: 'Teklif talebi gönderilemedi. Lütfen tekrar deneyin.',
+    itemError: 'Sepetteki bazı ürünler geçersiz. Lütfen miktarları kontrol edin.',
+  },
+  calculator: {
+    title: 'Malzeme Hesaplayıcı',
+    intro: 'Duvar ölçülerinizi girin; ihtiyacınız olan kutu, köşe taşı, derz ve yapıştırıcı miktarını hesaplayalım.',
+    walls: 'Duvarlar',
+    wall: 'Duvar',
+    openings: 'Pencere / Kapı Boşlukları',
+    opening: 'Boşluk',
+    width: 'Genişlik (m)',
+    height: 'Yükseklik (m)',
+    count: 'Adet',
+    addWall: '+ Duvar Ekle',
+    addOpening: '+ Boşluk Ekle',
+    remove: 'Kaldır',
+    corners: 'Dış Köşe Uzunluğu (m)',
+    waste: 'Fire Payı (%)',
+    installation: 'Uygulama Şekli',
+    stacked: 'Yığma',
+    jointed: 'Derzli',
+    netArea: 'Net Alan',
+    flatBoxes: 'Kaplama Taşı',
+    cornerBoxes: 'Köşe Taşı',
+    mortar: 'Derz Dolgu',
+    adhesive: 'Yapıştırıcı',
+    weight: 'Toplam Ağırlık',
+    box: 'kutu',
+    requestQuote: 'Bu Hesapla Teklif İste',
+    copy: 'Özeti Kopyala',
+    copied: 'Kopyalandı',
+    disclaimer: '* Hesaplama yaklaşık değerler verir. Kesin miktar için uygulama öncesi bizimle görüşün.',
+    summary: {
+      title: 'Malzeme hesabı',
+      product: 'Ürün',
+      netArea: 'Net duvar alanı',
+      waste: 'Fire payı',
+      flatBoxes: 'Kaplama taşı',
+      cornerBoxes: 'Köşe taşı',
+      mortar: 'Derz dolgu',
+      adhesive: 'Yapıştırıcı',
+      weight: 'Toplam ağırlık',
+      box: 'kutu',
+    },
+  },
+  catalogDownload: {
+    title: 'Ürün Kataloğu (PDF)',
+    description: 'Tüm modeller, renk seçenekleri ve teknik özellikler tek dosyada. Katalog, web sitesindeki ürün bilgilerinden otomatik oluşturulur.',
+    view: 'Kataloğu Görüntüle',
+    download: 'İndir',
+  },
+  specSheetDownload: {
+    button: 'Teknik Föy İndir',
+    hint: '{color} rengi için tek sayfalık teknik föy (PDF)',
+  },
+  pdf: {
+    catalog: {
+      title: 'Ürün Kataloğu',
+      subtitle: 'Kültür Taşı ve Kültür Tuğlası',
+      contents: 'İçindekiler',
+      overview: 'Ürün Grupları',
+      overviewText: 'Monopol Stone kültür taşı ve kültür tuğlası ürünleri iç ve dış mekanda duvar kaplaması olarak kullanılır. Her ürün için renk seçenekleri ve teknik değerler karşılıklı sayfalarda yer alır; güncel bilgiler web sitemizdeki ürün sayfalarındadır.',
+      products: 'ürün',
+      code: 'Ürün Kodu',
+      features: 'Özellikler',
+      applications: 'Uygulama Alanları',
+      colors: 'Renk Seçenekleri',
+      specs: 'Teknik Özellikler',
+      colorNote: 'Renk tonları baskıda ve doğal taş dokusu nedeniyle farklılık gösterebilir.',
+      contact: 'İletişim',
+      contactText: 'Numune, fiyat teklifi ve uygulama desteği için bize ulaşın.',
+    },
+    specSheet: {
+      title: 'Teknik Föy',
+      code: 'Ürün Kodu',
+      color: 'Renk',
+      specs: 'Teknik Özellikler',
+      features: 'Özellikler',
+      applications: 'Uygulama Alanları',
+      contactText: 'Numune, fiyat teklifi ve uygulama desteği için bize ulaşın.',
+      date: 'Tarih',
+      note: 'Değerler ortalama değerlerdir; renk tonları doğal taş dokusu nedeniyle farklılık gösterebilir.',
+    },
+  },
+};
+
+export type Messages = typeof tr;
+
+export default tr;
@@ -0,0 +1,36 @@
+import { getProductBySlug, getProductSlug } from '@/data/catalog';
+import { getProjectBySlug, getProjectSlug } from '@/data/gallery';
+import { DEFAULT_LOCALE, LOCALES, LOCALE_SETTINGS, SITE_URL, type Locale } from './config';
+import { getLocalizedPath, matchRoute, type RouteParams } from './routes';
+
+// Counterpart of the current page in another language, used by the
+// language switcher: /urun/mitra <-> /en/product/mitra.
+// Pages without a counterpart fall back to the home page.
+export function getAlternatePath(pathname: string, locale: Locale): string {
+  const match = matchRoute(pathname, true);
+  if (!match) return getLocalizedPath(locale, 'home');
+
+  let params: RouteParams = match.params;
+  if (match.route === 'product') {
+    const product = getProductBySlug(match.params.slug || '', match.locale);
+    if (!product) return getLocalizedPath(locale, 'products');
+    params = { slug: getProductSlug(product, locale) };
+  }
+  if (match.route === 'project') {
+    const project = getProjectBySlug(match.params.slug || '', match.locale);
+    if (!project) return getLocalizedPath(locale, 'gallery');
+    params = { slug: getProjectSlug(project, locale) };
+  }
+  return getLocalizedPath(locale, match.route, params);
+}
+
+// rel="alternate" links to every language version of the page, plus
+// x-default for visitors whose language we don't publish in
+export function getAlternateLinks(pathname: string): { hrefLang: string; href: string }[] {
+  const links = LOCALES.map((locale) => ({
+    hrefLang: LOCALE_SETTINGS[locale].htmlLang,
+    href: `${SITE_URL}${getAlternatePath(pathname, locale)}`,
+  }));
+  links.push({ hrefLang: 'x-default', href: `${SITE_URL}${getAlternatePath(pathname, DEFAULT_LOCALE)}` });
+  return links;
+}
@@ -0,0 +1,147 @@
+import { DEFAULT_LOCALE, LOCALES, getLocalePrefix, isLocale, type Locale } from './config';
+import { MESSAGES, type Messages } from './messages';
+
+// Every page exists once under src/app/[locale] with English folder names
+// (the internal path). Visitors see localized paths, built from the
+// `routes` section of each message catalog:
+//
+//   /urunler/kultur-taslari        -> /tr/products/kultur-tasi
+//   /en/products/culture-stones    -> /en/products/kultur-tasi
+//   /urun/mitra                    -> /tr/product/mitra
+//   /galeri/yalikavak-villa        -> /tr/gallery/yalikavak-villa
+//
+// The middleware rewrites public paths to internal ones; links are always
+// built with getLocalizedPath so they never point at an internal path.
+
+type StaticSegment = Exclude<keyof Messages['routes'], 'series'>;
+
+export type RouteId =
+  | 'home'
+  | 'products'
+  | 'series'
+  | 'product'
+  | 'gallery'
+  | 'project'
+  | 'contact'
+  | 'quote'
+  | 'search'
+  | 'differences'
+  | 'professionals'
+  | 'visualizer';
+
+export type RouteParams = Partial<Record<'series' | 'slug', string>>;
+
+export interface RouteMatch {
+  locale: Locale;
+  route: RouteId;
+  params: RouteParams;
+}
+
+// ':series' holds a series id (kultur-tasi), ':slug' a product or project slug
+const ROUTES: Record<RouteId, string[]> = {
+  home: [],
+  products: ['products'],
+  series: ['products', ':series'],
+  product: ['product', ':slug'],
+  gallery: ['gallery'],
+  project: ['gallery', ':slug'],
+  contact: ['contact'],
+  quote: ['quote'],
+  search: ['search'],
+  differences: ['differences'],
+  professionals: ['professionals'],
+  visualizer: ['visualizer'],
+};
+
+const ROUTE_IDS = Object.keys(ROUTES) as RouteId[];
+
+const localizeSegment = (locale: Locale, segment: string, params: RouteParams): string => {
+  const routes = MESSAGES[locale].routes;
+  if (segment === ':series') {
+    const series = params.series || '';
+    return (routes.series as Record<string, string>)[series] || series;
+  }
+  if (segment === ':slug') return params.slug || '';
+  return routes[segment as StaticSegment];
+};
+
+export function getLocalizedPath(locale: Locale, route: RouteId, params: RouteParams = {}): string {
+  const segments = ROUTES[route].map((segment) => encodeURIComponent(localizeSegment(locale, segment, params)));
+  return `${getLocalePrefix(locale)}/${segments.join('/')}`.replace(/\/$/, '') || '/';
+}
+
+// e.g. getRoutePaths('quote') -> { tr: '/teklif', en: '/en/quote' }
+export function getRoutePaths(route: RouteId): Record<Locale, string> {
+  return LOCALES.reduce((paths, locale) => {
+    paths[locale] = getLocalizedPath(locale, route);
+    return paths;
+  }, {} as Record<Locale, string>);
+}
+
+export function getInternalPath({ locale, route, params }: RouteMatch): string {
+  const segments = ROUTES[route].map((segment) =>
+    segment === ':series' ? params.series : segment === ':slug' ? params.slug : segment
+  );
+  return ['', locale].concat(segments as string[]).map(encodeURIComponent).join('/');
+}
+
+const splitPath = (pathname: string): string[] =>
+  pathname.split('/').filter(Boolean).map((segment) => {
+    try {
+      return decodeURIComponent(segment);
+    } catch {
+      return segment;
+    }
+  });
+
+const matchSegment = (
+  locale: Locale,
+  pattern: string,
+  value: string,
+  params: RouteParams,
+  allowInternal: boolean
+): boolean => {
+  const routes = MESSAGES[locale].routes;
+  if (pattern === ':slug') {
+    params.slug = value;
+    return true;
+  }
+  if (pattern === ':series') {
+    const seriesSlugs = routes.series as Record<string, string>;
+    const seriesId = Object.keys(seriesSlugs).find((id) =>
+      seriesSlugs[id] === value || (allowInternal && id === value)
+    );
+    if (seriesId) params.series = seriesId;
+    return !!seriesId;
+  }
+  return routes[pattern as StaticSegment] === value || (allowInternal && pattern === value);
+};
+
+// Resolves a public path (or, with allowInternal, an internal one as well).
+// Components use allowInternal because usePathname() may report the
+// rewritten path while rendering on the server.
+export function matchRoute(pathname: string, allowInternal = false): RouteMatch | null {
+  let segments = splitPath(pathname);
+  let locale = DEFAULT_LOCALE;
+  if (segments.length > 0 && isLocale(segments[0]) && (segments[0] !== DEFAULT_LOCALE || allowInternal)) {
+    locale = segments[0] as Locale;
+    segments = segments.slice(1);
+  }
+
+  for (let i = 0; i < ROUTE_IDS.length; i++) {
+    const route = ROUTE_IDS[i];
+    const pattern = ROUTES[route];
+    if (pattern.length !== segments.length) continue;
+    const params: RouteParams = {};
+    if (pattern.every((segment, index) => matchSegment(locale, segment, segments[index], params, allowInternal))) {
+      return { locale, route, params };
+    }
+  }
+  return null;
+}
+
+// Locale of any public or internal path, used where no route matches (404s)
+export function getLocaleFromPath(pathname: string): Locale {
+  const first = splitPath(pathname)[0];
+  return isLocale(first) ? first : DEFAULT_LOCALE;
+}
@@ -0,0 +1,38 @@
+import { DEFAULT_LOCALE, type Locale } from './config';
+import { MESSAGES, type Messages } from './messages';
+
+// Dotted paths to every string in the catalog, e.g. 'contact.formTitle'
+type MessagePaths<T> = {
+  [K in keyof T & string]: T[K] extends string ? K : `${K}.${MessagePaths<T[K]>}`;
+}[keyof T & string];
+
+export type MessageKey = MessagePaths<Messages>;
+
+export type TranslationParams = Record<string, string | number>;
+
+export type Translator = (key: MessageKey, params?: TranslationParams) => string;
+
+const lookup = (locale: Locale, key: string): string | undefined => {
+  const value = key.split('.').reduce<unknown>(
+    (node, part) => (node && typeof node === 'object' ? (node as Record<string, unknown>)[part] : undefined),
+    MESSAGES[locale]
+  );
+  return typeof value === 'string' ? value : undefined;
+};
+
+// "{name}" placeholders are replaced from params; unknown ones are kept as-is
+export function translate(locale: Locale, key: MessageKey, params?: TranslationParams): string {
+  let message = lookup(locale, key);
+  if (message === undefined) {
+    console.warn(`[i18n] Missing message "${key}" for locale "${locale}"`);
+    message = lookup(DEFAULT_LOCALE, key) ?? key;
+  }
+  if (!params) return message;
+  return message.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+    params[name] !== undefined ? String(params[name]) : placeholder
+  );
+}
+
+export function createTranslator(locale: Locale): Translator {
+  return (key, params) => translate(locale, key, params);
+}
@@ -0,0 +1,442 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { matchRoute } from '@/i18n/routes';
+import { DATA_DIR } from './store';
+
+// Performance metrics from the browser (trackMetric in
+// usePerformanceMonitoring). Events are buffered in memory and appended in
+// batches to one NDJSON file per UTC day under DATA_DIR/analytics. A day
+// that outgrows MAX_FILE_BYTES continues in numbered parts
+// (events-2026-10-19.1.ndjson), and days past the retention are deleted.
+//
+// Field Web Vitals (utils/webVitals) also carry the visitor's device class
+// and the build they ran, so the admin performance page can compare routes,
+// devices and deploys.
+
+export const ANALYTICS_DIR = path.join(DATA_DIR, 'analytics');
+
+export const MAX_BATCH_EVENTS = 50;
+export const MAX_BODY_BYTES = 64 * 1024;
+
+const FLUSH_INTERVAL_MS = 2000;
+const FLUSH_SIZE = 200;
+const MAX_FILE_BYTES = 20 * 1024 * 1024;
+const RETENTION_DAYS = Number(process.env.ANALYTICS_RETENTION_DAYS) || 90;
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Client clocks are trusted within this range, otherwise the server time is used
+const MAX_CLOCK_SKEW_MS = DAY_MS;
+// Longest window a single query may read
+const MAX_QUERY_DAYS = 92;
+
+const METRIC_PATTERN = /^[A-Za-z0-9_.:-]{1,80}$/;
+const UNIT_PATTERN = /^[A-Za-z%]{0,12}$/;
+const FILE_PATTERN = /^events-(\d{4}-\d{2}-\d{2})(?:\.(\d+))?\.ndjson$/;
+const DATE_PARAM = /^\d{4}-\d{2}-\d{2}$/;
+const BUILD_PATTERN = /^[A-Za-z0-9_.-]{1,40}$/;
+
+export const DEVICE_CLASSES = ['mobile', 'tablet', 'desktop'] as const;
+
+export type DeviceClass = (typeof DEVICE_CLASSES)[number];
+
+export interface AnalyticsEvent {
+  timestamp: number; // epoch milliseconds
+  metric: string;
+  value: number;
+  unit: string;
+  page: string; // path without query or hash
+  component?: string;
+  device?: DeviceClass;
+  build?: string; // NEXT_PUBLIC_BUILD_ID of the client
+}
+
+// Results are always per metric; these split them further. 'route' is the
+// route id of the page (product, series, ...) so that every product page
+// and every locale lands in one group.
+export type AnalyticsDimension = 'page' | 'route' | 'device' | 'build';
+
+const DIMENSIONS: AnalyticsDimension[] = ['page', 'route', 'device', 'build'];
+
+export type AnalyticsInterval = 'hour' | 'day';
+
+export interface AnalyticsQuery {
+  from: number; // epoch milliseconds, inclusive
+  to: number; // epoch milliseconds, exclusive
+  metrics?: string[];
+  page?: string;
+  device?: DeviceClass;
+  build?: string;
+  groupBy: AnalyticsDimension[];
+  interval?: AnalyticsInterval;
+}
+
+export interface MetricSummary {
+  count: number;
+  min: number;
+  max: number;
+  mean: number;
+  p50: number;
+  p75: number;
+  p90: number;
+  p95: number;
+  p99: number;
+}
+
+export interface MetricBucket extends MetricSummary {
+  start: string; // ISO timestamp of the bucket start
+}
+
+export interface MetricGroup extends MetricSummary {
+  metric: string;
+  unit: string;
+  page?: string; // only when grouped by page
+  route?: string; // only when grouped by route
+  device?: DeviceClass | 'unknown'; // only when grouped by device
+  build?: string; // only when grouped by build; 'unknown' for events without one
+  firstSeen: string; // ISO timestamps of the first and last event in the group
+  lastSeen: string;
+  series?: MetricBucket[]; // only with an interval
+}
+
+const asString = (value: unknown) => (typeof value === 'string' ? value.trim() : '');
+
+const dayOf = (timestamp: number) => new Date(timestamp).toISOString().slice(0, 10);
+
+// Path of the page only: query strings and hashes may carry personal data
+export function toPagePath(value: string): string | null {
+  if (!value) return null;
+  try {
+    const pathname = new URL(value, 'http://localhost').pathname;
+    const page = pathname.length > 1 ? pathname.replace(/\/+$/, '') : pathname;
+    return page.slice(0, 200);
+  } catch {
+    return null;
+  }
+}
+
+function parseEvent(raw: unknown, now: number): AnalyticsEvent | string {
+  if (!raw || typeof raw !== 'object') return 'must be an object';
+  const data = raw as Record<string, unknown>;
+
+  if (data.type !== 'performance') return 'type must be "performance"';
+
+  const metric = asString(data.metric);
+  if (!METRIC_PATTERN.test(metric)) return 'metric is missing or invalid';
+
+  if (typeof data.value !== 'number' || !isFinite(data.value)) return 'value must be a finite number';
+
+  const unit = data.unit === undefined ? 'ms' : asString(data.unit);
+  if (!UNIT_PATTERN.test(unit)) return 'unit is invalid';
+
+  const page = toPagePath(asString(data.page) || asString(data.url));
+  if (!page) return 'url or page is missing or invalid';
+
+  const component = asString(data.component).slice(0, 80) || undefined;
+
+  const device = data.device === undefined ? undefined : (asString(data.device) as DeviceClass);
+  if (device !== undefined && DEVICE_CLASSES.indexOf(device) === -1) return 'device is invalid';
+
+  const build = data.build === undefined ? undefined : asString(data.build);
+  if (build !== undefined && !BUILD_PATTERN.test(build)) return 'build is invalid';
+
+  const timestamp =
+    typeof data.timestamp === 'number' && Math.abs(data.timestamp - now) <= MAX_CLOCK_SKEW_MS
+      ? Math.round(data.timestamp)
+      : now;
+
+  return { timestamp, metric, value: data.value, unit, page, component, device, build };
+}
+
+// Accepts one event, an array of events or { events: [...] }
+export function parseAnalyticsEvents(
+  body: unknown,
+  now = Date.now()
+): { events: AnalyticsEvent[]; errors: string[] } {
+  const list =
+    body && typeof body === 'object' && Array.isArray((body as { events?: unknown }).events)
+      ? ((body as { events: unknown[] }).events)
+      : Array.isArray(body)
+        ? body
+        : [body];
+
+  if (list.length > MAX_BATCH_EVENTS) {
+    return { events: [], errors: [`at most ${MAX_BATCH_EVENTS} events per request`] };
+  }
+
+  const events: AnalyticsEvent[] = [];
+  const errors: string[] = [];
+  list.forEach((raw, index) => {
+    const result = parseEvent(raw, now);
+    if (typeof result === 'string') errors.push(`events[${index}]: ${result}`);
+    else events.push(result);
+  });
+  return { events, errors };
+}
+
+// --- Writing ---
+
+interface WriterState {
+  buffer: AnalyticsEvent[];
+  timer: ReturnType<typeof setTimeout> | null;
+  writing: Promise<void>;
+  lastPrune: number;
+}
+
+// Every route bundle gets its own copy of this module; the writer lives on
+// globalThis so ingestion and queries share one buffer per process
+const globalWriter = globalThis as typeof globalThis & { analyticsWriter?: WriterState };
+const writer: WriterState = (globalWriter.analyticsWriter = globalWriter.analyticsWriter || {
+  buffer: [],
+  timer: null,
+  writing: Promise.resolve(),
+  lastPrune: 0,
+});
+
+export function recordAnalyticsEvents(events: AnalyticsEvent[]): void {
+  writer.buffer.push(...events);
+  if (writer.buffer.length >= FLUSH_SIZE) {
+    flushAnalytics().catch((error) => console.error('Analytics flush failed:', error));
+  } else if (!writer.timer) {
+    writer.timer = setTimeout(() => {
+      flushAnalytics().catch((error) => console.error('Analytics flush failed:', error));
+    }, FLUSH_INTERVAL_MS);
+  }
+}
+
+// Writes out everything buffered so far. Flushes run one after another,
+// so parts and rotation never race.
+export function flushAnalytics(): Promise<void> {
+  if (writer.timer) {
+    clearTimeout(writer.timer);
+    writer.timer = null;
+  }
+  const batch = writer.buffer;
+  writer.buffer = [];
+  writer.writing = writer.writing
+    .catch(() => undefined)
+    .then(() => (batch.length > 0 ? appendBatch(batch) : undefined));
+  return writer.writing;
+}
+
+async function listFiles(): Promise<string[]> {
+  try {
+    return (await fs.readdir(ANALYTICS_DIR)).filter((name) => FILE_PATTERN.test(name));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+    throw error;
+  }
+}
+
+const fileName = (day: string, part: number) => (part > 0 ? `events-${day}.${part}.ndjson` : `events-${day}.ndjson`);
+
+async function appendBatch(batch: AnalyticsEvent[]): Promise<void> {
+  await fs.mkdir(ANALYTICS_DIR, { recursive: true });
+  const files = await listFiles();
+
+  const byDay: Record<string, string[]> = {};
+  batch.forEach((event) => {
+    const day = dayOf(event.timestamp);
+    (byDay[day] = byDay[day] || []).push(JSON.stringify(event));
+  });
+
+  for (const day of Object.keys(byDay)) {
+    let part = 0;
+    files.forEach((name) => {
+      const match = FILE_PATTERN.exec(name);
+      if (match && match[1] === day) part = Math.max(part, Number(match[2] || 0));
+    });
+
+    try {
+      const { size } = await fs.stat(path.join(ANALYTICS_DIR, fileName(day, part)));
+      if (size >= MAX_FILE_BYTES) part += 1;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+    }
+
+    await fs.appendFile(path.join(ANALYTICS_DIR, fileName(day, part)), byDay[day].join('\n') + '\n', 'utf8');
+  }
+
+  if (Date.now() - writer.lastPrune > DAY_MS / 24) {
+    writer.lastPrune = Date.now();
+    await pruneAnalytics(files);
+  }
+}
+
+async function pruneAnalytics(files: string[]): Promise<void> {
+  const oldest = dayOf(Date.now() - RETENTION_DAYS * DAY_MS);
+  for (const name of files) {
+    const match = FILE_PATTERN.exec(name);
+    if (match && match[1] < oldest) await fs.unlink(path.join(ANALYTICS_DIR, name));
+  }
+}
+
+// --- Querying ---
+
+function parseTime(value: string | undefined, endOfDay: boolean): number | undefined {
+  if (!value) return undefined;
+  // Whole days are inclusive, as in the admin filters
+  if (DATE_PARAM.test(value)) return Date.parse(`${value}T00:00:00Z`) + (endOfDay ? DAY_MS : 0);
+  const time = Date.parse(value);
+  return isNaN(time) ? undefined : time;
+}
+
+// GET /api/admin/analytics?from&to&metric&page&device&build&groupBy&interval=hour|day
+// from/to are YYYY-MM-DD (inclusive) or ISO timestamps; the default is
+// the last 7 days. metric and groupBy take comma-separated lists
+// (metric=LCP,INP&groupBy=route,device); groupBy=metric, the default,
+// does not split any further.
+export function parseAnalyticsQuery(params: URLSearchParams, now = Date.now()): AnalyticsQuery {
+  const get = (key: string) => params.get(key)?.trim() || undefined;
+  const to = Math.min(parseTime(get('to'), true) || now, now);
+  const from = Math.max(parseTime(get('from'), false) || to - 7 * DAY_MS, to - MAX_QUERY_DAYS * DAY_MS);
+  const interval = get('interval');
+  const list = (key: string) => (get(key) || '').split(',').map((value) => value.trim()).filter(Boolean);
+  const metrics = list('metric');
+  const device = get('device') as DeviceClass | undefined;
+
+  return {
+    from,
+    to,
+    metrics: metrics.length > 0 ? metrics : undefined,
+    page: get('page') ? toPagePath(get('page') as string) || undefined : undefined,
+    device: device && DEVICE_CLASSES.indexOf(device) !== -1 ? device : undefined,
+    build: get('build'),
+    groupBy: DIMENSIONS.filter((dimension) => list('groupBy').indexOf(dimension) !== -1),
+    interval: interval === 'hour' || interval === 'day' ? interval : undefined,
+  };
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+// Nearest-rank percentile of sorted values
+const percentile = (sorted: number[], p: number) => sorted[Math.max(0, Math.ceil((p / 100) * sorted.length) - 1)];
+
+export function summarize(values: number[]): MetricSummary {
+  const sorted = values.slice().sort((a, b) => a - b);
+  const sum = sorted.reduce((total, value) => total + value, 0);
+  return {
+    count: sorted.length,
+    min: round(sorted[0]),
+    max: round(sorted[sorted.length - 1]),
+    mean: round(sum / sorted.length),
+    p50: round(percentile(sorted, 50)),
+    p75: round(percentile(sorted, 75)),
+    p90: round(percentile(sorted, 90)),
+    p95: round(percentile(sorted, 95)),
+    p99: round(percentile(sorted, 99)),
+  };
+}
+
+const bucketStart = (timestamp: number, interval: AnalyticsInterval) => {
+  const size = interval === 'hour' ? DAY_MS / 24 : DAY_MS;
+  return new Date(Math.floor(timestamp / size) * size).toISOString();
+};
+
+// Calls fn for every stored event in [from, to); unreadable lines are skipped
+export async function readAnalyticsEvents(
+  from: number,
+  to: number,
+  fn: (event: AnalyticsEvent) => void
+): Promise<void> {
+  await flushAnalytics();
+  const first = dayOf(from);
+  const last = dayOf(to - 1);
+  const files = (await listFiles())
+    .filter((name) => {
+      const day = (FILE_PATTERN.exec(name) as RegExpExecArray)[1];
+      return day >= first && day <= last;
+    })
+    .sort();
+
+  for (const name of files) {
+    let raw: string;
+    try {
+      raw = await fs.readFile(path.join(ANALYTICS_DIR, name), 'utf8');
+    } catch (error) {
+      // Pruned in the meantime
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') continue;
+      throw error;
+    }
+    raw.split('\n').forEach((line) => {
+      if (!line) return;
+      try {
+        const event = JSON.parse(line) as AnalyticsEvent;
+        if (event.timestamp >= from && event.timestamp < to) fn(event);
+      } catch {
+        // A line cut short by a crash mid-write
+      }
+    });
+  }
+}
+
+// Pages outside the localized site (/admin, ...) are their own route
+function routeOf(page: string, cache: Record<string, string>): string {
+  if (!(page in cache)) {
+    const match = matchRoute(page);
+    cache[page] = match ? match.route : page;
+  }
+  return cache[page];
+}
+
+export async function queryAnalytics(query: AnalyticsQuery): Promise<MetricGroup[]> {
+  interface Group {
+    metric: string;
+    unit: string;
+    dimensions: Partial<Record<AnalyticsDimension, string>>;
+    first: number;
+    last: number;
+    values: number[];
+    buckets: Record<string, number[]>;
+  }
+  const groups: Record<string, Group> = {};
+  const routes: Record<string, string> = {};
+
+  await readAnalyticsEvents(query.from, query.to, (event) => {
+    if (query.metrics && query.metrics.indexOf(event.metric) === -1) return;
+    if (query.page && event.page !== query.page) return;
+    if (query.device && event.device !== query.device) return;
+    if (query.build && event.build !== query.build) return;
+
+    const dimensions: Group['dimensions'] = {};
+    query.groupBy.forEach((dimension) => {
+      dimensions[dimension] =
+        dimension === 'route' ? routeOf(event.page, routes) : event[dimension] || 'unknown';
+    });
+    const key = [event.metric, event.unit].concat(query.groupBy.map((dimension) => dimensions[dimension] as string)).join('\n');
+    const group = (groups[key] = groups[key] || {
+      metric: event.metric,
+      unit: event.unit,
+      dimensions,
+      first: event.timestamp,
+      last: event.timestamp,
+      values: [],
+      buckets: {},
+    });
+    group.first = Math.min(group.first, event.timestamp);
+    group.last = Math.max(group.last, event.timestamp);
+    group.values.push(event.value);
+    if (query.interval) {
+      const start = bucketStart(event.timestamp, query.interval);
+      (group.buckets[start] = group.buckets[start] || []).push(event.value);
+    }
+  });
+
+  return Object.keys(groups)
+    .map((key) => {
+      const { metric, unit, dimensions, first, last, values, buckets } = groups[key];
+      const result: MetricGroup = {
+        metric,
+        unit,
+        ...(dimensions as Pick<MetricGroup, AnalyticsDimension>),
+        ...summarize(values),
+        firstSeen: new Date(first).toISOString(),
+        lastSeen: new Date(last).toISOString(),
+      };
+      if (query.interval) {
+        result.series = Object.keys(buckets)
+          .sort()
+          .map((start) => ({ start, ...summarize(buckets[start]) }));
+      }
+      return result;
+    })
+    .sort((a, b) => a.metric.localeCompare(b.metric) || b.count - a.count);
+}
@@ -0,0 +1,81 @@
+import { createHash, createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { cookies } from 'next/headers';
+import type { NextRequest } from 'next/server';
+
+// Admin authentication for the sales team.
+// Users come from ADMIN_USERS ("ayse:password,mehmet:password"); a login
+// issues an HMAC-signed session cookie, so no session store is needed.
+
+export const ADMIN_SESSION_COOKIE = 'admin_session';
+export const SESSION_MAX_AGE = 60 * 60 * 12; // seconds
+
+interface SessionPayload {
+  u: string;
+  exp: number;
+}
+
+// Without a configured secret, sessions only survive until the next restart
+const sessionSecret = process.env.ADMIN_SESSION_SECRET || randomBytes(32).toString('hex');
+
+function parseUsers(): Map<string, string> {
+  const users = new Map<string, string>();
+  (process.env.ADMIN_USERS || '').split(',').forEach((entry) => {
+    const separator = entry.indexOf(':');
+    if (separator <= 0) return;
+    const username = entry.slice(0, separator).trim();
+    const password = entry.slice(separator + 1).trim();
+    if (username && password) users.set(username, password);
+  });
+  return users;
+}
+
+const digest = (value: string) => createHash('sha256').update(value).digest();
+
+const sign = (value: string) => createHmac('sha256', sessionSecret).update(value).digest('base64url');
+
+// Usernames double as the salesperson list for lead assignment
+export function getAdminUsers(): string[] {
+  return Array.from(parseUsers().keys());
+}
+
+export function verifyCredentials(username: string, password: string): boolean {
+  const expected = parseUsers().get(username);
+  // Compare digests so the timing does not leak the password length
+  const valid = timingSafeEqual(digest(password), digest(expected || randomBytes(16).toString('hex')));
+  return Boolean(expected) && valid;
+}
+
+export function createSessionToken(username: string, now = Date.now()): string {
+  const payload: SessionPayload = { u: username, exp: now + SESSION_MAX_AGE * 1000 };
+  const encoded = Buffer.from(JSON.stringify(payload)).toString('base64url');
+  return `${encoded}.${sign(encoded)}`;
+}
+
+export function readSessionToken(token: string | undefined, now = Date.now()): string | null {
+  if (!token) return null;
+  const [encoded, signature] = token.split('.');
+  if (!encoded || !signature) return null;
+
+  const expected = Buffer.from(sign(encoded));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) return null;
+
+  try {
+    const payload = JSON.parse(Buffer.from(encoded, 'base64url').toString('utf8')) as SessionPayload;
+    if (typeof payload.u !== 'string' || payload.exp < now) return null;
+    // Removing a user from ADMIN_USERS revokes their sessions
+    return parseUsers().has(payload.u) ? payload.u : null;
+  } catch {
+    return null;
+  }
+}
+
+// For server components under /admin
+export function getAdminUser(): string | null {
+  return readSessionToken(cookies().get(ADMIN_SESSION_COOKIE)?.value);
+}
+
+// For /api/admin route handlers
+export function getRequestAdmin(request: NextRequest): string | null {
+  return readSessionToken(request.cookies.get(ADMIN_SESSION_COOKIE)?.value);
+}
@@ -0,0 +1,272 @@
+import { jsPDF } from 'jspdf';
+import {
+  COLOR_FAMILIES,
+  getProductImages,
+  getProductPath,
+  getProducts,
+  series as SERIES,
+  type Locale,
+  type Product,
+} from '@/data/catalog';
+import { LOCALE_SETTINGS } from '@/i18n/config';
+import { getSpecRows } from '@/data/specs';
+import { createTranslator, translate } from '@/i18n/translate';
+import {
+  COLORS,
+  CONTACT,
+  CONTENT_WIDTH,
+  PAGE,
+  PDF_LANGUAGES,
+  SITE_URL,
+  bulletList,
+  createWriter,
+  getPdfLocale,
+  paragraph,
+  sectionTitle,
+  type PdfLocale,
+  type Writer,
+} from './pdf';
+
+// Printable product catalog generated from the same data as the website:
+// cover, table of contents, an overview page and one spread per product
+// (left: photo and texts, right: color variants and specs), A4 portrait.
+function drawFooter(w: Writer, locale: PdfLocale, pageNumber: number) {
+  const y = PAGE.height - 10;
+  w.doc.setDrawColor(COLORS.line);
+  w.doc.setLineWidth(0.3);
+  w.doc.line(PAGE.margin, y - 5, PAGE.width - PAGE.margin, y - 5);
+  w.font('normal', 8, COLORS.muted);
+  w.doc.text(`Monopol Stone · ${translate(locale, 'pdf.catalog.title')}`, PAGE.margin, y);
+  w.doc.text(String(pageNumber), PAGE.width - PAGE.margin, y, { align: 'right' });
+}
+
+function drawCover(w: Writer, locale: PdfLocale, heroImage: string) {
+  const t = createTranslator(locale);
+  w.image(heroImage, 0, 0, PAGE.width, PAGE.width);
+
+  w.doc.setFillColor(COLORS.accent);
+  w.doc.rect(0, PAGE.width, PAGE.width, 3, 'F');
+
+  w.image('/siyahlogo.png', PAGE.margin, PAGE.width + 8, 28, 28);
+  w.font('bold', 28, COLORS.dark);
+  w.doc.text(t('pdf.catalog.title'), PAGE.margin, PAGE.width + 48);
+  w.font('normal', 14, COLORS.muted);
+  w.doc.text(t('pdf.catalog.subtitle'), PAGE.margin, PAGE.width + 58);
+
+  w.font('normal', 9, COLORS.muted);
+  w.doc.text(`${SITE_URL.replace('https://', '')}  ·  ${CONTACT.email}  ·  ${CONTACT.phone}`, PAGE.margin, PAGE.height - 12);
+  w.doc.text(String(new Date().getFullYear()), PAGE.width - PAGE.margin, PAGE.height - 12, { align: 'right' });
+}
+
+function drawContents(w: Writer, locale: PdfLocale, entries: Array<{ product: Product; page: number }>) {
+  let y = sectionTitle(w, translate(locale, 'pdf.catalog.contents'), PAGE.margin, PAGE.margin + 10, CONTENT_WIDTH) + 4;
+
+  SERIES.forEach((seriesItem) => {
+    const seriesEntries = entries.filter((entry) => entry.product.series === seriesItem.id);
+    if (seriesEntries.length === 0) return;
+
+    w.font('bold', 11, COLORS.accent);
+    w.doc.text(seriesItem.plural[locale].toLocaleUpperCase(LOCALE_SETTINGS[locale].intl), PAGE.margin, y);
+    y += 8;
+
+    seriesEntries.forEach(({ product, page }) => {
+      w.font('normal', 11, COLORS.text);
+      w.doc.text(`${product.title} ${seriesItem.title[locale]}`, PAGE.margin + 4, y);
+      w.font('normal', 9, COLORS.muted);
+      w.doc.text(product.code, PAGE.margin + 95, y);
+      w.font('normal', 11, COLORS.text);
+      w.doc.text(String(page), PAGE.width - PAGE.margin, y, { align: 'right' });
+      // The whole row jumps to the product spread
+      w.doc.link(PAGE.margin, y - 5, CONTENT_WIDTH, 7, { pageNumber: page });
+      y += 8;
+    });
+    y += 6;
+  });
+}
+
+function drawOverview(w: Writer, locale: PdfLocale) {
+  const t = createTranslator(locale);
+  let y = sectionTitle(w, t('pdf.catalog.overview'), PAGE.margin, PAGE.margin + 10, CONTENT_WIDTH);
+  w.font('normal', 10, COLORS.text);
+  y = paragraph(w, t('pdf.catalog.overviewText'), PAGE.margin, y, CONTENT_WIDTH, 5.5) + 8;
+
+  const cardWidth = (CONTENT_WIDTH - 10) / 2;
+  SERIES.forEach((seriesItem, index) => {
+    const list = getProducts(seriesItem.id);
+    const x = PAGE.margin + index * (cardWidth + 10);
+    if (list.length > 0) w.image(list[0].colors[0].image, x, y, cardWidth, cardWidth);
+    w.font('bold', 13, COLORS.dark);
+    w.doc.text(seriesItem.plural[locale], x, y + cardWidth + 9);
+    w.font('normal', 9, COLORS.muted);
+    w.doc.text(`${list.length} ${t('pdf.catalog.products')}`, x, y + cardWidth + 15);
+    w.font('normal', 10, COLORS.text);
+    paragraph(w, list.map((p) => p.title).join(', '), x, y + cardWidth + 22, cardWidth, 5);
+  });
+
+  const contactY = PAGE.height - 60;
+  w.doc.setFillColor(COLORS.light);
+  w.doc.rect(PAGE.margin, contactY, CONTENT_WIDTH, 32, 'F');
+  w.font('bold', 12, COLORS.dark);
+  w.doc.text(t('pdf.catalog.contact'), PAGE.margin + 6, contactY + 9);
+  w.font('normal', 10, COLORS.text);
+  w.doc.text(t('pdf.catalog.contactText'), PAGE.margin + 6, contactY + 16);
+  w.font('normal', 10, COLORS.accent);
+  w.doc.textWithLink(`${CONTACT.email}  ·  ${CONTACT.phone}`, PAGE.margin + 6, contactY + 24, { url: `mailto:${CONTACT.email}` });
+}
+
+// Left page of a product spread
+function drawProductPage(w: Writer, locale: PdfLocale, product: Product) {
+  const t = createTranslator(locale);
+  const seriesItem = SERIES.filter((s) => s.id === product.series)[0];
+  const imageSize = CONTENT_WIDTH;
+  w.image(product.colors[0].image, PAGE.margin, PAGE.margin, imageSize, imageSize * 0.62);
+
+  let y = PAGE.margin + imageSize * 0.62 + 12;
+  w.font('normal', 9, COLORS.accent);
+  w.doc.text(seriesItem.title[locale].toLocaleUpperCase(LOCALE_SETTINGS[locale].intl), PAGE.margin, y);
+  w.font('normal', 9, COLORS.muted);
+  w.doc.text(`${t('pdf.catalog.code')}: ${product.code}`, PAGE.width - PAGE.margin, y, { align: 'right' });
+
+  y += 10;
+  w.font('bold', 24, COLORS.dark);
+  w.doc.textWithLink(product.title, PAGE.margin, y, { url: `${SITE_URL}${getProductPath(product, locale)}` });
+
+  y += 8;
+  w.font('normal', 11, COLORS.text);
+  y = paragraph(w, product.summary[locale], PAGE.margin, y, CONTENT_WIDTH, 5.5) + 2;
+  w.font('normal', 9.5, COLORS.muted);
+  y = paragraph(w, product.description[locale], PAGE.margin, y, CONTENT_WIDTH, 5) + 8;
+
+  const columnWidth = (CONTENT_WIDTH - 10) / 2;
+  const top = y;
+  const featuresY = sectionTitle(w, t('pdf.catalog.features'), PAGE.margin, top, columnWidth);
+  w.font('normal', 9.5, COLORS.text);
+  bulletList(w, product.features, locale, PAGE.margin, featuresY, columnWidth);
+
+  const applicationsY = sectionTitle(w, t('pdf.catalog.applications'), PAGE.margin + columnWidth + 10, top, columnWidth);
+  w.font('normal', 9.5, COLORS.text);
+  bulletList(w, product.applications, locale, PAGE.margin + columnWidth + 10, applicationsY, columnWidth);
+}
+
+// Right page of a product spread
+function drawVariantsPage(w: Writer, locale: PdfLocale, product: Product) {
+  const t = createTranslator(locale);
+  let y = sectionTitle(w, t('pdf.catalog.colors'), PAGE.margin, PAGE.margin + 10, CONTENT_WIDTH);
+
+  const columns = 3;
+  const gap = 6;
+  const rows = Math.ceil(product.colors.length / columns);
+  // Smaller swatches when there are many colors, so the specs still fit
+  const size = Math.min((CONTENT_WIDTH - gap * (columns - 1)) / columns, rows > 2 ? 40 : 56);
+
+  product.colors.forEach((color, index) => {
+    const x = PAGE.margin + (index % columns) * (size + gap);
+    const top = y + Math.floor(index / columns) * (size + 16);
+    w.image(color.image, x, top, size, size);
+    w.doc.setFillColor(color.hex);
+    w.doc.rect(x, top + size + 2.5, 3.5, 3.5, 'F');
+    w.font('bold', 10, COLORS.dark);
+    w.doc.text(color.name[locale], x + 5.5, top + size + 5.5);
+    w.font('normal', 8, COLORS.muted);
+    w.doc.text(COLOR_FAMILIES[color.family][locale], x + 5.5, top + size + 10);
+  });
+
+  y += rows * (size + 16) + 6;
+  y = sectionTitle(w, t('pdf.catalog.specs'), PAGE.margin, y, CONTENT_WIDTH);
+
+  getSpecRows(product, locale).forEach((row, index) => {
+    if (index % 2 === 0) {
+      w.doc.setFillColor(COLORS.light);
+      w.doc.rect(PAGE.margin, y - 4.5, CONTENT_WIDTH, 7, 'F');
+    }
+    w.font('normal', 9.5, COLORS.muted);
+    w.doc.text(row.label, PAGE.margin + 2, y);
+    w.font('bold', 9.5, COLORS.text);
+    w.doc.text(row.value, PAGE.margin + 80, y);
+    y += 7;
+  });
+
+  w.font('normal', 8, COLORS.muted);
+  w.doc.text(t('pdf.catalog.colorNote'), PAGE.margin, PAGE.height - 22);
+}
+
+function drawBackCover(w: Writer, locale: PdfLocale) {
+  const t = createTranslator(locale);
+  w.doc.setFillColor(COLORS.dark);
+  w.doc.rect(0, 0, PAGE.width, PAGE.height, 'F');
+  w.doc.setFillColor(COLORS.accent);
+  w.doc.rect(0, PAGE.height - 60, PAGE.width, 3, 'F');
+
+  w.font('bold', 22, '#ffffff');
+  w.doc.text('Monopol Stone', PAGE.width / 2, PAGE.height / 2 - 10, { align: 'center' });
+  w.font('normal', 11, '#ffffff');
+  w.doc.text(t('pdf.catalog.contactText'), PAGE.width / 2, PAGE.height / 2, { align: 'center' });
+  w.doc.text(`${CONTACT.email}  ·  ${CONTACT.phone}`, PAGE.width / 2, PAGE.height / 2 + 8, { align: 'center' });
+  w.font('bold', 11, COLORS.accent);
+  w.doc.textWithLink(SITE_URL.replace('https://', ''), PAGE.width / 2, PAGE.height / 2 + 18, { align: 'center', url: SITE_URL });
+}
+
+export async function generateCatalogPdf(locale: PdfLocale): Promise<Buffer> {
+  const doc = new jsPDF({ unit: 'mm', format: 'a4', orientation: 'portrait', compress: true });
+  const t = createTranslator(locale);
+  const list = SERIES.reduce<Product[]>((all, s) => all.concat(getProducts(s.id)), []);
+  const images = list.reduce<string[]>((all, product) => all.concat(getProductImages(product)), ['/siyahlogo.png']);
+  const w = await createWriter(doc, images);
+
+  doc.setProperties({
+    title: `Monopol Stone ${t('pdf.catalog.title')}`,
+    subject: t('pdf.catalog.subtitle'),
+    author: 'Monopol Stone',
+    creator: SITE_URL,
+  });
+  doc.setLanguage(PDF_LANGUAGES[locale]);
+
+  // Cover (1), contents (2), overview (3); spreads start on an even, left-hand page
+  const entries = list.map((product, index) => ({ product, page: 4 + index * 2 }));
+
+  drawCover(w, locale, list[0].colors[0].image);
+  doc.addPage();
+  drawContents(w, locale, entries);
+  doc.addPage();
+  drawOverview(w, locale);
+
+  entries.forEach(({ product }) => {
+    doc.addPage();
+    drawProductPage(w, locale, product);
+    doc.addPage();
+    drawVariantsPage(w, locale, product);
+  });
+
+  doc.addPage();
+  drawBackCover(w, locale);
+
+  const pageCount = doc.getNumberOfPages();
+  for (let page = 2; page < pageCount; page++) {
+    doc.setPage(page);
+    drawFooter(w, locale, page);
+  }
+
+  return Buffer.from(doc.output('arraybuffer'));
+}
+
+// The catalog only changes on deploy, so each language is generated once per process
+const pdfCache: Partial<Record<PdfLocale, Promise<Buffer>>> = {};
+
+export function getCatalogPdf(locale: Locale): Promise<Buffer> {
+  const pdfLocale = getPdfLocale(locale);
+  let pdf = pdfCache[pdfLocale];
+  if (!pdf) {
+    pdf = pdfCache[pdfLocale] = generateCatalogPdf(pdfLocale);
+    // A failed run is retried by the next request
+    pdf.catch(() => delete pdfCache[pdfLocale]);
+  }
+  return pdf;
+}
+
+const CATALOG_FILE_NAMES: Record<PdfLocale, string> = {
+  tr: 'monopol-stone-urun-katalogu.pdf',
+  en: 'monopol-stone-product-catalog.pdf',
+  de: 'monopol-stone-produktkatalog.pdf',
+};
+
+export const getCatalogFileName = (locale: Locale) => CATALOG_FILE_NAMES[getPdfLocale(locale)];
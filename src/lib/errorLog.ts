@@ -0,0 +1,255 @@
+import { createHash } from 'crypto';
+import { toPagePath } from './analytics';
+import { getAlertNotifier, notifySafely } from './notifications';
+import { RateLimiter } from './rateLimit';
+import { symbolicateStack } from './sourceMaps';
+import { Collection, type StoredRecord } from './store';
+
+// Client errors reported to /api/error-logging (useErrorHandling), grouped
+// by fingerprint: name and message plus the top stack frames with hosts,
+// line numbers and build hashes stripped, so one bug stays one group across
+// deploys and visitors. A new group, or a spike of errors that survived
+// several retries, sends an alert (ALERT_LIMIT per hour at most).
+//
+// All groups live in one file that is rewritten on every report, so it is
+// kept bounded: at most MAX_ERROR_GROUPS, none older than the retention.
+
+export const MAX_GROUP_PAGES = 50;
+export const MAX_GROUP_SESSIONS = 500;
+export const MAX_REPORT_BYTES = 32 * 1024;
+export const MAX_ERROR_GROUPS = 500;
+
+// Groups not seen for this many days are dropped
+const RETENTION_DAYS = Number(process.env.ERROR_RETENTION_DAYS) || 90;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const STACK_FRAMES = 5;
+const MESSAGE_LIMIT = 500;
+const STACK_LIMIT = 4000;
+const CONTEXT_LIMIT = 4000;
+
+// Errors still failing after more than `retryCount` retries are retry
+// failures; `threshold` of them within `windowMs` is a spike. One alert
+// per group per `cooldownMs` at most.
+export const RETRY_SPIKE = {
+  retryCount: 2,
+  threshold: 3,
+  windowMs: 10 * 60 * 1000,
+  cooldownMs: 60 * 60 * 1000,
+};
+
+// Alerts across all groups: every new message is a new group, so a client
+// sending made-up errors would otherwise fire one webhook each
+export const ALERT_LIMIT = {
+  max: 10,
+  windowMs: 60 * 60 * 1000,
+};
+
+const alertLimiter = new RateLimiter(ALERT_LIMIT.max, ALERT_LIMIT.windowMs);
+// Alerts dropped by the limit, mentioned in the next one that goes out
+let suppressedAlerts = 0;
+
+export interface ErrorReport {
+  name: string;
+  message: string;
+  stack?: string;
+  page?: string;
+  sessionId?: string;
+  retryCount: number;
+  userAgent?: string;
+  context?: Record<string, unknown>; // errorInfo from the client
+}
+
+export interface ErrorGroup extends StoredRecord {
+  // id is the fingerprint
+  name: string;
+  message: string;
+  frames: string[]; // normalized top stack frames
+  sourceFrames?: string[]; // latest stack mapped to src/ files, when source maps were found
+  count: number;
+  firstSeen: string;
+  lastSeen: string;
+  pages: string[]; // first MAX_GROUP_PAGES distinct pages
+  sessions: string[]; // first MAX_GROUP_SESSIONS distinct sessions
+  retryFailures: string[]; // times of retry failures within the spike window
+  lastSpikeAlertAt?: string;
+  lastReport: Pick<ErrorReport, 'page' | 'userAgent' | 'retryCount' | 'context' | 'stack'>;
+}
+
+export const errorGroups = new Collection<ErrorGroup>('error-groups');
+
+const asString = (value: unknown, limit: number) => (typeof value === 'string' ? value.trim().slice(0, limit) : '');
+
+// Body from useErrorHandling: { type: 'error', data: { message, stack, ... } }
+export function parseErrorReport(body: unknown): ErrorReport | string {
+  if (!body || typeof body !== 'object') return 'Invalid error report';
+  const outer = body as Record<string, unknown>;
+  const data = (outer.data && typeof outer.data === 'object' ? outer.data : outer) as Record<string, unknown>;
+
+  const message = asString(data.message, MESSAGE_LIMIT).replace(/\s+/g, ' ');
+  if (!message) return 'message is required';
+
+  return {
+    name: asString(data.name, 100) || 'Error',
+    message,
+    stack: asString(data.stack, STACK_LIMIT) || undefined,
+    page: toPagePath(asString(data.url, 2000)) || undefined,
+    sessionId: asString(data.sessionId, 100) || undefined,
+    retryCount: typeof data.retryCount === 'number' && isFinite(data.retryCount) ? Math.max(0, data.retryCount) : 0,
+    userAgent: asString(data.userAgent, 300) || undefined,
+    context:
+      data.errorInfo && typeof data.errorInfo === 'object' && JSON.stringify(data.errorInfo).length <= CONTEXT_LIMIT
+        ? (data.errorInfo as Record<string, unknown>)
+        : undefined,
+  };
+}
+
+// "at Foo (https://site/_next/static/chunks/app/page-3f2a9c1b7d.js?v=2:1:2345)"
+// becomes "at Foo (/_next/static/chunks/app/page-<hash>.js)"
+export function normalizeStack(stack: string | undefined): string[] {
+  if (!stack) return [];
+  return stack
+    .split('\n')
+    .map((line) => line.trim())
+    // V8 frames start with "at ", Firefox and Safari ones contain "@"
+    .filter((line) => /^at\s|@/.test(line))
+    .slice(0, STACK_FRAMES)
+    .map((line) =>
+      line
+        .replace(/[a-z][a-z0-9+.-]*:\/\/[^/\s)]+/gi, '')
+        .replace(/\?[^\s):]*/g, '')
+        .replace(/(:\d+){1,2}(?=\)?$)/, '')
+        .replace(/\b[0-9a-f]{8,}\b/gi, '<hash>')
+        .replace(/(\/chunks\/)\d+(?=[-.])/g, '$1<id>')
+    );
+}
+
+export function getFingerprint(report: Pick<ErrorReport, 'name' | 'message' | 'stack'>): string {
+  const source = [report.name, report.message].concat(normalizeStack(report.stack)).join('\n');
+  return createHash('sha256').update(source).digest('hex').slice(0, 16);
+}
+
+const addCapped = (list: string[], value: string | undefined, limit: number) => {
+  if (value && list.length < limit && list.indexOf(value) === -1) list.push(value);
+};
+
+// Expired groups first, then the least recently seen beyond the cap
+function pruneGroups(records: ErrorGroup[], now: number): void {
+  const cutoff = new Date(now - RETENTION_DAYS * DAY_MS).toISOString();
+  const kept = records
+    .filter((record) => record.lastSeen >= cutoff)
+    .sort((a, b) => b.lastSeen.localeCompare(a.lastSeen))
+    .slice(0, MAX_ERROR_GROUPS);
+  records.splice(0, records.length, ...kept);
+}
+
+export async function recordError(report: ErrorReport, now = Date.now()): Promise<ErrorGroup> {
+  const id = getFingerprint(report);
+  const at = new Date(now).toISOString();
+  // Outside the write queue: reading source maps can take a moment
+  const sourceFrames = await symbolicateStack(report.stack);
+
+  const { group, isNew, isSpike } = await errorGroups.mutate((records) => {
+    let existing = records.find((record) => record.id === id);
+    const created = !existing;
+    if (!existing) {
+      existing = {
+        id,
+        createdAt: at,
+        updatedAt: at,
+        name: report.name,
+        message: report.message,
+        frames: normalizeStack(report.stack),
+        count: 0,
+        firstSeen: at,
+        lastSeen: at,
+        pages: [],
+        sessions: [],
+        retryFailures: [],
+        lastReport: { retryCount: 0 },
+      };
+      records.push(existing);
+    }
+
+    existing.count += 1;
+    existing.lastSeen = at;
+    existing.updatedAt = at;
+    if (sourceFrames) existing.sourceFrames = sourceFrames;
+    addCapped(existing.pages, report.page, MAX_GROUP_PAGES);
+    addCapped(existing.sessions, report.sessionId, MAX_GROUP_SESSIONS);
+    existing.lastReport = {
+      page: report.page,
+      userAgent: report.userAgent,
+      retryCount: report.retryCount,
+      context: report.context,
+      stack: report.stack,
+    };
+
+    let spike = false;
+    if (report.retryCount > RETRY_SPIKE.retryCount) {
+      existing.retryFailures = existing.retryFailures
+        .filter((time) => now - Date.parse(time) < RETRY_SPIKE.windowMs)
+        .concat(at);
+      const cooledDown =
+        !existing.lastSpikeAlertAt || now - Date.parse(existing.lastSpikeAlertAt) >= RETRY_SPIKE.cooldownMs;
+      spike = existing.retryFailures.length >= RETRY_SPIKE.threshold && cooledDown;
+      if (spike) existing.lastSpikeAlertAt = at;
+    }
+
+    pruneGroups(records, now);
+
+    return { group: { ...existing }, isNew: created, isSpike: spike };
+  });
+
+  if ((isNew || isSpike) && !alertLimiter.hit('alerts').allowed) {
+    suppressedAlerts += 1;
+  } else if (isNew || isSpike) {
+    const suppressed = suppressedAlerts;
+    suppressedAlerts = 0;
+    await notifySafely(
+      {
+        subject: isSpike
+          ? `[Monopol Stone] Tekrarlanan hata: ${group.message.slice(0, 120)}`
+          : `[Monopol Stone] Yeni hata: ${group.message.slice(0, 120)}`,
+        text: [
+          `Hata: ${group.name}: ${group.message}`,
+          `Sayfa: ${report.page || '-'}`,
+          isSpike
+            ? `Son ${RETRY_SPIKE.windowMs / 60000} dakikada ${group.retryFailures.length} kez, ${RETRY_SPIKE.retryCount} yeniden denemeden sonra da başarısız`
+            : `Yeniden deneme: ${report.retryCount}`,
+          `Toplam: ${group.count} kez, ${group.sessions.length} oturum`,
+          ...(group.frames.length > 0 ? [''].concat(group.sourceFrames ? group.sourceFrames.slice(0, 8) : group.frames) : []),
+          '',
+          `Grup: ${group.id} (ilk: ${group.firstSeen})`,
+          ...(suppressed > 0 ? [`Sınır nedeniyle gönderilmeyen uyarı: ${suppressed}`] : []),
+        ].join('\n'),
+        data: {
+          event: isSpike ? 'error.retry_spike' : 'error.new_group',
+          fingerprint: group.id,
+          name: group.name,
+          message: group.message,
+          page: report.page,
+          count: group.count,
+          sessions: group.sessions.length,
+          retryFailures: group.retryFailures.length,
+          frames: group.sourceFrames || group.frames,
+          firstSeen: group.firstSeen,
+          lastSeen: group.lastSeen,
+          suppressedAlerts: suppressed,
+        },
+      },
+      getAlertNotifier()
+    );
+  }
+
+  return group;
+}
+
+export type ErrorGroupSummary = Omit<ErrorGroup, 'sessions' | 'retryFailures'> & { sessionCount: number };
+
+// For /admin: most recent first, session ids reduced to a count
+export function summarizeErrorGroups(list: ErrorGroup[]): ErrorGroupSummary[] {
+  return list
+    .map(({ sessions, retryFailures, ...group }) => ({ ...group, sessionCount: sessions.length }))
+    .sort((a, b) => b.lastSeen.localeCompare(a.lastSeen));
+}
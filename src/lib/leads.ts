@@ -0,0 +1,86 @@
+import type { Locale } from '@/data/catalog';
+import type { ContactFields } from '@/utils/validators';
+import { Collection, type StoredRecord } from './store';
+import { notifySafely } from './notifications';
+import {
+  formatNotes,
+  matchesSalesFilters,
+  toCsv,
+  withSalesDefaults,
+  type SalesFields,
+  type SalesFilters,
+} from './sales';
+
+// Contact form submissions ("leads")
+
+export type LeadSource = 'contact-page' | 'contact-form';
+
+export type LeadStatus = 'new' | 'contacted' | 'qualified' | 'closed';
+
+export const LEAD_STATUSES: LeadStatus[] = ['new', 'contacted', 'qualified', 'closed'];
+
+export interface Lead extends StoredRecord, ContactFields, SalesFields {
+  status: LeadStatus;
+  locale: Locale;
+  source: LeadSource;
+  page?: string;
+  userAgent?: string;
+}
+
+export const leads = new Collection<Lead>('leads');
+
+export async function createLead(
+  data: Omit<Lead, keyof StoredRecord | keyof SalesFields | 'status'>
+): Promise<Lead> {
+  const lead = await leads.insert({ ...data, status: 'new', notes: [] });
+
+  await notifySafely({
+    subject: `[Monopol Stone] Yeni iletişim talebi: ${lead.subject}`,
+    replyTo: lead.email,
+    text: [
+      `Ad Soyad: ${lead.name}`,
+      `E-posta: ${lead.email}`,
+      `Telefon: ${lead.phone || '-'}`,
+      `Konu: ${lead.subject}`,
+      `Dil: ${lead.locale.toUpperCase()}`,
+      `Sayfa: ${lead.page || '-'}`,
+      '',
+      lead.message,
+      '',
+      `Kayıt: ${lead.id} (${lead.createdAt})`,
+    ].join('\n'),
+  });
+
+  return lead;
+}
+
+export function filterLeads(list: Lead[], filters: SalesFilters): Lead[] {
+  return list
+    .map(withSalesDefaults)
+    .filter((lead) => {
+      if (filters.subject && lead.subject !== filters.subject) return false;
+      const text = [lead.name, lead.email, lead.phone, lead.subject, lead.message].join(' ');
+      return matchesSalesFilters(lead, filters, text);
+    })
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+export function leadsToCsv(list: Lead[]): string {
+  return toCsv(
+    ['Tarih', 'Durum', 'Sorumlu', 'Ad Soyad', 'E-posta', 'Telefon', 'Konu', 'Mesaj', 'Dil', 'Kaynak', 'Sayfa', 'Notlar'],
+    list.map((lead) => [
+      lead.createdAt,
+      lead.status,
+      lead.assignedTo,
+      lead.name,
+      lead.email,
+      lead.phone,
+      lead.subject,
+      lead.message,
+      lead.locale,
+      lead.source,
+      lead.page,
+      formatNotes(lead.notes),
+    ])
+  );
+}
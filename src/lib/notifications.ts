@@ -0,0 +1,140 @@
+import nodemailer from 'nodemailer';
+
+// Pluggable notification channel for new submissions.
+// NOTIFY_TRANSPORT selects the implementation:
+//   smtp    - send mail through SMTP_HOST/SMTP_PORT (e.g. a local MailHog/Mailpit)
+//   console - print the message to the server log (default in development)
+//   webhook - POST the message as JSON to NOTIFY_WEBHOOK_URL
+//   none    - drop notifications
+//
+// Error alerts (see errorLog.ts) have their own channel: ALERT_WEBHOOK_URL,
+// falling back to the notifier above.
+
+export interface Notification {
+  subject: string;
+  text: string;
+  replyTo?: string;
+  // Structured details for machine-readable channels (webhooks)
+  data?: Record<string, unknown>;
+}
+
+export interface Notifier {
+  name: string;
+  send(notification: Notification): Promise<void>;
+}
+
+class ConsoleNotifier implements Notifier {
+  name = 'console';
+
+  async send(notification: Notification): Promise<void> {
+    console.log('[Notification]', notification.subject, '\n' + notification.text);
+  }
+}
+
+class NullNotifier implements Notifier {
+  name = 'none';
+
+  async send(): Promise<void> {}
+}
+
+class SmtpNotifier implements Notifier {
+  name = 'smtp';
+  private transporter = nodemailer.createTransport({
+    host: process.env.SMTP_HOST || 'localhost',
+    port: Number(process.env.SMTP_PORT || 1025),
+    secure: process.env.SMTP_SECURE === 'true',
+    auth: process.env.SMTP_USER
+      ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASS || '' }
+      : undefined,
+  });
+
+  async send(notification: Notification): Promise<void> {
+    await this.transporter.sendMail({
+      from: process.env.NOTIFY_FROM || 'Monopol Stone <noreply@monopolstone.com>',
+      to: process.env.NOTIFY_TO || 'info@monopolstone.com',
+      replyTo: notification.replyTo,
+      subject: notification.subject,
+      text: notification.text,
+    });
+  }
+}
+
+const WEBHOOK_TIMEOUT_MS = 5000;
+
+// Sends { text, subject, data }. "text" carries the whole message, so chat
+// incoming webhooks (Slack, Mattermost, ...) can post it as it is.
+export class WebhookNotifier implements Notifier {
+  name = 'webhook';
+
+  constructor(private readonly url: string) {}
+
+  async send(notification: Notification): Promise<void> {
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), WEBHOOK_TIMEOUT_MS);
+    try {
+      const response = await fetch(this.url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          text: `${notification.subject}\n${notification.text}`,
+          subject: notification.subject,
+          data: notification.data,
+        }),
+        signal: controller.signal,
+      });
+      if (!response.ok) throw new Error(`Webhook responded with ${response.status}`);
+    } finally {
+      clearTimeout(timeout);
+    }
+  }
+}
+
+let notifier: Notifier | null = null;
+let alertNotifier: Notifier | null = null;
+
+export function getNotifier(): Notifier {
+  if (notifier) return notifier;
+
+  const transport = process.env.NOTIFY_TRANSPORT || (process.env.NODE_ENV === 'production' ? 'smtp' : 'console');
+  switch (transport) {
+    case 'smtp':
+      notifier = new SmtpNotifier();
+      break;
+    case 'webhook':
+      notifier = process.env.NOTIFY_WEBHOOK_URL ? new WebhookNotifier(process.env.NOTIFY_WEBHOOK_URL) : new ConsoleNotifier();
+      break;
+    case 'none':
+      notifier = new NullNotifier();
+      break;
+    default:
+      notifier = new ConsoleNotifier();
+  }
+  return notifier;
+}
+
+// Channel for operational alerts, kept apart from the sales mailbox
+export function getAlertNotifier(): Notifier {
+  if (alertNotifier) return alertNotifier;
+  alertNotifier = process.env.ALERT_WEBHOOK_URL ? new WebhookNotifier(process.env.ALERT_WEBHOOK_URL) : getNotifier();
+  return alertNotifier;
+}
+
+// Replace the active notifier, e.g. with a custom channel
+export function setNotifier(custom: Notifier | null): void {
+  notifier = custom;
+}
+
+export function setAlertNotifier(custom: Notifier | null): void {
+  alertNotifier = custom;
+}
+
+// Notification failures must never fail the user's submission
+export async function notifySafely(notification: Notification, channel: Notifier = getNotifier()): Promise<boolean> {
+  try {
+    await channel.send(notification);
+    return true;
+  } catch (error) {
+    console.error(`[Notification] ${channel.name} delivery failed:`, error);
+    return false;
+  }
+}
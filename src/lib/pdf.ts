@@ -0,0 +1,156 @@
+import { readFileSync } from 'fs';
+import path from 'path';
+import type { jsPDF } from 'jspdf';
+import sharp from 'sharp';
+import type { Locale, LocalizedText } from '@/data/catalog';
+import { CONTACT, LOCALE_SETTINGS, SITE_URL } from '@/i18n/config';
+
+// Shared drawing helpers for the server-generated PDFs (product catalog and
+// spec sheets): A4 portrait in millimetres, site colors and font handling.
+
+const PUBLIC_DIR = path.join(process.cwd(), 'public');
+export { CONTACT, SITE_URL };
+
+// Poppins (the site font, public/fonts, SIL OFL) is embedded in every PDF:
+// the built-in Helvetica has no glyphs for ğ, ş and ı. A missing font file
+// is an error rather than a document with misspelled Turkish.
+const FONT_FAMILY = 'Poppins';
+const FONT_FILES = { normal: 'Poppins-Regular.ttf', bold: 'Poppins-SemiBold.ttf' };
+
+// Neither font has Arabic glyphs and jsPDF does no Arabic shaping, so
+// right-to-left languages are served the English documents
+export type PdfLocale = Exclude<Locale, 'ar'>;
+
+export function getPdfLocale(locale: Locale): PdfLocale {
+  return LOCALE_SETTINGS[locale].dir === 'rtl' ? 'en' : (locale as PdfLocale);
+}
+
+// Document language, as a code jsPDF accepts
+export const PDF_LANGUAGES: Record<PdfLocale, 'tr' | 'en-GB' | 'de-DE'> = {
+  tr: 'tr',
+  en: 'en-GB',
+  de: 'de-DE',
+};
+
+export const PAGE = { width: 210, height: 297, margin: 15 };
+export const CONTENT_WIDTH = PAGE.width - PAGE.margin * 2;
+
+export const COLORS = {
+  accent: '#FD7E14',
+  dark: '#2c3e50',
+  text: '#333333',
+  muted: '#777777',
+  line: '#e0e0e0',
+  light: '#f8f9fa',
+};
+
+// Photos are re-encoded at print size before they are embedded: the
+// originals would make the catalog about 15 MB. 1000px is ~150 dpi across
+// the content width, the widest a photo is drawn apart from the cover.
+const PRINT_IMAGE = { width: 1000, quality: 72 };
+
+export interface Writer {
+  doc: jsPDF;
+  font: (style: 'normal' | 'bold', size: number, color?: string) => void;
+  image: (src: string, x: number, y: number, width: number, height: number) => void;
+}
+
+// Print-size images, converted once per process; null when a file failed
+const imageCache = new Map<string, Promise<Uint8Array | null>>();
+
+function prepareImage(src: string): Promise<Uint8Array | null> {
+  let prepared = imageCache.get(src);
+  if (!prepared) {
+    const image = sharp(path.join(PUBLIC_DIR, src)).resize({ width: PRINT_IMAGE.width, withoutEnlargement: true });
+    const encoded = path.extname(src).toLowerCase() === '.png'
+      ? image.png({ compressionLevel: 9 })
+      : image.jpeg({ quality: PRINT_IMAGE.quality, mozjpeg: true });
+    prepared = encoded.toBuffer().then(
+      (data) => new Uint8Array(data),
+      (error) => {
+        console.error(`[PDF] Failed to prepare image ${src}:`, error);
+        return null;
+      }
+    );
+    imageCache.set(src, prepared);
+  }
+  return prepared;
+}
+
+// Font files are read once per process
+const fontCache: Partial<Record<keyof typeof FONT_FILES, string>> = {};
+
+function readFont(style: keyof typeof FONT_FILES): string {
+  const cached = fontCache[style];
+  if (cached) return cached;
+  const file = path.join(PUBLIC_DIR, 'fonts', FONT_FILES[style]);
+  try {
+    return (fontCache[style] = readFileSync(file).toString('base64'));
+  } catch (error) {
+    throw new Error(`[PDF] Cannot read ${path.relative(process.cwd(), file)}: ${(error as Error).message}`);
+  }
+}
+
+function loadFont(doc: jsPDF): void {
+  (['normal', 'bold'] as const).forEach((style) => {
+    doc.addFileToVFS(FONT_FILES[style], readFont(style));
+    doc.addFont(FONT_FILES[style], FONT_FAMILY, style);
+  });
+}
+
+// images: every image the document draws, converted before drawing starts
+export async function createWriter(doc: jsPDF, images: string[]): Promise<Writer> {
+  loadFont(doc);
+  const prepared = new Map<string, Uint8Array | null>();
+  await Promise.all(images.map(async (src) => {
+    prepared.set(src, await prepareImage(src));
+  }));
+
+  return {
+    doc,
+    font: (style, size, color = COLORS.text) => {
+      doc.setFont(FONT_FAMILY, style);
+      doc.setFontSize(size);
+      doc.setTextColor(color);
+    },
+    image: (src, x, y, width, height) => {
+      const type = path.extname(src).toLowerCase() === '.png' ? 'PNG' : 'JPEG';
+      try {
+        const data = prepared.get(src);
+        if (!data) throw new Error(data === undefined ? 'not prepared' : 'conversion failed');
+        // The alias makes jsPDF embed each file once, however often it is drawn
+        doc.addImage(data, type, x, y, width, height, src, 'FAST');
+      } catch (error) {
+        console.error(`[PDF] Failed to add image ${src}:`, error);
+        doc.setFillColor(COLORS.light);
+        doc.rect(x, y, width, height, 'F');
+      }
+    },
+  };
+}
+
+// Writes wrapped text and returns the y position below it
+export function paragraph(w: Writer, value: string, x: number, y: number, width: number, lineHeight: number): number {
+  const lines: string[] = w.doc.splitTextToSize(value, width);
+  w.doc.text(lines, x, y, { lineHeightFactor: lineHeight / (w.doc.getFontSize() * 0.3528) });
+  return y + lines.length * lineHeight;
+}
+
+export function bulletList(w: Writer, items: LocalizedText[], locale: Locale, x: number, y: number, width: number): number {
+  let cursor = y;
+  items.forEach((item) => {
+    w.doc.setFillColor(COLORS.accent);
+    w.doc.circle(x + 1, cursor - 1.2, 0.8, 'F');
+    cursor = paragraph(w, item[locale], x + 4, cursor, width - 4, 5) + 1;
+  });
+  return cursor;
+}
+
+export function sectionTitle(w: Writer, value: string, x: number, y: number, width: number): number {
+  w.font('bold', 12, COLORS.dark);
+  w.doc.text(value, x, y);
+  w.doc.setDrawColor(COLORS.accent);
+  w.doc.setLineWidth(0.6);
+  w.doc.line(x, y + 2, x + Math.min(width, 30), y + 2);
+  return y + 9;
+}
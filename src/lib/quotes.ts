@@ -0,0 +1,224 @@
+import { randomUUID } from 'crypto';
+import { getColor, getProductById, type Locale } from '@/data/catalog';
+import { Collection, type StoredRecord } from './store';
+import { notifySafely } from './notifications';
+import {
+  formatNotes,
+  matchesSalesFilters,
+  toCsv,
+  withSalesDefaults,
+  type SalesFields,
+  type SalesFilters,
+} from './sales';
+
+// Quote requests ("teklif") with product/color line items
+
+export type QuoteStatus = 'new' | 'priced' | 'sent' | 'won' | 'lost';
+
+export const QUOTE_STATUSES: QuoteStatus[] = ['new', 'priced', 'sent', 'won', 'lost'];
+
+export interface QuoteLineItem {
+  productId: string;
+  productTitle: string;
+  productCode: string;
+  colorKey: string;
+  colorName: string;
+  quantity: number; // m²
+  cornerLength?: number; // m
+  note?: string;
+  unitPrice?: number; // per m², set when the quote is priced
+}
+
+export interface QuoteContact {
+  name: string;
+  email: string;
+  phone: string;
+  company?: string;
+  city?: string;
+  message?: string;
+}
+
+export interface QuoteRequest extends StoredRecord, SalesFields {
+  reference: string;
+  status: QuoteStatus;
+  locale: Locale;
+  contact: QuoteContact;
+  items: QuoteLineItem[];
+}
+
+export interface QuoteItemInput {
+  productId: string;
+  colorKey: string;
+  quantity: number;
+  cornerLength?: number;
+  note?: string;
+}
+
+export const MAX_QUOTE_ITEMS = 20;
+export const MAX_QUANTITY = 100000;
+
+export const quotes = new Collection<QuoteRequest>('quotes');
+
+// Human-friendly reference, sequential per year: TKL-2025-00042
+export function formatReference(year: number, sequence: number): string {
+  return `TKL-${year}-${String(sequence).padStart(5, '0')}`;
+}
+
+function nextReference(existing: QuoteRequest[], now: Date): string {
+  const year = now.getFullYear();
+  const prefix = `TKL-${year}-`;
+  const last = existing
+    .filter((q) => q.reference.startsWith(prefix))
+    .reduce((max, q) => Math.max(max, parseInt(q.reference.slice(prefix.length), 10) || 0), 0);
+  return formatReference(year, last + 1);
+}
+
+// Validates client line items against the catalog and snapshots the
+// product/color names, so later catalog edits do not rewrite old quotes.
+export function resolveQuoteItems(input: unknown, locale: Locale): { items: QuoteLineItem[]; errors: string[] } {
+  const errors: string[] = [];
+  const items: QuoteLineItem[] = [];
+
+  if (!Array.isArray(input) || input.length === 0) {
+    return { items, errors: ['items: at least one product is required'] };
+  }
+  if (input.length > MAX_QUOTE_ITEMS) {
+    return { items, errors: [`items: at most ${MAX_QUOTE_ITEMS} products are allowed`] };
+  }
+
+  input.forEach((raw: Partial<QuoteItemInput>, index) => {
+    const product = raw && typeof raw.productId === 'string' ? getProductById(raw.productId) : undefined;
+    if (!product) {
+      errors.push(`items[${index}]: unknown product`);
+      return;
+    }
+    const color = product.colors.find((c) => c.key === raw.colorKey);
+    if (!color) {
+      errors.push(`items[${index}]: unknown color for ${product.id}`);
+      return;
+    }
+    const quantity = Number(raw.quantity);
+    if (!(quantity > 0) || quantity > MAX_QUANTITY) {
+      errors.push(`items[${index}]: quantity must be between 0 and ${MAX_QUANTITY} m²`);
+      return;
+    }
+    const cornerLength = raw.cornerLength === undefined ? undefined : Number(raw.cornerLength);
+    if (cornerLength !== undefined && !(cornerLength >= 0 && cornerLength <= MAX_QUANTITY)) {
+      errors.push(`items[${index}]: invalid corner length`);
+      return;
+    }
+
+    items.push({
+      productId: product.id,
+      productTitle: product.title,
+      productCode: product.code,
+      colorKey: color.key,
+      colorName: getColor(product, color.key).name[locale],
+      quantity: Math.round(quantity * 100) / 100,
+      cornerLength: cornerLength ? Math.round(cornerLength * 100) / 100 : undefined,
+      note: typeof raw.note === 'string' ? raw.note.trim().slice(0, 1000) || undefined : undefined,
+    });
+  });
+
+  return { items, errors };
+}
+
+export async function createQuote(data: {
+  locale: Locale;
+  contact: QuoteContact;
+  items: QuoteLineItem[];
+}): Promise<QuoteRequest> {
+  const quote = await quotes.mutate((records) => {
+    const now = new Date();
+    const record: QuoteRequest = {
+      id: randomUUID(),
+      createdAt: now.toISOString(),
+      updatedAt: now.toISOString(),
+      reference: nextReference(records, now),
+      status: 'new',
+      notes: [],
+      ...data,
+    };
+    records.push(record);
+    return record;
+  });
+
+  const totalArea = quote.items.reduce((sum, item) => sum + item.quantity, 0);
+
+  await notifySafely({
+    subject: `[Monopol Stone] Yeni teklif talebi ${quote.reference}`,
+    replyTo: quote.contact.email,
+    text: [
+      `Referans: ${quote.reference}`,
+      `Ad Soyad: ${quote.contact.name}`,
+      `Firma: ${quote.contact.company || '-'}`,
+      `E-posta: ${quote.contact.email}`,
+      `Telefon: ${quote.contact.phone || '-'}`,
+      `Şehir: ${quote.contact.city || '-'}`,
+      `Dil: ${quote.locale.toUpperCase()}`,
+      '',
+      'Ürünler:',
+      ...quote.items.map((item) =>
+        `- ${item.productTitle} (${item.productCode}) ${item.colorName}: ${item.quantity} m²` +
+        (item.cornerLength ? ` + ${item.cornerLength} m köşe` : '')
+      ),
+      `Toplam: ${Math.round(totalArea * 100) / 100} m²`,
+      '',
+      quote.contact.message || '',
+    ].join('\n'),
+  });
+
+  return quote;
+}
+
+export function filterQuotes(list: QuoteRequest[], filters: SalesFilters): QuoteRequest[] {
+  return list
+    .map(withSalesDefaults)
+    .filter((quote) => {
+      const text = [
+        quote.reference,
+        quote.contact.name,
+        quote.contact.email,
+        quote.contact.phone,
+        quote.contact.company,
+        quote.contact.city,
+        quote.contact.message,
+      ].join(' ');
+      return matchesSalesFilters(quote, filters, text, quote.items.map((item) => item.productId));
+    })
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+// One row per line item, so the export can be pivoted by product/color
+export function quotesToCsv(list: QuoteRequest[]): string {
+  const rows: Array<Array<string | number | undefined>> = [];
+  list.forEach((quote) => {
+    quote.items.forEach((item) => {
+      rows.push([
+        quote.reference,
+        quote.createdAt,
+        quote.status,
+        quote.assignedTo,
+        quote.contact.name,
+        quote.contact.company,
+        quote.contact.email,
+        quote.contact.phone,
+        quote.contact.city,
+        quote.locale,
+        item.productTitle,
+        item.productCode,
+        item.colorName,
+        item.quantity,
+        item.cornerLength,
+        item.unitPrice,
+        formatNotes(quote.notes),
+      ]);
+    });
+  });
+
+  return toCsv(
+    ['Referans', 'Tarih', 'Durum', 'Sorumlu', 'Ad Soyad', 'Firma', 'E-posta', 'Telefon', 'Şehir', 'Dil',
+      'Ürün', 'Kod', 'Renk', 'Miktar (m²)', 'Köşe (m)', 'Birim Fiyat', 'Notlar'],
+    rows
+  );
+}
@@ -0,0 +1,71 @@
+import type { NextRequest } from 'next/server';
+
+// Fixed-window request limits, kept in memory per server process. Enough
+// to stop one looping client from flooding a route; it is not a defence
+// against distributed abuse.
+
+export interface RateLimitResult {
+  allowed: boolean;
+  remaining: number;
+  retryAfter: number; // seconds until the window resets
+}
+
+interface Window {
+  start: number;
+  count: number;
+}
+
+// Windows are swept once the map grows past this many keys
+const SWEEP_SIZE = 10000;
+
+export class RateLimiter {
+  private readonly windows = new Map<string, Window>();
+
+  constructor(
+    private readonly limit: number,
+    private readonly windowMs: number
+  ) {}
+
+  // cost: how much of the limit this request uses up, e.g. events in a batch
+  hit(key: string, cost = 1, now = Date.now()): RateLimitResult {
+    let window = this.windows.get(key);
+    if (!window || now - window.start >= this.windowMs) {
+      if (!window && this.windows.size >= SWEEP_SIZE) this.sweep(now);
+      window = { start: now, count: 0 };
+      this.windows.set(key, window);
+    }
+    window.count += cost;
+
+    return {
+      allowed: window.count <= this.limit,
+      remaining: Math.max(0, this.limit - window.count),
+      retryAfter: Math.ceil((window.start + this.windowMs - now) / 1000),
+    };
+  }
+
+  private sweep(now: number): void {
+    this.windows.forEach((window, key) => {
+      if (now - window.start >= this.windowMs) this.windows.delete(key);
+    });
+  }
+}
+
+// Reverse proxies in front of the app that append the address they were
+// connected from to X-Forwarded-For. Entries left of theirs come from the
+// client and are never trusted, so without a proxy the header is ignored.
+const TRUSTED_PROXY_HOPS = Math.max(0, Math.floor(Number(process.env.TRUSTED_PROXY_HOPS) || 0));
+
+// Limiter key for the client. Behind TRUSTED_PROXY_HOPS proxies it is the
+// entry the outermost one added; otherwise the platform's request.ip. When
+// neither is known all such requests share one key.
+export function getClientIp(request: NextRequest): string {
+  if (TRUSTED_PROXY_HOPS > 0) {
+    const hops = (request.headers.get('x-forwarded-for') || '')
+      .split(',')
+      .map((hop) => hop.trim())
+      .filter(Boolean);
+    const client = hops[hops.length - TRUSTED_PROXY_HOPS];
+    if (client) return client;
+  }
+  return request.ip || 'unknown';
+}
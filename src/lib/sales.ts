@@ -0,0 +1,156 @@
+import { randomUUID } from 'crypto';
+import { LOCALES, getProductById, type Locale } from '@/data/catalog';
+import type { Collection, StoredRecord } from './store';
+
+// Sales pipeline fields shared by leads and quote requests:
+// assignment, internal notes, filtering and CSV export for /admin.
+
+export interface SalesNote {
+  id: string;
+  author: string;
+  text: string;
+  createdAt: string;
+}
+
+export interface SalesFields {
+  assignedTo?: string;
+  notes: SalesNote[];
+}
+
+export interface SalesFilters {
+  from?: string; // YYYY-MM-DD, inclusive
+  to?: string; // YYYY-MM-DD, inclusive
+  subject?: string;
+  product?: string; // product id
+  locale?: Locale;
+  status?: string;
+  assignedTo?: string; // username, or "none" for unassigned
+  q?: string;
+}
+
+export interface SalesUpdate {
+  status?: string;
+  assignedTo?: string | null;
+  note?: string;
+}
+
+type SalesRecord = StoredRecord & SalesFields & { status: string; locale: Locale };
+
+export const MAX_NOTE_LENGTH = 2000;
+
+const DATE_PARAM = /^\d{4}-\d{2}-\d{2}$/;
+
+const fold = (value: string) => value.toLocaleLowerCase('tr-TR');
+
+export function parseSalesFilters(params: URLSearchParams): SalesFilters {
+  const get = (key: string) => params.get(key)?.trim() || undefined;
+  const locale = get('locale') as Locale | undefined;
+  const from = get('from');
+  const to = get('to');
+
+  return {
+    from: from && DATE_PARAM.test(from) ? from : undefined,
+    to: to && DATE_PARAM.test(to) ? to : undefined,
+    subject: get('subject'),
+    product: get('product'),
+    locale: locale && LOCALES.indexOf(locale) >= 0 ? locale : undefined,
+    status: get('status'),
+    assignedTo: get('assignedTo'),
+    q: get('q'),
+  };
+}
+
+// Records written before the admin panel existed have no status/notes
+export function withSalesDefaults<T extends SalesRecord>(record: T): T {
+  return { ...record, status: record.status || 'new', notes: record.notes || [] };
+}
+
+// Filters shared by both record types. `text` is the searchable content
+// (and the product match for leads, which have no structured products).
+export function matchesSalesFilters(
+  record: SalesRecord,
+  filters: SalesFilters,
+  text: string,
+  productIds: string[] = []
+): boolean {
+  const day = record.createdAt.slice(0, 10);
+  if (filters.from && day < filters.from) return false;
+  if (filters.to && day > filters.to) return false;
+  if (filters.locale && record.locale !== filters.locale) return false;
+  if (filters.status && record.status !== filters.status) return false;
+  if (filters.assignedTo) {
+    const assignee = record.assignedTo || 'none';
+    if (assignee !== filters.assignedTo) return false;
+  }
+  if (filters.product) {
+    const product = getProductById(filters.product);
+    const mentioned = product ? fold(text).indexOf(fold(product.title)) >= 0 : false;
+    if (productIds.indexOf(filters.product) === -1 && !mentioned) return false;
+  }
+  if (filters.q && fold(text).indexOf(fold(filters.q)) === -1) return false;
+  return true;
+}
+
+// Status totals for the dashboard cards (computed without the status filter)
+export function countByStatus(list: Array<{ status: string }>, statuses: string[]): Record<string, number> {
+  const counts: Record<string, number> = {};
+  statuses.forEach((status) => { counts[status] = 0; });
+  list.forEach((record) => { counts[record.status] = (counts[record.status] || 0) + 1; });
+  return counts;
+}
+
+// Applies a status change, (un)assignment and/or a new note in one write.
+// Returns a validation message instead of the record when the input is invalid.
+export async function applySalesUpdate<T extends SalesRecord>(
+  collection: Collection<T>,
+  id: string,
+  update: SalesUpdate,
+  options: { author: string; statuses: string[]; assignees: string[] }
+): Promise<{ record?: T; error?: string; notFound?: boolean }> {
+  if (update.status !== undefined && options.statuses.indexOf(update.status) === -1) {
+    return { error: `status must be one of: ${options.statuses.join(', ')}` };
+  }
+  if (update.assignedTo && options.assignees.indexOf(update.assignedTo) === -1) {
+    return { error: 'assignedTo must be a known salesperson' };
+  }
+  const note = typeof update.note === 'string' ? update.note.trim() : '';
+  if (note.length > MAX_NOTE_LENGTH) {
+    return { error: `note must be at most ${MAX_NOTE_LENGTH} characters` };
+  }
+
+  const record = await collection.mutate((records) => {
+    const index = records.findIndex((r) => r.id === id);
+    if (index === -1) return undefined;
+
+    const current = withSalesDefaults(records[index]);
+    const next: T = { ...current, updatedAt: new Date().toISOString() };
+    if (update.status !== undefined) next.status = update.status;
+    if (update.assignedTo !== undefined) next.assignedTo = update.assignedTo || undefined;
+    if (note) {
+      next.notes = [
+        ...current.notes,
+        { id: randomUUID(), author: options.author, text: note, createdAt: next.updatedAt },
+      ];
+    }
+    records[index] = next;
+    return next;
+  });
+
+  return record ? { record } : { notFound: true };
+}
+
+type CsvValue = string | number | undefined | null;
+
+// Excel-friendly CSV: UTF-8 BOM for Turkish characters, quoted cells,
+// and a leading apostrophe on cells that would otherwise run as formulas.
+export function toCsv(header: string[], rows: CsvValue[][]): string {
+  const cell = (value: CsvValue) => {
+    let text = value === undefined || value === null ? '' : String(value);
+    if (/^[=+\-@\t\r]/.test(text)) text = `'${text}`;
+    return `"${text.replace(/"/g, '""')}"`;
+  };
+  return '\uFEFF' + [header, ...rows].map((row) => row.map(cell).join(',')).join('\r\n') + '\r\n';
+}
+
+export const formatNotes = (notes: SalesNote[]) =>
+  notes.map((n) => `[${n.createdAt.slice(0, 16).replace('T', ' ')} ${n.author}] ${n.text}`).join('\n');
@@ -0,0 +1,592 @@
+import {
+  COLOR_FAMILIES,
+  getProductById,
+  getProductPath,
+  getProducts,
+  getSeries,
+  series as SERIES,
+  type ColorFamily,
+  type Locale,
+  type NumberRange,
+  type Product,
+  type SeriesId,
+} from '@/data/catalog';
+import { ENVIRONMENT_LABELS, formatNumber, formatQuantity } from '@/data/specs';
+import type { Messages } from '@/i18n/messages';
+import { getLocalizedPath, type RouteId, type RouteParams } from '@/i18n/routes';
+import { createTranslator } from '@/i18n/translate';
+
+// Catalog search shared by /api/search and the search result pages.
+// Text is folded character by character (Turkish lower-casing, then
+// diacritics removed), so positions in the folded text line up with the
+// original and matches can be highlighted without re-parsing.
+
+export type SearchField =
+  | 'title'
+  | 'code'
+  | 'series'
+  | 'colors'
+  | 'applications'
+  | 'summary'
+  | 'features'
+  | 'material'
+  | 'description'
+  | 'keywords';
+
+export interface HighlightSegment {
+  text: string;
+  match: boolean;
+}
+
+export interface SearchHit {
+  id: string;
+  type: 'product' | 'page';
+  title: string;
+  link: string;
+  image?: string;
+  productId?: string;
+  series?: SeriesId;
+  score: number;
+  matchedField: SearchField;
+  titleSegments: HighlightSegment[];
+  snippet: HighlightSegment[];
+}
+
+export interface SearchResponse {
+  query: string;
+  locale: Locale;
+  total: number;
+  results: SearchHit[];
+}
+
+// Filters of the result pages; the keys double as URL parameters
+export type FacetKey = 'series' | 'color' | 'thickness' | 'application';
+
+export const FACET_KEYS: FacetKey[] = ['series', 'color', 'thickness', 'application'];
+
+export type FacetSelection = Partial<Record<FacetKey, string[]>>;
+
+export interface FacetValue {
+  value: string;
+  label: string;
+  count: number;
+  selected: boolean;
+}
+
+export interface SearchFacet {
+  key: FacetKey;
+  values: FacetValue[];
+}
+
+export interface FacetedSearchResponse extends SearchResponse {
+  facets: SearchFacet[];
+  selection: FacetSelection;
+}
+
+interface Word {
+  text: string;
+  start: number;
+  end: number;
+}
+
+interface IndexedField {
+  name: SearchField;
+  text: string;
+  words: Word[];
+}
+
+interface SearchDocument {
+  id: string;
+  type: 'product' | 'page';
+  title: string;
+  link: string;
+  image?: string;
+  productId?: string;
+  series?: SeriesId;
+  codes: string[]; // compact folded product codes, e.g. "bp13001"
+  fields: IndexedField[];
+}
+
+interface Span {
+  field: SearchField;
+  start: number;
+  end: number;
+}
+
+export const MAX_QUERY_LENGTH = 100;
+export const DEFAULT_LIMIT = 8;
+
+const FIELD_WEIGHTS: Record<SearchField, number> = {
+  title: 10,
+  code: 9,
+  series: 6,
+  colors: 5,
+  applications: 4,
+  keywords: 3,
+  summary: 3,
+  features: 2,
+  material: 2,
+  description: 1,
+};
+
+// Fields a result snippet may be taken from, in order of preference
+const SNIPPET_FIELDS: SearchField[] = ['summary', 'colors', 'applications', 'features', 'material', 'description'];
+
+const FIELD_SEPARATOR = ' · ';
+
+const FOLD_MAP: Record<string, string> = {
+  'ı': 'i', 'ğ': 'g', 'ş': 's', 'ç': 'c', 'ö': 'o', 'ü': 'u',
+  'â': 'a', 'î': 'i', 'û': 'u', 'á': 'a', 'à': 'a', 'ä': 'a',
+  'é': 'e', 'è': 'e', 'ê': 'e', 'ë': 'e', 'í': 'i', 'ó': 'o',
+  'ô': 'o', 'ú': 'u', 'ß': 's',
+};
+
+const WORD_REGEX = /[^\s.,;:!?()[\]{}'"“”‘’„\/\\\-_+*&%#@<>=|~`^$²³·•–—…،؛؟]+/g;
+
+// One output character per input character (keeps highlight offsets valid)
+export function foldText(text: string): string {
+  let folded = '';
+  for (let i = 0; i < text.length; i++) {
+    const lower = text.charAt(i).toLocaleLowerCase('tr-TR').charAt(0);
+    folded += FOLD_MAP[lower] || lower;
+  }
+  return folded;
+}
+
+const compact = (folded: string) => folded.replace(/[^a-z0-9]/g, '');
+
+function tokenize(folded: string): Word[] {
+  const words: Word[] = [];
+  let match: RegExpExecArray | null;
+  WORD_REGEX.lastIndex = 0;
+  while ((match = WORD_REGEX.exec(folded)) !== null) {
+    words.push({ text: match[0], start: match.index, end: match.index + match[0].length });
+  }
+  return words;
+}
+
+// Optimal string alignment distance (Levenshtein + adjacent swaps),
+// abandoned early once it exceeds `max`
+export function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+  let prevPrev: number[] = [];
+  let prev: number[] = [];
+  for (let j = 0; j <= b.length; j++) prev.push(j);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a.charAt(i - 1) === b.charAt(j - 1) ? 0 : 1;
+      let value = Math.min(prev[j] + 1, current[j - 1] + 1, prev[j - 1] + cost);
+      if (i > 1 && j > 1 && a.charAt(i - 1) === b.charAt(j - 2) && a.charAt(i - 2) === b.charAt(j - 1)) {
+        value = Math.min(value, prevPrev[j - 2] + 1);
+      }
+      current.push(value);
+      rowMin = Math.min(rowMin, value);
+    }
+    if (rowMin > max) return max + 1;
+    prevPrev = prev;
+    prev = current;
+  }
+  return prev[b.length];
+}
+
+// Typos allowed for a query token of this length
+const allowedEdits = (length: number) => (length < 4 ? 0 : length < 7 ? 1 : 2);
+
+// Match quality of one query token against one indexed word (0 = no match)
+function matchWord(token: string, word: string): number {
+  if (word === token) return 1;
+  if (token.length >= 2 && word.indexOf(token) === 0) return 0.8;
+  if (token.length >= 3 && word.indexOf(token) > 0) return 0.5;
+
+  // Typo tolerance only for words: "13001" must not find "13002". Typos in
+  // the first letter are rare and matching them floods short queries.
+  const max = allowedEdits(token.length);
+  if (max === 0 || /\d/.test(token) || token.charAt(0) !== word.charAt(0)) return 0;
+  const distance = editDistance(token, word, max);
+  if (distance <= max) return 0.7 - 0.15 * distance;
+  // Typo inside a word that is still being typed
+  if (token.length >= 5 && word.length > token.length && editDistance(token, word.slice(0, token.length), max) <= max) {
+    return 0.4;
+  }
+  return 0;
+}
+
+function indexField(name: SearchField, text: string): IndexedField {
+  return { name, text, words: tokenize(foldText(text)) };
+}
+
+function productDocument(product: Product, locale: Locale): SearchDocument {
+  const productSeries = getSeries(product.series);
+  const displayCode = product.code.replace(/^B[PT]-/, 'AG ');
+  const fields = [
+    indexField('title', product.title),
+    indexField('code', `${product.code}${FIELD_SEPARATOR}${displayCode}`),
+    indexField('series', `${productSeries.title[locale]}${FIELD_SEPARATOR}${productSeries.plural[locale]}`),
+    indexField('colors', product.colors.map((c) => c.name[locale]).join(FIELD_SEPARATOR)),
+    indexField('applications', product.applications.map((a) => a[locale]).join(FIELD_SEPARATOR)),
+    indexField('summary', product.summary[locale]),
+    indexField('features', product.features.map((f) => f[locale]).join(FIELD_SEPARATOR)),
+    indexField('material', `${product.specs.material[locale]}${FIELD_SEPARATOR}${product.specs.finish[locale]}`),
+    indexField('description', product.description[locale]),
+    // Facet labels, so "gri" or "dış mekan" also work as plain queries
+    indexField('keywords', [
+      ...product.colors.map((c) => COLOR_FAMILIES[c.family][locale]),
+      ...product.specs.environment.map((e) => ENVIRONMENT_LABELS[e][locale]),
+    ].join(FIELD_SEPARATOR)),
+  ];
+
+  return {
+    id: `${product.id}-${locale}`,
+    type: 'product',
+    title: `${product.title} ${productSeries.title[locale]}`,
+    link: getProductPath(product, locale),
+    image: product.colors[0].image,
+    productId: product.id,
+    series: product.series,
+    codes: [compact(foldText(product.code)), compact(foldText(displayCode))],
+    fields,
+  };
+}
+
+interface SitePage {
+  id: keyof Messages['search']['pages'];
+  route: RouteId;
+  params?: RouteParams;
+}
+
+// Titles, descriptions and keywords live under search.pages in the messages
+const PAGES: SitePage[] = [
+  { id: 'products', route: 'products' },
+  { id: 'stones', route: 'series', params: { series: 'kultur-tasi' } },
+  { id: 'bricks', route: 'series', params: { series: 'kultur-tuglasi' } },
+  { id: 'gallery', route: 'gallery' },
+  { id: 'differences', route: 'differences' },
+  { id: 'professionals', route: 'professionals' },
+  { id: 'quote', route: 'quote' },
+  { id: 'contact', route: 'contact' },
+];
+
+const indexCache: Partial<Record<Locale, SearchDocument[]>> = {};
+
+function getIndex(locale: Locale): SearchDocument[] {
+  if (!indexCache[locale]) {
+    const t = createTranslator(locale);
+    indexCache[locale] = [
+      ...getProducts().map((product) => productDocument(product, locale)),
+      ...PAGES.map((page): SearchDocument => {
+        const title = t(`search.pages.${page.id}.title`);
+        return {
+          id: `page-${page.id}`,
+          type: 'page',
+          title,
+          link: getLocalizedPath(locale, page.route, page.params),
+          codes: [],
+          fields: [
+            indexField('title', title),
+            indexField('summary', t(`search.pages.${page.id}.description`)),
+            indexField('keywords', t(`search.pages.${page.id}.keywords`)),
+          ],
+        };
+      }),
+    ];
+  }
+  return indexCache[locale] as SearchDocument[];
+}
+
+// Turns matched spans of a text into highlight segments, optionally
+// cutting a window of about `maxLength` characters around the first match
+function toSegments(text: string, spans: Span[], maxLength?: number): HighlightSegment[] {
+  const sorted = spans.slice().sort((a, b) => a.start - b.start);
+  let from = 0;
+  let to = text.length;
+
+  if (maxLength && text.length > maxLength) {
+    const anchor = sorted.length > 0 ? sorted[0].start : 0;
+    from = Math.max(0, anchor - Math.floor(maxLength / 3));
+    to = Math.min(text.length, from + maxLength);
+    from = Math.max(0, to - maxLength);
+    // Do not cut words in half
+    if (from > 0) {
+      const space = text.indexOf(' ', from);
+      if (space > -1 && space < anchor) from = space + 1;
+    }
+    if (to < text.length) {
+      const space = text.lastIndexOf(' ', to);
+      if (space > from) to = space;
+    }
+  }
+
+  const segments: HighlightSegment[] = [];
+  const push = (value: string, match: boolean) => {
+    if (!value) return;
+    const last = segments[segments.length - 1];
+    if (last && last.match === match) last.text += value;
+    else segments.push({ text: value, match });
+  };
+
+  let cursor = from;
+  sorted.forEach((span) => {
+    const start = Math.max(span.start, cursor);
+    const end = Math.min(span.end, to);
+    if (end <= start) return;
+    push(text.slice(cursor, start), false);
+    push(text.slice(start, end), true);
+    cursor = end;
+  });
+  push(text.slice(cursor, to), false);
+
+  if (from > 0) segments.unshift({ text: '…', match: false });
+  if (to < text.length) segments.push({ text: '…', match: false });
+  return segments;
+}
+
+function scoreDocument(doc: SearchDocument, tokens: string[], compactQuery: string, foldedQuery: string) {
+  const spans: Span[] = [];
+  let score = 0;
+  let bestField: SearchField = 'title';
+  let bestFieldScore = 0;
+
+  // Product codes: "BP-13001", "bp13001", "13001" and "AG 13001" all match
+  const codeMatch = compactQuery.length >= 4 && doc.codes.some((code) => code.indexOf(compactQuery) >= 0);
+  if (codeMatch) {
+    score += FIELD_WEIGHTS.code * 3;
+    bestField = 'code';
+    bestFieldScore = score;
+  }
+
+  for (let t = 0; t < tokens.length; t++) {
+    let tokenScore = 0;
+
+    doc.fields.forEach((field) => {
+      let fieldQuality = 0;
+      field.words.forEach((word) => {
+        const quality = matchWord(tokens[t], word.text);
+        if (quality > 0) {
+          spans.push({ field: field.name, start: word.start, end: word.end });
+          fieldQuality = Math.max(fieldQuality, quality);
+        }
+      });
+      const fieldScore = fieldQuality * FIELD_WEIGHTS[field.name];
+      if (fieldScore > tokenScore) tokenScore = fieldScore;
+      if (fieldScore > bestFieldScore && field.name !== 'title') {
+        bestFieldScore = fieldScore;
+        bestField = field.name;
+      }
+    });
+
+    // Every query word has to match somewhere (codes count for all of them)
+    if (tokenScore === 0 && !codeMatch) return null;
+    score += tokenScore;
+  }
+
+  const foldedTitle = foldText(doc.title);
+  if (foldedTitle.indexOf(foldedQuery) === 0) score += 5;
+  else if (foldedTitle.indexOf(foldedQuery) > 0) score += 2;
+
+  return { score, spans, bestField };
+}
+
+function toHit(doc: SearchDocument, result: ReturnType<typeof scoreDocument>): SearchHit {
+  const spans = result ? result.spans : [];
+  const fieldSpans = (name: SearchField) => spans.filter((span) => span.field === name);
+  const titleField = doc.fields[0];
+  const snippetField =
+    (result && doc.fields.find((f) => f.name === result.bestField && SNIPPET_FIELDS.indexOf(f.name) >= 0)) ||
+    doc.fields.find((f) => SNIPPET_FIELDS.indexOf(f.name) >= 0 && fieldSpans(f.name).length > 0) ||
+    doc.fields.find((f) => f.name === 'summary') ||
+    titleField;
+
+  return {
+    id: doc.id,
+    type: doc.type,
+    title: doc.title,
+    link: doc.link,
+    image: doc.image,
+    productId: doc.productId,
+    series: doc.series,
+    score: result ? Math.round(result.score * 100) / 100 : 0,
+    matchedField: result ? result.bestField : 'title',
+    // The display title may be longer than the indexed one ("Mitra" → "Mitra Kültür Taşı")
+    titleSegments: toSegments(doc.title, fieldSpans('title')),
+    snippet: toSegments(snippetField.text, fieldSpans(snippetField.name), 160),
+  };
+}
+
+// All matching documents, best first
+function rank(query: string, locale: Locale): SearchHit[] {
+  const foldedQuery = foldText(query);
+  const tokens = tokenize(foldedQuery).map((word) => word.text);
+  if (tokens.length === 0) return [];
+
+  const compactQuery = compact(foldedQuery);
+  const scored: SearchHit[] = [];
+
+  getIndex(locale).forEach((doc) => {
+    const result = scoreDocument(doc, tokens, compactQuery, foldedQuery);
+    if (result) scored.push(toHit(doc, result));
+  });
+
+  // Products first on equal scores, then alphabetically
+  return scored.sort((a, b) =>
+    b.score - a.score ||
+    (a.type === b.type ? 0 : a.type === 'product' ? -1 : 1) ||
+    a.title.localeCompare(b.title, locale)
+  );
+}
+
+export function search(query: string, locale: Locale, limit = DEFAULT_LIMIT): SearchResponse {
+  const trimmed = query.trim().slice(0, MAX_QUERY_LENGTH);
+  const scored = rank(trimmed, locale);
+
+  return {
+    query: trimmed,
+    locale,
+    total: scored.length,
+    results: scored.slice(0, Math.max(0, limit)),
+  };
+}
+
+// Products without a stated thickness are in no thickness option
+const thicknessKey = (product: Product) =>
+  product.specs.thickness ? `${product.specs.thickness.min}-${product.specs.thickness.max}` : null;
+
+// Values a product contributes to each facet
+function productFacetValues(product: Product, key: FacetKey): string[] {
+  switch (key) {
+    case 'series':
+      return [product.series];
+    case 'color':
+      return product.colors
+        .map((c) => c.family)
+        .filter((family, i, families) => families.indexOf(family) === i);
+    case 'thickness': {
+      const key = thicknessKey(product);
+      return key ? [key] : [];
+    }
+    case 'application':
+      return product.specs.environment.slice();
+  }
+}
+
+// Every possible value of a facet in display order, with its label
+function facetOptions(key: FacetKey, locale: Locale): Array<{ value: string; label: string }> {
+  switch (key) {
+    case 'series':
+      return SERIES.map((s) => ({ value: s.id, label: s.title[locale] }));
+    case 'color':
+      return (Object.keys(COLOR_FAMILIES) as ColorFamily[]).map((family) => ({
+        value: family,
+        label: COLOR_FAMILIES[family][locale],
+      }));
+    case 'thickness': {
+      const ranges = getProducts()
+        .map((product) => product.specs.thickness)
+        .filter((range): range is NumberRange => !!range)
+        .filter((range, i, list) => list.findIndex((r) => r.min === range.min && r.max === range.max) === i)
+        .sort((a, b) => a.min - b.min || a.max - b.max);
+      return ranges.map((range) => ({
+        value: `${range.min}-${range.max}`,
+        label: range.min === range.max
+          ? formatQuantity(range.min, 'cm', locale)
+          : `${formatNumber(range.min, locale)}–${formatQuantity(range.max, 'cm', locale)}`,
+      }));
+    }
+    case 'application':
+      return (Object.keys(ENVIRONMENT_LABELS) as Array<keyof typeof ENVIRONMENT_LABELS>).map((environment) => ({
+        value: environment,
+        label: ENVIRONMENT_LABELS[environment][locale],
+      }));
+  }
+}
+
+// Reads facet values from URL parameters ("color=grey,white" or repeated
+// "color=grey&color=white"); unknown values are dropped
+export function parseFacetSelection(
+  params: URLSearchParams | Record<string, string | string[] | undefined>
+): FacetSelection {
+  const selection: FacetSelection = {};
+  FACET_KEYS.forEach((key) => {
+    const raw = params instanceof URLSearchParams ? params.getAll(key) : params[key];
+    const list = (Array.isArray(raw) ? raw : raw ? [raw] : [])
+      .join(',')
+      .split(',')
+      .map((value) => value.trim())
+      .filter(Boolean);
+    const known = facetOptions(key, 'tr').map((option) => option.value);
+    const values = list.filter((value, i) => known.indexOf(value) >= 0 && list.indexOf(value) === i);
+    if (values.length > 0) selection[key] = values;
+  });
+  return selection;
+}
+
+const hasSelection = (selection: FacetSelection) =>
+  FACET_KEYS.some((key) => (selection[key] || []).length > 0);
+
+// OR inside a facet, AND across facets; `ignore` leaves one facet out
+function matchesSelection(product: Product, selection: FacetSelection, ignore?: FacetKey): boolean {
+  return FACET_KEYS.every((key) => {
+    const selected = selection[key];
+    if (key === ignore || !selected || selected.length === 0) return true;
+    return productFacetValues(product, key).some((value) => selected.indexOf(value) >= 0);
+  });
+}
+
+// Search for the result pages. An empty query lists the whole catalog.
+// Facet counts leave out their own facet's selection, so picking "Gri"
+// still shows how many "Bej" products there would be.
+export function searchWithFacets(
+  query: string,
+  locale: Locale,
+  selection: FacetSelection = {},
+  limit = 50
+): FacetedSearchResponse {
+  const trimmed = query.trim().slice(0, MAX_QUERY_LENGTH);
+  const hits = trimmed
+    ? rank(trimmed, locale)
+    : getIndex(locale).filter((doc) => doc.type === 'product').map((doc) => toHit(doc, null));
+
+  const products: Array<{ hit: SearchHit; product: Product }> = [];
+  hits.forEach((hit) => {
+    const product = hit.productId ? getProductById(hit.productId) : undefined;
+    if (product) products.push({ hit, product });
+  });
+
+  const facets = FACET_KEYS.map((key): SearchFacet => {
+    const counts: Record<string, number> = {};
+    products.forEach(({ product }) => {
+      if (!matchesSelection(product, selection, key)) return;
+      productFacetValues(product, key).forEach((value) => {
+        counts[value] = (counts[value] || 0) + 1;
+      });
+    });
+    const selected = selection[key] || [];
+    return {
+      key,
+      values: facetOptions(key, locale)
+        .map((option) => ({
+          ...option,
+          count: counts[option.value] || 0,
+          selected: selected.indexOf(option.value) >= 0,
+        }))
+        // Keep selected values visible even when nothing matches them anymore
+        .filter((value) => value.count > 0 || value.selected),
+    };
+  });
+
+  // Pages have no facet values, so they only show up for unfiltered searches
+  const filtered = hasSelection(selection)
+    ? products.filter(({ product }) => matchesSelection(product, selection)).map(({ hit }) => hit)
+    : hits;
+
+  return {
+    query: trimmed,
+    locale,
+    total: filtered.length,
+    results: filtered.slice(0, Math.max(0, limit)),
+    facets,
+    selection,
+  };
+}
@@ -0,0 +1,132 @@
+import type { Metadata } from 'next';
+import { getProductPath, getSeries, type Product } from '@/data/catalog';
+import { getProjectPath, type Project } from '@/data/gallery';
+import { getSpecRows } from '@/data/specs';
+import { CONTACT, LOCALES, LOCALE_SETTINGS, SITE_URL, type Locale } from '@/i18n/config';
+import { getAlternateLinks } from '@/i18n/navigation';
+import { getLocalizedPath } from '@/i18n/routes';
+
+// Search engine metadata and schema.org structured data (JSON-LD), built
+// from the catalog so every language gets the same information.
+
+const BRAND = 'Monopol Stone';
+
+const absoluteUrl = (path: string) => `${SITE_URL}${path}`;
+
+// Image file names may contain Turkish characters (mitra-gölge.jpg)
+const imageUrl = (src: string) => absoluteUrl(encodeURI(src));
+
+// hreflang -> URL map for Metadata.alternates and sitemap entries
+export function getAlternateLanguages(pathname: string): Record<string, string> {
+  return getAlternateLinks(pathname).reduce((languages, { hrefLang, href }) => {
+    languages[hrefLang] = href;
+    return languages;
+  }, {} as Record<string, string>);
+}
+
+export function getProductMetadata(product: Product, locale: Locale): Metadata {
+  const path = getProductPath(product, locale);
+  const title = `${product.title} ${getSeries(product.series).title[locale]} | ${BRAND}`;
+  const description = product.summary[locale];
+
+  return {
+    title,
+    description,
+    alternates: {
+      canonical: absoluteUrl(path),
+      languages: getAlternateLanguages(path),
+    },
+    openGraph: {
+      title,
+      description,
+      type: 'website',
+      url: absoluteUrl(path),
+      siteName: BRAND,
+      locale: LOCALE_SETTINGS[locale].openGraph,
+      alternateLocale: LOCALES.filter((other) => other !== locale).map((other) => LOCALE_SETTINGS[other].openGraph),
+      images: product.colors.map((color) => ({
+        url: imageUrl(color.image),
+        alt: `${product.title} - ${color.name[locale]}`,
+      })),
+    },
+  };
+}
+
+export function getProjectMetadata(project: Project, locale: Locale): Metadata {
+  const path = getProjectPath(project, locale);
+  const title = `${project.title[locale]} | ${BRAND}`;
+  const description = project.summary[locale];
+
+  return {
+    title,
+    description,
+    alternates: {
+      canonical: absoluteUrl(path),
+      languages: getAlternateLanguages(path),
+    },
+    openGraph: {
+      title,
+      description,
+      type: 'article',
+      url: absoluteUrl(path),
+      siteName: BRAND,
+      locale: LOCALE_SETTINGS[locale].openGraph,
+      images: project.photos.map((photo) => ({ url: imageUrl(photo), alt: project.title[locale] })),
+    },
+  };
+}
+
+export function getOrganizationJsonLd(locale: Locale) {
+  return {
+    '@context': 'https://schema.org',
+    '@type': 'Organization',
+    name: BRAND,
+    url: absoluteUrl(getLocalizedPath(locale, 'home')),
+    logo: imageUrl('/siyahlogo.png'),
+    email: CONTACT.email,
+    telephone: CONTACT.phone,
+    address: {
+      '@type': 'PostalAddress',
+      addressLocality: 'Çatalca',
+      addressRegion: 'İstanbul',
+      addressCountry: 'TR',
+    },
+  };
+}
+
+export function getProductJsonLd(product: Product, locale: Locale) {
+  const productSeries = getSeries(product.series);
+
+  return {
+    '@context': 'https://schema.org',
+    '@type': 'Product',
+    name: `${product.title} ${productSeries.title[locale]}`,
+    sku: product.code,
+    category: productSeries.plural[locale],
+    description: product.description[locale],
+    url: absoluteUrl(getProductPath(product, locale)),
+    image: product.colors.map((color) => imageUrl(color.image)),
+    brand: { '@type': 'Brand', name: BRAND },
+    material: product.specs.material[locale],
+    color: product.colors.map((color) => color.name[locale]).join(', '),
+    additionalProperty: getSpecRows(product, locale).map((row) => ({
+      '@type': 'PropertyValue',
+      name: row.label,
+      value: row.value,
+    })),
+  };
+}
+
+// Same trail as the visible breadcrumb
+export function getBreadcrumbJsonLd(trail: { label: string; href: string }[]) {
+  return {
+    '@context': 'https://schema.org',
+    '@type': 'BreadcrumbList',
+    itemListElement: trail.map((crumb, index) => ({
+      '@type': 'ListItem',
+      position: index + 1,
+      name: crumb.label,
+      item: absoluteUrl(crumb.href),
+    })),
+  };
+}
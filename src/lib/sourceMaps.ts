@@ -0,0 +1,193 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+
+// Maps minified client stack frames back to the original source files.
+// Production builds write hidden source maps (next.config.js), and
+// scripts/collect-sourcemaps.js moves them out of .next/static into
+// SOURCEMAP_DIR, so they are never served publicly. A frame in
+// /_next/static/chunks/app/page-3f2a.js is looked up in
+// SOURCEMAP_DIR/_next/static/chunks/app/page-3f2a.js.map.
+
+export const SOURCEMAP_DIR = process.env.SOURCEMAP_DIR || path.join(process.cwd(), '.sourcemaps');
+
+const MAX_FRAMES = 20;
+const CACHE_SIZE = 30;
+
+export interface StackFrame {
+  fn?: string;
+  url: string;
+  line: number; // 1-based
+  column: number; // 1-based
+}
+
+// [generated column, source index, original line, original column, name index?], all 0-based
+type Segment = number[];
+
+interface DecodedMap {
+  sources: string[];
+  names: string[];
+  lines: Segment[][];
+}
+
+// "at fn (url:1:2)", "at url:1:2" (V8) and "fn@url:1:2" (Firefox, Safari)
+const V8_FRAME = /^\s*at (?:(.+?) \()?(.+?):(\d+):(\d+)\)?\s*$/;
+const GECKO_FRAME = /^\s*(.*?)@(.+?):(\d+):(\d+)\s*$/;
+
+export function parseFrame(line: string): StackFrame | null {
+  const match = V8_FRAME.exec(line) || GECKO_FRAME.exec(line);
+  if (!match) return null;
+  return { fn: match[1] || undefined, url: match[2], line: Number(match[3]), column: Number(match[4]) };
+}
+
+const BASE64 = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+// Base64 VLQ values of one mappings segment
+function decodeVlq(segment: string): number[] {
+  const values: number[] = [];
+  let value = 0;
+  let shift = 0;
+  for (let i = 0; i < segment.length; i++) {
+    const digit = BASE64.indexOf(segment[i]);
+    value += (digit & 31) << shift;
+    if (digit & 32) {
+      shift += 5;
+    } else {
+      values.push(value & 1 ? -(value >>> 1) : value >>> 1);
+      value = 0;
+      shift = 0;
+    }
+  }
+  return values;
+}
+
+function decodeMappings(mappings: string): Segment[][] {
+  let source = 0;
+  let originalLine = 0;
+  let originalColumn = 0;
+  let name = 0;
+
+  return mappings.split(';').map((line) => {
+    let column = 0;
+    return line
+      .split(',')
+      .filter(Boolean)
+      .map((raw) => {
+        const fields = decodeVlq(raw);
+        column += fields[0];
+        if (fields.length < 4) return [column];
+        source += fields[1];
+        originalLine += fields[2];
+        originalColumn += fields[3];
+        if (fields.length < 5) return [column, source, originalLine, originalColumn];
+        name += fields[4];
+        return [column, source, originalLine, originalColumn, name];
+      });
+  });
+}
+
+// "webpack://_N_E/./src/components/Header.tsx" -> "src/components/Header.tsx"
+export function normalizeSource(source: string): string {
+  return source
+    .replace(/^webpack:\/\/[^/]*\//, '')
+    .replace(/^(\.\.?\/)+/, '');
+}
+
+// Path of the private map for a chunk URL, or null for anything that is
+// not one of our chunks (browser extensions, third-party scripts)
+export function getMapPath(url: string): string | null {
+  let pathname: string;
+  try {
+    pathname = decodeURIComponent(new URL(url, 'http://localhost').pathname);
+  } catch {
+    return null;
+  }
+  if (!/^\/_next\/static\/.+\.js$/.test(pathname)) return null;
+
+  const file = path.resolve(SOURCEMAP_DIR, `.${pathname}.map`);
+  return file.indexOf(path.resolve(SOURCEMAP_DIR) + path.sep) === 0 ? file : null;
+}
+
+const cache = new Map<string, Promise<DecodedMap | null>>();
+
+function loadMap(file: string): Promise<DecodedMap | null> {
+  const cached = cache.get(file);
+  if (cached) return cached;
+
+  const loading = fs
+    .readFile(file, 'utf8')
+    .then((raw) => {
+      const map = JSON.parse(raw) as { sources?: string[]; names?: string[]; mappings?: string };
+      return {
+        sources: (map.sources || []).map(normalizeSource),
+        names: map.names || [],
+        lines: decodeMappings(map.mappings || ''),
+      };
+    })
+    // Maps of an older or newer build than this server's are simply missing
+    .catch(() => null);
+
+  if (cache.size >= CACHE_SIZE) cache.delete(cache.keys().next().value as string);
+  cache.set(file, loading);
+  return loading;
+}
+
+function lookup(map: DecodedMap, frame: StackFrame): StackFrame | null {
+  const segments = map.lines[frame.line - 1];
+  if (!segments) return null;
+
+  // Last segment starting at or before the column
+  const column = frame.column - 1;
+  let low = 0;
+  let high = segments.length - 1;
+  let found: Segment | null = null;
+  while (low <= high) {
+    const middle = (low + high) >> 1;
+    if (segments[middle][0] <= column) {
+      found = segments[middle];
+      low = middle + 1;
+    } else {
+      high = middle - 1;
+    }
+  }
+  if (!found || found.length < 4) return null;
+
+  return {
+    fn: found.length > 4 ? map.names[found[4]] : frame.fn,
+    url: map.sources[found[1]],
+    line: found[2] + 1,
+    column: found[3] + 1,
+  };
+}
+
+export async function symbolicateFrame(frame: StackFrame): Promise<StackFrame | null> {
+  const file = getMapPath(frame.url);
+  if (!file) return null;
+  const map = await loadMap(file);
+  return map && lookup(map, frame);
+}
+
+const formatFrame = (frame: StackFrame) =>
+  `at ${frame.fn ? `${frame.fn} (${frame.url}:${frame.line}:${frame.column})` : `${frame.url}:${frame.line}:${frame.column}`}`;
+
+// Frames of the stack in original source terms. Frames without a map are
+// kept as they are; null when not a single frame could be mapped.
+export async function symbolicateStack(stack: string | undefined): Promise<string[] | null> {
+  if (!stack) return null;
+
+  const frames = stack
+    .split('\n')
+    .map(parseFrame)
+    .filter((frame): frame is StackFrame => frame !== null)
+    .slice(0, MAX_FRAMES);
+
+  let mapped = 0;
+  const lines = await Promise.all(
+    frames.map(async (frame) => {
+      const original = await symbolicateFrame(frame);
+      if (!original) return formatFrame(frame);
+      mapped += 1;
+      return formatFrame(original);
+    })
+  );
+  return mapped > 0 ? lines : null;
+}
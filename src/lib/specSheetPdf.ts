@@ -0,0 +1,162 @@
+import { jsPDF } from 'jspdf';
+import {
+  COLOR_FAMILIES,
+  getColor,
+  getProductPath,
+  getProductSlug,
+  getSeries,
+  type Locale,
+  type Product,
+} from '@/data/catalog';
+import { getSpecRows } from '@/data/specs';
+import { LOCALE_SETTINGS } from '@/i18n/config';
+import { createTranslator } from '@/i18n/translate';
+import {
+  COLORS,
+  CONTACT,
+  CONTENT_WIDTH,
+  PAGE,
+  PDF_LANGUAGES,
+  SITE_URL,
+  bulletList,
+  createWriter,
+  getPdfLocale,
+  paragraph,
+  sectionTitle,
+  type PdfLocale,
+} from './pdf';
+import { foldText } from './search';
+
+// One-page technical data sheet for a product in the selected color,
+// for architects and applicators who attach it to their specifications.
+const FILE_SUFFIXES: Record<PdfLocale, string> = { tr: 'teknik-foy', en: 'data-sheet', de: 'datenblatt' };
+
+export async function generateSpecSheetPdf(product: Product, colorKey: string | undefined, locale: PdfLocale): Promise<Buffer> {
+  const doc = new jsPDF({ unit: 'mm', format: 'a4', orientation: 'portrait', compress: true });
+  const t = createTranslator(locale);
+  const color = getColor(product, colorKey);
+  const w = await createWriter(doc, ['/siyahlogo.png', color.image]);
+  const productSeries = getSeries(product.series);
+  const displayCode = product.code.replace(/^B[PT]-/, 'AG ');
+  const productUrl = `${SITE_URL}${getProductPath(product, locale)}`;
+
+  doc.setProperties({
+    title: `${product.title} ${productSeries.title[locale]} - ${t('pdf.specSheet.title')}`,
+    subject: `${product.code} ${color.name[locale]}`,
+    author: 'Monopol Stone',
+    creator: SITE_URL,
+  });
+  doc.setLanguage(PDF_LANGUAGES[locale]);
+
+  // Header band
+  w.image('/siyahlogo.png', PAGE.margin, 8, 18, 18);
+  w.font('bold', 16, COLORS.dark);
+  doc.text(t('pdf.specSheet.title'), PAGE.width - PAGE.margin, 16, { align: 'right' });
+  w.font('normal', 8, COLORS.muted);
+  doc.text(
+    `${t('pdf.specSheet.date')}: ${new Date().toLocaleDateString(LOCALE_SETTINGS[locale].intl)}`,
+    PAGE.width - PAGE.margin,
+    22,
+    { align: 'right' }
+  );
+  doc.setFillColor(COLORS.accent);
+  doc.rect(0, 30, PAGE.width, 1.5, 'F');
+
+  // Image and identity
+  const imageSize = 70;
+  const top = 38;
+  w.image(color.image, PAGE.margin, top, imageSize, imageSize);
+
+  const x = PAGE.margin + imageSize + 10;
+  const width = PAGE.width - PAGE.margin - x;
+  w.font('normal', 9, COLORS.accent);
+  doc.text(productSeries.title[locale].toLocaleUpperCase(LOCALE_SETTINGS[locale].intl), x, top + 5);
+  w.font('bold', 22, COLORS.dark);
+  doc.textWithLink(product.title, x, top + 15, { url: productUrl });
+
+  let y = top + 26;
+  const detail = (label: string, value: string) => {
+    w.font('normal', 9, COLORS.muted);
+    doc.text(label, x, y);
+    w.font('bold', 10, COLORS.text);
+    doc.text(value, x + 28, y);
+    y += 6.5;
+  };
+  detail(t('pdf.specSheet.code'), `${product.code} / ${displayCode}`);
+  detail(t('pdf.specSheet.color'), `${color.name[locale]} (${COLOR_FAMILIES[color.family][locale]})`);
+  doc.setFillColor(color.hex);
+  doc.rect(x + 28, y - 3.5, 12, 4, 'F');
+  y += 6;
+
+  w.font('normal', 9.5, COLORS.text);
+  paragraph(w, product.summary[locale], x, y, width, 5);
+
+  // Specs table
+  y = top + imageSize + 10;
+  y = sectionTitle(w, t('pdf.specSheet.specs'), PAGE.margin, y, CONTENT_WIDTH);
+  getSpecRows(product, locale).forEach((row, index) => {
+    if (index % 2 === 0) {
+      doc.setFillColor(COLORS.light);
+      doc.rect(PAGE.margin, y - 4.2, CONTENT_WIDTH, 6, 'F');
+    }
+    w.font('normal', 9, COLORS.muted);
+    doc.text(row.label, PAGE.margin + 2, y);
+    w.font('bold', 9, COLORS.text);
+    doc.text(row.value, PAGE.margin + 80, y);
+    y += 6;
+  });
+
+  // Features and applications side by side
+  const columnWidth = (CONTENT_WIDTH - 10) / 2;
+  const listTop = y + 6;
+  const featuresY = sectionTitle(w, t('pdf.specSheet.features'), PAGE.margin, listTop, columnWidth);
+  w.font('normal', 9, COLORS.text);
+  bulletList(w, product.features, locale, PAGE.margin, featuresY, columnWidth);
+  const applicationsY = sectionTitle(w, t('pdf.specSheet.applications'), PAGE.margin + columnWidth + 10, listTop, columnWidth);
+  w.font('normal', 9, COLORS.text);
+  bulletList(w, product.applications, locale, PAGE.margin + columnWidth + 10, applicationsY, columnWidth);
+
+  // Contact block
+  const contactY = PAGE.height - 40;
+  doc.setFillColor(COLORS.light);
+  doc.rect(PAGE.margin, contactY, CONTENT_WIDTH, 22, 'F');
+  doc.setFillColor(COLORS.accent);
+  doc.rect(PAGE.margin, contactY, 1.5, 22, 'F');
+  w.font('bold', 11, COLORS.dark);
+  doc.text('Monopol Stone', PAGE.margin + 6, contactY + 7);
+  w.font('normal', 9, COLORS.text);
+  doc.text(t('pdf.specSheet.contactText'), PAGE.margin + 6, contactY + 12.5);
+  w.font('normal', 9, COLORS.accent);
+  doc.textWithLink(`${CONTACT.email}  ·  ${CONTACT.phone}`, PAGE.margin + 6, contactY + 18, { url: `mailto:${CONTACT.email}` });
+  doc.textWithLink(SITE_URL.replace('https://', ''), PAGE.width - PAGE.margin - 4, contactY + 18, { align: 'right', url: SITE_URL });
+
+  w.font('normal', 7.5, COLORS.muted);
+  doc.text(t('pdf.specSheet.note'), PAGE.margin, PAGE.height - 12);
+  doc.text(productUrl, PAGE.margin, PAGE.height - 8);
+
+  return Buffer.from(doc.output('arraybuffer'));
+}
+
+// Same caching reasoning as the catalog: the data only changes on deploy
+const sheetCache = new Map<string, Promise<Buffer>>();
+
+export function getSpecSheetPdf(product: Product, colorKey: string | undefined, locale: Locale): Promise<Buffer> {
+  const color = getColor(product, colorKey);
+  const pdfLocale = getPdfLocale(locale);
+  const key = `${product.id}:${color.key}:${pdfLocale}`;
+  let pdf = sheetCache.get(key);
+  if (!pdf) {
+    pdf = generateSpecSheetPdf(product, color.key, pdfLocale);
+    sheetCache.set(key, pdf);
+    pdf.catch(() => sheetCache.delete(key));
+  }
+  return pdf;
+}
+
+// ASCII file name, e.g. "mitra-golge-teknik-foy.pdf"
+export function getSpecSheetFileName(product: Product, colorKey: string | undefined, locale: Locale): string {
+  const color = getColor(product, colorKey);
+  const ascii = foldText(color.key).replace(/[^a-z0-9]+/g, '-');
+  const pdfLocale = getPdfLocale(locale);
+  return `${getProductSlug(product, pdfLocale)}-${ascii}-${FILE_SUFFIXES[pdfLocale]}.pdf`;
+}
@@ -0,0 +1,81 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { randomUUID } from 'crypto';
+
+// Minimal file-backed document store for server routes.
+// Each collection is one JSON file under DATA_DIR; writes are serialized
+// per collection and replaced atomically (write temp file, then rename).
+
+export const DATA_DIR = process.env.DATA_DIR || path.join(process.cwd(), '.data');
+
+export interface StoredRecord {
+  id: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+type NewRecord<T extends StoredRecord> = Omit<T, keyof StoredRecord> & Partial<Pick<T, 'id'>>;
+
+const writeQueues = new Map<string, Promise<unknown>>();
+
+export class Collection<T extends StoredRecord> {
+  private readonly file: string;
+
+  constructor(name: string, dir: string = DATA_DIR) {
+    this.file = path.join(dir, `${name}.json`);
+  }
+
+  async all(): Promise<T[]> {
+    try {
+      const raw = await fs.readFile(this.file, 'utf8');
+      return JSON.parse(raw) as T[];
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw error;
+    }
+  }
+
+  async find(id: string): Promise<T | undefined> {
+    const records = await this.all();
+    return records.find((record) => record.id === id);
+  }
+
+  async insert(data: NewRecord<T>): Promise<T> {
+    return this.mutate((records) => {
+      const now = new Date().toISOString();
+      const record = { ...data, id: data.id || randomUUID(), createdAt: now, updatedAt: now } as T;
+      records.push(record);
+      return record;
+    });
+  }
+
+  async update(id: string, changes: Partial<Omit<T, keyof StoredRecord>>): Promise<T | undefined> {
+    return this.mutate((records) => {
+      const index = records.findIndex((record) => record.id === id);
+      if (index === -1) return undefined;
+      records[index] = { ...records[index], ...changes, updatedAt: new Date().toISOString() };
+      return records[index];
+    });
+  }
+
+  // Runs a read-modify-write cycle; concurrent calls on the same
+  // collection are queued so no write is lost.
+  async mutate<R>(fn: (records: T[]) => R): Promise<R> {
+    const previous = writeQueues.get(this.file) || Promise.resolve();
+    const next = previous.catch(() => undefined).then(async () => {
+      const records = await this.all();
+      const result = fn(records);
+      await this.write(records);
+      return result;
+    });
+    writeQueues.set(this.file, next);
+    return next;
+  }
+
+  private async write(records: T[]): Promise<void> {
+    await fs.mkdir(path.dirname(this.file), { recursive: true });
+    const temp = `${this.file}.${process.pid}.tmp`;
+    await fs.writeFile(temp, JSON.stringify(records, null, 2), 'utf8');
+    await fs.rename(temp, this.file);
+  }
+}
@@ -0,0 +1,61 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { getProductBySlug, getProductBySlugAlias, getProductPath } from '@/data/catalog';
+import { getProjectBySlug } from '@/data/gallery';
+import { DEFAULT_LOCALE } from '@/i18n/config';
+import { getAlternateLinks } from '@/i18n/navigation';
+import { getInternalPath, getLocaleFromPath, getLocalizedPath, matchRoute } from '@/i18n/routes';
+
+// Maps localized public URLs onto the single [locale] route tree
+// (see src/i18n/routes.ts). Unknown paths are sent to the catch-all
+// route of their language so the 404 page is localized too.
+export function middleware(request: NextRequest) {
+  const { pathname } = request.nextUrl;
+
+  // The default language has no prefix: /tr/urunler -> /urunler
+  if (pathname === `/${DEFAULT_LOCALE}` || pathname.startsWith(`/${DEFAULT_LOCALE}/`)) {
+    const match = matchRoute(pathname.slice(DEFAULT_LOCALE.length + 1));
+    const url = request.nextUrl.clone();
+    url.pathname = match ? getLocalizedPath(match.locale, match.route, match.params) : '/';
+    return NextResponse.redirect(url, 308);
+  }
+
+  const match = matchRoute(pathname);
+  const url = request.nextUrl.clone();
+
+  // Old product URLs (/urun/kultur-tasi-1, a slug of the other language)
+  // move permanently to the product's current slug
+  if (match?.route === 'product' && !getProductBySlug(match.params.slug || '', match.locale)) {
+    const product = getProductBySlugAlias(match.params.slug || '', match.locale);
+    if (product) {
+      url.pathname = getProductPath(product, match.locale);
+      return NextResponse.redirect(url, 308);
+    }
+  }
+
+  if (!match) {
+    url.pathname = `/${getLocaleFromPath(pathname)}/missing`;
+    return NextResponse.rewrite(url);
+  }
+
+  url.pathname = getInternalPath(match);
+  const response = NextResponse.rewrite(url);
+
+  // hreflang alternates as a Link header, so every page has them whether or
+  // not it exports metadata. Unknown products and projects are a 404.
+  const slug = match.params.slug || '';
+  const exists =
+    match.route === 'product' ? !!getProductBySlug(slug, match.locale) :
+    match.route === 'project' ? !!getProjectBySlug(slug, match.locale) :
+    true;
+  if (exists) {
+    response.headers.set('Link', getAlternateLinks(pathname)
+      .map(({ hrefLang, href }) => `<${href}>; rel="alternate"; hreflang="${hrefLang}"`)
+      .join(', '));
+  }
+  return response;
+}
+
+export const config = {
+  // Everything except API routes, Next.js assets, the internal tools and files
+  matcher: ['/((?!api|_next|admin|deployment|.*\\..*).*)'],
+};
@@ -0,0 +1,34 @@
+import type { Locale } from '@/data/catalog';
+import type { ContactFieldErrors, ContactFields } from './validators';
+
+// Client for POST /api/contact
+
+export interface ContactSubmission extends ContactFields {
+  locale: Locale;
+  source: 'contact-page' | 'contact-form';
+  website?: string; // honeypot
+}
+
+export class ContactSubmitError extends Error {
+  constructor(message: string, public status: number, public fieldErrors: ContactFieldErrors = {}) {
+    super(message);
+    this.name = 'ContactSubmitError';
+    Object.setPrototypeOf(this, ContactSubmitError.prototype);
+  }
+}
+
+export async function submitContact(data: ContactSubmission): Promise<{ id: string }> {
+  const response = await fetch('/api/contact', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ ...data, page: window.location.pathname }),
+  });
+
+  const result = await response.json().catch(() => ({}));
+
+  if (!response.ok) {
+    throw new ContactSubmitError(result.error || `HTTP ${response.status}`, response.status, result.fieldErrors);
+  }
+
+  return { id: result.id };
+}
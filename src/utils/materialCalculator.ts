@@ -0,0 +1,140 @@
+import type { FlatPieceSpec, InstallationMethod, Locale, ProductSpecs, ProductSummary } from '@/data/catalog';
+import { getColor } from '@/data/catalog';
+import { formatPercent, formatQuantity, type Unit } from '@/data/specs';
+import { createTranslator } from '@/i18n/translate';
+
+// Material quantity estimation for wall cladding
+
+export interface WallInput {
+  width: number; // m
+  height: number; // m
+}
+
+export interface OpeningInput {
+  width: number; // m
+  height: number; // m
+  count: number;
+}
+
+export interface EstimateInput {
+  walls: WallInput[];
+  openings: OpeningInput[];
+  cornerLength: number; // total external corner length, m
+  wastePercent: number;
+  installation: InstallationMethod;
+}
+
+export interface MaterialEstimate {
+  grossArea: number;
+  openingArea: number;
+  netArea: number;
+  orderArea: number; // net area incl. waste and stacking allowance
+  flatBoxes: number;
+  flatBoxArea: number; // m² the ordered boxes cover
+  orderCornerLength: number;
+  cornerBoxes: number;
+  cornerBoxLength: number; // m of corner the ordered boxes cover
+  jointMortarKg: number;
+  adhesiveKg: number;
+  totalWeightKg: number;
+}
+
+// Dry-stacked walls have no joints, so more pieces cover the same area.
+// Matches the 15%-25% allowance printed on the product pages.
+export const STACKED_ALLOWANCE = 0.2;
+
+export const DEFAULT_WASTE_PERCENT = 10;
+
+// Specs with every figure an estimate needs
+export type EstimableSpecs = ProductSpecs & {
+  flat: Required<FlatPieceSpec>;
+  jointConsumption: number;
+  adhesiveConsumption: number;
+};
+
+export function canEstimateMaterials(specs: ProductSpecs): specs is EstimableSpecs {
+  return !!specs.flat.boxCoverage && !!specs.jointConsumption && !!specs.adhesiveConsumption;
+}
+
+const round = (value: number, digits = 2) => {
+  const factor = Math.pow(10, digits);
+  return Math.round(value * factor) / factor;
+};
+
+const positive = (value: number) => (Number.isFinite(value) && value > 0 ? value : 0);
+
+export function calculateMaterials(specs: EstimableSpecs, input: EstimateInput): MaterialEstimate {
+  const grossArea = input.walls.reduce((sum, w) => sum + positive(w.width) * positive(w.height), 0);
+  const openingArea = input.openings.reduce(
+    (sum, o) => sum + positive(o.width) * positive(o.height) * Math.floor(positive(o.count)),
+    0
+  );
+  const netArea = Math.max(0, grossArea - openingArea);
+
+  const wasteFactor = 1 + Math.min(Math.max(input.wastePercent, 0), 100) / 100;
+  const isStacked = input.installation === 'stacked';
+  const orderArea = netArea * wasteFactor * (isStacked ? 1 + STACKED_ALLOWANCE : 1);
+  const flatBoxes = orderArea > 0 ? Math.ceil(round(orderArea / specs.flat.boxCoverage, 4)) : 0;
+
+  const orderCornerLength = specs.corner ? positive(input.cornerLength) * wasteFactor : 0;
+  const cornerBoxes =
+    specs.corner && orderCornerLength > 0
+      ? Math.ceil(round(orderCornerLength / specs.corner.boxLength, 4))
+      : 0;
+
+  // Consumables are calculated on the net wall area plus waste
+  const consumableArea = netArea * wasteFactor;
+  const jointMortarKg = isStacked ? 0 : consumableArea * specs.jointConsumption;
+  const adhesiveKg = consumableArea * specs.adhesiveConsumption;
+
+  const totalWeightKg =
+    flatBoxes * specs.flat.boxCoverage * specs.flat.weight +
+    (specs.corner ? cornerBoxes * specs.corner.boxLength * specs.corner.weight : 0);
+
+  return {
+    grossArea: round(grossArea),
+    openingArea: round(openingArea),
+    netArea: round(netArea),
+    orderArea: round(orderArea),
+    flatBoxes,
+    flatBoxArea: round(flatBoxes * specs.flat.boxCoverage),
+    orderCornerLength: round(orderCornerLength),
+    cornerBoxes,
+    cornerBoxLength: specs.corner ? round(cornerBoxes * specs.corner.boxLength) : 0,
+    jointMortarKg: Math.ceil(jointMortarKg),
+    adhesiveKg: Math.ceil(adhesiveKg),
+    totalWeightKg: Math.ceil(totalWeightKg),
+  };
+}
+
+// Plain-text summary, used as the message body of a quote request
+export function formatEstimateSummary(
+  product: ProductSummary,
+  colorKey: string,
+  input: EstimateInput,
+  estimate: MaterialEstimate,
+  locale: Locale
+): string {
+  const t = createTranslator(locale);
+  const q = (value: number, unit: Unit, digits = 0) => formatQuantity(value, unit, locale, digits);
+  const color = getColor(product, colorKey);
+
+  const lines = [
+    `${t('calculator.summary.title')}:`,
+    `${t('calculator.summary.product')}: ${product.title} (${product.code}) - ${color.name}`,
+    `${t('calculator.summary.netArea')}: ${q(estimate.netArea, 'm²', 2)}`,
+    `${t('calculator.summary.waste')}: ${formatPercent(input.wastePercent, locale)}`,
+    `${t('calculator.summary.flatBoxes')}: ${estimate.flatBoxes} ${t('calculator.summary.box')} (${q(estimate.flatBoxArea, 'm²', 2)})`,
+  ];
+  if (estimate.cornerBoxes > 0) {
+    lines.push(
+      `${t('calculator.summary.cornerBoxes')}: ${estimate.cornerBoxes} ${t('calculator.summary.box')} (${q(estimate.cornerBoxLength, 'm', 2)})`
+    );
+  }
+  if (estimate.jointMortarKg > 0) {
+    lines.push(`${t('calculator.summary.mortar')}: ${q(estimate.jointMortarKg, 'kg')}`);
+  }
+  lines.push(`${t('calculator.summary.adhesive')}: ${q(estimate.adhesiveKg, 'kg')}`, `${t('calculator.summary.weight')}: ${q(estimate.totalWeightKg, 'kg')}`);
+
+  return lines.join('\n');
+}
@@ -0,0 +1,57 @@
+import type { Locale } from '@/data/catalog';
+import type { QuoteBasketItem } from '@/hooks/useQuoteBasket';
+import { getRoutePaths } from '@/i18n/routes';
+
+// Client for POST /api/quotes
+
+export const QUOTE_PAGE_PATHS: Record<Locale, string> = getRoutePaths('quote');
+
+export interface QuoteContactFields {
+  name: string;
+  email: string;
+  phone: string;
+  company: string;
+  city: string;
+  message: string;
+}
+
+export interface QuoteSubmission {
+  locale: Locale;
+  contact: QuoteContactFields;
+  items: QuoteBasketItem[];
+  website?: string; // honeypot
+}
+
+export class QuoteSubmitError extends Error {
+  constructor(
+    message: string,
+    public status: number,
+    public fieldErrors: Partial<Record<keyof QuoteContactFields, string>> = {},
+    public itemErrors: string[] = []
+  ) {
+    super(message);
+    this.name = 'QuoteSubmitError';
+    Object.setPrototypeOf(this, QuoteSubmitError.prototype);
+  }
+}
+
+export async function submitQuote(data: QuoteSubmission): Promise<{ id: string; reference: string }> {
+  const response = await fetch('/api/quotes', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(data),
+  });
+
+  const result = await response.json().catch(() => ({}));
+
+  if (!response.ok) {
+    throw new QuoteSubmitError(
+      result.error || `HTTP ${response.status}`,
+      response.status,
+      result.fieldErrors,
+      result.itemErrors
+    );
+  }
+
+  return { id: result.id, reference: result.reference };
+}
@@ -0,0 +1,36 @@
+import type { Locale } from '@/data/catalog';
+import type { FacetKey, FacetSelection, HighlightSegment, SearchResponse } from '@/lib/search';
+import { getRoutePaths } from '@/i18n/routes';
+
+// Client for GET /api/search and URLs of the search result pages
+
+export const SEARCH_PAGE_PATHS: Record<Locale, string> = getRoutePaths('search');
+
+// Same parameter names as parseFacetSelection reads, so result URLs can be shared
+export function buildSearchUrl(locale: Locale, query: string, selection: FacetSelection = {}): string {
+  const params = new URLSearchParams();
+  if (query.trim()) params.set('q', query.trim());
+  (Object.keys(selection) as FacetKey[]).forEach((key) => {
+    const values = selection[key];
+    if (values && values.length > 0) params.set(key, values.join(','));
+  });
+  const search = params.toString();
+  return search ? `${SEARCH_PAGE_PATHS[locale]}?${search}` : SEARCH_PAGE_PATHS[locale];
+}
+
+export async function fetchSearchResults(
+  query: string,
+  locale: Locale,
+  options: { limit?: number; signal?: AbortSignal } = {}
+): Promise<SearchResponse> {
+  const params = new URLSearchParams({ q: query, locale });
+  if (options.limit) params.set('limit', String(options.limit));
+
+  const response = await fetch(`/api/search?${params.toString()}`, { signal: options.signal });
+  if (!response.ok) {
+    throw new Error(`Search failed: HTTP ${response.status}`);
+  }
+  return response.json();
+}
+
+export const segmentsToText = (segments: HighlightSegment[]) => segments.map((s) => s.text).join('');
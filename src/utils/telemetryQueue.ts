@@ -0,0 +1,263 @@
+"use client";
+
+// Outbox for error reports and analytics events that could not be sent
+// (offline, server down, rate limited). Items wait in localStorage and are
+// replayed when the connection returns, on the next page load, or when the
+// service worker's Background Sync fires.
+//
+// Workers cannot read localStorage, so the worker's sync asks an open tab
+// to flush (see public/sw.js); without one the browser retries the sync
+// later. Tabs take a Web Lock while flushing so no item is sent twice.
+
+export type TelemetryKind = 'error' | 'analytics';
+
+interface QueueItem {
+  id: string;
+  payload: Record<string, unknown>;
+  attempts: number;
+  nextAttempt: number; // epoch milliseconds
+}
+
+interface QueueConfig {
+  key: string;
+  endpoint: string;
+  limit: number; // oldest items are dropped beyond this
+  batchSize: number; // items per request
+}
+
+const QUEUES: Record<TelemetryKind, QueueConfig> = {
+  // 'error_logs' is where useErrorHandling has always kept its reports;
+  // entries from before this outbox are picked up as they are
+  error: { key: 'error_logs', endpoint: '/api/error-logging', limit: 50, batchSize: 1 },
+  // /api/analytics takes up to 50 events per request
+  analytics: { key: 'analytics_queue', endpoint: '/api/analytics', limit: 500, batchSize: 50 },
+};
+
+const KINDS: TelemetryKind[] = ['error', 'analytics'];
+
+// Requests per kind and flush; a long backlog drains over several flushes
+const MAX_REQUESTS_PER_FLUSH = 10;
+const MAX_ATTEMPTS = 8;
+const BASE_DELAY_MS = 5000;
+const MAX_DELAY_MS = 30 * 60 * 1000;
+
+export const TELEMETRY_SYNC_TAG = 'telemetry-sync';
+const LOCK_NAME = 'telemetry-flush';
+
+type SendResult = { status: 'sent' } | { status: 'drop' } | { status: 'retry'; retryAfter?: number };
+
+// Short, stable string hash (djb2) for deduplication keys
+const hash = (value: string) => {
+  let h = 5381;
+  for (let i = 0; i < value.length; i++) h = ((h << 5) + h + value.charCodeAt(i)) | 0;
+  return (h >>> 0).toString(36);
+};
+
+// The same error repeating offline (a render loop, say) is queued once;
+// the server groups occurrences anyway. Analytics events are only
+// deduplicated when exactly the same event is queued again.
+const itemId = (kind: TelemetryKind, payload: Record<string, unknown>) => {
+  if (kind === 'error') {
+    const stack = typeof payload.stack === 'string' ? payload.stack.split('\n').slice(0, 3).join('\n') : '';
+    return hash([payload.message, stack, payload.url, payload.retryCount].join('|'));
+  }
+  return hash(JSON.stringify([payload.metric, payload.value, payload.timestamp, payload.url]));
+};
+
+const backoff = (attempts: number, retryAfter?: number) => {
+  const delay = Math.min(MAX_DELAY_MS, BASE_DELAY_MS * Math.pow(2, attempts - 1));
+  // Jitter spreads the retries of many tabs coming back online at once
+  const jittered = delay * (0.8 + Math.random() * 0.4);
+  return Math.max(jittered, (retryAfter || 0) * 1000);
+};
+
+function readQueue(kind: TelemetryKind): QueueItem[] {
+  try {
+    const raw = JSON.parse(localStorage.getItem(QUEUES[kind].key) || '[]');
+    if (!Array.isArray(raw)) return [];
+    return raw.map((entry: Record<string, unknown>) =>
+      typeof entry.id === 'string' && entry.payload && typeof entry.payload === 'object'
+        ? (entry as unknown as QueueItem)
+        : { id: itemId(kind, entry), payload: entry, attempts: 0, nextAttempt: 0 }
+    );
+  } catch {
+    return [];
+  }
+}
+
+function writeQueue(kind: TelemetryKind, items: QueueItem[]): void {
+  try {
+    if (items.length === 0) localStorage.removeItem(QUEUES[kind].key);
+    else localStorage.setItem(QUEUES[kind].key, JSON.stringify(items.slice(-QUEUES[kind].limit)));
+  } catch {
+    // Storage full or disabled - the reports are lost, the page is not
+  }
+}
+
+function enqueue(kind: TelemetryKind, payload: Record<string, unknown>, attempts = 0, retryAfter?: number): void {
+  const queue = readQueue(kind);
+  const id = itemId(kind, payload);
+  if (queue.some((item) => item.id === id)) return;
+  queue.push({ id, payload, attempts, nextAttempt: attempts > 0 ? Date.now() + backoff(attempts, retryAfter) : 0 });
+  writeQueue(kind, queue);
+  requestBackgroundSync();
+  scheduleRetry();
+}
+
+async function post(kind: TelemetryKind, payloads: Record<string, unknown>[]): Promise<SendResult> {
+  const body =
+    kind === 'error'
+      ? { type: 'error', data: payloads[0] }
+      : payloads.length === 1
+        ? payloads[0]
+        : { events: payloads };
+
+  try {
+    const response = await fetch(QUEUES[kind].endpoint, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+      keepalive: true,
+    });
+    if (response.ok) return { status: 'sent' };
+    if (response.status === 429) {
+      return { status: 'retry', retryAfter: Number(response.headers.get('Retry-After')) || undefined };
+    }
+    // Other client errors will not succeed on a retry either
+    if (response.status < 500) return { status: 'drop' };
+    return { status: 'retry' };
+  } catch {
+    return { status: 'retry' };
+  }
+}
+
+// Sends right away when possible; anything that fails goes to the outbox
+export async function sendTelemetry(kind: TelemetryKind, payload: Record<string, unknown>): Promise<void> {
+  if (typeof window === 'undefined') return;
+  if (!navigator.onLine) {
+    enqueue(kind, payload);
+    return;
+  }
+  const result = await post(kind, [payload]);
+  if (result.status === 'retry') enqueue(kind, payload, 1, result.retryAfter);
+}
+
+async function flushKind(kind: TelemetryKind): Promise<void> {
+  for (let request = 0; request < MAX_REQUESTS_PER_FLUSH; request++) {
+    const now = Date.now();
+    const due = readQueue(kind)
+      .filter((item) => item.nextAttempt <= now)
+      .slice(0, QUEUES[kind].batchSize);
+    if (due.length === 0) return;
+
+    const result = await post(kind, due.map((item) => item.payload));
+    const ids = due.map((item) => item.id);
+
+    // Re-read: reports may have been queued while the request was running
+    const queue = readQueue(kind);
+    if (result.status !== 'retry') {
+      writeQueue(kind, queue.filter((item) => ids.indexOf(item.id) === -1));
+      continue;
+    }
+
+    const retryAt = Date.now();
+    writeQueue(
+      kind,
+      queue
+        .map((item) => {
+          if (ids.indexOf(item.id) === -1) return item;
+          const attempts = item.attempts + 1;
+          return { ...item, attempts, nextAttempt: retryAt + backoff(attempts, result.retryAfter) };
+        })
+        .filter((item) => item.attempts < MAX_ATTEMPTS)
+    );
+    // The server is unreachable or busy; the rest waits as well
+    return;
+  }
+}
+
+export function pendingTelemetry(): number {
+  if (typeof window === 'undefined') return 0;
+  return KINDS.reduce((total, kind) => total + readQueue(kind).length, 0);
+}
+
+let flushing: Promise<number> | null = null;
+
+// Replays due items and resolves with the number still waiting
+export function flushTelemetry(): Promise<number> {
+  if (typeof window === 'undefined') return Promise.resolve(0);
+  if (flushing) return flushing;
+  if (!navigator.onLine || pendingTelemetry() === 0) return Promise.resolve(pendingTelemetry());
+
+  const run = () => Promise.all(KINDS.map(flushKind)).then(() => pendingTelemetry());
+  const locks = (navigator as Navigator & { locks?: LockManager }).locks;
+  // Another tab holding the lock is flushing the same queue already
+  const locked = locks
+    ? locks.request(LOCK_NAME, { ifAvailable: true }, (lock) => (lock ? run() : pendingTelemetry()))
+    : run();
+
+  flushing = locked.then(
+    (remaining) => {
+      flushing = null;
+      scheduleRetry();
+      return remaining;
+    },
+    () => {
+      flushing = null;
+      return pendingTelemetry();
+    }
+  );
+  return flushing;
+}
+
+let retryTimer: ReturnType<typeof setTimeout> | null = null;
+
+// Flushes again when the earliest backed-off item becomes due
+function scheduleRetry(): void {
+  if (retryTimer) clearTimeout(retryTimer);
+  retryTimer = null;
+
+  const next = KINDS.reduce(
+    (earliest, kind) => readQueue(kind).reduce((min, item) => Math.min(min, item.nextAttempt), earliest),
+    Infinity
+  );
+  if (next === Infinity) return;
+  retryTimer = setTimeout(() => {
+    retryTimer = null;
+    flushTelemetry();
+  }, Math.max(1000, next - Date.now()));
+}
+
+function requestBackgroundSync(): void {
+  if (!('serviceWorker' in navigator)) return;
+  navigator.serviceWorker.ready
+    .then((registration) => {
+      const sync = (registration as ServiceWorkerRegistration & { sync?: { register(tag: string): Promise<void> } }).sync;
+      return sync && sync.register(TELEMETRY_SYNC_TAG);
+    })
+    .catch(() => undefined);
+}
+
+let replaySetUp = false;
+
+// Called once per page (PerformanceProvider)
+export function setupTelemetryReplay(): void {
+  if (typeof window === 'undefined' || replaySetUp) return;
+  replaySetUp = true;
+
+  window.addEventListener('online', () => {
+    flushTelemetry();
+  });
+
+  if ('serviceWorker' in navigator) {
+    navigator.serviceWorker.addEventListener('message', (event) => {
+      if (!event.data || event.data.type !== 'FLUSH_TELEMETRY') return;
+      flushTelemetry().then((remaining) => {
+        if (event.ports[0]) event.ports[0].postMessage({ remaining });
+      });
+    });
+  }
+
+  // Left over from an earlier visit
+  flushTelemetry();
+}
@@ -0,0 +1,135 @@
+import type { Locale } from '@/data/catalog';
+
+// Form validators shared by the client forms and the API routes,
+// so both sides accept and reject exactly the same input.
+
+export type Validator = (value: string) => string | null;
+
+export interface ContactFields {
+  name: string;
+  email: string;
+  phone: string;
+  subject: string;
+  message: string;
+}
+
+export type ContactFieldErrors = Partial<Record<keyof ContactFields, string>>;
+
+export const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+export const PHONE_REGEX = /^[\d\s\-\+\(\)]{10,}$/;
+
+export const FIELD_LIMITS = {
+  name: 50,
+  email: 254,
+  phone: 30,
+  subject: 100,
+  message: 1000,
+};
+
+const MESSAGES = {
+  tr: {
+    nameRequired: 'İsim gereklidir',
+    nameShort: 'İsim en az 2 karakter olmalıdır',
+    emailRequired: 'E-posta gereklidir',
+    emailInvalid: 'Geçerli bir e-posta adresi girin',
+    phoneRequired: 'Telefon numarası gereklidir',
+    phoneInvalid: 'Geçerli bir telefon numarası girin',
+    subjectRequired: 'Konu gereklidir',
+    subjectShort: 'Konu en az 5 karakter olmalıdır',
+    messageRequired: 'Mesaj gereklidir',
+    messageShort: 'Mesaj en az 10 karakter olmalıdır',
+    tooLong: 'Bu alan çok uzun',
+  },
+  en: {
+    nameRequired: 'Name is required',
+    nameShort: 'Name must be at least 2 characters',
+    emailRequired: 'Email is required',
+    emailInvalid: 'Please enter a valid email address',
+    phoneRequired: 'Phone number is required',
+    phoneInvalid: 'Please enter a valid phone number',
+    subjectRequired: 'Subject is required',
+    subjectShort: 'Subject must be at least 5 characters',
+    messageRequired: 'Message is required',
+    messageShort: 'Message must be at least 10 characters',
+    tooLong: 'This field is too long',
+  },
+  de: {
+    nameRequired: 'Name ist erforderlich',
+    nameShort: 'Der Name muss mindestens 2 Zeichen lang sein',
+    emailRequired: 'E-Mail ist erforderlich',
+    emailInvalid: 'Bitte geben Sie eine gültige E-Mail-Adresse ein',
+    phoneRequired: 'Telefonnummer ist erforderlich',
+    phoneInvalid: 'Bitte geben Sie eine gültige Telefonnummer ein',
+    subjectRequired: 'Betreff ist erforderlich',
+    subjectShort: 'Der Betreff muss mindestens 5 Zeichen lang sein',
+    messageRequired: 'Nachricht ist erforderlich',
+    messageShort: 'Die Nachricht muss mindestens 10 Zeichen lang sein',
+    tooLong: 'Dieses Feld ist zu lang',
+  },
+  ar: {
+    nameRequired: 'الاسم مطلوب',
+    nameShort: 'يجب ألا يقل الاسم عن حرفين',
+    emailRequired: 'البريد الإلكتروني مطلوب',
+    emailInvalid: 'يرجى إدخال بريد إلكتروني صحيح',
+    phoneRequired: 'رقم الهاتف مطلوب',
+    phoneInvalid: 'يرجى إدخال رقم هاتف صحيح',
+    subjectRequired: 'الموضوع مطلوب',
+    subjectShort: 'يجب ألا يقل الموضوع عن 5 أحرف',
+    messageRequired: 'الرسالة مطلوبة',
+    messageShort: 'يجب ألا تقل الرسالة عن 10 أحرف',
+    tooLong: 'هذا الحقل طويل جداً',
+  },
+};
+
+export function getContactValidators(
+  locale: Locale = 'tr',
+  options: { phoneRequired?: boolean } = {}
+): Record<keyof ContactFields, Validator> {
+  const m = MESSAGES[locale];
+  const maxLength = (field: keyof ContactFields, value: string) =>
+    value.trim().length > FIELD_LIMITS[field] ? m.tooLong : null;
+
+  return {
+    name: (value) => {
+      if (!value.trim()) return m.nameRequired;
+      if (value.trim().length < 2) return m.nameShort;
+      return maxLength('name', value);
+    },
+    email: (value) => {
+      if (!value.trim()) return m.emailRequired;
+      if (!EMAIL_REGEX.test(value.trim())) return m.emailInvalid;
+      return maxLength('email', value);
+    },
+    phone: (value) => {
+      if (!value.trim()) return options.phoneRequired ? m.phoneRequired : null;
+      if (!PHONE_REGEX.test(value.trim())) return m.phoneInvalid;
+      return maxLength('phone', value);
+    },
+    subject: (value) => {
+      if (!value.trim()) return m.subjectRequired;
+      if (value.trim().length < 5) return m.subjectShort;
+      return maxLength('subject', value);
+    },
+    message: (value) => {
+      if (!value.trim()) return m.messageRequired;
+      if (value.trim().length < 10) return m.messageShort;
+      return maxLength('message', value);
+    },
+  };
+}
+
+export function validateContact(
+  fields: ContactFields,
+  locale: Locale = 'tr',
+  options: { phoneRequired?: boolean } = {}
+): ContactFieldErrors {
+  const validators = getContactValidators(locale, options);
+  const errors: ContactFieldErrors = {};
+
+  (Object.keys(validators) as Array<keyof ContactFields>).forEach((field) => {
+    const error = validators[field](fields[field] || '');
+    if (error) errors[field] = error;
+  });
+
+  return errors;
+}
@@ -0,0 +1,190 @@
+// Image math for the wall visualizer. Everything works on canvas pixel
+// data in the browser, so the customer's photo never leaves the device.
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+// Wall corners in photo pixels: top left, top right, bottom right, bottom left
+export type Quad = [Point, Point, Point, Point];
+
+// Width and height of wall the product swatch photos show, in metres
+export const SWATCH_SIZE_M = 1;
+
+// null keeps the grout as it is in the swatch photo
+export const GROUT_COLORS = {
+  original: null,
+  white: '#f2f0ea',
+  grey: '#9b9a96',
+  anthracite: '#3b3b3b',
+  beige: '#cbb493',
+};
+
+export type GroutKey = keyof typeof GROUT_COLORS;
+
+export const GROUT_KEYS = Object.keys(GROUT_COLORS) as GroutKey[];
+
+type Matrix = number[]; // 3x3, row-major
+
+// Projective transform taking the unit square (0,0) (1,0) (1,1) (0,1) to
+// the quad's corners (Heckbert, "Fundamentals of Texture Mapping", 1989)
+export function squareToQuad([p0, p1, p2, p3]: Quad): Matrix {
+  const dx1 = p1.x - p2.x;
+  const dx2 = p3.x - p2.x;
+  const dx3 = p0.x - p1.x + p2.x - p3.x;
+  const dy1 = p1.y - p2.y;
+  const dy2 = p3.y - p2.y;
+  const dy3 = p0.y - p1.y + p2.y - p3.y;
+
+  let g = 0;
+  let h = 0;
+  if (dx3 !== 0 || dy3 !== 0) {
+    const det = dx1 * dy2 - dx2 * dy1;
+    g = (dx3 * dy2 - dx2 * dy3) / det;
+    h = (dx1 * dy3 - dx3 * dy1) / det;
+  }
+
+  return [
+    p1.x - p0.x + g * p1.x, p3.x - p0.x + h * p3.x, p0.x,
+    p1.y - p0.y + g * p1.y, p3.y - p0.y + h * p3.y, p0.y,
+    g, h, 1,
+  ];
+}
+
+export function invert(m: Matrix): Matrix | null {
+  const [a, b, c, d, e, f, g, h, i] = m;
+  const A = e * i - f * h;
+  const B = f * g - d * i;
+  const C = d * h - e * g;
+  const det = a * A + b * B + c * C;
+  if (!det) return null;
+  return [
+    A / det, (c * h - b * i) / det, (b * f - c * e) / det,
+    B / det, (a * i - c * g) / det, (c * d - a * f) / det,
+    C / det, (b * g - a * h) / det, (a * e - b * d) / det,
+  ];
+}
+
+const distance = (a: Point, b: Point) => Math.sqrt((a.x - b.x) * (a.x - b.x) + (a.y - b.y) * (a.y - b.y));
+
+// Longest on-screen edge of one swatch tile, used to pick a texture
+// resolution that neither blurs nor shimmers
+export function tilePixelSize(quad: Quad, tiles: { x: number; y: number }): number {
+  const across = Math.max(distance(quad[0], quad[1]), distance(quad[3], quad[2])) / tiles.x;
+  const down = Math.max(distance(quad[0], quad[3]), distance(quad[1], quad[2])) / tiles.y;
+  return Math.max(across, down);
+}
+
+const luma = (r: number, g: number, b: number) => 0.299 * r + 0.587 * g + 0.114 * b;
+
+const parseHex = (hex: string) => {
+  const value = parseInt(hex.slice(1), 16);
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255];
+};
+
+// Swatches show stones (or bricks) and the grout between them. Two-means
+// clustering on a sample of the pixels separates the two; the smaller
+// cluster is the grout, which is repainted keeping its light and shadow.
+export function recolorGrout(texture: ImageData, hex: string): void {
+  const { data } = texture;
+  const pixels = data.length / 4;
+  const step = Math.max(1, Math.floor(pixels / 4096));
+
+  const sample: number[][] = [];
+  for (let i = 0; i < pixels; i += step) {
+    sample.push([data[i * 4], data[i * 4 + 1], data[i * 4 + 2]]);
+  }
+  const byLuma = sample.slice().sort((a, b) => luma(a[0], a[1], a[2]) - luma(b[0], b[1], b[2]));
+  const centers = [byLuma[0].slice(), byLuma[byLuma.length - 1].slice()];
+
+  const nearest = (r: number, g: number, b: number) => {
+    const d0 = (r - centers[0][0]) ** 2 + (g - centers[0][1]) ** 2 + (b - centers[0][2]) ** 2;
+    const d1 = (r - centers[1][0]) ** 2 + (g - centers[1][1]) ** 2 + (b - centers[1][2]) ** 2;
+    return d0 <= d1 ? 0 : 1;
+  };
+
+  const counts = [0, 0];
+  for (let iteration = 0; iteration < 8; iteration++) {
+    const sums = [[0, 0, 0], [0, 0, 0]];
+    counts[0] = counts[1] = 0;
+    sample.forEach(([r, g, b]) => {
+      const k = nearest(r, g, b);
+      sums[k][0] += r;
+      sums[k][1] += g;
+      sums[k][2] += b;
+      counts[k] += 1;
+    });
+    [0, 1].forEach((k) => {
+      if (counts[k]) centers[k] = sums[k].map((sum) => sum / counts[k]);
+    });
+  }
+
+  const grout = counts[0] <= counts[1] ? 0 : 1;
+  const groutLuma = Math.max(1, luma(centers[grout][0], centers[grout][1], centers[grout][2]));
+  const [r, g, b] = parseHex(hex);
+
+  for (let i = 0; i < data.length; i += 4) {
+    if (nearest(data[i], data[i + 1], data[i + 2]) !== grout) continue;
+    const shade = Math.min(1.4, Math.max(0.6, luma(data[i], data[i + 1], data[i + 2]) / groutLuma));
+    data[i] = Math.min(255, r * shade);
+    data[i + 1] = Math.min(255, g * shade);
+    data[i + 2] = Math.min(255, b * shade);
+  }
+}
+
+// Paints the tiled texture into the quad of the photo, in place. The
+// photo's own brightness modulates the texture, so shadows and light
+// falling on the wall stay visible.
+export function renderWall(photo: ImageData, texture: ImageData, quad: Quad, tiles: { x: number; y: number }): void {
+  const inverse = invert(squareToQuad(quad));
+  if (!inverse) return;
+
+  const { width, data } = photo;
+  const xs = quad.map((p) => p.x);
+  const ys = quad.map((p) => p.y);
+  const minX = Math.max(0, Math.floor(Math.min(...xs)));
+  const maxX = Math.min(width - 1, Math.ceil(Math.max(...xs)));
+  const minY = Math.max(0, Math.floor(Math.min(...ys)));
+  const maxY = Math.min(photo.height - 1, Math.ceil(Math.max(...ys)));
+
+  // Texture coordinates of a photo pixel, or null outside the wall
+  const toWall = (x: number, y: number): Point | null => {
+    const w = inverse[6] * x + inverse[7] * y + inverse[8];
+    const u = (inverse[0] * x + inverse[1] * y + inverse[2]) / w;
+    const v = (inverse[3] * x + inverse[4] * y + inverse[5]) / w;
+    return u < 0 || u > 1 || v < 0 || v > 1 ? null : { x: u, y: v };
+  };
+
+  // First pass: average brightness of the wall
+  let lumaSum = 0;
+  let count = 0;
+  for (let y = minY; y <= maxY; y++) {
+    for (let x = minX; x <= maxX; x++) {
+      if (!toWall(x, y)) continue;
+      const i = (y * width + x) * 4;
+      lumaSum += luma(data[i], data[i + 1], data[i + 2]);
+      count += 1;
+    }
+  }
+  if (count === 0) return;
+  const meanLuma = Math.max(1, lumaSum / count);
+
+  const tw = texture.width;
+  const th = texture.height;
+  for (let y = minY; y <= maxY; y++) {
+    for (let x = minX; x <= maxX; x++) {
+      const uv = toWall(x, y);
+      if (!uv) continue;
+      const i = (y * width + x) * 4;
+      const tu = (uv.x * tiles.x) % 1;
+      const tv = (uv.y * tiles.y) % 1;
+      const t = (Math.min(th - 1, Math.floor(tv * th)) * tw + Math.min(tw - 1, Math.floor(tu * tw))) * 4;
+      // Half of the photo's light and shadow, limited so dark corners stay readable
+      const shade = Math.min(1.25, Math.max(0.6, 0.5 + 0.5 * (luma(data[i], data[i + 1], data[i + 2]) / meanLuma)));
+      data[i] = Math.min(255, texture.data[t] * shade);
+      data[i + 1] = Math.min(255, texture.data[t + 1] * shade);
+      data[i + 2] = Math.min(255, texture.data[t + 2] * shade);
+    }
+  }
+}
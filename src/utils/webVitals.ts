@@ -0,0 +1,191 @@
+"use client";
+
+// Field Web Vitals: LCP, CLS, INP and TTFB as visitors experience them,
+// measured once per page load and sent to /api/analytics with the device
+// class and the build, for the admin performance page.
+//
+// Values follow the web-vitals definitions closely enough for p75s:
+// LCP stops at the first input, CLS is the largest session window, INP
+// the worst interaction (one in 50 ignored). They are reported when the
+// page is first hidden, which is the last moment that reliably runs.
+// Client-side navigations count towards the page the visit started on.
+
+import type { DeviceClass } from '@/lib/analytics';
+import { sendTelemetry } from './telemetryQueue';
+
+export type WebVitalName = 'LCP' | 'CLS' | 'INP' | 'TTFB';
+
+// Upper case as in the web-vitals library, which also keeps them apart from
+// the per-component lcp/cls/fid events of usePerformanceMonitoring
+export const WEB_VITALS: WebVitalName[] = ['LCP', 'CLS', 'INP', 'TTFB'];
+
+// Performance thresholds (Core Web Vitals based)
+export const PERFORMANCE_THRESHOLDS = {
+  LCP: { good: 2500, needsImprovement: 4000 }, // Largest Contentful Paint
+  FID: { good: 100, needsImprovement: 300 },   // First Input Delay
+  INP: { good: 200, needsImprovement: 500 },   // Interaction to Next Paint
+  CLS: { good: 0.1, needsImprovement: 0.25 },  // Cumulative Layout Shift
+  FCP: { good: 1800, needsImprovement: 3000 }, // First Contentful Paint
+  TTFB: { good: 800, needsImprovement: 1800 }, // Time to First Byte
+  TTI: { good: 3800, needsImprovement: 7300 }, // Time to Interactive
+  TBT: { good: 200, needsImprovement: 600 },   // Total Blocking Time
+  memoryUsage: { good: 50 * 1024 * 1024, needsImprovement: 100 * 1024 * 1024 }, // 50MB, 100MB
+  resizeEvents: { good: 5, needsImprovement: 15 }, // per minute
+  layoutShifts: { good: 3, needsImprovement: 10 }  // per minute
+};
+
+export type VitalRating = 'good' | 'needs-improvement' | 'poor';
+
+export function rateVital(name: WebVitalName, value: number): VitalRating {
+  const threshold = PERFORMANCE_THRESHOLDS[name];
+  if (value <= threshold.good) return 'good';
+  if (value <= threshold.needsImprovement) return 'needs-improvement';
+  return 'poor';
+}
+
+export const BUILD_ID = process.env.NEXT_PUBLIC_BUILD_ID || 'dev';
+
+// Same breakpoints as the site's CSS: phones below 768px, tablets up to
+// 1024px or any larger touch-only screen
+export function getDeviceClass(): DeviceClass {
+  const width = Math.min(window.innerWidth, window.screen ? window.screen.width : window.innerWidth);
+  const coarse = typeof window.matchMedia === 'function' && window.matchMedia('(pointer: coarse)').matches;
+  if (width < 768) return 'mobile';
+  if (width < 1024 || coarse) return 'tablet';
+  return 'desktop';
+}
+
+interface LayoutShiftEntry extends PerformanceEntry {
+  value: number;
+  hadRecentInput: boolean;
+}
+
+interface EventTimingEntry extends PerformanceEntry {
+  interactionId?: number;
+}
+
+// Starts an observer, or does nothing where the entry type is unsupported
+function observe(type: string, callback: (entries: PerformanceEntry[]) => void, options: Record<string, unknown> = {}): PerformanceObserver | null {
+  try {
+    if (PerformanceObserver.supportedEntryTypes.indexOf(type) === -1) return null;
+    const observer = new PerformanceObserver((list) => callback(list.getEntries()));
+    observer.observe({ type, buffered: true, ...options } as PerformanceObserverInit);
+    return observer;
+  } catch {
+    return null;
+  }
+}
+
+function send(name: WebVitalName, value: number, url: string): void {
+  sendTelemetry('analytics', {
+    type: 'performance',
+    metric: name,
+    value: name === 'CLS' ? Math.round(value * 10000) / 10000 : Math.round(value),
+    unit: name === 'CLS' ? 'score' : 'ms',
+    component: 'web-vitals',
+    device: getDeviceClass(),
+    build: BUILD_ID,
+    timestamp: Date.now(),
+    url,
+  }).catch((error) => {
+    console.warn('Failed to send Web Vitals:', error);
+  });
+}
+
+let started = false;
+
+// Called once per page (PerformanceProvider)
+export function reportWebVitals(): void {
+  if (typeof window === 'undefined' || started || !('PerformanceObserver' in window)) return;
+  started = true;
+
+  // Client-side navigations change location before the page is hidden
+  const landingUrl = window.location.href;
+
+  const navigation = performance.getEntriesByType('navigation')[0] as
+    | (PerformanceNavigationTiming & { activationStart?: number })
+    | undefined;
+  // Prerendered pages count from when they were shown
+  const activationStart = (navigation && navigation.activationStart) || 0;
+
+  // TTFB is known as soon as the page runs
+  if (navigation && navigation.responseStart > 0) {
+    send('TTFB', Math.max(0, navigation.responseStart - activationStart), landingUrl);
+  }
+
+  // A page opened in a background tab has no meaningful LCP
+  const hiddenAtStart = document.visibilityState === 'hidden';
+
+  let lcp = 0;
+  let lcpFinal = false;
+  const lcpObserver = observe('largest-contentful-paint', (entries) => {
+    if (lcpFinal) return;
+    const last = entries[entries.length - 1];
+    if (last) lcp = Math.max(0, last.startTime - activationStart);
+  });
+
+  // Later, larger paints are caused by the visitor, not by the load
+  const stopLcp = () => {
+    lcpFinal = true;
+    if (lcpObserver) lcpObserver.disconnect();
+    ['keydown', 'pointerdown'].forEach((type) => window.removeEventListener(type, stopLcp, true));
+  };
+  ['keydown', 'pointerdown'].forEach((type) => window.addEventListener(type, stopLcp, true));
+
+  // Shifts less than 1s apart form a session window of at most 5s
+  let cls = 0;
+  let windowValue = 0;
+  let windowStart = 0;
+  let windowLast = 0;
+  const clsObserver = observe('layout-shift', (entries) => {
+    (entries as LayoutShiftEntry[]).forEach((entry) => {
+      if (entry.hadRecentInput) return;
+      if (windowValue > 0 && entry.startTime - windowLast < 1000 && entry.startTime - windowStart < 5000) {
+        windowValue += entry.value;
+      } else {
+        windowValue = entry.value;
+        windowStart = entry.startTime;
+      }
+      windowLast = entry.startTime;
+      cls = Math.max(cls, windowValue);
+    });
+  });
+
+  // Longest duration per interaction; the worst ones are kept
+  const interactions: Record<number, number> = {};
+  let interactionCount = 0;
+  const handleEvents = (entries: PerformanceEntry[]) => {
+    (entries as EventTimingEntry[]).forEach((entry) => {
+      if (!entry.interactionId) return;
+      if (!(entry.interactionId in interactions)) interactionCount += 1;
+      interactions[entry.interactionId] = Math.max(interactions[entry.interactionId] || 0, entry.duration);
+    });
+  };
+  observe('event', handleEvents, { durationThreshold: 40 });
+  observe('first-input', handleEvents);
+
+  const inp = () => {
+    const durations = Object.keys(interactions)
+      .map((id) => interactions[Number(id)])
+      .sort((a, b) => b - a);
+    if (durations.length === 0) return null;
+    // Short interactions are never observed, but the browser may count them
+    const count = (performance as Performance & { interactionCount?: number }).interactionCount || interactionCount;
+    return durations[Math.min(durations.length - 1, Math.floor(count / 50))];
+  };
+
+  // Safari may still report the page as visible during pagehide
+  const report = (event: Event) => {
+    if (event.type !== 'pagehide' && document.visibilityState !== 'hidden') return;
+    document.removeEventListener('visibilitychange', report);
+    window.removeEventListener('pagehide', report);
+    stopLcp();
+
+    if (!hiddenAtStart && lcp > 0) send('LCP', lcp, landingUrl);
+    if (clsObserver) send('CLS', cls, landingUrl);
+    const worst = inp();
+    if (worst !== null) send('INP', worst, landingUrl);
+  };
+  document.addEventListener('visibilitychange', report);
+  window.addEventListener('pagehide', report);
+}